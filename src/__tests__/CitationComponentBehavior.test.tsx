@@ -160,6 +160,21 @@ describe("CitationComponent behaviorConfig", () => {
       const amberCheck = container.querySelector("[data-dc-indicator='partial']");
       expect(amberCheck).toBeInTheDocument();
     });
+
+    it("shows warning icon instead of a spinner for error status", () => {
+      const errorVerification: Verification = {
+        status: "error",
+        verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+      };
+
+      const { container } = render(<CitationComponent citation={baseCitation} verification={errorVerification} />);
+
+      expect(container.querySelector("[data-dc-indicator='pending']")).not.toBeInTheDocument();
+      expect(container.querySelector("[data-dc-indicator='error']")).not.toBeInTheDocument();
+      const warning = container.querySelector("[data-dc-indicator='verification-error']");
+      expect(warning).toBeInTheDocument();
+      expect(warning?.getAttribute("aria-label")).toBe("Verification error");
+    });
   });
 
   // ==========================================================================
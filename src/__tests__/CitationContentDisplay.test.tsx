@@ -21,6 +21,7 @@ function makeProps(overrides: Partial<CitationContentDisplayProps> = {}): Citati
     isMiss: false,
     isPartialMatch: false,
     isPending: false,
+    isError: false,
   };
 
   const indicatorProps: CitationStatusIndicatorProps = {
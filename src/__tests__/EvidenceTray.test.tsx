@@ -11,6 +11,7 @@ const baseStatus: CitationStatus = {
   isMiss: false,
   isPartialMatch: false,
   isPending: false,
+  isError: false,
 };
 
 const baseVerification: Verification = {
@@ -84,6 +85,7 @@ describe("EvidenceTray interaction styles", () => {
       isMiss: true,
       isPartialMatch: false,
       isPending: false,
+      isError: false,
     };
     const missVerification: Verification = {
       status: "not_found",
@@ -115,6 +117,7 @@ describe("EvidenceTray interaction styles", () => {
       isMiss: true,
       isPartialMatch: false,
       isPending: false,
+      isError: false,
     };
     const onExpand = jest.fn<() => void>();
     const missVerification: Verification = {
@@ -167,6 +170,7 @@ describe("EvidenceTray interaction styles", () => {
       isMiss: true,
       isPartialMatch: false,
       isPending: false,
+      isError: false,
     };
     const missVerification: Verification = {
       status: "not_found",
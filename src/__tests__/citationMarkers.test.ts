@@ -0,0 +1,135 @@
+import { describe, expect, it } from "@jest/globals";
+import { renderCitationsAsMarkdown } from "../markdown/renderMarkdown.js";
+import { formatCitationMarker, parseCitationMarker } from "../parsing/citationMarkers.js";
+import { getCitationMarkerIds, replaceCitationMarkers } from "../parsing/citationParser.js";
+import { createConversationCitationRegistry } from "../parsing/conversationCitationRegistry.js";
+import { parseCitationResponse } from "../parsing/parseCitationResponse.js";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+import { renderCitationsAsHtml } from "../rendering/html/htmlRenderer.js";
+import { renderCitationsForSlack } from "../rendering/slack/slackRenderer.js";
+import { renderCitationsForTerminal } from "../rendering/terminal/terminalRenderer.js";
+
+function response(text: string, ids: number[]): string {
+  const data = ids.map(id => ({
+    id,
+    attachment_id: "att1",
+    full_phrase: `Fact number ${id}.`,
+    anchor_text: `Fact ${id}`,
+    page_id: `page_number_${id}_index_${id - 1}`,
+    line_ids: [1],
+  }));
+  return `${text}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(data)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+describe("parseCitationMarker", () => {
+  it("parses single, list, range and mixed markers", () => {
+    expect(parseCitationMarker("[2]")).toEqual([2]);
+    expect(parseCitationMarker("[1, 2]")).toEqual([1, 2]);
+    expect(parseCitationMarker("[1,2]")).toEqual([1, 2]);
+    expect(parseCitationMarker("[3-5]")).toEqual([3, 4, 5]);
+    expect(parseCitationMarker("[3–5]")).toEqual([3, 4, 5]);
+    expect(parseCitationMarker("[1, 3 - 5]")).toEqual([1, 3, 4, 5]);
+  });
+
+  it("drops duplicates and keeps the first number of a reversed range", () => {
+    expect(parseCitationMarker("[2, 1-3]")).toEqual([2, 1, 3]);
+    expect(parseCitationMarker("[5-3]")).toEqual([5]);
+  });
+
+  it("returns null for anything that is not a whole marker", () => {
+    expect(parseCitationMarker("text")).toBeNull();
+    expect(parseCitationMarker("[a]")).toBeNull();
+    expect(parseCitationMarker("[1, ]")).toBeNull();
+    expect(parseCitationMarker(" [1]")).toBeNull();
+  });
+});
+
+describe("formatCitationMarker", () => {
+  it("collapses runs of three or more into ranges", () => {
+    expect(formatCitationMarker([4])).toBe("[4]");
+    expect(formatCitationMarker([1, 2])).toBe("[1, 2]");
+    expect(formatCitationMarker([1, 3, 4, 5])).toBe("[1, 3-5]");
+    expect(formatCitationMarker([7, 2, 3, 4])).toBe("[7, 2-4]");
+  });
+});
+
+describe("grouped markers in parsing helpers", () => {
+  it("getCitationMarkerIds expands groups in order", () => {
+    expect(getCitationMarkerIds("A [1, 2] b [3-5] c [6][7]")).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("replaceCitationMarkers handles a group as one marker", () => {
+    expect(replaceCitationMarkers("Growth [1, 2].")).toBe("Growth .");
+    expect(replaceCitationMarkers("Growth [1-2].", { replacer: id => `<${id}>` })).toBe("Growth <1><2>.");
+    expect(
+      replaceCitationMarkers("Growth [1, 2].", {
+        citationMap: new Map([
+          [1, { anchor_text: "45%" }],
+          [2, { anchor_text: "Q4" }],
+        ]),
+        showAnchorText: true,
+      }),
+    ).toBe("Growth 45%, Q4.");
+  });
+
+  it("replaceCitationMarkers keeps verification status in one bracket pair", () => {
+    const output = replaceCitationMarkers("Growth [1, 2].", { verifications: {}, showVerificationStatus: true });
+    expect(output).toMatch(/^Growth \[1.*, 2.*\]\.$/);
+  });
+
+  it("parseCitationResponse keeps grouped markers whole in split output", () => {
+    const result = parseCitationResponse(response("Growth [1, 2] and margin [3-4].", [1, 2, 3, 4]));
+    expect(result.visibleText.split(result.splitPattern)).toEqual(["Growth ", "[1, 2]", " and margin ", "[3-4]", "."]);
+  });
+
+  it("the conversation registry rewrites grouped markers to thread-wide numbers", () => {
+    const registry = createConversationCitationRegistry();
+    registry.ingest(parseCitationResponse(response("Earlier [9].", [9])));
+    const turn = registry.ingest(parseCitationResponse(response("Now [1, 2].", [1, 2])));
+    expect(turn.visibleText).toBe("Now [2, 3].");
+  });
+});
+
+describe("compact citation groups in renderers", () => {
+  const input = response("Growth [1, 2] and margin [3].", [1, 2, 3]);
+
+  it("renders groups separately unless compactGroups is set", () => {
+    const separate = renderCitationsAsMarkdown(input, { variant: "brackets", linkStyle: "none" });
+    expect(separate.markdown).toBe("Growth [1◌][2◌] and margin [3◌].");
+
+    const compact = renderCitationsAsMarkdown(input, { variant: "brackets", linkStyle: "none", compactGroups: true });
+    expect(compact.markdown).toBe("Growth [1◌, 2◌] and margin [3◌].");
+    expect(compact.citations).toHaveLength(3);
+  });
+
+  it("joins superscript group members with a separator", () => {
+    const output = renderCitationsAsMarkdown(input, {
+      variant: "superscript",
+      linkStyle: "none",
+      indicatorStyle: "none",
+      compactGroups: true,
+    });
+    expect(output.markdown).toBe("Growth ¹,² and margin ³.");
+  });
+
+  it("leaves non-bracket variants unchanged", () => {
+    const output = renderCitationsAsMarkdown(input, { variant: "footnote", compactGroups: true });
+    expect(output.markdown).toBe("Growth [^1][^2] and margin [^3].");
+  });
+
+  it("compacts Slack, terminal and HTML brackets", () => {
+    expect(renderCitationsForSlack(input, { compactGroups: true }).message).toBe("Growth [1◌, 2◌] and margin [3◌].");
+    expect(renderCitationsForTerminal(input, { compactGroups: true, color: false }).plain).toBe(
+      "Growth [1◌, 2◌] and margin [3◌].",
+    );
+
+    const html = renderCitationsAsHtml(input, { compactGroups: true, includeTooltips: false }).html;
+    expect(html).toContain('<span class="dc-citation-group">[');
+    expect(html.match(/dc-citation-group/g)).toHaveLength(1);
+  });
+
+  it("treats adjacent markers as a group", () => {
+    const output = renderCitationsForSlack(response("Growth [1][2].", [1, 2]), { compactGroups: true });
+    expect(output.message).toBe("Growth [1◌, 2◌].");
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  CITATION_PROMPT,
+  CITATION_REMINDER,
+  CITATION_TOOL_PROMPT,
+  CITATION_TOOL_REMINDER,
+  wrapCitationPrompt,
+  wrapSystemCitationPrompt,
+} from "../prompts/citationPrompts.js";
+import {
+  buildCitationPrompt,
+  CITATION_PROMPT_STRINGS,
+  CITATION_PROMPT_VERSION,
+  getCitationPromptVersion,
+} from "../prompts/citationPromptTemplate.js";
+
+describe("buildCitationPrompt", () => {
+  it("builds the default prompts and reminders", () => {
+    expect(buildCitationPrompt()).toEqual({
+      prompt: CITATION_PROMPT,
+      reminder: CITATION_REMINDER,
+      version: CITATION_PROMPT_VERSION,
+    });
+    const tool = buildCitationPrompt({ citationMode: "tool_call" });
+    expect(tool.prompt).toBe(CITATION_TOOL_PROMPT);
+    expect(tool.reminder).toBe(CITATION_TOOL_REMINDER);
+    expect(tool.prompt).not.toContain("### Example Response");
+  });
+
+  it("replaces or omits sections", () => {
+    const { prompt } = buildCitationPrompt({
+      sections: { example: false, shorthand: "### Keys\nUse full key names only." },
+    });
+    expect(prompt).not.toContain("### Example Response");
+    expect(prompt).not.toContain("Shorthand Keys");
+    expect(prompt).toContain("### Keys\nUse full key names only.");
+    expect(prompt.indexOf("### Keys")).toBeLessThan(prompt.indexOf("### JSON Field Rules"));
+  });
+
+  it("applies model-family presets", () => {
+    expect(buildCitationPrompt({ preset: "openai" }).prompt).toContain("do NOT wrap it in a ``` code block");
+    expect(buildCitationPrompt({ preset: "gemini" }).prompt).toContain("do NOT repeat them");
+
+    const small = buildCitationPrompt({ preset: "small" });
+    expect(small.version).toBe(`${CITATION_PROMPT_VERSION}+small`);
+    expect(small.prompt).not.toContain("Shorthand Keys");
+    expect(small.prompt).toContain("The company reported strong growth [1].\n");
+    expect(small.prompt).not.toContain('"id": 2');
+  });
+
+  it("localizes the instructions but keeps the JSON format", () => {
+    const { prompt, reminder, version } = buildCitationPrompt({ locale: "de", isAudioVideo: true });
+    expect(version).toBe(`${CITATION_PROMPT_VERSION}+de`);
+    expect(prompt).toContain("## PFLICHT: Zitierformat für Audio/Video");
+    expect(prompt).toContain('"timestamps": {"start_time"');
+    expect(reminder).toContain("mit Zeitstempeln");
+    expect(buildCitationPrompt({ locale: "es", citationMode: "tool_call" }).prompt).toContain("herramienta `cite`");
+  });
+
+  it("labels custom strings and customizations in the version", () => {
+    const strings = { ...CITATION_PROMPT_STRINGS.en, title: { document: "Cite everything", audioVideo: "Cite media" } };
+    expect(buildCitationPrompt({ locale: strings }).version).toBe(`${CITATION_PROMPT_VERSION}+custom`);
+    expect(buildCitationPrompt({ locale: strings, versionLabel: "acme-3" }).version).toBe(
+      `${CITATION_PROMPT_VERSION}+custom.acme-3`,
+    );
+    expect(buildCitationPrompt({ preset: "small", locale: "es", versionLabel: "v2" }).version).toBe(
+      `${CITATION_PROMPT_VERSION}+small.es.v2`,
+    );
+    expect(buildCitationPrompt({ sections: { example: false } }).version).toBe(`${CITATION_PROMPT_VERSION}+custom`);
+    expect(buildCitationPrompt({ preset: "gemini", sections: { rules: "### Rules" } }).version).toBe(
+      `${CITATION_PROMPT_VERSION}+gemini.custom`,
+    );
+  });
+
+  it("rejects version labels that are not semver build identifiers", () => {
+    expect(() => buildCitationPrompt({ versionLabel: 'x" onload="y' })).toThrow("versionLabel");
+    expect(() => buildCitationPrompt({ versionLabel: "acme 3" })).toThrow("versionLabel");
+    expect(() => buildCitationPrompt({ versionLabel: "acme..3" })).toThrow("versionLabel");
+    expect(buildCitationPrompt({ versionLabel: "acme.build-7" }).version).toBe(
+      `${CITATION_PROMPT_VERSION}+acme.build-7`,
+    );
+  });
+
+  it("uses tool-call preset rules in tool-call mode", () => {
+    for (const preset of ["openai", "gemini", "small"] as const) {
+      const { prompt } = buildCitationPrompt({ preset, citationMode: "tool_call" });
+      expect(prompt).not.toContain("citation block");
+      expect(prompt).toContain(CITATION_PROMPT_STRINGS.en.presetRules[preset].toolCall.replace("{tool}", "cite"));
+    }
+    expect(buildCitationPrompt({ preset: "small", locale: "de", citationMode: "tool_call" }).prompt).toContain(
+      "Die Argumente von `cite`",
+    );
+  });
+});
+
+describe("getCitationPromptVersion", () => {
+  it("reads the version from a wrapped system prompt", () => {
+    const enhanced = wrapSystemCitationPrompt({ systemPrompt: "Be helpful.", template: { preset: "gemini" } });
+    expect(getCitationPromptVersion(enhanced)).toBe(`${CITATION_PROMPT_VERSION}+gemini`);
+    expect(getCitationPromptVersion("Be helpful.")).toBeUndefined();
+  });
+
+  it("matches the promptVersion returned by wrapCitationPrompt", () => {
+    const result = wrapCitationPrompt({
+      systemPrompt: "Be helpful.",
+      userPrompt: "Summarize.",
+      deepTextPromptPortion: "<page_number_1_index_0>Text</page_number_1_index_0>",
+      template: { locale: "es" },
+    });
+    expect(result.promptVersion).toBe(getCitationPromptVersion(result.enhancedSystemPrompt));
+    expect(result.enhancedUserPrompt).toContain("PARA y COMPRUEBA");
+  });
+});
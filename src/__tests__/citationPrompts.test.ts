@@ -263,3 +263,103 @@ describe("wrapSystemCitationPrompt maintains wrap strategy", () => {
     expect(result.indexOf("My system prompt here")).toBeLessThan(result.lastIndexOf("<citation-reminder>"));
   });
 });
+
+describe("wrapCitationPrompt maxPromptTokens packing", () => {
+  const page = (n: number, body: string) =>
+    `<page_number_${n}_index_${n - 1}>\n<line id="${n}">${body}</line>\n</page_number_${n}_index_${n - 1}>\n`;
+  const doc = (id: string, pages: string[]) =>
+    `<attachment_text attachment_id='${id}'>\n${pages.map((body, i) => page(i + 1, body)).join("")}</attachment_text>`;
+  const filler = (word: string) => `${word} `.repeat(40);
+  const base = { systemPrompt: "System.", userPrompt: "Question?" };
+  const charTokens = (text: string) => text.length;
+
+  it("leaves prompts unchanged and reports no drops when everything fits", () => {
+    const deepTextPromptPortion = doc("att1", [filler("alpha"), filler("beta")]);
+    const unbounded = wrapCitationPrompt({ ...base, deepTextPromptPortion });
+    const result = wrapCitationPrompt({ ...base, deepTextPromptPortion, maxPromptTokens: 1_000_000 });
+
+    expect(result.enhancedUserPrompt).toBe(unbounded.enhancedUserPrompt);
+    expect(result.droppedPages).toEqual([]);
+    expect(result.estimatedTokens).toBeGreaterThan(0);
+    expect(unbounded.droppedPages).toBeUndefined();
+  });
+
+  it("drops whole pages in document order by default and keeps markup intact", () => {
+    const deepTextPromptPortion = doc("att1", [filler("alpha"), filler("beta"), filler("gamma")]);
+    const full = wrapCitationPrompt({ ...base, deepTextPromptPortion });
+    const pageTokens = page(3, filler("gamma")).length;
+    const maxPromptTokens = full.enhancedSystemPrompt.length + full.enhancedUserPrompt.length - pageTokens;
+
+    const result = wrapCitationPrompt({ ...base, deepTextPromptPortion, maxPromptTokens, estimateTokens: charTokens });
+
+    expect(result.droppedPages).toEqual([
+      { attachmentId: "att1", pageNumber: 3, portionIndex: 0, estimatedTokens: pageTokens },
+    ]);
+    expect(result.enhancedUserPrompt).toContain(page(1, filler("alpha")));
+    expect(result.enhancedUserPrompt).toContain(page(2, filler("beta")));
+    expect(result.enhancedUserPrompt).not.toContain("gamma");
+    expect(result.enhancedUserPrompt).toContain("</attachment_text>");
+    expect(result.estimatedTokens).toBeLessThanOrEqual(maxPromptTokens);
+  });
+
+  it("fills the remaining budget with the first lines of the next page", () => {
+    const lines = (n: number, word: string) =>
+      Array.from({ length: 5 }, (_, i) => `<line id="${n}${i}">${filler(`${word}${i}`)}</line>\n`).join("");
+    const longPage = (n: number, word: string) =>
+      `<page_number_${n}_index_${n - 1}>\n${lines(n, word)}</page_number_${n}_index_${n - 1}>\n`;
+    const deepTextPromptPortion = `<attachment_text attachment_id='att1'>\n${longPage(1, "alpha")}${longPage(2, "beta")}</attachment_text>`;
+    const full = wrapCitationPrompt({ ...base, deepTextPromptPortion });
+    const lineTokens = `<line id="20">${filler("beta0")}</line>\n`.length;
+    const maxPromptTokens = full.enhancedSystemPrompt.length + full.enhancedUserPrompt.length - 2.5 * lineTokens;
+
+    const result = wrapCitationPrompt({ ...base, deepTextPromptPortion, maxPromptTokens, estimateTokens: charTokens });
+
+    expect(result.enhancedUserPrompt).toContain(longPage(1, "alpha"));
+    expect(result.enhancedUserPrompt).toContain(`<line id="21">${filler("beta1")}</line>\n</page_number_2_index_1>`);
+    expect(result.enhancedUserPrompt).not.toContain("beta2");
+    expect(result.droppedPages).toEqual([
+      {
+        attachmentId: "att1",
+        pageNumber: 2,
+        portionIndex: 0,
+        estimatedTokens: longPage(2, "beta").length,
+        truncated: true,
+      },
+    ]);
+    expect(result.estimatedTokens).toBeLessThanOrEqual(maxPromptTokens);
+  });
+
+  it("keeps the most relevant pages across documents", () => {
+    const portions = [doc("att1", [filler("alpha"), filler("beta")]), doc("att2", [filler("revenue")])];
+    const full = wrapCitationPrompt({ ...base, deepTextPromptPortion: portions });
+    const maxPromptTokens =
+      full.enhancedSystemPrompt.length +
+      full.enhancedUserPrompt.length -
+      page(1, filler("alpha")).length -
+      page(2, filler("beta")).length;
+
+    const result = wrapCitationPrompt({
+      ...base,
+      deepTextPromptPortion: portions,
+      maxPromptTokens,
+      estimateTokens: charTokens,
+      pageRelevance: ({ text, attachmentId }) => (text.includes("revenue") ? 2 : attachmentId === "att1" ? 0 : 1),
+    });
+
+    expect(result.droppedPages?.map(dropped => [dropped.attachmentId, dropped.pageNumber])).toEqual([
+      ["att1", 1],
+      ["att1", 2],
+    ]);
+    expect(result.enhancedUserPrompt).toContain("revenue");
+    expect(result.enhancedUserPrompt).toContain("<attachment_text attachment_id='att1'>");
+  });
+
+  it("packs bracketed [Page N] text and reports every page when nothing fits", () => {
+    const deepTextPromptPortion = "[Page 1]\n[L1] First page.\n[Page 2]\n[L2] Second page.";
+    const result = wrapCitationPrompt({ ...base, deepTextPromptPortion, maxPromptTokens: 10 });
+
+    expect(result.droppedPages?.map(dropped => dropped.pageNumber)).toEqual([1, 2]);
+    expect(result.enhancedUserPrompt).not.toContain("First page");
+    expect(result.estimatedTokens).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "@jest/globals";
+import { citationDataToCitation, parseCitationData } from "../parsing/citationParser.js";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+import { buildCitationRepairPrompt, mergeCitationRepair } from "../prompts/citationRepair.js";
+import type { Verification } from "../types/verification.js";
+import { getCitationKey } from "../utils/citationKey.js";
+
+// ─── Helpers ───────────────────────────────────────────────────
+
+function makeResponse(visibleText: string, data: unknown): string {
+  return `${visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${typeof data === "string" ? data : JSON.stringify(data)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+function citation(id: number, fullPhrase: string, page = 1, lineIds = [1]) {
+  return {
+    id,
+    attachment_id: "att1",
+    full_phrase: fullPhrase,
+    anchor_text: fullPhrase.split(" ")[0],
+    page_id: `page_number_${page}_index_${page - 1}`,
+    line_ids: lineIds,
+  };
+}
+
+function keyOf(data: ReturnType<typeof citation>): string {
+  return getCitationKey(citationDataToCitation(data));
+}
+
+// ─── Tests ─────────────────────────────────────────────────────
+
+describe("buildCitationRepairPrompt", () => {
+  it("returns no prompt when nothing needs repair", () => {
+    const first = citation(1, "Revenue grew 45%");
+    const result = buildCitationRepairPrompt({
+      llmOutput: makeResponse("Growth [1].", [first]),
+      verifications: { [keyOf(first)]: { status: "found" } },
+    });
+    expect(result).toEqual({ needsRepair: false, prompt: "", issues: [], citationIds: [] });
+  });
+
+  it("lists markers without data entries", () => {
+    const result = buildCitationRepairPrompt({
+      llmOutput: makeResponse("A [1], b [4] and c [7].", [citation(1, "Revenue grew 45%")]),
+    });
+    expect(result.needsRepair).toBe(true);
+    expect(result.citationIds).toEqual([4, 7]);
+    expect(result.issues.map(issue => issue.code)).toEqual(["marker_without_data", "marker_without_data"]);
+    expect(result.prompt).toContain("Marker [4] has no entry in the citation data");
+    expect(result.prompt).toContain("only for citations [4], [7]");
+  });
+
+  it("turns verification results into targeted instructions", () => {
+    const notFound = citation(2, "Costs fell 10%", 3);
+    const otherPage = citation(3, "Headcount rose", 1);
+    const otherLine = citation(4, "Margins improved", 2, [5]);
+    const verifications: Record<string, Verification> = {
+      [keyOf(notFound)]: { status: "not_found" },
+      [keyOf(otherPage)]: { status: "found_on_other_page", document: { verifiedPageNumber: 5 } },
+      [keyOf(otherLine)]: { status: "found_on_other_line", document: { verifiedLineIds: [9, 10] } },
+    };
+
+    const result = buildCitationRepairPrompt({
+      llmOutput: makeResponse("A [2], b [3], c [4].", [notFound, otherPage, otherLine]),
+      verifications,
+    });
+
+    expect(result.issues.map(issue => issue.code)).toEqual(["quote_not_found", "wrong_page", "wrong_line"]);
+    expect(result.citationIds).toEqual([2, 3, 4]);
+    expect(result.prompt).toContain("The quote for [2] was not found on page 3. Re-quote it verbatim");
+    expect(result.prompt).toContain("The quote for [3] is on page 5, not page 1");
+    expect(result.prompt).toContain("The quote for [4] is on line(s) 9, 10 on page 2, not line(s) 5");
+  });
+
+  it("asks for the whole block when the citation data cannot be parsed", () => {
+    const result = buildCitationRepairPrompt({ llmOutput: makeResponse("A [1] and [2].", "{not json") });
+    expect(result.issues[0].code).toBe("invalid_json");
+    expect(result.citationIds).toEqual([1, 2]);
+    expect(result.prompt).toContain("for every [N] marker in your answer");
+  });
+});
+
+describe("mergeCitationRepair", () => {
+  const original = makeResponse("A [1] and [2].", [citation(1, "Revenue grew 45%"), citation(2, "Costs fell 5%")]);
+
+  it("replaces corrected entries by id and keeps the answer text", () => {
+    const repairOutput = makeResponse("", [citation(2, "Costs fell 10%", 3)]);
+    const merged = mergeCitationRepair(original, repairOutput);
+
+    expect(merged.success).toBe(true);
+    expect(merged.updatedIds).toEqual([2]);
+    const parsed = parseCitationData(merged.llmOutput);
+    expect(parsed.visibleText).toBe("A [1] and [2].");
+    expect(parsed.citations.map(data => data.full_phrase)).toEqual(["Revenue grew 45%", "Costs fell 10%"]);
+    expect(parsed.citationMap.get(2)?.page_id).toBe("page_number_3_index_2");
+  });
+
+  it("keeps the original attachment id and location when the repair leaves them out", () => {
+    const {
+      attachment_id: _attachmentId,
+      page_id: _pageId,
+      line_ids: _lineIds,
+      ...quoteOnly
+    } = citation(2, "Costs fell 10%");
+    const merged = mergeCitationRepair(original, makeResponse("", [quoteOnly]));
+
+    const repaired = parseCitationData(merged.llmOutput).citationMap.get(2);
+    expect(repaired?.full_phrase).toBe("Costs fell 10%");
+    expect(repaired?.attachment_id).toBe("att1");
+    expect(repaired?.page_id).toBe("page_number_1_index_0");
+    expect(citationDataToCitation(repaired ?? { id: 2 }).attachmentId).toBe("att1");
+
+    // Moving to another page drops the original line ids
+    const { attachment_id: _a, line_ids: _l, ...moved } = citation(2, "Costs fell 10%", 4);
+    const movedEntry = parseCitationData(
+      mergeCitationRepair(original, makeResponse("", [moved])).llmOutput,
+    ).citationMap.get(2);
+    expect(movedEntry?.attachment_id).toBe("att1");
+    expect(movedEntry?.page_id).toBe("page_number_4_index_3");
+    expect(movedEntry?.line_ids).toBeUndefined();
+  });
+
+  it("accepts bare JSON and adds new ids", () => {
+    const merged = mergeCitationRepair(original, JSON.stringify([citation(3, "Headcount rose")]));
+    expect(merged.updatedIds).toEqual([3]);
+    expect(parseCitationData(merged.llmOutput).citations.map(data => data.id)).toEqual([1, 2, 3]);
+  });
+
+  it("fills in a block that was missing from the original response", () => {
+    const merged = mergeCitationRepair("A [1].", JSON.stringify([citation(1, "Revenue grew 45%")]));
+    expect(parseCitationData(merged.llmOutput).citations).toHaveLength(1);
+  });
+
+  it("leaves the response unchanged when the repair output has no citation data", () => {
+    const merged = mergeCitationRepair(original, "Sorry, I cannot help with that.");
+    expect(merged.success).toBe(false);
+    expect(merged.llmOutput).toBe(original);
+    expect(merged.error).toBeDefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "@jest/globals";
+import { createCitationStreamParser, type StreamedCitation } from "../parsing/citationStreamParser.js";
+import { parseCitationResponse } from "../parsing/parseCitationResponse.js";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+
+// ─── Helpers ───────────────────────────────────────────────────
+
+const VISIBLE = "Growth was strong [1]. Revenue hit a record [2].";
+
+const CITATIONS = [
+  {
+    id: 1,
+    attachment_id: "att1",
+    full_phrase: 'Growth was "strong" {all year}',
+    anchor_text: "strong",
+    page_id: "2_1",
+    line_ids: [12],
+  },
+  {
+    id: 2,
+    attachment_id: "att1",
+    full_phrase: "Revenue hit $2.3B",
+    anchor_text: "$2.3B",
+    page_id: "3_0",
+    line_ids: [5],
+  },
+];
+
+const RESPONSE = `${VISIBLE}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(CITATIONS)}\n${CITATION_DATA_END_DELIMITER}`;
+
+/** Split a string into chunks of the given size. */
+function chunk(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+  return chunks;
+}
+
+/** Feed chunks through a parser, recording text deltas and citation events. */
+function run(chunks: string[]) {
+  const deltas: string[] = [];
+  const citations: StreamedCitation[] = [];
+  const citationsByChunk: number[] = [];
+  const parser = createCitationStreamParser({
+    onText: delta => deltas.push(delta),
+    onCitation: citation => citations.push(citation),
+  });
+  for (const piece of chunks) {
+    parser.push(piece);
+    citationsByChunk.push(citations.length);
+  }
+  const result = parser.finish();
+  return { deltas, citations, citationsByChunk, result };
+}
+
+// ─── Tests ─────────────────────────────────────────────────────
+
+describe("createCitationStreamParser", () => {
+  it.each([1, 2, 3, 7, 64])("suppresses the data block with %i-character chunks", size => {
+    const { deltas } = run(chunk(RESPONSE, size));
+    const streamed = deltas.join("");
+
+    expect(streamed.trim()).toBe(VISIBLE);
+    expect(streamed).not.toContain("<");
+    expect(streamed).not.toContain("CITATION_DATA");
+  });
+
+  it("finishes with the same result as parseCitationResponse", () => {
+    const { result } = run(chunk(RESPONSE, 5));
+    expect(result).toEqual(parseCitationResponse(RESPONSE));
+  });
+
+  it("emits each citation as soon as its object closes", () => {
+    const firstObjectEnd = RESPONSE.indexOf("}", RESPONSE.indexOf('"line_ids":[12]')) + 1;
+    const { citations, citationsByChunk } = run([RESPONSE.slice(0, firstObjectEnd), RESPONSE.slice(firstObjectEnd)]);
+
+    expect(citationsByChunk).toEqual([1, 2]);
+    expect(citations.map(citation => citation.id)).toEqual([1, 2]);
+    expect(citations[0].citation.fullPhrase).toBe('Growth was "strong" {all year}');
+  });
+
+  it("emits citation keys that match the final result", () => {
+    const { citations, result } = run(chunk(RESPONSE, 3));
+
+    expect(citations.map(citation => citation.citationKey).sort()).toEqual(Object.keys(result.citations).sort());
+    expect(result.markerMap[1]).toBe(citations[0].citationKey);
+  });
+
+  it("handles grouped-by-attachment data with compact keys", () => {
+    const grouped = { att9: [{ n: 1, f: "Alpha beta", k: "beta", p: "1_0", l: [1], t: { s: "0:01", e: "0:02" } }] };
+    const response = `Alpha [1].\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(grouped)}\n${CITATION_DATA_END_DELIMITER}`;
+    const { citations, citationsByChunk } = run(chunk(response, 4));
+
+    expect(citations).toHaveLength(1);
+    expect(citationsByChunk.at(-1)).toBe(1);
+    expect(citations[0].citation.attachmentId).toBe("att9");
+    expect(citations[0].citation.type).toBe("audio");
+  });
+
+  it("flushes held-back text that turned out not to be a delimiter", () => {
+    const { deltas, result } = run(["a <", "<< b <<"]);
+
+    expect(deltas.join("")).toBe("a <<< b <<");
+    expect(result.format).toBe("none");
+  });
+
+  it("recovers citations that needed JSON repair at finish", () => {
+    const response = `Text [1].\n${CITATION_DATA_START_DELIMITER}\n[{"id": 1, "full_phrase": "Repaired phrase", "anchor_text": "phrase",}]`;
+    const { citations, citationsByChunk } = run(chunk(response, 10));
+
+    expect(citationsByChunk.at(-1)).toBe(0);
+    expect(citations).toHaveLength(1);
+    expect(citations[0].citation.fullPhrase).toBe("Repaired phrase");
+  });
+
+  it("ignores text after the end delimiter", () => {
+    const { deltas, citations } = run([RESPONSE, '\n[{"id": 3, "full_phrase": "late"}]']);
+
+    expect(deltas.join("")).not.toContain("late");
+    expect(citations).toHaveLength(2);
+  });
+
+  it("rejects chunks after finish", () => {
+    const parser = createCitationStreamParser();
+    parser.finish();
+    expect(() => parser.push("more")).toThrow();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseCitationToolCalls } from "../parsing/citationToolCalls.js";
+import {
+  CITATION_JSON_OUTPUT_FORMAT,
+  CITATION_TOOL_REMINDER,
+  createCitationTool,
+  wrapCitationPrompt,
+  wrapSystemCitationPrompt,
+} from "../prompts/citationPrompts.js";
+
+const revenue = {
+  id: 1,
+  attachment_id: "att1",
+  full_phrase: "Revenue grew 45% year over year.",
+  anchor_text: "45%",
+  page_id: "page_number_2_index_1",
+  line_ids: [12],
+};
+const margins = {
+  id: 2,
+  attachment_id: "att1",
+  full_phrase: "Margins improved to 32%.",
+  anchor_text: "32%",
+  page_id: "page_number_3_index_2",
+  line_ids: [4],
+};
+
+function citationAt(result: ReturnType<typeof parseCitationToolCalls>, marker: number) {
+  return result.citations[result.markerMap[marker]];
+}
+
+describe("createCitationTool", () => {
+  it("builds provider tool definitions from the citation JSON schema", () => {
+    expect(createCitationTool("openai")).toEqual({
+      type: "function",
+      function: { name: "cite", description: expect.any(String), parameters: CITATION_JSON_OUTPUT_FORMAT },
+    });
+    expect(createCitationTool("openai_responses")).toMatchObject({ type: "function", name: "cite" });
+    expect(createCitationTool("anthropic")).toMatchObject({ name: "cite", input_schema: CITATION_JSON_OUTPUT_FORMAT });
+    expect(createCitationTool("gemini", { isAudioVideo: true }).parameters.required).toContain("timestamps");
+  });
+});
+
+describe("tool-call prompt mode", () => {
+  it("instructs the model to call the tool instead of writing a data block", () => {
+    const prompt = wrapSystemCitationPrompt({ systemPrompt: "Be helpful.", citationMode: "tool_call" });
+
+    expect(prompt).toContain("call the `cite` tool once");
+    expect(prompt).not.toContain('"attachment_id_here"');
+    expect(prompt.endsWith(CITATION_TOOL_REMINDER)).toBe(true);
+  });
+
+  it("uses the tool reminder in the user prompt", () => {
+    const { enhancedUserPrompt } = wrapCitationPrompt({
+      systemPrompt: "Be helpful.",
+      userPrompt: "Summarize.",
+      deepTextPromptPortion: "[Page 1]\n[L1] Text",
+      citationMode: "tool_call",
+    });
+
+    expect(enhancedUserPrompt).toContain(CITATION_TOOL_REMINDER);
+  });
+});
+
+describe("parseCitationToolCalls", () => {
+  it("parses an OpenAI chat completion with string arguments", () => {
+    const completion = {
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: "Revenue grew [1] and margins improved [2].",
+            tool_calls: [
+              { id: "call_1", type: "function", function: { name: "cite", arguments: JSON.stringify(revenue) } },
+              { id: "call_2", type: "function", function: { name: "cite", arguments: JSON.stringify(margins) } },
+              { id: "call_3", type: "function", function: { name: "search", arguments: "{}" } },
+            ],
+          },
+        },
+      ],
+    };
+    const result = parseCitationToolCalls(completion);
+
+    expect(result.visibleText).toBe("Revenue grew [1] and margins improved [2].");
+    expect(result.format).toBe("numeric");
+    expect(citationAt(result, 1)).toMatchObject({
+      attachmentId: "att1",
+      pageNumber: 2,
+      lineIds: [12],
+      fullPhrase: "Revenue grew 45% year over year.",
+      citationNumber: 1,
+    });
+    expect(citationAt(result, 2).anchorText).toBe("32%");
+  });
+
+  it("parses interleaved Anthropic tool_use blocks", () => {
+    const message = {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Revenue grew [1]." },
+        { type: "tool_use", id: "toolu_1", name: "cite", input: revenue },
+        { type: "text", text: " Margins improved." },
+        { type: "tool_use", id: "toolu_2", name: "add_citation", input: { ...margins, id: undefined } },
+      ],
+    };
+    const result = parseCitationToolCalls(message);
+
+    // The second call has no id and no marker: it is numbered and placed where it was called
+    expect(result.visibleText).toBe("Revenue grew [1]. Margins improved. [2]");
+    expect(citationAt(result, 2).fullPhrase).toBe("Margins improved to 32%.");
+  });
+
+  it("parses OpenAI Responses output items", () => {
+    const response = {
+      output: [
+        { type: "message", content: [{ type: "output_text", text: "Revenue grew [1].", annotations: [] }] },
+        { type: "function_call", name: "cite", call_id: "c1", arguments: JSON.stringify(revenue) },
+      ],
+    };
+
+    expect(Object.keys(parseCitationToolCalls(response).citations)).toHaveLength(1);
+  });
+
+  it("parses Gemini function calls with compact keys", () => {
+    const response = {
+      candidates: [
+        {
+          content: {
+            parts: [
+              { text: "Revenue grew [1]." },
+              { functionCall: { name: "cite", args: { n: "1", a: "att1", f: "Revenue grew 45%.", k: "45%" } } },
+            ],
+          },
+        },
+      ],
+    };
+    const result = parseCitationToolCalls(response);
+
+    expect(citationAt(result, 1)).toMatchObject({ attachmentId: "att1", fullPhrase: "Revenue grew 45%." });
+  });
+
+  it("accepts a plain text + toolCalls object and skips unparseable calls", () => {
+    const result = parseCitationToolCalls(
+      {
+        text: "Revenue grew [1]. Margins improved [2].",
+        toolCalls: [
+          { name: "cite", arguments: JSON.stringify(revenue) },
+          { name: "cite", arguments: '{"id": 2, "full_phrase": "Margins impr' },
+        ],
+      },
+      { toolNames: ["cite"] },
+    );
+
+    expect(Object.keys(result.markerMap)).toEqual(["1"]);
+  });
+
+  it("returns format none without citation calls", () => {
+    expect(parseCitationToolCalls({ content: "No sources.", tool_calls: [] })).toMatchObject({
+      visibleText: "No sources.",
+      format: "none",
+    });
+  });
+});
@@ -1,6 +1,15 @@
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
 import { DeepCitation } from "../client/DeepCitation.js";
+import {
+  AbortError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "../client/errors.js";
 import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+import type { Citation } from "../types/citation.js";
 
 // Mock global fetch
 const mockFetch = jest.fn() as jest.Mock;
@@ -904,4 +913,911 @@ describe("DeepCitation Client", () => {
       expect(requestBody.endUserId).toBe("user-prepare");
     });
   });
+
+  describe("retry policy", () => {
+    const verifyOk = {
+      ok: true,
+      json: async () => ({ verifications: { "1": { status: "found" } } }),
+    } as Response;
+    const citations = { "1": { fullPhrase: "test", attachmentId: "file_abc" } };
+
+    function errorResponse(status: number, headers: Record<string, string> = {}): Response {
+      return {
+        ok: false,
+        status,
+        headers: new Headers(headers),
+        json: async () => ({ error: { message: `Status ${status}` } }),
+      } as Response;
+    }
+
+    it("does not retry by default", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockResolvedValueOnce(errorResponse(503));
+
+      await expect(client.verifyAttachment("file_abc", citations)).rejects.toThrow("Status 503");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries 5xx responses for idempotent requests", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 2, initialDelayMs: 0 } });
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(verifyOk);
+
+      const result = await client.verifyAttachment("file_abc", citations);
+      expect(result.verifications["1"].status).toBe("found");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("throws the last error once retries are exhausted", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 1, initialDelayMs: 0 } });
+      mockFetch.mockResolvedValue(errorResponse(500));
+
+      await expect(client.verifyAttachment("file_abc", citations)).rejects.toBeInstanceOf(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not retry non-retryable statuses", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 3, initialDelayMs: 0 } });
+      mockFetch.mockResolvedValueOnce(errorResponse(404));
+
+      await expect(client.verifyAttachment("file_abc", citations)).rejects.toBeInstanceOf(ValidationError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("wraps and retries network failures", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 1, initialDelayMs: 0 } });
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed")).mockResolvedValueOnce(verifyOk);
+
+      await client.verifyAttachment("file_abc", citations);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      mockFetch.mockReset();
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+      await expect(
+        client.verifyAttachment("file_abc", { "2": { fullPhrase: "other", attachmentId: "file_abc" } }),
+      ).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it("honors Retry-After on 429", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 1, initialDelayMs: 0 } });
+      mockFetch.mockResolvedValueOnce(errorResponse(429, { "Retry-After": "0.02" })).mockResolvedValueOnce(verifyOk);
+
+      const start = Date.now();
+      await client.verifyAttachment("file_abc", citations);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("surfaces retryAfterMs when Retry-After exceeds maxDelayMs", async () => {
+      const client = new DeepCitation({
+        apiKey: "sk-dc-123",
+        retry: { maxRetries: 3, initialDelayMs: 0, maxDelayMs: 1000 },
+      });
+      mockFetch.mockResolvedValueOnce(errorResponse(429, { "Retry-After": "60" }));
+
+      const error = await client.verifyAttachment("file_abc", citations).catch(err => err);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(60_000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry uploads without an attachmentId on 5xx", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 2, initialDelayMs: 0 } });
+      mockFetch.mockResolvedValueOnce(errorResponse(502));
+
+      await expect(client.uploadFile(new Blob(["content"]))).rejects.toBeInstanceOf(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries uploads without an attachmentId on 429", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 2, initialDelayMs: 0 } });
+      mockFetch.mockResolvedValueOnce(errorResponse(429)).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ attachmentId: "file_1", deepTextPromptPortion: "", status: "ready" }),
+      } as Response);
+
+      const result = await client.uploadFile(new Blob(["content"]));
+      expect(result.attachmentId).toBe("file_1");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("retries uploads with a caller-supplied attachmentId on 5xx", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", retry: { maxRetries: 2, initialDelayMs: 0 } });
+      mockFetch.mockResolvedValueOnce(errorResponse(500)).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ attachmentId: "custom_id", deepTextPromptPortion: "", status: "ready" }),
+      } as Response);
+
+      await client.uploadFile(new Blob(["content"]), { attachmentId: "custom_id" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("cancellation and timeouts", () => {
+    const citations = { "1": { fullPhrase: "test", attachmentId: "file_abc" } };
+
+    /** A fetch that never resolves until its signal aborts. */
+    function hangingFetch(_url: string, init?: RequestInit): Promise<Response> {
+      return new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+      });
+    }
+
+    it("rejects immediately with AbortError for an already-aborted signal", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.getAttachment("att_abc", { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("aborts an in-flight request", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockImplementation(hangingFetch as never);
+      const controller = new AbortController();
+
+      const pending = client.prepareUrl({ url: "https://example.com", signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it("throws TimeoutError when timeoutMs elapses", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockImplementation(hangingFetch as never);
+
+      const error = await client.verifyAttachment("file_abc", citations, { timeoutMs: 10 }).catch(err => err);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeoutMs).toBe(10);
+    });
+
+    it("applies the instance-level timeout by default", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", timeoutMs: 10 });
+      mockFetch.mockImplementation(hangingFetch as never);
+
+      await expect(client.deleteAttachment("att_abc")).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("stops pending retries when aborted during backoff", async () => {
+      const client = new DeepCitation({
+        apiKey: "sk-dc-123",
+        retry: { maxRetries: 5, initialDelayMs: 10_000, maxDelayMs: 10_000 },
+      });
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+      const controller = new AbortController();
+
+      const pending = client.getAttachment("att_abc", { signal: controller.signal });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("evicts aborted verifications from the dedupe cache", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockImplementationOnce(hangingFetch as never).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ verifications: { "1": { status: "found" } } }),
+      } as Response);
+      const controller = new AbortController();
+
+      const aborted = client.verifyAttachment("file_abc", citations, { signal: controller.signal });
+      // Let the request reach fetch before aborting it
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AbortError);
+
+      const result = await client.verifyAttachment("file_abc", citations);
+      expect(result.verifications["1"].status).toBe("found");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps a deduplicated request running for callers that did not abort", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      let respond: (response: Response) => void = () => {};
+      mockFetch.mockImplementationOnce((() => new Promise<Response>(resolve => (respond = resolve))) as never);
+      const first = new AbortController();
+
+      const aborted = client.verifyAttachment("file_abc", citations, { signal: first.signal });
+      const joined = client.verifyAttachment("file_abc", citations);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      first.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AbortError);
+
+      respond({ ok: true, json: async () => ({ verifications: { "1": { status: "found" } } }) } as Response);
+      expect((await joined).verifications["1"].status).toBe("found");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies each deduplicated caller's own signal and timeout", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockImplementation(hangingFetch as never);
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const pending = client.verifyAttachment("file_abc", citations, { signal: first.signal });
+      const joinedAbort = client.verifyAttachment("file_abc", citations, { signal: second.signal });
+      const joinedTimeout = client.verifyAttachment("file_abc", citations, { timeoutMs: 10 });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const requestSignal = mockFetch.mock.calls[0][1].signal as AbortSignal;
+
+      second.abort();
+      await expect(joinedAbort).rejects.toBeInstanceOf(AbortError);
+      await expect(joinedTimeout).rejects.toBeInstanceOf(TimeoutError);
+      expect(requestSignal.aborted).toBe(false);
+
+      // The request is aborted once the last caller gives up
+      first.abort();
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      expect(requestSignal.aborted).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("evicts network failures from the dedupe cache", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed")).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ verifications: { "1": { status: "found" } } }),
+      } as Response);
+
+      await expect(client.verifyAttachment("file_abc", citations)).rejects.toBeInstanceOf(NetworkError);
+      await client.verifyAttachment("file_abc", citations);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("threads signal from verify through to the request", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ verifications: { key1: { status: "found" } } }),
+      } as Response);
+      const controller = new AbortController();
+
+      await client.verify({
+        llmOutput: makeNumericResponse("Test [1].", [
+          { id: 1, attachment_id: "file_123", full_phrase: "Test", anchor_text: "Test", page_id: "1_0", line_ids: [1] },
+        ]),
+        signal: controller.signal,
+      });
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  describe("custom fetch and interceptors", () => {
+    const attachmentResponse = {
+      ok: true,
+      status: 200,
+      json: async () => ({ id: "att_abc", status: "ready", pageImages: [], verifications: {} }),
+    } as Response;
+
+    it("uses the configured fetch instead of the global", async () => {
+      const customFetch = jest.fn(async () => attachmentResponse);
+      const client = new DeepCitation({ apiKey: "sk-dc-123", fetch: customFetch as unknown as typeof fetch });
+
+      await client.getAttachment("att_abc");
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("lets onRequest add headers", async () => {
+      const client = new DeepCitation({
+        apiKey: "sk-dc-123",
+        onRequest: request => {
+          request.init.headers = { ...(request.init.headers as Record<string, string>), traceparent: "00-abc-def-01" };
+        },
+      });
+      mockFetch.mockResolvedValueOnce(attachmentResponse);
+
+      await client.getAttachment("att_abc");
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual(
+        expect.objectContaining({ Authorization: "Bearer sk-dc-123", traceparent: "00-abc-def-01" }),
+      );
+    });
+
+    it("lets onRequest replace the request", async () => {
+      const client = new DeepCitation({
+        apiKey: "sk-dc-123",
+        onRequest: async request => ({
+          ...request,
+          url: request.url.replace("api.deepcitation.com", "proxy.internal"),
+        }),
+      });
+      mockFetch.mockResolvedValueOnce(attachmentResponse);
+
+      await client.getAttachment("att_abc");
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://proxy.internal/getAttachment");
+    });
+
+    it("calls onResponse for every attempt with timing", async () => {
+      const onResponse = jest.fn();
+      const client = new DeepCitation({
+        apiKey: "sk-dc-123",
+        retry: { maxRetries: 1, initialDelayMs: 0 },
+        onResponse,
+      });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) } as Response)
+        .mockResolvedValueOnce(attachmentResponse);
+
+      await client.getAttachment("att_abc");
+
+      expect(onResponse).toHaveBeenCalledTimes(2);
+      const [first, second] = onResponse.mock.calls.map(call => call[0] as Record<string, any>);
+      expect(first.response.status).toBe(503);
+      expect(first.request.attempt).toBe(0);
+      expect(second.request.attempt).toBe(1);
+      expect(typeof second.durationMs).toBe("number");
+    });
+  });
+
+  describe("verification cache store", () => {
+    const citations = { "1": { fullPhrase: "test", attachmentId: "file_abc" } };
+    const okResponse = () =>
+      ({
+        ok: true,
+        json: async () => ({ verifications: { "1": { status: "found" } } }),
+      }) as Response;
+
+    function createRecordingStore() {
+      const entries = new Map<string, { value: unknown; ttlMs: number }>();
+      return {
+        entries,
+        store: {
+          get: async (key: string) => entries.get(key)?.value as never,
+          set: async (key: string, value: unknown, ttlMs: number) => {
+            entries.set(key, { value, ttlMs });
+          },
+          delete: async (key: string) => {
+            entries.delete(key);
+          },
+        },
+      };
+    }
+
+    it("serves repeat verifications from a custom store", async () => {
+      const { entries, store } = createRecordingStore();
+      const client = new DeepCitation({ apiKey: "sk-dc-123", verificationCache: store, verificationCacheTtlMs: 1234 });
+      mockFetch.mockResolvedValueOnce(okResponse());
+
+      await client.verifyAttachment("file_abc", citations);
+      expect(entries.size).toBe(1);
+      expect([...entries.values()][0].ttlMs).toBe(1234);
+
+      // A new client sharing the store (e.g. after a restart) skips the network
+      const restarted = new DeepCitation({ apiKey: "sk-dc-123", verificationCache: store });
+      const result = await restarted.verifyAttachment("file_abc", citations);
+      expect(result.verifications["1"].status).toBe("found");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not cache failed verifications", async () => {
+      const { entries, store } = createRecordingStore();
+      const client = new DeepCitation({ apiKey: "sk-dc-123", verificationCache: store });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({}) } as Response);
+
+      await expect(client.verifyAttachment("file_abc", citations)).rejects.toThrow();
+      expect(entries.size).toBe(0);
+    });
+
+    it("disables result caching with verificationCache: false", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", verificationCache: false });
+      mockFetch.mockResolvedValue(okResponse());
+
+      await client.verifyAttachment("file_abc", citations);
+      await client.verifyAttachment("file_abc", citations);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("falls back to the network when the store throws", async () => {
+      const warn = jest.fn();
+      const client = new DeepCitation({
+        apiKey: "sk-dc-123",
+        logger: { warn },
+        verificationCache: {
+          get: () => {
+            throw new Error("disk full");
+          },
+          set: async () => {
+            throw new Error("disk full");
+          },
+          delete: () => {},
+        },
+      });
+      mockFetch.mockResolvedValueOnce(okResponse());
+
+      const result = await client.verifyAttachment("file_abc", citations);
+      expect(result.verifications["1"].status).toBe("found");
+      expect(warn).toHaveBeenCalledWith("Verification cache read failed", { error: "disk full" });
+      expect(warn).toHaveBeenCalledWith("Verification cache write failed", { error: "disk full" });
+    });
+  });
+
+  describe("verifyStream", () => {
+    const llmOutput = makeNumericResponse("Alpha [1]. Beta [2]. Gamma [3].", [
+      { id: 1, attachment_id: "file_slow", full_phrase: "Alpha", anchor_text: "Alpha", page_id: "1_0", line_ids: [1] },
+      { id: 2, attachment_id: "file_fast", full_phrase: "Beta", anchor_text: "Beta", page_id: "1_0", line_ids: [1] },
+      { id: 3, full_phrase: "Gamma", anchor_text: "Gamma", page_id: "1_0", line_ids: [1] },
+    ]);
+
+    function respondByAttachment(handlers: Record<string, () => Promise<Response>>) {
+      mockFetch.mockImplementation(async (_url: unknown, init: unknown) => {
+        const body = JSON.parse((init as RequestInit).body as string);
+        return handlers[body.data.attachmentId]();
+      });
+    }
+
+    async function collect(client: DeepCitation) {
+      const batches = [];
+      for await (const batch of client.verifyStream({ llmOutput })) {
+        batches.push(batch);
+      }
+      return batches;
+    }
+
+    it("yields skipped citations first, then attachments in completion order", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      respondByAttachment({
+        file_slow: async () => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          return { ok: true, json: async () => ({ verifications: { slow: { status: "found" } } }) } as Response;
+        },
+        file_fast: async () =>
+          ({ ok: true, json: async () => ({ verifications: { fast: { status: "found" } } }) }) as Response,
+      });
+
+      const batches = await collect(client);
+
+      expect(batches.map(batch => batch.attachmentId)).toEqual([undefined, "file_fast", "file_slow"]);
+      expect(Object.values(batches[0].verifications)).toEqual([{ status: "skipped" }]);
+      expect(batches[1].verifications).toEqual({ fast: { status: "found" } });
+      expect(Object.keys(batches[2].citations)).toHaveLength(1);
+    });
+
+    it("reports a failed attachment without losing the others", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      respondByAttachment({
+        file_slow: async () =>
+          ({ ok: false, status: 410, json: async () => ({ error: { message: "Attachment expired" } }) }) as Response,
+        file_fast: async () =>
+          ({ ok: true, json: async () => ({ verifications: { fast: { status: "found" } } }) }) as Response,
+      });
+
+      const batches = await collect(client);
+      const failed = batches.find(batch => batch.attachmentId === "file_slow");
+      const succeeded = batches.find(batch => batch.attachmentId === "file_fast");
+
+      expect(failed?.error).toBeInstanceOf(ValidationError);
+      expect(failed?.error?.message).toBe("Attachment expired");
+      expect(failed?.verifications).toEqual({});
+      expect(succeeded?.error).toBeUndefined();
+      expect(succeeded?.verifications).toEqual({ fast: { status: "found" } });
+    });
+
+    it("yields nothing when there are no citations", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const batches = [];
+      for await (const batch of client.verifyStream({ llmOutput: "No citations here." })) {
+        batches.push(batch);
+      }
+      expect(batches).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verify with onAttachmentError", () => {
+    const llmOutput = makeNumericResponse("Alpha [1]. Beta [2].", [
+      { id: 1, attachment_id: "file_bad", full_phrase: "Alpha", anchor_text: "Alpha", page_id: "1_0", line_ids: [1] },
+      { id: 2, attachment_id: "file_good", full_phrase: "Beta", anchor_text: "Beta", page_id: "1_0", line_ids: [1] },
+    ]);
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async (_url: unknown, init: unknown) => {
+        const body = JSON.parse((init as RequestInit).body as string);
+        if (body.data.attachmentId === "file_bad") {
+          return {
+            ok: false,
+            status: 410,
+            json: async () => ({ error: { message: "Attachment expired" } }),
+          } as Response;
+        }
+        return { ok: true, json: async () => ({ verifications: { good: { status: "found" } } }) } as Response;
+      });
+    });
+
+    it("rejects the whole call by default", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      await expect(client.verify({ llmOutput })).rejects.toThrow("Attachment expired");
+    });
+
+    it("marks failed attachments and keeps the rest in mark mode", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const result = await client.verify({ llmOutput, onAttachmentError: "mark" });
+
+      expect(result.verifications.good).toEqual({ status: "found" });
+      const failed = Object.values(result.verifications).filter(v => v.status === "error");
+      expect(failed).toHaveLength(1);
+      expect(failed[0]).toEqual({
+        status: "error",
+        attachmentId: "file_bad",
+        verificationError: {
+          code: "DC_VALIDATION_ERROR",
+          message: "Attachment expired",
+          isRetryable: false,
+          statusCode: 410,
+        },
+      });
+    });
+  });
+
+  describe("URL citation verification", () => {
+    const urlCitations: Record<string, Citation> = {
+      a: { type: "url", url: "https://docs.example.com/a", fullPhrase: "Alpha", anchorText: "Alpha" },
+      b: { type: "url", url: "https://docs.example.com/a", fullPhrase: "Beta", anchorText: "Beta" },
+      c: { type: "url", url: "https://blocked.test/page", fullPhrase: "Gamma", anchorText: "Gamma" },
+    };
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async (url: unknown) => {
+        if (String(url).endsWith("/prepareAttachments")) {
+          return { ok: true, json: async () => ({ attachmentId: "att_url", deepTextPromptPortion: "" }) } as Response;
+        }
+        return {
+          ok: true,
+          json: async () => ({
+            verifications: {
+              a: { status: "found", url: { urlAccessStatus: "accessible" } },
+              b: { status: "not_found" },
+            },
+          }),
+        } as Response;
+      });
+    });
+
+    it("prepares each cited URL once and verifies its citations", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", urlVerification: { blockedDomains: ["blocked.test"] } });
+      const result = await client.verify({ llmOutput: "" }, urlCitations);
+
+      const urls = mockFetch.mock.calls.map(call => String(call[0]));
+      expect(urls.filter(url => url.endsWith("/prepareAttachments"))).toHaveLength(1);
+      const prepareBody = JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string);
+      expect(prepareBody.url).toBe("https://docs.example.com/a");
+      const verifyBody = JSON.parse((mockFetch.mock.calls[1][1] as RequestInit).body as string);
+      expect(verifyBody.data.attachmentId).toBe("att_url");
+      expect(Object.keys(verifyBody.data.citations)).toEqual(["a", "b"]);
+
+      expect(result.verifications.a.url).toEqual({
+        verifiedUrl: "https://docs.example.com/a",
+        urlAccessStatus: "accessible",
+      });
+      expect(result.verifications.b.url?.verifiedUrl).toBe("https://docs.example.com/a");
+    });
+
+    it("does not fetch blocked or unapproved domains", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123", urlVerification: { approvedDomains: ["example.com"] } });
+      const result = await client.verify({ llmOutput: "" }, urlCitations);
+
+      expect(result.verifications.c).toEqual({
+        status: "skipped",
+        url: {
+          verifiedUrl: "https://blocked.test/page",
+          urlAccessStatus: "blocked",
+          urlVerificationError: "Domain is not approved",
+        },
+      });
+      const preparedUrls = mockFetch.mock.calls
+        .filter(call => String(call[0]).endsWith("/prepareAttachments"))
+        .map(call => JSON.parse((call[1] as RequestInit).body as string).url);
+      expect(preparedUrls).toEqual(["https://docs.example.com/a"]);
+    });
+
+    it("rejects non-http URLs", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const result = await client.verify(
+        { llmOutput: "" },
+        { x: { type: "url", url: "file:///etc/passwd", fullPhrase: "root", anchorText: "root" } },
+      );
+
+      expect(result.verifications.x.url?.urlVerificationError).toBe("Invalid URL");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("skips URL citations when urlVerification is false", async () => {
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const result = await client.verify({ llmOutput: "", urlVerification: false }, urlCitations);
+
+      expect(Object.values(result.verifications)).toEqual([
+        { status: "skipped" },
+        { status: "skipped" },
+        { status: "skipped" },
+      ]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("marks a URL that fails to prepare", async () => {
+      mockFetch.mockImplementation(async () => ({ ok: false, status: 422, json: async () => ({}) }) as Response);
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const result = await client.verify({ llmOutput: "", onAttachmentError: "mark" }, { a: urlCitations.a });
+
+      expect(result.verifications.a.status).toBe("error");
+      expect(result.verifications.a.url?.verifiedUrl).toBe("https://docs.example.com/a");
+      expect(result.verifications.a.verificationError?.statusCode).toBe(422);
+    });
+  });
+
+  describe("chunked uploads", () => {
+    /** In-memory implementation of the chunked upload protocol. */
+    function createStubUploadServer(options: { dropChunkAt?: number[] } = {}) {
+      const sessions = new Map<string, { size: number; bytes: number[] }>();
+      const dropChunkAt = new Set(options.dropChunkAt);
+      const ranges: string[] = [];
+      let nextId = 0;
+
+      const json = (body: unknown, status = 200) =>
+        ({ ok: status < 400, status, json: async () => body }) as unknown as Response;
+
+      const fetchImpl = async (url: unknown, init: unknown) => {
+        const { pathname } = new URL(String(url));
+        const request = init as RequestInit;
+        if (pathname === "/uploads" && request.method === "POST") {
+          const body = JSON.parse(request.body as string);
+          const uploadId = `up_${nextId++}`;
+          sessions.set(uploadId, { size: body.size, bytes: [] });
+          return json({ uploadId, receivedBytes: 0 });
+        }
+        const match = pathname.match(/^\/uploads\/([^/]+)(\/complete)?$/);
+        const session = match && sessions.get(match[1]);
+        if (!match || !session) return json({ error: { message: "Unknown upload" } }, 404);
+        const uploadId = match[1];
+        if (match[2]) {
+          return json({
+            attachmentId: `att_${uploadId}`,
+            deepTextPromptPortion: String.fromCharCode(...session.bytes),
+          });
+        }
+        if (request.method === "PUT") {
+          const range = (request.headers as Record<string, string>)["Content-Range"];
+          ranges.push(range);
+          const start = Number(range.match(/bytes (\d+)-/)?.[1]);
+          const chunk = new Uint8Array(await (request.body as Blob).arrayBuffer());
+          if (start === session.bytes.length) session.bytes.push(...chunk);
+          // Simulate the connection dropping after the server stored the chunk
+          if (dropChunkAt.delete(start)) throw new TypeError("fetch failed");
+        }
+        return json({ uploadId, receivedBytes: session.bytes.length });
+      };
+
+      return { fetchImpl, sessions, ranges };
+    }
+
+    const file = Buffer.from("abcdefghij");
+
+    it("uploads in chunks and reports progress", async () => {
+      const server = createStubUploadServer();
+      mockFetch.mockImplementation(server.fetchImpl);
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const progress: number[] = [];
+
+      const result = await client.uploadFile(file, {
+        filename: "doc.pdf",
+        chunked: { chunkSizeBytes: 4 },
+        onProgress: ({ uploadedBytes, totalBytes, uploadId }) => {
+          expect(totalBytes).toBe(10);
+          expect(uploadId).toBe("up_0");
+          progress.push(uploadedBytes);
+        },
+      });
+
+      expect(result).toEqual({ attachmentId: "att_up_0", deepTextPromptPortion: "abcdefghij" });
+      expect(server.ranges).toEqual(["bytes 0-3/10", "bytes 4-7/10", "bytes 8-9/10"]);
+      expect(progress).toEqual([0, 4, 8, 10]);
+    });
+
+    it("resumes from the server offset after a dropped connection", async () => {
+      const server = createStubUploadServer({ dropChunkAt: [4] });
+      mockFetch.mockImplementation(server.fetchImpl);
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      const result = await client.uploadFile(file, { chunked: { chunkSizeBytes: 4 } });
+
+      expect(result.deepTextPromptPortion).toBe("abcdefghij");
+      // The dropped chunk was stored, so the client skips ahead instead of resending it
+      expect(server.ranges).toEqual(["bytes 0-3/10", "bytes 4-7/10", "bytes 8-9/10"]);
+      const statusChecks = mockFetch.mock.calls.filter(call => (call[1] as RequestInit).method === "GET");
+      expect(statusChecks).toHaveLength(1);
+    });
+
+    it("gives up after maxResumeAttempts", async () => {
+      const server = createStubUploadServer({ dropChunkAt: [0] });
+      mockFetch.mockImplementation(async (url: unknown, init: unknown) => {
+        if ((init as RequestInit).method === "PUT") throw new TypeError("fetch failed");
+        return server.fetchImpl(url, init);
+      });
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      await expect(client.uploadFile(file, { chunked: { chunkSizeBytes: 4, maxResumeAttempts: 2 } })).rejects.toThrow(
+        NetworkError,
+      );
+      const puts = mockFetch.mock.calls.filter(call => (call[1] as RequestInit).method === "PUT");
+      expect(puts).toHaveLength(3);
+    });
+
+    it("continues an earlier session with resumeUploadId", async () => {
+      const server = createStubUploadServer();
+      server.sessions.set("up_saved", { size: 10, bytes: [...Buffer.from("abcdef")] });
+      mockFetch.mockImplementation(server.fetchImpl);
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      const result = await client.uploadFile(file, { chunked: { chunkSizeBytes: 4, resumeUploadId: "up_saved" } });
+
+      expect(result.attachmentId).toBe("att_up_saved");
+      expect(server.ranges).toEqual(["bytes 6-9/10"]);
+    });
+
+    it("reports progress once for single-request uploads", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ attachmentId: "att_1", deepTextPromptPortion: "" }),
+      } as Response);
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const onProgress = jest.fn();
+
+      await client.uploadFile(file, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith({ uploadedBytes: 10, totalBytes: 10 });
+    });
+  });
+
+  describe("attachment lifecycle", () => {
+    it("lists attachments with filters and a cursor", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          attachments: [{ id: "att_1", status: "ready", originalFilename: "a.pdf", mimeType: "application/pdf" }],
+          nextCursor: "cur_2",
+        }),
+      } as Response);
+      const client = new DeepCitation({ apiKey: "sk-dc-123", endUserId: "default-user" });
+
+      const page = await client.listAttachments({
+        endUserId: "user-42",
+        status: "ready",
+        expiresBefore: new Date("2026-01-01T00:00:00Z"),
+        limit: 10,
+        cursor: "cur_1",
+      });
+
+      expect(page.nextCursor).toBe("cur_2");
+      expect(page.attachments.map(attachment => attachment.id)).toEqual(["att_1"]);
+      expect(String(mockFetch.mock.calls[0][0])).toBe("https://api.deepcitation.com/listAttachments");
+      expect(JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string)).toEqual({
+        endUserId: "user-42",
+        status: ["ready"],
+        expiresBefore: "2026-01-01T00:00:00.000Z",
+        limit: 10,
+        cursor: "cur_1",
+      });
+    });
+
+    it("does not filter by the client-level endUserId", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ attachments: [] }) } as Response);
+      const client = new DeepCitation({ apiKey: "sk-dc-123", endUserId: "default-user" });
+
+      await client.listAttachments();
+
+      expect(JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string)).toEqual({});
+    });
+
+    it("bulk deletes with limited concurrency and collects failures", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async (url: unknown) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        const attachmentId = String(url).split("/").pop();
+        if (attachmentId === "att_missing") {
+          return { ok: false, status: 404, json: async () => ({ error: { message: "Not found" } }) } as Response;
+        }
+        return { ok: true, json: async () => ({ attachmentId, deleted: true }) } as Response;
+      });
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      const result = await client.bulkDelete(["att_1", "att_missing", "att_2", "att_3", "att_1"], {
+        concurrency: 2,
+      });
+
+      expect(maxInFlight).toBe(2);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(result.succeeded.map(response => response.attachmentId)).toEqual(["att_1", "att_2", "att_3"]);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].attachmentId).toBe("att_missing");
+      expect(result.failed[0].error).toBeInstanceOf(ValidationError);
+    });
+
+    it("bulk extends expiration", async () => {
+      mockFetch.mockImplementation(async (url: unknown, init: unknown) => {
+        const attachmentId = String(url).split("/").at(-2);
+        expect(JSON.parse((init as RequestInit).body as string)).toEqual({ duration: "year" });
+        return { ok: true, json: async () => ({ attachmentId, expiresAt: "2027-01-01T00:00:00Z" }) } as Response;
+      });
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      const result = await client.bulkExtendExpiration(["att_1", "att_2"], "year");
+
+      expect(result.failed).toEqual([]);
+      expect(result.succeeded.map(response => response.attachmentId)).toEqual(["att_1", "att_2"]);
+    });
+  });
+
+  describe("waitForAttachmentReady", () => {
+    const attachment = (status: string, pageImagesStatus?: string) =>
+      ({
+        ok: true,
+        json: async () => ({ id: "att_1", status, pageImagesStatus, pageImages: [] }),
+      }) as Response;
+
+    it("polls until page images are completed", async () => {
+      mockFetch
+        .mockResolvedValueOnce(attachment("processing", "pending"))
+        .mockResolvedValueOnce(attachment("ready", "generating"))
+        .mockResolvedValueOnce(attachment("ready", "completed"));
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const polled: Array<string | undefined> = [];
+
+      const result = await client.waitForAttachmentReady("att_1", {
+        intervalMs: 1,
+        onPoll: ({ pageImagesStatus }) => polled.push(pageImagesStatus),
+      });
+
+      expect(result.pageImagesStatus).toBe("completed");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(polled).toEqual(["pending", "generating"]);
+    });
+
+    it("treats a ready attachment without pageImagesStatus as ready", async () => {
+      mockFetch.mockResolvedValueOnce(attachment("ready"));
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      await expect(client.waitForAttachmentReady("att_1")).resolves.toMatchObject({ status: "ready" });
+    });
+
+    it("throws when page image generation fails", async () => {
+      mockFetch.mockResolvedValueOnce(attachment("ready", "failed"));
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      await expect(client.waitForAttachmentReady("att_1")).rejects.toMatchObject({ code: "DC_ATTACHMENT_FAILED" });
+    });
+
+    it("throws TimeoutError when the attachment stays pending", async () => {
+      mockFetch.mockImplementation(async () => attachment("ready", "generating"));
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+
+      await expect(client.waitForAttachmentReady("att_1", { timeoutMs: 30, intervalMs: 5 })).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    });
+
+    it("stops polling when aborted", async () => {
+      mockFetch.mockImplementation(async () => attachment("ready", "generating"));
+      const client = new DeepCitation({ apiKey: "sk-dc-123" });
+      const controller = new AbortController();
+
+      const promise = client.waitForAttachmentReady("att_1", { intervalMs: 1000, signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(promise).rejects.toBeInstanceOf(AbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,10 +1,12 @@
 import { describe, expect, it } from "@jest/globals";
 import {
+  AbortError,
   AuthenticationError,
   DeepCitationError,
   NetworkError,
   RateLimitError,
   ServerError,
+  TimeoutError,
   ValidationError,
 } from "../../client/errors.js";
 
@@ -62,6 +64,12 @@ describe("RateLimitError", () => {
     expect(error.isRetryable).toBe(true);
     expect(error.statusCode).toBe(429);
     expect(error.name).toBe("RateLimitError");
+    expect(error.retryAfterMs).toBeUndefined();
+  });
+
+  it("carries the server retry hint", () => {
+    const error = new RateLimitError("Too many requests", 2000);
+    expect(error.retryAfterMs).toBe(2000);
   });
 });
 
@@ -105,6 +113,28 @@ describe("ServerError", () => {
   });
 });
 
+describe("TimeoutError", () => {
+  it("is retryable and records the timeout", () => {
+    const error = new TimeoutError("Request timed out after 5000ms", 5000);
+    expect(error).toBeInstanceOf(DeepCitationError);
+    expect(error.code).toBe("DC_TIMEOUT");
+    expect(error.isRetryable).toBe(true);
+    expect(error.timeoutMs).toBe(5000);
+    expect(error.name).toBe("TimeoutError");
+  });
+});
+
+describe("AbortError", () => {
+  it("is not retryable with a default message", () => {
+    const error = new AbortError();
+    expect(error).toBeInstanceOf(DeepCitationError);
+    expect(error.message).toBe("Request was aborted");
+    expect(error.code).toBe("DC_ABORTED");
+    expect(error.isRetryable).toBe(false);
+    expect(error.name).toBe("AbortError");
+  });
+});
+
 describe("Error instanceof checks", () => {
   it("allows instanceof checks for type narrowing", () => {
     const error: DeepCitationError = new AuthenticationError("Test");
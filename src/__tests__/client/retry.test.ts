@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../../client/retry.js";
+
+describe("resolveRetryPolicy", () => {
+  it("returns defaults when no policy is given", () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    expect(DEFAULT_RETRY_POLICY.maxRetries).toBe(0);
+  });
+
+  it("merges partial policies and rejects invalid values", () => {
+    const policy = resolveRetryPolicy({ maxRetries: 3.7, initialDelayMs: -1, maxDelayMs: Number.NaN });
+    expect(policy.maxRetries).toBe(3);
+    expect(policy.initialDelayMs).toBe(DEFAULT_RETRY_POLICY.initialDelayMs);
+    expect(policy.maxDelayMs).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("retries transient statuses only", () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      expect(isRetryableStatus(status)).toBe(true);
+    }
+    for (const status of [400, 401, 403, 404, 413, 501]) {
+      expect(isRetryableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120_000);
+    expect(parseRetryAfter("0.5")).toBe(500);
+  });
+
+  it("parses HTTP-dates relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:27:00 GMT", now)).toBe(0);
+  });
+
+  it("returns undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("computeRetryDelay", () => {
+  const policy = resolveRetryPolicy({ maxRetries: 5, initialDelayMs: 100, maxDelayMs: 1000 });
+
+  it("grows exponentially with full jitter", () => {
+    expect(computeRetryDelay(0, policy, undefined, () => 0.999)).toBe(99);
+    expect(computeRetryDelay(2, policy, undefined, () => 0.5)).toBe(200);
+    expect(computeRetryDelay(2, policy, undefined, () => 0)).toBe(0);
+  });
+
+  it("caps at maxDelayMs", () => {
+    expect(computeRetryDelay(10, policy, undefined, () => 0.999)).toBe(999);
+  });
+
+  it("prefers the server Retry-After hint", () => {
+    expect(computeRetryDelay(0, policy, 750, () => 0)).toBe(750);
+  });
+});
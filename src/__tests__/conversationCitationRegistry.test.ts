@@ -0,0 +1,105 @@
+import { describe, expect, it } from "@jest/globals";
+import { createConversationCitationRegistry } from "../parsing/conversationCitationRegistry.js";
+import { parseCitationResponse } from "../parsing/parseCitationResponse.js";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+import type { Citation } from "../types/citation.js";
+import { getCitationKey } from "../utils/citationKey.js";
+
+function turn(text: string, data: Array<{ id: number; phrase: string; page?: number }>) {
+  const json = data.map(({ id, phrase, page = 1 }) => ({
+    id,
+    attachment_id: "att1",
+    full_phrase: phrase,
+    anchor_text: phrase.split(" ")[0],
+    page_id: `page_number_${page}_index_${page - 1}`,
+    line_ids: [1],
+  }));
+  return parseCitationResponse(
+    `${text}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(json)}\n${CITATION_DATA_END_DELIMITER}`,
+  );
+}
+
+describe("createConversationCitationRegistry", () => {
+  it("numbers citations across turns and reuses numbers for repeated quotes", () => {
+    const registry = createConversationCitationRegistry();
+
+    const first = registry.ingest(
+      turn("Revenue grew [1] and costs fell [2].", [
+        { id: 1, phrase: "Revenue grew 45%" },
+        { id: 2, phrase: "Costs fell 10%" },
+      ]),
+    );
+    expect(first.visibleText).toBe("Revenue grew [1] and costs fell [2].");
+
+    const second = registry.ingest(
+      turn("Headcount rose [1], while costs fell [2].", [
+        { id: 1, phrase: "Headcount rose to 1,200", page: 2 },
+        { id: 2, phrase: "Costs fell 10%" },
+      ]),
+    );
+
+    expect(second.visibleText).toBe("Headcount rose [3], while costs fell [2].");
+    expect(Object.keys(second.markerMap).map(Number).sort()).toEqual([2, 3]);
+    expect(second.citations[second.markerMap[3]].citationNumber).toBe(3);
+    expect(second.markerMap[2]).toBe(first.markerMap[2]);
+    expect(registry.size).toBe(3);
+    expect(registry.getCitation(3)?.fullPhrase).toBe("Headcount rose to 1,200");
+    expect(registry.getNumber(first.markerMap[1])).toBe(1);
+  });
+
+  it("keeps the rest of the parsed result and removes unknown markers", () => {
+    const registry = createConversationCitationRegistry();
+    registry.ingest(turn("A [1].", [{ id: 1, phrase: "Alpha" }]));
+
+    const result = registry.ingest(turn("B [1], see also [7].", [{ id: 1, phrase: "Beta" }]));
+
+    expect(result.visibleText).toBe("B [2], see also.");
+    expect(result.format).toBe("numeric");
+    expect(result.visibleText.split(result.splitPattern)).toContain("[2]");
+  });
+
+  it("never lets an unknown marker in a later turn resolve to another citation", () => {
+    const registry = createConversationCitationRegistry();
+    registry.ingest(turn("Alpha [1].", [{ id: 1, phrase: "Alpha" }]));
+
+    const result = registry.ingest(turn("Beta [1, 2]. Also [2].", [{ id: 1, phrase: "Beta" }]));
+
+    expect(result.visibleText).toBe("Beta [2]. Also.");
+    expect(result.markerMap).toEqual({ 2: getCitationKey(registry.getCitation(2) as Citation) });
+    expect(registry.getCitation(2)?.fullPhrase).toBe("Beta");
+  });
+
+  it("round-trips through toJSON", () => {
+    const registry = createConversationCitationRegistry();
+    registry.ingest(
+      turn("A [1] B [2].", [
+        { id: 1, phrase: "Alpha" },
+        { id: 2, phrase: "Beta" },
+      ]),
+    );
+
+    const restored = createConversationCitationRegistry(JSON.parse(JSON.stringify(registry.toJSON())));
+    const next = restored.ingest(
+      turn("Beta again [1], gamma [2].", [
+        { id: 1, phrase: "Beta" },
+        { id: 2, phrase: "Gamma" },
+      ]),
+    );
+
+    expect(restored.toJSON().entries.map(entry => [entry.number, entry.citation.fullPhrase])).toEqual([
+      [1, "Alpha"],
+      [2, "Beta"],
+      [3, "Gamma"],
+    ]);
+    expect(next.visibleText).toBe("Beta again [2], gamma [3].");
+    expect(restored.markerMap).toEqual(
+      Object.fromEntries(restored.toJSON().entries.map(e => [e.number, e.citationKey])),
+    );
+  });
+
+  it("rejects snapshots with an unknown version", () => {
+    expect(() => createConversationCitationRegistry({ version: 2, entries: [] } as never)).toThrow(
+      "Unsupported conversation citation registry snapshot version: 2",
+    );
+  });
+});
@@ -36,6 +36,7 @@ const verifiedVerification: Verification = { status: "found" };
 const partialVerification: Verification = { status: "found_on_other_page" };
 const missVerification: Verification = { status: "not_found" };
 const pendingVerification: Verification = { status: "pending" };
+const errorVerification: Verification = { status: "error" };
 
 describe("Dot Indicator Variant", () => {
   afterEach(() => {
@@ -81,6 +82,16 @@ describe("Dot Indicator Variant", () => {
       expect(dot?.classList.contains("rounded-full")).toBe(true);
     });
 
+    it("renders a still gray dot for error status", () => {
+      const { container } = render(
+        <CitationComponent citation={baseCitation} verification={errorVerification} indicatorVariant="dot" />,
+      );
+      const dot = container.querySelector("[data-dc-indicator='verification-error']");
+      expect(dot).toBeInTheDocument();
+      expect(dot?.classList.contains("bg-gray-400")).toBe(true);
+      expect(container.querySelector(".animate-pulse")).not.toBeInTheDocument();
+    });
+
     it("renders icon indicators by default (no indicatorVariant)", () => {
       const { container } = render(<CitationComponent citation={baseCitation} verification={verifiedVerification} />);
       // Default should render SVG checkmark icon
@@ -213,6 +224,7 @@ describe("Dot Indicator Variant", () => {
         partial: "◐",
         notFound: "○",
         pending: "◌",
+        error: "⊗",
       });
     });
 
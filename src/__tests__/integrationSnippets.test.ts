@@ -289,6 +289,7 @@ describe("snippets reference real SDK exports", () => {
       "extractVisibleText",
       "renderCitationsAsMarkdown",
       "parseCitationResponse",
+      "parseCitationMarker",
       "getCitationKey",
       "replaceCitationMarkers",
       "parseCitationData",
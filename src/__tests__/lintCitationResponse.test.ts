@@ -0,0 +1,129 @@
+import { describe, expect, it } from "@jest/globals";
+import { lintCitationResponse } from "../parsing/lintCitationResponse.js";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+
+// ─── Helpers ───────────────────────────────────────────────────
+
+function makeResponse(visibleText: string, data: unknown): string {
+  return `${visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${typeof data === "string" ? data : JSON.stringify(data)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+const DEEP_TEXT = [
+  "<attachment_text attachment_id='att1'>",
+  "<page_number_1_index_0>",
+  '<line id="1">Revenue grew 45% year over year.</line>',
+  '<line id="2">Margins improved.</line>',
+  "</page_number_1_index_0>",
+  "<page_number_2_index_1>",
+  '<line id="7">Q4 revenue reached $2.3 billion.</line>',
+  "</page_number_2_index_1>",
+  "</attachment_text>",
+].join("\n");
+
+const goodCitation = {
+  id: 1,
+  attachment_id: "att1",
+  full_phrase: "Revenue grew 45% year over year.",
+  anchor_text: "45%",
+  page_id: "page_number_1_index_0",
+  line_ids: [1],
+};
+
+const codes = (llmOutput: string, options?: Parameters<typeof lintCitationResponse>[1]) =>
+  lintCitationResponse(llmOutput, options).diagnostics.map(diagnostic => diagnostic.code);
+
+// ─── Tests ─────────────────────────────────────────────────────
+
+describe("lintCitationResponse", () => {
+  it("accepts a well-formed response", () => {
+    const result = lintCitationResponse(makeResponse("Growth [1].", [goodCitation]), {
+      deepTextPromptPortion: DEEP_TEXT,
+    });
+
+    expect(result).toEqual({ valid: true, diagnostics: [], repairs: [] });
+  });
+
+  it("reports markers without data and unreferenced data", () => {
+    const output = makeResponse("Growth [1] and margins [3].", [goodCitation, { ...goodCitation, id: 2 }]);
+    const result = lintCitationResponse(output);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: "marker_without_data", severity: "error", citationId: 3 }),
+      expect.objectContaining({ code: "unreferenced_data", severity: "warning", citationId: 2 }),
+    ]);
+  });
+
+  it("reports duplicate ids", () => {
+    expect(codes(makeResponse("Growth [1].", [goodCitation, goodCitation]))).toContain("duplicate_id");
+  });
+
+  it("reports anchor text missing from the full phrase, ignoring case and whitespace", () => {
+    expect(codes(makeResponse("Growth [1].", [{ ...goodCitation, anchor_text: "YEAR   over" }]))).toEqual([]);
+    expect(codes(makeResponse("Growth [1].", [{ ...goodCitation, anchor_text: "52%" }]))).toEqual([
+      "anchor_not_in_phrase",
+    ]);
+  });
+
+  it("reports pages and lines that are not in the attachment text", () => {
+    const output = makeResponse("A [1]. B [2].", [
+      { ...goodCitation, page_id: "page_number_9_index_0" },
+      { ...goodCitation, id: 2, page_id: "2_1", line_ids: [7, 1] },
+    ]);
+    const result = lintCitationResponse(output, { deepTextPromptPortion: DEEP_TEXT });
+
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.citationId])).toEqual([
+      ["unknown_page", 1],
+      ["unknown_line", 2],
+    ]);
+    expect(result.diagnostics[1].message).toContain("line id(s) 1");
+  });
+
+  it("checks lines in bracketed [Page N] / [LN] attachment text", () => {
+    const deepText = "[Page 1]\n[L1] Revenue grew 45% year over year.\n[L2] Margins improved.";
+    const output = makeResponse("A [1].", [{ ...goodCitation, attachment_id: undefined, line_ids: [3] }]);
+
+    expect(codes(output, { deepTextPromptPortion: deepText })).toEqual(["unknown_line"]);
+  });
+
+  it("reports unknown attachment ids", () => {
+    const output = makeResponse("A [1].", [{ ...goodCitation, attachment_id: "att_other" }]);
+
+    expect(codes(output, { deepTextPromptPortion: DEEP_TEXT })).toEqual(["unknown_attachment"]);
+    expect(codes(output, { attachmentIds: ["att1", "att2"] })).toEqual(["unknown_attachment"]);
+    expect(codes(output)).toEqual([]);
+  });
+
+  it("skips page and line checks for audio/video citations", () => {
+    const output = makeResponse("A [1].", [
+      { id: 1, attachment_id: "att1", full_phrase: "Hello there", anchor_text: "Hello", timestamps: { s: "0:01" } },
+    ]);
+
+    expect(codes(output, { deepTextPromptPortion: DEEP_TEXT })).toEqual([]);
+  });
+
+  it("reports the JSON repairs that were applied", () => {
+    const output = makeResponse("Growth [1].", `[${JSON.stringify(goodCitation).slice(0, -1)},}]`);
+    const result = lintCitationResponse(output);
+
+    expect(result.repairs).toEqual(["removed trailing commas"]);
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(["json_repaired"]);
+  });
+
+  it("reports unparseable data", () => {
+    const result = lintCitationResponse(makeResponse("Growth [1].", "{not json at all"));
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics[0].code).toBe("invalid_json");
+  });
+
+  it("reports markers without a data block", () => {
+    expect(codes("Growth [1].")).toEqual(["missing_data_block"]);
+    expect(lintCitationResponse("No citations here.").valid).toBe(true);
+  });
+
+  it("reports entries without a full phrase", () => {
+    expect(codes(makeResponse("A [1].", [{ id: 1, anchor_text: "x" }]))).toEqual(["missing_full_phrase"]);
+  });
+});
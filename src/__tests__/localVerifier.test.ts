@@ -0,0 +1,212 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseDeepText } from "../parsing/deepText.js";
+import { verifyCitationsLocally } from "../parsing/localVerifier.js";
+import type { Citation } from "../types/citation.js";
+
+// ─── Fixtures ──────────────────────────────────────────────────
+
+const TAGGED_TEXT = [
+  "<attachment_text attachment_id='att1'>",
+  "<page_number_1_index_0>",
+  '<line id="1">Annual Report 2024</line>',
+  '<line id="2">Revenue grew 45% year over year, driven by</line>',
+  '<line id="3">strong demand in the “enterprise” segment.</line>',
+  '<line id="4">Margins improved to 32%.</line>',
+  "</page_number_1_index_0>",
+  "<page_number_2_index_1>",
+  '<line id="5">Q4 revenue reached $2.3 billion.</line>',
+  '<line id="6">Headcount grew to 1,200 employees.</line>',
+  "</page_number_2_index_1>",
+  "<page_number_3_index_2>",
+  '<line id="7">Outlook: cautious optimism for 2025.</line>',
+  "</page_number_3_index_2>",
+  "</attachment_text>",
+].join("\n");
+
+const BRACKETED_TEXT = "[Page 1]\n[L1] Total assets were $5.1 million.\n[L2] Liabilities fell by 12%.";
+
+function doc(fields: Partial<Citation>): Citation {
+  return { type: "document", attachmentId: "att1", ...fields } as Citation;
+}
+
+function verifyOne(citation: Citation, text: string | string[] = TAGGED_TEXT, adjacentPageRange?: number) {
+  return verifyCitationsLocally({ key: citation }, text, { adjacentPageRange }).key;
+}
+
+// ─── parseDeepText ─────────────────────────────────────────────
+
+describe("parseDeepText", () => {
+  it("splits tagged text into attachments, pages and lines", () => {
+    const [attachment] = parseDeepText(TAGGED_TEXT);
+
+    expect(attachment.attachmentId).toBe("att1");
+    expect(attachment.pages.map(page => page.pageNumber)).toEqual([1, 2, 3]);
+    expect(attachment.pages[1].lines).toEqual([
+      { lineId: 5, text: "Q4 revenue reached $2.3 billion." },
+      { lineId: 6, text: "Headcount grew to 1,200 employees." },
+    ]);
+  });
+
+  it("parses bracketed [Page N] / [LN] text without an attachment wrapper", () => {
+    const [attachment] = parseDeepText(BRACKETED_TEXT);
+
+    expect(attachment.attachmentId).toBeUndefined();
+    expect(attachment.pages).toHaveLength(1);
+    expect(attachment.pages[0].lines.map(line => line.text)).toEqual([
+      "Total assets were $5.1 million.",
+      "Liabilities fell by 12%.",
+    ]);
+  });
+
+  it("keeps text of pages without line markers", () => {
+    const [attachment] = parseDeepText("<page_number_1_index_0>\nJust some text.\n</page_number_1_index_0>");
+
+    expect(attachment.pages[0]).toEqual({ pageNumber: 1, lines: [], text: "Just some text." });
+  });
+});
+
+// ─── verifyCitationsLocally ────────────────────────────────────
+
+describe("verifyCitationsLocally", () => {
+  it("finds a phrase on the cited lines", () => {
+    const verification = verifyOne(
+      doc({ fullPhrase: "Q4 revenue reached $2.3 billion.", anchorText: "$2.3 billion", pageNumber: 2, lineIds: [5] }),
+    );
+
+    expect(verification.status).toBe("found");
+    expect(verification.searchAttempts).toEqual([
+      expect.objectContaining({
+        method: "exact_line_match",
+        success: true,
+        matchedVariation: "exact_full_phrase",
+        foundLocation: { page: 2, line: 5 },
+      }),
+    ]);
+    expect(verification.verifiedAnchorText).toBe("$2.3 billion");
+    expect(verification.document).toEqual({ verifiedPageNumber: 2, verifiedLineIds: [5], totalLinesOnPage: 2 });
+  });
+
+  it("matches phrases that wrap across lines, with normalized quotes and case", () => {
+    const verification = verifyOne(
+      doc({
+        fullPhrase: 'driven by strong demand in the "Enterprise" segment',
+        pageNumber: 1,
+        lineIds: [2, 3],
+      }),
+    );
+
+    expect(verification.status).toBe("found");
+    expect(verification.searchAttempts?.[0]).toMatchObject({
+      method: "exact_line_match",
+      matchedVariation: "normalized_full_phrase",
+      variationType: "normalized",
+    });
+    expect(verification.document?.verifiedLineIds).toEqual([2, 3]);
+  });
+
+  it("falls back to neighbouring lines, then the rest of the page", () => {
+    const buffered = verifyOne(doc({ fullPhrase: "Margins improved to 32%.", pageNumber: 1, lineIds: [3] }));
+    expect(buffered.status).toBe("found");
+    expect(buffered.searchAttempts?.map(attempt => [attempt.method, attempt.success])).toEqual([
+      ["exact_line_match", false],
+      ["line_with_buffer", true],
+    ]);
+
+    const otherLine = verifyOne(doc({ fullPhrase: "Annual Report 2024", pageNumber: 1, lineIds: [4] }));
+    expect(otherLine.status).toBe("found_on_other_line");
+    expect(otherLine.searchAttempts?.at(-1)).toMatchObject({ method: "current_page", searchScope: "page" });
+  });
+
+  it("reports phrases found on an adjacent or distant page", () => {
+    const adjacent = verifyOne(doc({ fullPhrase: "Headcount grew to 1,200 employees.", pageNumber: 1, lineIds: [2] }));
+    expect(adjacent.status).toBe("found_on_other_page");
+    expect(adjacent.searchAttempts?.at(-1)).toMatchObject({ method: "adjacent_pages", pageSearched: 2 });
+    expect(adjacent.document?.verifiedPageNumber).toBe(2);
+
+    const distant = verifyOne(doc({ fullPhrase: "cautious optimism", pageNumber: 1 }), TAGGED_TEXT, 1);
+    expect(distant.status).toBe("found_on_other_page");
+    expect(distant.searchAttempts?.map(attempt => attempt.method)).toEqual([
+      "current_page",
+      "adjacent_pages",
+      "expanded_window",
+    ]);
+  });
+
+  it("searches the whole attachment when the citation has no page", () => {
+    const verification = verifyOne(doc({ fullPhrase: "Liabilities fell by 12%." }), BRACKETED_TEXT);
+
+    expect(verification.status).toBe("found");
+    expect(verification.searchAttempts).toEqual([
+      expect.objectContaining({ method: "expanded_window", searchScope: "document", success: true }),
+    ]);
+  });
+
+  it("falls back to the anchor text", () => {
+    const verification = verifyOne(
+      doc({
+        fullPhrase: "Revenue grew 50% year over year.",
+        anchorText: "year over year",
+        pageNumber: 1,
+        lineIds: [2],
+      }),
+    );
+
+    expect(verification.status).toBe("found_anchor_text_only");
+    expect(verification.verifiedFullPhrase).toBeUndefined();
+    expect(verification.verifiedAnchorText).toBe("year over year");
+    expect(verification.searchAttempts?.at(-1)).toMatchObject({
+      method: "anchor_text_fallback",
+      searchPhraseType: "anchor_text",
+      matchedVariation: "exact_anchor_text",
+    });
+  });
+
+  it("reports not_found with every attempt recorded", () => {
+    const verification = verifyOne(
+      doc({ fullPhrase: "Net loss widened", anchorText: "loss", pageNumber: 2, lineIds: [5] }),
+    );
+
+    expect(verification.status).toBe("not_found");
+    expect(verification.searchAttempts?.every(attempt => !attempt.success)).toBe(true);
+    expect(verification.document).toBeUndefined();
+  });
+
+  it("flags an anchor text that is not part of the found phrase", () => {
+    const verification = verifyOne(
+      doc({ fullPhrase: "Margins improved to 32%.", anchorText: "45%", pageNumber: 1, lineIds: [4] }),
+    );
+
+    expect(verification.status).toBe("found_phrase_missed_anchor_text");
+  });
+
+  it("skips citations it cannot check locally", () => {
+    const verifications = verifyCitationsLocally(
+      {
+        noPhrase: doc({ anchorText: "x" }),
+        otherAttachment: doc({ attachmentId: "att2", fullPhrase: "Annual Report 2024" }),
+        audio: { type: "audio", attachmentId: "att1", fullPhrase: "Hello", timestamps: { startTime: "00:01" } },
+      },
+      TAGGED_TEXT,
+    );
+
+    expect(Object.values(verifications).map(verification => verification.status)).toEqual([
+      "skipped",
+      "skipped",
+      "skipped",
+    ]);
+  });
+
+  it("keys array input by citation key and matches each citation to its attachment", () => {
+    const other = "<attachment_text attachment_id='att2'>\n[Page 1]\n[L1] Annual Report 2023\n</attachment_text>";
+    const citations = [
+      doc({ fullPhrase: "Annual Report 2024" }),
+      doc({ attachmentId: "att2", fullPhrase: "Annual Report 2023" }),
+    ];
+    const verifications = verifyCitationsLocally(citations, [TAGGED_TEXT, other]);
+
+    expect(Object.values(verifications).map(verification => [verification.attachmentId, verification.status])).toEqual([
+      ["att1", "found"],
+      ["att2", "found"],
+    ]);
+  });
+});
@@ -62,6 +62,17 @@ describe("getCitationStatus", () => {
     expect(pendingStatus.isPending).toBe(true);
   });
 
+  it("flags failed verifications as errors, not pending", () => {
+    const status = getCitationStatus({
+      status: "error",
+      verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+    });
+    expect(status.isError).toBe(true);
+    expect(status.isPending).toBe(false);
+    expect(status.isMiss).toBe(false);
+    expect(status.isVerified).toBe(false);
+  });
+
   describe("explicit status coverage", () => {
     it("treats found_on_other_page as partial match (verified with amber indicator)", () => {
       const verification: Verification = {
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseAnthropicCitations, parseGeminiGrounding, parseOpenAIAnnotations } from "../parsing/providerCitations.js";
+
+function citationAt(result: ReturnType<typeof parseAnthropicCitations>, marker: number) {
+  return result.citations[result.markerMap[marker]];
+}
+
+describe("parseAnthropicCitations", () => {
+  const message = {
+    content: [
+      { type: "text", text: "According to the report, " },
+      {
+        type: "text",
+        text: "revenue grew 45%",
+        citations: [
+          {
+            type: "page_location",
+            cited_text: "Revenue grew 45% year over year.",
+            document_index: 0,
+            document_title: "Annual Report",
+            start_page_number: 2,
+            end_page_number: 3,
+          },
+        ],
+      },
+      { type: "text", text: " and " },
+      {
+        type: "text",
+        text: "margins improved",
+        citations: [
+          {
+            type: "char_location",
+            cited_text: "Margins improved to 32%.",
+            document_index: 1,
+            start_char_index: 10,
+            end_char_index: 34,
+          },
+          {
+            type: "web_search_result_location",
+            cited_text: "Margins are up across the sector.",
+            url: "https://www.example.com/news",
+            title: "Sector news",
+          },
+        ],
+      },
+      { type: "text", text: ". Revenue grew again", citations: [] },
+      { type: "tool_use", id: "tool_1" },
+    ],
+  };
+
+  it("inserts markers after cited blocks and converts each citation", () => {
+    const result = parseAnthropicCitations(message, { attachmentIds: ["att_report", "att_memo"] });
+
+    expect(result.format).toBe("numeric");
+    expect(result.visibleText).toBe(
+      "According to the report, revenue grew 45% [1] and margins improved [2][3]. Revenue grew again",
+    );
+    expect(citationAt(result, 1)).toEqual({
+      type: "document",
+      attachmentId: "att_report",
+      pageNumber: 2,
+      fullPhrase: "Revenue grew 45% year over year.",
+      citationNumber: 1,
+    });
+    expect(citationAt(result, 2)).toMatchObject({ type: "document", attachmentId: "att_memo" });
+    expect(citationAt(result, 2).pageNumber).toBeUndefined();
+    expect(citationAt(result, 3)).toMatchObject({
+      type: "url",
+      url: "https://www.example.com/news",
+      domain: "example.com",
+      title: "Sector news",
+      fullPhrase: "Margins are up across the sector.",
+    });
+  });
+
+  it("accepts the content array and reuses numbers for repeated citations", () => {
+    const cited = { type: "char_location", cited_text: "Same quote.", document_index: 0 };
+    const result = parseAnthropicCitations([
+      { type: "text", text: "First claim.", citations: [cited] },
+      { type: "text", text: " Second claim.", citations: [cited] },
+    ]);
+
+    expect(result.visibleText).toBe("First claim. [1] Second claim. [1]");
+    expect(Object.keys(result.citations)).toHaveLength(1);
+  });
+
+  it("returns format none when nothing is cited", () => {
+    const result = parseAnthropicCitations([{ type: "text", text: "No sources." }]);
+
+    expect(result).toMatchObject({ visibleText: "No sources.", citations: {}, markerMap: {}, format: "none" });
+  });
+});
+
+describe("parseOpenAIAnnotations", () => {
+  it("replaces rendered source links with markers (Responses API)", () => {
+    const text = "Revenue grew 45% last year ([example.com](https://example.com/report)). Costs fell.";
+    const start = text.indexOf("([");
+    const end = text.indexOf(")).") + 2;
+    const result = parseOpenAIAnnotations({
+      type: "output_text",
+      text,
+      annotations: [
+        {
+          type: "url_citation",
+          url: "https://example.com/report",
+          title: "Report",
+          start_index: start,
+          end_index: end,
+        },
+      ],
+    } as never);
+
+    expect(result.visibleText).toBe("Revenue grew 45% last year [1]. Costs fell.");
+    expect(citationAt(result, 1)).toMatchObject({
+      type: "url",
+      url: "https://example.com/report",
+      domain: "example.com",
+      fullPhrase: "Revenue grew 45% last year",
+    });
+  });
+
+  it("places markers after annotated claim text (Chat Completions)", () => {
+    const content = "Intro. The sky is blue on clear days. More text.";
+    const start = content.indexOf("The sky");
+    const end = content.indexOf(" More");
+    const result = parseOpenAIAnnotations({
+      content,
+      annotations: [
+        {
+          type: "url_citation",
+          url_citation: { url: "https://science.example.org/sky", start_index: start, end_index: end },
+        },
+      ],
+    });
+
+    expect(result.visibleText).toBe("Intro. The sky is blue on clear days. [1] More text.");
+    expect(citationAt(result, 1).fullPhrase).toBe("The sky is blue on clear days.");
+  });
+
+  it("maps file citations to attachments and uses the preceding sentence", () => {
+    const text = "Background first. The contract ends in 2027.";
+    const result = parseOpenAIAnnotations(
+      [
+        {
+          text,
+          annotations: [{ type: "file_citation", index: text.length, file_id: "file-abc", filename: "contract.pdf" }],
+        },
+      ],
+      {
+        attachmentIds: { "file-abc": "att_contract" },
+      },
+    );
+
+    expect(result.visibleText).toBe("Background first. The contract ends in 2027. [1]");
+    expect(citationAt(result, 1)).toEqual({
+      type: "document",
+      attachmentId: "att_contract",
+      fullPhrase: "The contract ends in 2027.",
+      citationNumber: 1,
+    });
+  });
+});
+
+describe("parseGeminiGrounding", () => {
+  it("inserts markers after grounded segments using UTF-8 byte offsets", () => {
+    const text = "Café sales rose 10%. Tea sales fell.";
+    const firstEnd = new TextEncoder().encode("Café sales rose 10%.").length;
+    const response = {
+      candidates: [
+        {
+          content: { parts: [{ text }] },
+          groundingMetadata: {
+            groundingChunks: [
+              { web: { uri: "https://news.example.com/cafe", title: "news.example.com" } },
+              { retrievedContext: { uri: "https://docs.example.com/tea", title: "Tea report" } },
+            ],
+            groundingSupports: [
+              {
+                segment: { startIndex: 0, endIndex: firstEnd, text: "Café sales rose 10%." },
+                groundingChunkIndices: [0, 1],
+              },
+              { segment: { text: "Tea sales fell." }, groundingChunkIndices: [1] },
+            ],
+          },
+        },
+      ],
+    };
+    const result = parseGeminiGrounding(response);
+
+    expect(result.visibleText).toBe("Café sales rose 10%. [1][2] Tea sales fell. [3]");
+    expect(citationAt(result, 1)).toMatchObject({
+      type: "url",
+      url: "https://news.example.com/cafe",
+      fullPhrase: "Café sales rose 10%.",
+    });
+    expect(citationAt(result, 3)).toMatchObject({ url: "https://docs.example.com/tea", fullPhrase: "Tea sales fell." });
+  });
+
+  it("handles a candidate without grounding", () => {
+    expect(parseGeminiGrounding({ content: { parts: [{ text: "Plain." }] } }).format).toBe("none");
+  });
+});
@@ -117,6 +117,13 @@ describe("getIndicator", () => {
       const status = getCitationStatus(pendingVerification);
       expect(getIndicator(status, "check")).toBe("◌");
     });
+
+    it("returns bang for a failed verification, not the pending circle", () => {
+      const status = getCitationStatus({ status: "error" });
+      expect(status.isError).toBe(true);
+      expect(getIndicator(status, "check")).toBe("!");
+      expect(getIndicator(status, "word")).toBe("!error");
+    });
   });
 
   describe("all indicator styles", () => {
@@ -129,6 +136,7 @@ describe("getIndicator", () => {
       expect(typeof set.partial).toBe("string");
       expect(typeof set.notFound).toBe("string");
       expect(typeof set.pending).toBe("string");
+      expect(typeof set.error).toBe("string");
     });
 
     it("none style returns empty strings", () => {
@@ -137,6 +145,7 @@ describe("getIndicator", () => {
       expect(set.partial).toBe("");
       expect(set.notFound).toBe("");
       expect(set.pending).toBe("");
+      expect(set.error).toBe("");
     });
   });
 });
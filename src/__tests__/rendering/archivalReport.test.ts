@@ -0,0 +1,255 @@
+import { describe, expect, it } from "@jest/globals";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../../prompts/citationPrompts.js";
+import type { Verification } from "../../types/verification.js";
+import { getCitationKey } from "../../utils/citationKey.js";
+import { renderArchivalCitationReport } from "../../vanilla/archivalReport.js";
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+function makeNumericResponse(visibleText: string, citations: unknown[]): string {
+  return `${visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(citations)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+/** Fetch double serving `images` by URL and recording requests. */
+function makeFetch(images: Record<string, { bytes: Uint8Array; type?: string; status?: number }>) {
+  const requested: string[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    requested.push(url);
+    const image = images[url];
+    if (!image) return new Response("missing", { status: 404 });
+    return new Response(image.bytes, {
+      status: image.status ?? 200,
+      headers: image.type ? { "content-type": image.type } : {},
+    });
+  }) as typeof fetch;
+  return { fetchImpl, requested };
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+const input = makeNumericResponse("Revenue grew 45% [1] according to reports.", [
+  {
+    id: 1,
+    attachment_id: "abc123",
+    page_id: "3_0",
+    full_phrase: "Revenue grew 45% in Q4.",
+    anchor_text: "grew 45%",
+    line_ids: [12, 13],
+  },
+]);
+
+const citationKey = getCitationKey({
+  attachmentId: "abc123",
+  pageNumber: 3,
+  fullPhrase: "Revenue grew 45% in Q4.",
+  anchorText: "grew 45%",
+  lineIds: [12, 13],
+});
+
+const EVIDENCE_URL = "https://cdn.example.com/evidence.png";
+const PAGE_URL = "https://cdn.example.com/page-3.png";
+
+const verification: Verification = {
+  status: "found",
+  label: "Q4 Report",
+  document: { verifiedPageNumber: 3 },
+  evidence: { src: EVIDENCE_URL },
+  pageImages: [{ pageNumber: 3, dimensions: { width: 800, height: 1000 }, imageUrl: PAGE_URL }],
+};
+
+const PNG_DATA_URI = `data:image/png;base64,${btoa(String.fromCharCode(...PNG_BYTES))}`;
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("renderArchivalCitationReport", () => {
+  it("inlines evidence and page images as data URIs", async () => {
+    const { fetchImpl, requested } = makeFetch({
+      [EVIDENCE_URL]: { bytes: PNG_BYTES, type: "image/png" },
+      [PAGE_URL]: { bytes: PNG_BYTES }, // No Content-Type: sniffed
+    });
+    const report = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+    });
+
+    expect(requested).toEqual([EVIDENCE_URL, PAGE_URL]);
+    expect(report.embeddedImages).toBe(2);
+    expect(report.skippedImages).toEqual([]);
+    expect(report.html).not.toContain("cdn.example.com");
+    expect(report.html).toContain(PNG_DATA_URI);
+    expect(report.html).toContain("<!DOCTYPE html>");
+    expect(report.html).toContain('<script type="application/json" id="dc-data">');
+  });
+
+  it("fetches each URL once", async () => {
+    const { fetchImpl, requested } = makeFetch({ [EVIDENCE_URL]: { bytes: PNG_BYTES, type: "image/png" } });
+    const shared: Verification = { ...verification, pageImages: undefined };
+    await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: shared, other: shared },
+      fetch: fetchImpl,
+    });
+    expect(requested).toEqual([EVIDENCE_URL]);
+  });
+
+  it("records the generation time and a hash of the content", async () => {
+    const { fetchImpl } = makeFetch({});
+    const report = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      generatedAt: new Date("2026-01-15T10:30:00Z"),
+    });
+
+    expect(report.generatedAt).toBe("2026-01-15T10:30:00.000Z");
+    expect(report.html).toContain('<meta name="dc-generated-at" content="2026-01-15T10:30:00.000Z">');
+    expect(report.html).toContain(`<meta name="dc-content-hash" content="sha256:${report.contentHash}">`);
+
+    const content = report.html.split("<!-- dc-archive-content -->\n")[1].split("\n<!-- /dc-archive-content -->")[0];
+    expect(report.contentHash).toBe(await sha256Hex(`2026-01-15T10:30:00.000Z\n${content}`));
+  });
+
+  it("stops downloading an image once it exceeds the limit, without Content-Length", async () => {
+    let pulled = 0;
+    const fetchImpl = (async () =>
+      new Response(
+        new ReadableStream<Uint8Array>({
+          pull(controller) {
+            pulled++;
+            controller.enqueue(pulled === 1 ? PNG_BYTES : new Uint8Array(1024));
+            if (pulled === 1000) controller.close();
+          },
+        }),
+        { headers: { "content-type": "image/png" } },
+      )) as typeof fetch;
+
+    const report = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      includePageImages: false,
+      maxImageBytes: 4096,
+    });
+
+    expect(report.skippedImages).toEqual([{ url: EVIDENCE_URL, reason: "too_large" }]);
+    expect(pulled).toBeLessThan(10);
+  });
+
+  it("keeps Markdown images as links", async () => {
+    const { fetchImpl, requested } = makeFetch({});
+    const report = await renderArchivalCitationReport(
+      makeNumericResponse("![chart](https://example.com/chart.png)", []),
+      { fetch: fetchImpl, markdown: true },
+    );
+    expect(report.html).toContain('<a href="https://example.com/chart.png" rel="noopener">chart</a>');
+    expect(report.html).not.toContain('<img src="https://example.com/chart.png"');
+    expect(requested).toEqual([]);
+  });
+
+  it("leaves failed and unsupported images as remote URLs", async () => {
+    const { fetchImpl } = makeFetch({
+      [EVIDENCE_URL]: { bytes: new TextEncoder().encode("<svg onload=alert(1)>"), type: "image/svg+xml" },
+    });
+    const report = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+    });
+
+    expect(report.embeddedImages).toBe(0);
+    expect(report.skippedImages).toEqual([
+      { url: EVIDENCE_URL, reason: "unsupported_type" },
+      { url: PAGE_URL, reason: "fetch_failed" },
+    ]);
+    expect(report.html).toContain(EVIDENCE_URL);
+    expect(report.html).not.toContain("data:image/svg+xml;base64");
+  });
+
+  it("skips images whose download doesn't finish within timeoutMs", async () => {
+    const { fetchImpl: serve } = makeFetch({ [EVIDENCE_URL]: { bytes: PNG_BYTES, type: "image/png" } });
+    // The page image server never answers, and the fetch ignores its signal
+    const fetchImpl = ((url: RequestInfo | URL) =>
+      String(url) === PAGE_URL ? new Promise<Response>(() => {}) : serve(url)) as typeof fetch;
+    const report = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      timeoutMs: 20,
+    });
+
+    expect(report.embeddedImages).toBe(1);
+    expect(report.skippedImages).toEqual([{ url: PAGE_URL, reason: "fetch_failed" }]);
+    expect(report.html).toContain(PAGE_URL);
+  });
+
+  it("aborts pending downloads and rejects when the signal aborts", async () => {
+    const signals: (AbortSignal | null | undefined)[] = [];
+    const fetchImpl = ((_url: RequestInfo | URL, init?: RequestInit) => {
+      signals.push(init?.signal);
+      return new Promise<Response>(() => {});
+    }) as typeof fetch;
+    const controller = new AbortController();
+    const report = renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(new Error("cancelled")), 10);
+
+    await expect(report).rejects.toThrow("cancelled");
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal?.aborted)).toBe(true);
+  });
+
+  it("skips images over the size limits", async () => {
+    const { fetchImpl } = makeFetch({
+      [EVIDENCE_URL]: { bytes: PNG_BYTES, type: "image/png" },
+      [PAGE_URL]: { bytes: PNG_BYTES, type: "image/png" },
+    });
+    const perImage = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      maxImageBytes: 4,
+    });
+    expect(perImage.skippedImages.map(skip => skip.reason)).toEqual(["too_large", "too_large"]);
+
+    const total = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      maxTotalImageBytes: PNG_BYTES.length + 1,
+    });
+    expect(total.embeddedImages).toBe(1);
+    expect(total.skippedImages).toEqual([{ url: PAGE_URL, reason: "total_limit" }]);
+    expect(total.html).toContain(PNG_DATA_URI);
+  });
+
+  it("downscales oversized images with the hook", async () => {
+    const { fetchImpl } = makeFetch({ [EVIDENCE_URL]: { bytes: PNG_BYTES, type: "image/png" } });
+    const small = new Uint8Array([0xff, 0xd8, 0xff]);
+    const report = await renderArchivalCitationReport(input, {
+      verifications: { [citationKey]: verification },
+      fetch: fetchImpl,
+      includePageImages: false,
+      maxImageBytes: 8,
+      downscaleImage: async (image, maxBytes) => {
+        expect(image.url).toBe(EVIDENCE_URL);
+        expect(image.bytes.length).toBeGreaterThan(maxBytes);
+        return { ...image, mimeType: "image/jpeg", bytes: small };
+      },
+    });
+
+    expect(report.embeddedImages).toBe(1);
+    expect(report.html).toContain(`data:image/jpeg;base64,${btoa(String.fromCharCode(...small))}`);
+    // Page images are left alone when disabled
+    expect(report.html).toContain(PAGE_URL);
+  });
+});
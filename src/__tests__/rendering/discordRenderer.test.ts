@@ -0,0 +1,117 @@
+import { describe, expect, it } from "@jest/globals";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../../prompts/citationPrompts.js";
+import { renderCitationsForDiscord } from "../../rendering/discord/discordRenderer.js";
+import { DISCORD_LIMITS } from "../../rendering/discord/discordVariants.js";
+import { getCitationKey } from "../../utils/citationKey.js";
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+function makeNumericResponse(visibleText: string, citations: unknown[]): string {
+  return `${visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(citations)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+function makeCitations(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    attachment_id: "abc123",
+    page_id: `${i + 1}_${i}`,
+    full_phrase: `Fact number ${i + 1}.`,
+    anchor_text: `Fact ${i + 1}`,
+  }));
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("renderCitationsForDiscord", () => {
+  it("renders the answer as an embed description", () => {
+    const output = renderCitationsForDiscord(makeNumericResponse("Revenue grew [1].", makeCitations(1)), {
+      color: 0x5865f2,
+    });
+    expect(output.markdown).toBe("Revenue grew [1◌].");
+    expect(output.messages).toEqual([{ embeds: [{ description: "Revenue grew [1◌].", color: 0x5865f2 }] }]);
+  });
+
+  it("adds sources as embed fields with proof links", () => {
+    const output = renderCitationsForDiscord(makeNumericResponse("Revenue grew [1].", makeCitations(1)), {
+      includeSources: true,
+      proofBaseUrl: "https://proof.example.com",
+      sourceLabels: { abc123: "Q4 Report" },
+    });
+    const [, sources] = output.messages[0].embeds;
+    expect(sources.title).toBe("Sources");
+    expect(sources.fields?.[0].name).toBe("[1] ◌ Pending");
+    expect(sources.fields?.[0].value).toMatch(/^Q4 Report — p\.1\n\[View proof\]\(https:\/\/proof\.example\.com\/p\//);
+    expect(output.markdown).toMatch(/^Revenue grew \[\[1◌\]\(https:[^)]+\)\]\.$/);
+  });
+
+  it("marks failed verifications with the error indicator", () => {
+    const key = getCitationKey({
+      attachmentId: "abc123",
+      pageNumber: 1,
+      fullPhrase: "Fact number 1.",
+      anchorText: "Fact 1",
+    });
+    const output = renderCitationsForDiscord(makeNumericResponse("Revenue grew [1].", makeCitations(1)), {
+      includeSources: true,
+      verifications: {
+        [key]: {
+          status: "error",
+          verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+        },
+      },
+    });
+    expect(output.markdown).toBe("Revenue grew [1!].");
+    expect(output.messages[0].embeds[1].fields?.[0].name).toBe("[1] ! Verification Error");
+  });
+
+  it("starts a new sources embed after 25 fields", () => {
+    const output = renderCitationsForDiscord(makeNumericResponse("Claims [1-30].", makeCitations(30)), {
+      includeSources: true,
+    });
+    const embeds = output.messages.flatMap(message => message.embeds);
+    expect(embeds.filter(embed => embed.fields).map(embed => embed.fields?.length)).toEqual([25, 5]);
+    expect(embeds.filter(embed => embed.title === "Sources")).toHaveLength(1);
+  });
+
+  it("respects description, field and per-message limits", () => {
+    const text = Array.from({ length: 30 }, (_, i) => `${"word ".repeat(60)}claim [${i + 1}].`).join("\n\n");
+    const output = renderCitationsForDiscord(makeNumericResponse(text, makeCitations(30)), {
+      includeSources: true,
+      proofBaseUrl: "https://proof.example.com",
+      sourceLabels: { abc123: "A very long source label ".repeat(60) },
+    });
+
+    const embeds = output.messages.flatMap(message => message.embeds);
+    expect(embeds.filter(embed => embed.description).length).toBeGreaterThan(1);
+    expect(embeds.filter(embed => embed.fields).flatMap(embed => embed.fields)).toHaveLength(30);
+    for (const embed of embeds) {
+      expect(embed.description?.length ?? 0).toBeLessThanOrEqual(DISCORD_LIMITS.description);
+      for (const field of embed.fields ?? []) {
+        expect(field.value.length).toBeLessThanOrEqual(DISCORD_LIMITS.fieldValue);
+        expect(field.value).toContain("[View proof](");
+      }
+    }
+    for (const message of output.messages) {
+      expect(message.embeds.length).toBeLessThanOrEqual(DISCORD_LIMITS.embeds);
+      const length = message.embeds.reduce(
+        (sum, embed) =>
+          sum +
+          (embed.title?.length ?? 0) +
+          (embed.description?.length ?? 0) +
+          (embed.fields ?? []).reduce((total, field) => total + field.name.length + field.value.length, 0),
+        0,
+      );
+      expect(length).toBeLessThanOrEqual(DISCORD_LIMITS.total);
+    }
+    expect(
+      embeds
+        .filter(embed => embed.description)
+        .map(embed => embed.description)
+        .join("\n\n"),
+    ).toBe(output.markdown);
+  });
+});
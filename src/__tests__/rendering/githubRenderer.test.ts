@@ -1,6 +1,7 @@
 import { describe, expect, it } from "@jest/globals";
 import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../../prompts/citationPrompts.js";
 import { renderCitationsForGitHub } from "../../rendering/github/githubRenderer.js";
+import { getCitationKey } from "../../utils/citationKey.js";
 
 // =============================================================================
 // TEST HELPERS
@@ -54,6 +55,25 @@ describe("renderCitationsForGitHub", () => {
     expect(output.citations).toHaveLength(1);
   });
 
+  it("marks failed verifications with the error indicator", () => {
+    const output = renderCitationsForGitHub(simpleInput, {
+      verifications: {
+        [getCitationKey({
+          attachmentId: "abc123",
+          pageNumber: 3,
+          fullPhrase: "Revenue grew 45% in Q4.",
+          anchorText: "grew 45%",
+          lineIds: [12, 13],
+        })]: {
+          status: "error",
+          verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+        },
+      },
+    });
+    expect(output.markdown).toContain("[1!]");
+    expect(output.markdown).not.toContain("◌");
+  });
+
   it("renders with proof URLs as markdown links", () => {
     const output = renderCitationsForGitHub(simpleInput, {
       proofBaseUrl: "https://proof.deepcitation.com",
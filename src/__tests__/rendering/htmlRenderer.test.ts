@@ -162,6 +162,28 @@ describe("renderCitationsAsHtml", () => {
     expect(output.html).toContain("✗");
   });
 
+  it("labels failed verifications as errors, not pending", () => {
+    const citation = {
+      attachmentId: "abc123",
+      pageNumber: 3,
+      fullPhrase: "Revenue grew 45% in Q4.",
+      anchorText: "grew 45%",
+      lineIds: [12, 13],
+    };
+    const key = getCitationKey(citation);
+    const output = renderCitationsAsHtml(simpleInput, {
+      verifications: {
+        [key]: {
+          status: "error",
+          verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+        },
+      },
+      includeSources: true,
+    });
+    expect(output.html).toContain("Verification Error");
+    expect(output.html).not.toContain("Pending");
+  });
+
   it("returns correct structure", () => {
     const output = renderCitationsAsHtml(simpleInput);
     expect(output).toHaveProperty("content");
@@ -186,3 +208,80 @@ describe("renderCitationsAsHtml", () => {
     expect(output.html).toContain("Revenue &amp;amp; Growth");
   });
 });
+
+describe("renderCitationsAsHtml markdown mode", () => {
+  const makeCitation = (id: number) => ({
+    id,
+    attachment_id: "abc123",
+    page_id: "1_0",
+    full_phrase: `Phrase ${id}.`,
+    anchor_text: `Phrase ${id}`,
+  });
+  const markdownInput = makeNumericResponse(
+    "## Summary\n\n- Revenue grew [1]\n- Costs fell [2]\n\n| Metric | Source |\n|---|---|\n| Margin | [3] |\n\nRun `grep [1]` or:\n\n```\ncite [2]\n```",
+    [makeCitation(1), makeCitation(2), makeCitation(3)],
+  );
+
+  it("places citation triggers inside list items and table cells", () => {
+    const output = renderCitationsAsHtml(markdownInput, { markdown: true, includeStyles: false });
+    expect(output.html).toContain('<div class="dc-markdown">');
+    expect(output.html).toContain("<h2>Summary</h2>");
+    expect(output.html).toMatch(/<li>Revenue grew <span class="dc-citation[^"]*"[^>]*>.*?\[1/);
+    expect(output.html).toMatch(/<td><span class="dc-citation[^"]*"[^>]*>.*?\[3/);
+    expect(output.citations.map(c => c.citationNumber)).toEqual([1, 2, 3]);
+  });
+
+  it("keeps markers inside code literal", () => {
+    const output = renderCitationsAsHtml(markdownInput, { markdown: true, includeStyles: false });
+    expect(output.html).toContain("<code>grep [1]</code>");
+    expect(output.html).toContain("<pre><code>cite [2]\n</code></pre>");
+    expect(output.html.match(/data-citation-key=/g)).toHaveLength(3);
+  });
+
+  it("lists the same citations in the sources section", () => {
+    const output = renderCitationsAsHtml(markdownInput, { markdown: true, includeSources: true });
+    expect(output.sources).toContain("[1]");
+    expect(output.sources).toContain("[3]");
+    expect(output.full).toContain("<h3>Sources</h3>");
+  });
+
+  it("escapes raw HTML and unsafe links", () => {
+    const input = makeNumericResponse("<img src=x onerror=alert(1)> [click](javascript:alert(1)) [1]", [
+      makeCitation(1),
+    ]);
+    const output = renderCitationsAsHtml(input, { markdown: true, includeStyles: false });
+    expect(output.html).toContain("&lt;img src=x onerror=alert(1)&gt;");
+    expect(output.html).not.toContain("<img");
+    expect(output.html).not.toContain("javascript:");
+  });
+
+  it("places triggers in link labels after the link", () => {
+    const input = makeNumericResponse("[see [1]](https://example.com) and ![chart](https://example.com/c.png)", [
+      makeCitation(1),
+    ]);
+    const output = renderCitationsAsHtml(input, {
+      markdown: true,
+      includeStyles: false,
+      proofBaseUrl: "https://proof.example.com",
+    });
+    expect(output.html).toMatch(
+      /<a href="https:\/\/example\.com" rel="noopener">see <\/a><span [^>]*data-citation-key=[^>]*><a /,
+    );
+    expect(output.html).toContain('<a href="https://example.com/c.png" rel="noopener">chart</a>');
+    expect(output.html).not.toContain('<img src="https://example.com/c.png"');
+    expect(output.citations).toHaveLength(1);
+  });
+
+  it("renders images only with markdownImages", () => {
+    const input = makeNumericResponse("![chart](https://example.com/c.png) [1]", [makeCitation(1)]);
+    const output = renderCitationsAsHtml(input, { markdown: true, markdownImages: true, includeStyles: false });
+    expect(output.html).toContain('<img src="https://example.com/c.png" alt="chart">');
+  });
+
+  it("leaves Markdown syntax alone by default", () => {
+    const output = renderCitationsAsHtml(markdownInput, { includeStyles: false });
+    expect(output.html).not.toContain("dc-markdown");
+    expect(output.html).toContain("## Summary");
+    expect(output.html.match(/data-citation-key=/g)).toHaveLength(5);
+  });
+});
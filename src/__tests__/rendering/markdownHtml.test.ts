@@ -0,0 +1,122 @@
+import { describe, expect, it } from "@jest/globals";
+import { renderMarkdownHtml } from "../../rendering/html/markdownHtml.js";
+
+describe("renderMarkdownHtml", () => {
+  it("renders headings, paragraphs and emphasis", () => {
+    const html = renderMarkdownHtml("# Title\n\nSome **bold**, *italic* and ~~old~~ text.\nSame paragraph.");
+    expect(html).toContain("<h1>Title</h1>");
+    expect(html).toContain(
+      "<p>Some <strong>bold</strong>, <em>italic</em> and <del>old</del> text.\nSame paragraph.</p>",
+    );
+  });
+
+  it("renders nested and ordered lists", () => {
+    const html = renderMarkdownHtml("3. three\n4. four\n   - nested\n");
+    expect(html).toContain('<ol start="3">');
+    expect(html).toContain("<li>three</li>");
+    expect(html).toContain("<ul>\n<li>nested</li>\n</ul>");
+  });
+
+  it("renders GFM tables with alignment", () => {
+    const html = renderMarkdownHtml("| Name | Value |\n|:-----|------:|\n| a | 1 |");
+    expect(html).toContain('<th style="text-align:left">Name</th>');
+    expect(html).toContain('<td style="text-align:right">1</td>');
+  });
+
+  it("renders code spans and fenced code blocks verbatim", () => {
+    const html = renderMarkdownHtml("Use `a <b> *c*`.\n\n```ts\nconst x = 1 < 2;\n```");
+    expect(html).toContain("<code>a &lt;b&gt; *c*</code>");
+    expect(html).toContain('<pre><code class="language-ts">const x = 1 &lt; 2;\n</code></pre>');
+  });
+
+  it("renders blockquotes and rules", () => {
+    const html = renderMarkdownHtml("> quoted\ncontinued\n\n---");
+    expect(html).toContain("<blockquote>\n<p>quoted\ncontinued</p>\n</blockquote>");
+    expect(html).toContain("<hr>");
+  });
+
+  it("passes text runs but not code through renderText", () => {
+    const runs: string[] = [];
+    renderMarkdownHtml("Hello `code` world\n\n- item", {
+      renderText: text => {
+        runs.push(text);
+        return text.toUpperCase();
+      },
+    });
+    expect(runs).toEqual(["Hello ", " world", "item"]);
+  });
+
+  // ===========================================================================
+  // XSS
+  // ===========================================================================
+
+  it("escapes raw HTML", () => {
+    const html = renderMarkdownHtml('<script>alert(1)</script>\n\n<img src=x onerror="alert(1)">');
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+  });
+
+  it("drops links and images with unsafe URLs", () => {
+    const html = renderMarkdownHtml(
+      "[a](javascript:alert(1)) [b](JaVaScRiPt:alert(1)) [c](data:text/html,x) ![d](vbscript:x) [e](\u0001javascript:alert(1))",
+    );
+    expect(html).not.toContain("href");
+    expect(html).not.toContain("<img");
+    expect(html.toLowerCase()).not.toContain("javascript:");
+  });
+
+  it("keeps safe links and escapes their attributes", () => {
+    const html = renderMarkdownHtml('[docs](https://example.com/?a=1&b="2")');
+    expect(html).toContain('<a href="https://example.com/?a=1&amp;b=&quot;2&quot;" rel="noopener">docs</a>');
+  });
+
+  it("renders images as links unless allowImages is set", () => {
+    const markdown = '![chart](/img/c.png "Q4") ![](https://example.com/t.gif?u=1)';
+    const html = renderMarkdownHtml(markdown);
+    expect(html).not.toContain("<img");
+    expect(html).toContain('<a href="/img/c.png" rel="noopener">chart</a>');
+    expect(html).toContain('<a href="https://example.com/t.gif?u=1" rel="noopener">https://example.com/t.gif?u=1</a>');
+    expect(renderMarkdownHtml(markdown, { allowImages: true })).toContain('<img src="/img/c.png" alt="chart">');
+  });
+
+  it("never nests links", () => {
+    const html = renderMarkdownHtml("[a [b](https://b.example) <https://c.example>](https://a.example)");
+    expect(html.match(/<a /g)).toHaveLength(1);
+    expect(html).toContain('<a href="https://a.example" rel="noopener">a b &lt;https://c.example&gt;</a>');
+  });
+
+  it("passes link label text through renderText with an afterLink callback", () => {
+    const html = renderMarkdownHtml("[see **1**](https://example.com) end", {
+      renderText: (text, { afterLink }) => {
+        if (afterLink && text === "1") {
+          afterLink('<a href="#1">1</a>');
+          return "";
+        }
+        return text;
+      },
+    });
+    expect(html).toBe(
+      '<p><a href="https://example.com" rel="noopener">see <strong></strong></a><a href="#1">1</a> end</p>',
+    );
+  });
+
+  // ===========================================================================
+  // PATHOLOGICAL INPUT
+  // ===========================================================================
+
+  it("parses unmatched openers in linear time", () => {
+    const started = Date.now();
+    for (const markdown of ["*a ".repeat(20000), "_a ".repeat(20000), "[a ".repeat(20000), "`a ".repeat(20000)]) {
+      expect(renderMarkdownHtml(markdown)).toContain("a");
+    }
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it("renders very deep nesting as text instead of overflowing the stack", () => {
+    expect(renderMarkdownHtml(`${">".repeat(10000)} deep`)).toContain("deep");
+    expect(renderMarkdownHtml(`${"- ".repeat(10000)}deep`)).toContain("deep");
+    expect(renderMarkdownHtml(`${"[".repeat(10000)}deep${"](x)".repeat(10000)}`)).toContain("deep");
+    expect(renderMarkdownHtml(`${"**a ".repeat(5000)}deep${" a**".repeat(5000)}`)).toContain("deep");
+  });
+});
@@ -1,6 +1,17 @@
 import { describe, expect, it } from "@jest/globals";
+import { NUMERIC_SPLIT_PATTERN } from "../../parsing/citationMarkers.js";
+import { getCitationStatus } from "../../parsing/parseCitation.js";
 import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
-import { resolveSourceLabel, walkCitationSegments } from "../../rendering/shared.js";
+import {
+  BRACKET_GROUP_DELIMITERS,
+  getCompactGroupDelimiters,
+  getStatusLabel,
+  renderLinkedCitationMarker,
+  resolveSourceLabel,
+  SUPERSCRIPT_GROUP_DELIMITERS,
+  splitTextAtBoundaries,
+  walkCitationSegments,
+} from "../../rendering/shared.js";
 
 const PARSED_INPUT: ParsedCitationResult = {
   visibleText: "Hello [1] world [2] end",
@@ -52,6 +63,29 @@ describe("walkCitationSegments", () => {
     expect(segments.filter(s => s.type === "citation")).toHaveLength(0);
   });
 
+  it("expands grouped markers and marks adjacent citations as one group", () => {
+    for (const visibleText of ["See [1, 2].", "See [1-2].", "See [1][2]."]) {
+      const { segments } = walkCitationSegments({ ...PARSED_INPUT, visibleText, splitPattern: NUMERIC_SPLIT_PATTERN });
+      const citations = segments.filter(s => s.type === "citation");
+      expect(citations.map(s => s.citationKey)).toEqual(["key1", "key2"]);
+      expect(citations.map(s => s.group)).toEqual([
+        { index: 0, size: 2 },
+        { index: 1, size: 2 },
+      ]);
+    }
+  });
+
+  it("drops unknown members of a group and leaves separate markers ungrouped", () => {
+    const { segments } = walkCitationSegments({
+      ...PARSED_INPUT,
+      visibleText: "A [1, 99] b [2] c",
+      splitPattern: NUMERIC_SPLIT_PATTERN,
+    });
+    const citations = segments.filter(s => s.type === "citation");
+    expect(citations.map(s => s.citationKey)).toEqual(["key1", "key2"]);
+    expect(citations.every(s => s.group === undefined)).toBe(true);
+  });
+
   it("accepts a raw string input", () => {
     // Just verify it doesn't throw — parseCitationResponse handles the string
     const { segments } = walkCitationSegments("No citations here");
@@ -84,3 +118,70 @@ describe("resolveSourceLabel", () => {
     expect(resolveSourceLabel(cws as any, {})).toBe("Example Page");
   });
 });
+
+describe("getStatusLabel", () => {
+  it("labels failed verifications separately from pending ones", () => {
+    expect(getStatusLabel(getCitationStatus({ status: "error" }))).toBe("Verification Error");
+    expect(getStatusLabel(getCitationStatus({ status: "pending" }))).toBe("Pending");
+  });
+});
+
+describe("splitTextAtBoundaries", () => {
+  const LINK_PATTERN = /<[^<>]*>/g;
+
+  it("breaks at the last word boundary within the limit", () => {
+    expect(splitTextAtBoundaries("alpha beta gamma", 11)).toEqual(["alpha beta", "gamma"]);
+  });
+
+  it("moves a cut back to the start of a link", () => {
+    expect(splitTextAtBoundaries("abcdefgh<https://x.ex|x>", 20, LINK_PATTERN)).toEqual([
+      "abcdefgh",
+      "<https://x.ex|x>",
+    ]);
+  });
+
+  it("never splits a surrogate pair when there is no boundary", () => {
+    const chunks = splitTextAtBoundaries("😀".repeat(7), 5);
+    expect(chunks).toEqual(["😀😀", "😀😀", "😀😀", "😀"]);
+    expect(chunks.join("")).toBe("😀".repeat(7));
+  });
+
+  it("cuts a link longer than the limit at the limit", () => {
+    const link = `<https://example.com/${"a".repeat(20)}|proof>`;
+    const chunks = splitTextAtBoundaries(link, 16, LINK_PATTERN);
+    expect(chunks.every(chunk => chunk.length <= 16)).toBe(true);
+    expect(chunks.join("")).toBe(link);
+  });
+});
+
+describe("getCompactGroupDelimiters", () => {
+  it("returns delimiters for the brackets and superscript variants", () => {
+    expect(getCompactGroupDelimiters("brackets", true)).toBe(BRACKET_GROUP_DELIMITERS);
+    expect(getCompactGroupDelimiters("superscript", true)).toBe(SUPERSCRIPT_GROUP_DELIMITERS);
+  });
+
+  it("returns undefined without compactGroups or for other variants", () => {
+    expect(getCompactGroupDelimiters("brackets", false)).toBeUndefined();
+    expect(getCompactGroupDelimiters("inline", true)).toBeUndefined();
+  });
+});
+
+describe("renderLinkedCitationMarker", () => {
+  const pending = getCitationStatus(null);
+  const url = "https://proof.example.com/p/abc";
+
+  it("keeps the brackets outside the link", () => {
+    expect(renderLinkedCitationMarker(1, undefined, pending, "check", url, "brackets")).toBe(`[[1◌](${url})]`);
+    expect(renderLinkedCitationMarker(1, undefined, pending, "check", undefined, "brackets")).toBe("[1◌]");
+  });
+
+  it("omits the brackets of grouped markers", () => {
+    expect(renderLinkedCitationMarker(2, undefined, pending, "check", url, "brackets", true)).toBe(`[2◌](${url})`);
+  });
+
+  it("links superscript and inline markers as a whole", () => {
+    expect(renderLinkedCitationMarker(3, undefined, pending, "check", url, "superscript")).toBe(`[³◌](${url})`);
+    expect(renderLinkedCitationMarker(4, "grew 45%", pending, "check", url, "inline")).toBe(`[grew 45%◌](${url})`);
+    expect(renderLinkedCitationMarker(4, undefined, pending, "none", undefined, "inline")).toBe("Citation 4");
+  });
+});
@@ -151,6 +151,29 @@ describe("renderCitationsForSlack", () => {
     expect(output.message).toContain("✗");
   });
 
+  it("marks failed verifications with their own indicator and emoji", () => {
+    const output = renderCitationsForSlack(simpleInput, {
+      format: "blocks",
+      includeSources: true,
+      verifications: {
+        [getCitationKey({
+          attachmentId: "abc123",
+          pageNumber: 3,
+          fullPhrase: "Revenue grew 45% in Q4.",
+          anchorText: "grew 45%",
+          lineIds: [12, 13],
+        })]: {
+          status: "error",
+          verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+        },
+      },
+    });
+    expect(output.message).toContain("[1!]");
+    const sources = output.messages?.[0].blocks.find(block => block.type === "context");
+    expect(JSON.stringify(sources)).toContain(":exclamation:");
+    expect(JSON.stringify(sources)).not.toContain(":hourglass_flowing_sand:");
+  });
+
   it("returns correct structure", () => {
     const output = renderCitationsForSlack(simpleInput);
     expect(output).toHaveProperty("content");
@@ -160,3 +183,98 @@ describe("renderCitationsForSlack", () => {
     expect(output.content).toBe(output.message);
   });
 });
+
+describe("renderCitationsForSlack blocks format", () => {
+  it("renders the answer as section blocks and sources as context blocks", () => {
+    const citation = {
+      attachmentId: "abc123",
+      pageNumber: 3,
+      fullPhrase: "Revenue grew 45% in Q4.",
+      anchorText: "grew 45%",
+      lineIds: [12, 13],
+    };
+    const output = renderCitationsForSlack(simpleInput, {
+      format: "blocks",
+      includeSources: true,
+      verifications: { [getCitationKey(citation)]: verifiedVerification },
+      sourceLabels: { abc123: "Q4 Report" },
+    });
+
+    expect(output.messages).toHaveLength(1);
+    const [message] = output.messages ?? [];
+    expect(message.blocks.map(block => block.type)).toEqual(["section", "divider", "section", "context"]);
+    expect(message.blocks[0]).toEqual({ type: "section", text: { type: "mrkdwn", text: output.message } });
+    expect(message.blocks[3]).toEqual({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: ":white_check_mark: [1] Q4 Report — p.3" }],
+    });
+    expect(message.text).toContain(output.message);
+  });
+
+  it("adds proof snippet image accessories when requested", () => {
+    const output = renderCitationsForSlack(simpleInput, {
+      format: "blocks",
+      includeSources: true,
+      includeSnippetImages: true,
+      proofBaseUrl: "https://proof.example.com",
+    });
+    const source = output.messages?.[0].blocks.at(-1);
+    expect(source?.type).toBe("section");
+    expect(source?.type === "section" && source.accessory?.image_url).toMatch(
+      /^https:\/\/proof\.example\.com\/p\/.+format=png/,
+    );
+    expect(source?.type === "section" && source.text.text).toMatch(/^:hourglass_flowing_sand: <https:[^|]+\|\[1\]>/);
+  });
+
+  it("splits long answers on the section limit and overflows into thread messages", () => {
+    const paragraph = `${"word ".repeat(500).trim()} [1].`;
+    const longInput = makeNumericResponse(Array.from({ length: 4 }, () => paragraph).join("\n\n"), [
+      { id: 1, attachment_id: "abc123", page_id: "1_0", full_phrase: "A fact.", anchor_text: "fact" },
+    ]);
+    const output = renderCitationsForSlack(longInput, { format: "blocks", includeSources: true });
+
+    const blocks = output.messages?.flatMap(message => message.blocks) ?? [];
+    for (const block of blocks) {
+      if (block.type === "section") expect(block.text.text.length).toBeLessThanOrEqual(3000);
+    }
+    expect(output.messages?.length).toBeGreaterThan(1);
+    expect(output.full).not.toMatch(/\.\.\.$/);
+    expect(
+      blocks
+        .filter(block => block.type === "section")
+        .slice(0, -1)
+        .map(block => block.type === "section" && block.text.text)
+        .join("\n\n"),
+    ).toBe(output.message);
+  });
+
+  it("never splits inside a Slack link", () => {
+    const text = Array.from({ length: 300 }, (_, i) => `claim ${i} [1]`).join(" ");
+    const input = makeNumericResponse(text, [
+      { id: 1, attachment_id: "abc123", page_id: "1_0", full_phrase: "A fact.", anchor_text: "fact" },
+    ]);
+    const output = renderCitationsForSlack(input, {
+      format: "blocks",
+      proofBaseUrl: "https://proof.example.com",
+      maxMessageLength: 40000,
+    });
+    const sections = output.messages?.[0].blocks ?? [];
+    expect(sections.length).toBeGreaterThan(1);
+    for (const block of sections) {
+      if (block.type !== "section") continue;
+      expect(block.text.text.split("<").length).toBe(block.text.text.split(">").length);
+    }
+  });
+
+  it("starts a new message when the block limit is reached", () => {
+    const output = renderCitationsForSlack(multiCitationInput, {
+      format: "blocks",
+      includeSources: true,
+      maxBlocksPerMessage: 3,
+    });
+    expect(output.messages?.map(message => message.blocks.map(block => block.type))).toEqual([
+      ["section", "divider", "section"],
+      ["context", "context"],
+    ]);
+  });
+});
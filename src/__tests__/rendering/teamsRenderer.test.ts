@@ -0,0 +1,107 @@
+import { describe, expect, it } from "@jest/globals";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../../prompts/citationPrompts.js";
+import { renderCitationsForTeams } from "../../rendering/teams/teamsRenderer.js";
+import type { Verification } from "../../types/verification.js";
+import { getCitationKey } from "../../utils/citationKey.js";
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+function makeNumericResponse(visibleText: string, citations: unknown[]): string {
+  return `${visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(citations)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+const input = makeNumericResponse("Revenue grew 45% [1].\n\nCosts fell [2].", [
+  {
+    id: 1,
+    attachment_id: "abc123",
+    page_id: "3_0",
+    full_phrase: "Revenue grew 45% in Q4.",
+    anchor_text: "grew 45%",
+    line_ids: [12, 13],
+  },
+  { id: 2, attachment_id: "abc123", page_id: "4_0", full_phrase: "Costs fell.", anchor_text: "Costs" },
+]);
+
+const verifiedKey = getCitationKey({
+  attachmentId: "abc123",
+  pageNumber: 3,
+  fullPhrase: "Revenue grew 45% in Q4.",
+  anchorText: "grew 45%",
+  lineIds: [12, 13],
+});
+
+const verifiedVerification: Verification = {
+  status: "found",
+  document: { verifiedPageNumber: 3 },
+  label: "Q4 Report",
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("renderCitationsForTeams", () => {
+  it("renders one text block per paragraph", () => {
+    const output = renderCitationsForTeams(input);
+    expect(output.card.type).toBe("AdaptiveCard");
+    expect(output.card.body).toEqual([
+      { type: "TextBlock", text: "Revenue grew 45% [1◌].", wrap: true },
+      { type: "TextBlock", text: "Costs fell [2◌].", wrap: true },
+    ]);
+    expect(output.card.actions).toBeUndefined();
+    expect(output.content).toBe(output.markdown);
+  });
+
+  it("keeps linked markers' brackets outside the link text", () => {
+    const output = renderCitationsForTeams(input, { proofBaseUrl: "https://proof.example.com" });
+    expect(output.markdown).toMatch(/\[\[1◌\]\(https:\/\/proof\.example\.com\/p\/[^)]+\)\]/);
+  });
+
+  it("marks failed verifications with the error indicator", () => {
+    const output = renderCitationsForTeams(input, {
+      verifications: {
+        [verifiedKey]: {
+          status: "error",
+          verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+        },
+      },
+    });
+    expect(output.card.body[0]).toEqual({ type: "TextBlock", text: "Revenue grew 45% [1!].", wrap: true });
+  });
+
+  it("adds a sources fact set and proof actions", () => {
+    const output = renderCitationsForTeams(input, {
+      verifications: { [verifiedKey]: verifiedVerification },
+      proofBaseUrl: "https://proof.example.com",
+      includeSources: true,
+    });
+
+    expect(output.card.body.at(-1)).toEqual({
+      type: "FactSet",
+      facts: [
+        { title: "[1] ✓ Verified", value: "Q4 Report — p.3" },
+        { title: "[2] ◌ Pending", value: "Source 2 — p.4" },
+      ],
+    });
+    expect(output.card.actions).toEqual([
+      { type: "Action.OpenUrl", title: "Proof [1]", url: output.proofUrls?.[verifiedKey] },
+      expect.objectContaining({ type: "Action.OpenUrl", title: "Proof [2]" }),
+    ]);
+    expect(output.sources).toContain("- [1] ✓ Verified: Q4 Report — p.3");
+  });
+
+  it("limits proof actions to maxProofActions", () => {
+    const output = renderCitationsForTeams(input, {
+      proofBaseUrl: "https://proof.example.com",
+      includeSources: true,
+      maxProofActions: 1,
+    });
+    expect(output.card.actions).toHaveLength(1);
+  });
+});
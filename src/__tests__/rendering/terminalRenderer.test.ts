@@ -152,6 +152,26 @@ describe("renderCitationsForTerminal", () => {
     expect(output.plain).toContain("✗");
   });
 
+  it("renders failed verifications with the error indicator", () => {
+    const output = renderCitationsForTerminal(simpleInput, {
+      verifications: {
+        [getCitationKey({
+          attachmentId: "abc123",
+          pageNumber: 3,
+          fullPhrase: "Revenue grew 45% in Q4.",
+          anchorText: "grew 45%",
+          lineIds: [12, 13],
+        })]: {
+          status: "error",
+          verificationError: { code: "DC_NETWORK_ERROR", message: "Request failed", isRetryable: true },
+        },
+      },
+      includeSources: true,
+    });
+    expect(output.plain).toContain("[1!]");
+    expect(output.plain).not.toContain("◌");
+  });
+
   it("returns correct structure", () => {
     const output = renderCitationsForTerminal(simpleInput, { color: false });
     expect(output).toHaveProperty("content");
@@ -0,0 +1,261 @@
+import { afterEach, beforeAll, describe, expect, it } from "@jest/globals";
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../../prompts/citationPrompts.js";
+import type { Citation } from "../../types/citation.js";
+import type { Verification } from "../../types/verification.js";
+import { getCitationKey } from "../../utils/citationKey.js";
+import {
+  type CitationCloseEventDetail,
+  type CitationOpenEventDetail,
+  type CitationsRenderedEventDetail,
+  DeepCitationAnswerElement,
+  DeepCitationMarkerElement,
+  defineDeepCitationElements,
+} from "../../vanilla/elements.js";
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+function makeNumericResponse(visibleText: string, citations: unknown[]): string {
+  return `${visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(citations)}\n${CITATION_DATA_END_DELIMITER}`;
+}
+
+/** Wait for the microtask render queued by a property change. */
+const flushRender = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function mountAnswer(llmOutput: string, verifications: Record<string, Verification> = {}): DeepCitationAnswerElement {
+  const answer = document.createElement("deep-citation-answer");
+  answer.llmOutput = llmOutput;
+  answer.verifications = verifications;
+  document.body.appendChild(answer);
+  return answer;
+}
+
+function getTriggers(element: HTMLElement): HTMLElement[] {
+  return Array.from(element.shadowRoot?.querySelectorAll<HTMLElement>("[data-citation-key]") ?? []);
+}
+
+function getPopover(element: HTMLElement): HTMLElement | null {
+  return element.shadowRoot?.querySelector<HTMLElement>(".dc-popover") ?? null;
+}
+
+// =============================================================================
+// TEST FIXTURES
+// =============================================================================
+
+const llmOutput = makeNumericResponse("Revenue grew 45% [1] while costs fell [2].", [
+  {
+    id: 1,
+    attachment_id: "abc123",
+    page_id: "3_0",
+    full_phrase: "Revenue grew 45% in Q4.",
+    anchor_text: "grew 45%",
+    line_ids: [12, 13],
+  },
+  {
+    id: 2,
+    attachment_id: "abc123",
+    page_id: "4_0",
+    full_phrase: "Costs fell by 10%.",
+    anchor_text: "fell",
+  },
+]);
+
+const revenueKey = getCitationKey({
+  attachmentId: "abc123",
+  pageNumber: 3,
+  fullPhrase: "Revenue grew 45% in Q4.",
+  anchorText: "grew 45%",
+  lineIds: [12, 13],
+});
+
+const verifiedVerification: Verification = {
+  status: "found",
+  document: { verifiedPageNumber: 3 },
+  label: "Q4 Report",
+  verifiedFullPhrase: "Revenue grew 45% in Q4.",
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+beforeAll(() => {
+  defineDeepCitationElements();
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("defineDeepCitationElements", () => {
+  it("registers both elements and can be called again", () => {
+    defineDeepCitationElements();
+    expect(customElements.get("deep-citation-answer")).toBe(DeepCitationAnswerElement);
+    expect(customElements.get("deep-citation-marker")).toBe(DeepCitationMarkerElement);
+  });
+});
+
+describe("<deep-citation-answer>", () => {
+  it("renders the answer and markers in shadow DOM", () => {
+    const answer = mountAnswer(llmOutput, { [revenueKey]: verifiedVerification });
+    const shadow = answer.shadowRoot;
+    expect(shadow?.textContent).toContain("Revenue grew 45%");
+    expect(shadow?.querySelector("style")?.textContent).toContain(".dc-popover");
+
+    const triggers = getTriggers(answer);
+    expect(triggers).toHaveLength(2);
+    expect(triggers[0].getAttribute("data-citation-key")).toBe(revenueKey);
+    expect(triggers[0].className).toContain("dc-verified");
+    expect(triggers[0].getAttribute("role")).toBe("button");
+    expect(answer.citations.map(c => c.citationNumber)).toEqual([1, 2]);
+  });
+
+  it("re-renders when properties and attributes change", async () => {
+    const answer = mountAnswer(llmOutput);
+    const rendered: CitationsRenderedEventDetail[] = [];
+    answer.addEventListener("citations-rendered", e => rendered.push(e.detail));
+
+    answer.verifications = { [revenueKey]: verifiedVerification };
+    answer.variant = "chip";
+    await flushRender();
+
+    expect(rendered).toHaveLength(1);
+    expect(getTriggers(answer)[0].className).toContain("dc-verified");
+    expect(getTriggers(answer)[0].className).toContain("dc-chip");
+  });
+
+  it("renders Markdown when the markdown attribute is set", async () => {
+    const answer = mountAnswer(makeNumericResponse("- Revenue grew 45% [1]", []));
+    answer.setAttribute("markdown", "");
+    await flushRender();
+    expect(answer.shadowRoot?.querySelector("li")?.textContent).toContain("Revenue grew 45%");
+  });
+
+  it("opens and closes popovers with events", () => {
+    const answer = mountAnswer(llmOutput, { [revenueKey]: verifiedVerification });
+    const opened: CitationOpenEventDetail[] = [];
+    const closed: CitationCloseEventDetail[] = [];
+    document.addEventListener("citation-open", e => opened.push(e.detail));
+    document.addEventListener("citation-close", e => closed.push(e.detail));
+
+    const [first, second] = getTriggers(answer);
+    first.click();
+    expect(opened).toEqual([{ citationKey: revenueKey, verification: verifiedVerification }]);
+    expect(getPopover(answer)?.style.display).toBe("block");
+    expect(getPopover(answer)?.textContent).toContain("Verified");
+    expect(getPopover(answer)?.textContent).toContain("Q4 Report — p. 3");
+
+    // Switching markers closes the first popover
+    second.click();
+    expect(closed).toEqual([{ citationKey: revenueKey }]);
+    expect(opened[1].verification).toBeNull();
+    expect(getPopover(answer)?.textContent).toContain("Pending");
+    expect(getPopover(answer)?.textContent).toContain("Costs fell by 10%.");
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+    expect(closed).toHaveLength(2);
+    expect(getPopover(answer)?.style.display).toBe("none");
+  });
+
+  it("toggles a popover from the keyboard", () => {
+    const answer = mountAnswer(llmOutput);
+    const [first] = getTriggers(answer);
+    first.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true, composed: true }));
+    expect(getPopover(answer)?.style.display).toBe("block");
+    first.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true, composed: true }));
+    expect(getPopover(answer)?.style.display).toBe("none");
+  });
+
+  it("closes the popover on outside clicks", () => {
+    const answer = mountAnswer(llmOutput);
+    let closed = 0;
+    answer.addEventListener("citation-close", () => closed++);
+    getTriggers(answer)[0].click();
+    document.body.dispatchEvent(new MouseEvent("mousedown", { bubbles: true, composed: true }));
+    expect(closed).toBe(1);
+    expect(getPopover(answer)?.style.display).toBe("none");
+  });
+
+  it("keeps the open popover across re-renders while its citation is still there", async () => {
+    const answer = mountAnswer(llmOutput);
+    let closed = 0;
+    answer.addEventListener("citation-close", () => closed++);
+    getTriggers(answer)[0].click();
+    expect(getPopover(answer)?.textContent).toContain("Pending");
+
+    answer.verifications = { [revenueKey]: verifiedVerification };
+    await flushRender();
+    expect(closed).toBe(0);
+    expect(getPopover(answer)?.style.display).toBe("block");
+    expect(getPopover(answer)?.textContent).toContain("Verified");
+
+    answer.llmOutput = makeNumericResponse("No citations here.", []);
+    await flushRender();
+    expect(closed).toBe(1);
+    expect(getPopover(answer)?.style.display).toBe("none");
+  });
+
+  it("escapes markup in the LLM output", () => {
+    const answer = mountAnswer(makeNumericResponse('<img src=x onerror="alert(1)"> [1]', []));
+    expect(answer.shadowRoot?.querySelector("img")).toBeNull();
+  });
+});
+
+describe("<deep-citation-marker>", () => {
+  const citation: Citation = {
+    type: "document",
+    attachmentId: "abc123",
+    pageNumber: 3,
+    fullPhrase: "Revenue grew 45% in Q4.",
+    anchorText: "grew 45%",
+    lineIds: [12, 13],
+  };
+
+  it("renders a single marker with its status", () => {
+    const marker = document.createElement("deep-citation-marker");
+    marker.citation = citation;
+    marker.verification = verifiedVerification;
+    marker.citationNumber = 4;
+    document.body.appendChild(marker);
+
+    const [trigger] = getTriggers(marker);
+    expect(trigger.textContent).toContain("[4");
+    expect(trigger.className).toContain("dc-verified");
+    expect(trigger.getAttribute("data-citation-key")).toBe(revenueKey);
+  });
+
+  it("opens its popover and reports the citation key", () => {
+    const marker = document.createElement("deep-citation-marker");
+    marker.verification = verifiedVerification;
+    marker.citationKey = "custom-key";
+    document.body.appendChild(marker);
+
+    const opened: CitationOpenEventDetail[] = [];
+    marker.addEventListener("citation-open", e => opened.push(e.detail));
+    getTriggers(marker)[0].click();
+
+    expect(opened).toEqual([{ citationKey: "custom-key", verification: verifiedVerification }]);
+    expect(getPopover(marker)?.textContent).toContain("Revenue grew 45% in Q4.");
+  });
+});
+
+describe("properties set before the elements are defined", () => {
+  it("are applied when the elements upgrade", () => {
+    const answer = document.createElement("early-citation-answer");
+    const marker = document.createElement("early-citation-marker");
+    Object.assign(answer, { llmOutput, verifications: { [revenueKey]: verifiedVerification } });
+    Object.assign(marker, { verification: verifiedVerification });
+    document.body.append(answer, marker);
+
+    customElements.define("early-citation-answer", class extends DeepCitationAnswerElement {});
+    customElements.define("early-citation-marker", class extends DeepCitationMarkerElement {});
+
+    expect(answer).toBeInstanceOf(DeepCitationAnswerElement);
+    expect(Object.hasOwn(answer, "llmOutput")).toBe(false);
+    expect((answer as DeepCitationAnswerElement).citations).toHaveLength(2);
+    expect(getTriggers(answer)[0].className).toContain("dc-verified");
+    expect((marker as DeepCitationMarkerElement).verification).toBe(verifiedVerification);
+    expect(getTriggers(marker)[0].className).toContain("dc-verified");
+  });
+});
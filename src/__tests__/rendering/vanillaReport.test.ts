@@ -182,3 +182,22 @@ describe("renderCitationReport", () => {
     });
   });
 });
+
+describe("renderCitationReport markdown mode", () => {
+  it("renders the answer as Markdown", () => {
+    const input = makeNumericResponse("# Findings\n\n- Revenue grew 45% [1]", [
+      {
+        id: 1,
+        attachment_id: "abc123",
+        page_id: "3_0",
+        full_phrase: "Revenue grew 45% in Q4.",
+        anchor_text: "grew 45%",
+        line_ids: [12, 13],
+      },
+    ]);
+    const html = renderCitationReport(input, { markdown: true, fullPage: false, includeRuntime: false });
+    expect(html).toContain("<h1>Findings</h1>");
+    expect(html).toMatch(/<li>Revenue grew 45% <span class="dc-citation/);
+    expect(html).toContain(".dc-markdown table");
+  });
+});
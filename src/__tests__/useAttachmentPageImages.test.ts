@@ -0,0 +1,66 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { renderHook, waitFor } from "@testing-library/react";
+import type { AttachmentResponse } from "../client/types.js";
+import { type AttachmentReadyWaiter, useAttachmentPageImages } from "../react/useAttachmentPageImages.js";
+import type { PageImage } from "../types/verification.js";
+
+function pageImage(pageNumber: number): PageImage {
+  return { pageNumber, dimensions: { width: 100, height: 100 }, imageUrl: `https://example.com/${pageNumber}.avif` };
+}
+
+function createClient(handler: (attachmentId: string) => Promise<Partial<AttachmentResponse>>) {
+  const waitForAttachmentReady = jest.fn(async (attachmentId: string) => {
+    return (await handler(attachmentId)) as AttachmentResponse;
+  });
+  return { waitForAttachmentReady } satisfies AttachmentReadyWaiter;
+}
+
+describe("useAttachmentPageImages", () => {
+  it("collects page images as attachments become ready", async () => {
+    const client = createClient(async id => ({ id, pageImages: [pageImage(id === "a" ? 1 : 2)] }));
+
+    const { result } = renderHook(() => useAttachmentPageImages(client, ["a", "b"]));
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.pageImagesByAttachmentId.a[0].pageNumber).toBe(1);
+    expect(result.current.pageImagesByAttachmentId.b[0].pageNumber).toBe(2);
+    expect(result.current.errors).toEqual({});
+  });
+
+  it("reports failures per attachment", async () => {
+    const client = createClient(async id => {
+      if (id === "bad") throw new Error("Page image generation failed");
+      return { id, pageImages: [pageImage(1)] };
+    });
+
+    const { result } = renderHook(() => useAttachmentPageImages(client, ["good", "bad"]));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(Object.keys(result.current.pageImagesByAttachmentId)).toEqual(["good"]);
+    expect(result.current.errors.bad.message).toBe("Page image generation failed");
+  });
+
+  it("only polls newly added attachments", async () => {
+    const client = createClient(async id => ({ id, pageImages: [] }));
+
+    const { result, rerender } = renderHook(({ ids }) => useAttachmentPageImages(client, ids), {
+      initialProps: { ids: ["a"] },
+    });
+    await waitFor(() => expect(result.current.pageImagesByAttachmentId.a).toBeDefined());
+
+    rerender({ ids: ["a", "b"] });
+    await waitFor(() => expect(result.current.pageImagesByAttachmentId.b).toBeDefined());
+
+    expect(client.waitForAttachmentReady.mock.calls.map(call => call[0])).toEqual(["a", "b"]);
+  });
+
+  it("does nothing while disabled", () => {
+    const client = createClient(async id => ({ id, pageImages: [] }));
+
+    const { result } = renderHook(() => useAttachmentPageImages(client, ["a"], { enabled: false }));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(client.waitForAttachmentReady).not.toHaveBeenCalled();
+  });
+});
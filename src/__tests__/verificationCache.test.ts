@@ -0,0 +1,101 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { createFileVerificationCacheStore } from "../client/fileVerificationCacheStore.js";
+import { createMemoryVerificationCacheStore } from "../client/verificationCache.js";
+
+const response = { verifications: { "1": { status: "found" as const } } };
+
+describe("createMemoryVerificationCacheStore", () => {
+  it("returns stored values until they expire", async () => {
+    const store = createMemoryVerificationCacheStore();
+    store.set("a", response, 20);
+    expect(store.get("a")).toEqual(response);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(store.get("a")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry when full", () => {
+    const store = createMemoryVerificationCacheStore({ maxEntries: 2 });
+    store.set("a", response, 60_000);
+    store.set("b", response, 60_000);
+    store.get("a"); // "b" is now least recently used
+    store.set("c", response, 60_000);
+
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+  });
+
+  it("deletes entries", () => {
+    const store = createMemoryVerificationCacheStore();
+    store.set("a", response, 60_000);
+    store.delete("a");
+    expect(store.get("a")).toBeUndefined();
+  });
+});
+
+describe("createFileVerificationCacheStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "dc-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("persists entries across store instances", async () => {
+    await createFileVerificationCacheStore({ directory }).set("abc123", response, 60_000);
+
+    const restored = createFileVerificationCacheStore({ directory });
+    expect(await restored.get("abc123")).toEqual(response);
+  });
+
+  it("creates the directory on first write", async () => {
+    const nested = join(directory, "nested", "cache");
+    const store = createFileVerificationCacheStore({ directory: nested });
+    await store.set("abc123", response, 60_000);
+    expect(await readdir(nested)).toEqual(["abc123.json"]);
+  });
+
+  it("treats expired and corrupt entries as misses and removes them", async () => {
+    const store = createFileVerificationCacheStore({ directory });
+    await store.set("expired", response, -1);
+    await writeFile(join(directory, "corrupt.json"), "{not json", "utf8");
+
+    expect(await store.get("expired")).toBeUndefined();
+    expect(await store.get("corrupt")).toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it("hashes keys that are not filesystem-safe", async () => {
+    const store = createFileVerificationCacheStore({ directory });
+    await store.set("../escape/attempt", response, 60_000);
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[a-f0-9]+\.json$/);
+    expect(await store.get("../escape/attempt")).toEqual(response);
+  });
+
+  it("deletes entries and prunes expired files", async () => {
+    const store = createFileVerificationCacheStore({ directory });
+    await store.set("keep", response, 60_000);
+    await store.set("drop", response, 60_000);
+    await store.set("stale", response, -1);
+
+    await store.delete("drop");
+    await store.delete("missing");
+    expect(await store.prune()).toBe(1);
+    expect(await readdir(directory)).toEqual(["keep.json"]);
+  });
+
+  it("returns 0 when pruning a directory that does not exist", async () => {
+    const store = createFileVerificationCacheStore({ directory: join(directory, "absent") });
+    expect(await store.prune()).toBe(0);
+  });
+});
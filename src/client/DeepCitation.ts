@@ -2,29 +2,62 @@ import { getAllCitationsFromLlmOutput } from "../parsing/parseCitation.js";
 import type { Citation } from "../types/index.js";
 import { getCitationKey } from "../utils/citationKey.js";
 import { sha1Hash } from "../utils/sha.js";
-import { AuthenticationError, type DeepCitationError, RateLimitError, ServerError, ValidationError } from "./errors.js";
+import { extractDomain, isApprovedDomain, isSafeDomain } from "../utils/urlSafety.js";
+import {
+  AbortError,
+  AuthenticationError,
+  DeepCitationError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "./errors.js";
+import {
+  computeRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  type ResolvedRetryPolicy,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry.js";
 import type {
   AttachmentResponse,
+  BulkOperationOptions,
+  BulkOperationResult,
+  ChunkedUploadOptions,
   CitationInput,
   ConvertedPdfDownloadPolicy,
   ConvertFileInput,
   ConvertFileResponse,
   DeepCitationConfig,
   DeepCitationLogger,
+  DeepCitationRequest,
+  DeleteAttachmentOptions,
   DeleteAttachmentResponse,
+  ExtendExpirationDuration,
   ExtendExpirationOptions,
   ExtendExpirationResponse,
   FileInput,
   GetAttachmentOptions,
+  ListAttachmentsOptions,
+  ListAttachmentsResponse,
   PrepareAttachmentsResult,
   PrepareConvertedFileOptions,
   PrepareUrlOptions,
+  RequestOptions,
   UploadFileOptions,
   UploadFileResponse,
+  UploadSessionStatus,
+  UrlVerificationPolicy,
+  VerificationCacheStore,
   VerifyCitationsOptions,
   VerifyCitationsResponse,
   VerifyInput,
+  VerifyStreamResult,
+  WaitForAttachmentReadyOptions,
 } from "./types.js";
+import { createMemoryVerificationCacheStore, DEFAULT_VERIFICATION_CACHE_TTL_MS } from "./verificationCache.js";
 
 const DEFAULT_API_URL = "https://api.deepcitation.com";
 
@@ -34,6 +67,20 @@ const DEFAULT_API_URL = "https://api.deepcitation.com";
  */
 const DEFAULT_UPLOAD_CONCURRENCY = 5;
 
+/** Defaults for waitForAttachmentReady() polling. */
+const DEFAULT_READY_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes
+const DEFAULT_READY_INTERVAL_MS = 1000;
+const DEFAULT_READY_MAX_INTERVAL_MS = 10_000;
+
+/** Default concurrency limit for bulkDelete() and bulkExtendExpiration(). */
+const DEFAULT_BULK_CONCURRENCY = 5;
+
+/** Default chunk size for chunked uploads. */
+const DEFAULT_CHUNK_SIZE_BYTES = 8 * 1024 * 1024; // 8 MB
+
+/** Default number of times a chunked upload re-syncs and resumes after a failed chunk. */
+const DEFAULT_MAX_RESUME_ATTEMPTS = 3;
+
 /**
  * Simple promise-based concurrency limiter.
  * Ensures only N promises run concurrently.
@@ -119,11 +166,71 @@ async function createApiError(response: Response, fallbackAction: string): Promi
   const message = await extractErrorMessage(response, fallbackAction);
   const status = response.status;
   if (status === 401 || status === 403) return new AuthenticationError(message);
-  if (status === 429) return new RateLimitError(message);
+  if (status === 429) return new RateLimitError(message, parseRetryAfter(response.headers?.get("Retry-After")));
   if (status >= 400 && status < 500) return new ValidationError(message, status);
   return new ServerError(message, status);
 }
 
+/** Wrap any thrown value in a DeepCitationError so callers get a consistent shape. */
+function toDeepCitationError(err: unknown): DeepCitationError {
+  if (err instanceof DeepCitationError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  return new DeepCitationError(message, "DC_UNKNOWN_ERROR", false);
+}
+
+/** Lowercase a domain list and strip "www." so it matches extractDomain() output. */
+function toDomainSet(domains: string[]): Set<string> {
+  return new Set(
+    domains.map(domain =>
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^www\./, ""),
+    ),
+  );
+}
+
+/**
+ * Check a cited URL against a URL verification policy.
+ * @returns Why the URL may not be fetched, or undefined if it is allowed
+ */
+function getUrlPolicyViolation(url: string, policy: UrlVerificationPolicy): string | undefined {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return "Invalid URL";
+  }
+  if ((protocol !== "http:" && protocol !== "https:") || !extractDomain(url)) return "Invalid URL";
+  if (policy.blockedDomains && !isSafeDomain(url, toDomainSet(policy.blockedDomains))) {
+    return "Domain is blocked";
+  }
+  if (policy.approvedDomains && !isApprovedDomain(url, toDomainSet(policy.approvedDomains))) {
+    return "Domain is not approved";
+  }
+  return undefined;
+}
+
+/**
+ * An in-flight verification request for one attachment's or one URL's citations.
+ * Exactly one of `attachmentId` and `url` is set.
+ */
+interface AttachmentVerificationBatch {
+  attachmentId?: string;
+  url?: string;
+  citations: Record<string, Citation>;
+  promise: Promise<VerifyCitationsResponse>;
+}
+
+/** A verification request shared by identical concurrent `verifyAttachment` calls. */
+interface InFlightVerification {
+  promise: Promise<VerifyCitationsResponse>;
+  /** Aborts the request once no caller is waiting for it */
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiters: number;
+}
+
 /**
  * DeepCitation client for file upload and citation verification.
  *
@@ -156,18 +263,29 @@ export class DeepCitation {
   private readonly endUserId?: string;
   private readonly endFileId?: string;
   private readonly convertedPdfDownloadPolicy: ConvertedPdfDownloadPolicy;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly timeoutMs?: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly onRequest?: DeepCitationConfig["onRequest"];
+  private readonly onResponse?: DeepCitationConfig["onResponse"];
 
   /**
-   * Request deduplication cache for verify calls.
-   * Prevents duplicate API calls when same verification is requested multiple times.
-   * Cache entries expire after 5 minutes, and the cache is limited to 100 entries
-   * to prevent memory leaks in long-running sessions.
+   * Request deduplication for verify calls.
+   * Prevents duplicate API calls when the same verification is requested while
+   * an identical request is still in flight. Entries are removed once settled,
+   * or once every caller waiting on them has aborted or timed out.
    */
-  private readonly verifyCache = new Map<string, { promise: Promise<VerifyCitationsResponse>; timestamp: number }>();
-  private readonly CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
-  private readonly CACHE_CLEANUP_INTERVAL_MS = 60 * 1000; // 1 minute
-  private readonly MAX_CACHE_SIZE = 100; // Maximum cached entries to prevent memory leaks
-  private lastCacheCleanup = 0;
+  private readonly inFlightVerifications = new Map<string, InFlightVerification>();
+
+  /**
+   * Store for completed verification results (in-memory by default).
+   * Undefined when caching is disabled.
+   */
+  private readonly verificationCache?: VerificationCacheStore;
+  private readonly verificationCacheTtlMs: number;
+
+  /** Domain policy for URL citations in verify(), or false to skip them. */
+  private readonly urlVerification: UrlVerificationPolicy | false;
 
   /**
    * Concurrency limiter for file uploads.
@@ -203,6 +321,18 @@ export class DeepCitation {
     this.endUserId = config.endUserId;
     this.endFileId = config.endFileId;
     this.convertedPdfDownloadPolicy = config.convertedPdfDownloadPolicy ?? "url_only";
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.timeoutMs = config.timeoutMs;
+    // Resolve the global lazily so it is looked up at call time and never invoked unbound
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+    this.onRequest = config.onRequest;
+    this.onResponse = config.onResponse;
+    this.verificationCache =
+      config.verificationCache === false
+        ? undefined
+        : (config.verificationCache ?? createMemoryVerificationCacheStore());
+    this.verificationCacheTtlMs = config.verificationCacheTtlMs ?? DEFAULT_VERIFICATION_CACHE_TTL_MS;
+    this.urlVerification = config.urlVerification ?? {};
   }
 
   /** Resolve endUserId: per-request override wins over instance default. */
@@ -221,39 +351,149 @@ export class DeepCitation {
   }
 
   /**
-   * Clean expired entries from the verify cache.
-   * Only runs periodically to avoid performance overhead on every call.
-   * Also enforces max cache size with LRU eviction to prevent memory leaks.
+   * Perform a fetch with cancellation, timeout, and retry handling.
+   *
+   * The caller's AbortSignal and the timeout are combined into a single signal
+   * that covers every attempt and the backoff between them. Cancellation is
+   * surfaced as AbortError, an exceeded timeout as TimeoutError.
    */
-  private cleanExpiredCache(): void {
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    idempotent: boolean,
+    control?: RequestOptions,
+  ): Promise<Response> {
+    const callerSignal = control?.signal;
+    const timeoutMs = control?.timeoutMs ?? this.timeoutMs;
+    if (callerSignal?.aborted) {
+      throw new AbortError();
+    }
+    if (!callerSignal && timeoutMs === undefined) {
+      return this.fetchWithBackoff(url, init, idempotent);
+    }
+
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+    let timedOut = false;
+    const timer =
+      timeoutMs !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+
     try {
-      const now = Date.now();
+      return await this.fetchWithBackoff(url, { ...init, signal: controller.signal }, idempotent, controller.signal);
+    } catch (err) {
+      if (timedOut && timeoutMs !== undefined) {
+        this.logger.warn?.("Request timed out", { url, timeoutMs });
+        throw new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs);
+      }
+      if (callerSignal?.aborted) {
+        this.logger.debug?.("Request aborted", { url });
+        throw new AbortError();
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  }
 
-      // Only clean up periodically, not on every call
-      if (now - this.lastCacheCleanup < this.CACHE_CLEANUP_INTERVAL_MS) {
-        return;
+  /**
+   * Perform a fetch, retrying transient failures according to the retry policy.
+   * The `onRequest` / `onResponse` interceptors run around every attempt.
+   *
+   * Network failures are surfaced as NetworkError. Non-ok responses are returned
+   * as-is once retries are exhausted (or the status is not retryable) so callers
+   * can map them with createApiError.
+   *
+   * Non-idempotent requests are only retried on 429 (the server rejected the
+   * request without processing it) unless `retryNonIdempotent` is set, so a
+   * retry never creates a duplicate attachment.
+   */
+  private async fetchWithBackoff(
+    url: string,
+    init: RequestInit,
+    idempotent: boolean,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const policy = this.retryPolicy;
+    const canRetryFailure = idempotent || policy.retryNonIdempotent;
+
+    for (let attempt = 0; ; attempt++) {
+      let request: DeepCitationRequest = { url, init: { ...init }, attempt };
+      if (this.onRequest) {
+        request = (await this.onRequest(request)) ?? request;
       }
-      this.lastCacheCleanup = now;
 
-      // Remove expired entries
-      for (const [key, entry] of this.verifyCache.entries()) {
-        if (now - entry.timestamp > this.CACHE_TTL_MS) {
-          this.verifyCache.delete(key);
+      let response: Response;
+      const startedAt = Date.now();
+      try {
+        response = await this.fetchImpl(request.url, request.init);
+      } catch (err) {
+        // Aborts are mapped to AbortError/TimeoutError by fetchWithRetry
+        if (signal?.aborted) throw err;
+        const message = err instanceof Error ? err.message : String(err);
+        if (attempt < policy.maxRetries && canRetryFailure) {
+          const delayMs = computeRetryDelay(attempt, policy);
+          this.logger.warn?.("Network error, retrying", { url, attempt: attempt + 1, delayMs, error: message });
+          await sleep(delayMs, signal);
+          continue;
         }
+        throw new NetworkError(`Network request failed: ${message}`);
       }
+      await this.onResponse?.({ request, response, durationMs: Date.now() - startedAt });
 
-      // LRU eviction: if still too large, remove oldest entries
-      if (this.verifyCache.size > this.MAX_CACHE_SIZE) {
-        const entries = Array.from(this.verifyCache.entries()).sort((a, b) => a[1].timestamp - b[1].timestamp);
-        const toRemove = entries.slice(0, this.verifyCache.size - this.MAX_CACHE_SIZE);
-        for (const [key] of toRemove) {
-          this.verifyCache.delete(key);
-        }
+      if (response.ok || attempt >= policy.maxRetries || !isRetryableStatus(response.status)) {
+        return response;
+      }
+      if (response.status !== 429 && !canRetryFailure) {
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers?.get("Retry-After"));
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+        // Server asked us to wait longer than we're willing to; let the caller reschedule
+        return response;
       }
+      const delayMs = computeRetryDelay(attempt, policy, retryAfterMs);
+      this.logger.warn?.("Request failed, retrying", {
+        url,
+        status: response.status,
+        attempt: attempt + 1,
+        delayMs,
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+
+  /**
+   * Read a verification result from the cache store.
+   * Store failures are logged and treated as a miss so caching never breaks verification.
+   */
+  private async readVerificationCache(cacheKey: string): Promise<VerifyCitationsResponse | undefined> {
+    if (!this.verificationCache) return undefined;
+    try {
+      return await this.verificationCache.get(cacheKey);
     } catch (err) {
-      // Silently fail - do not break the main verification flow
       // Serialize error to avoid passing non-serializable objects to logger
-      this.logger.warn?.("Cache cleanup failed", {
+      this.logger.warn?.("Verification cache read failed", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /** Write a verification result to the cache store, logging (not throwing) on failure. */
+  private async writeVerificationCache(cacheKey: string, result: VerifyCitationsResponse): Promise<void> {
+    if (!this.verificationCache) return;
+    try {
+      await this.verificationCache.set(cacheKey, result, this.verificationCacheTtlMs);
+    } catch (err) {
+      this.logger.warn?.("Verification cache write failed", {
         error: err instanceof Error ? err.message : String(err),
       });
     }
@@ -280,10 +520,21 @@ export class DeepCitation {
    * // Node.js with Buffer
    * const buffer = fs.readFileSync('document.pdf');
    * const result = await deepcitation.uploadFile(buffer, { filename: 'document.pdf' });
+   *
+   * // Large file in resumable chunks, with progress
+   * const result = await deepcitation.uploadFile(largeBuffer, {
+   *   filename: 'filing.pdf',
+   *   chunked: true,
+   *   onProgress: ({ uploadedBytes, totalBytes }) => console.log(`${uploadedBytes}/${totalBytes}`),
+   * });
    * ```
    */
   async uploadFile(file: File | Blob | Buffer, options?: UploadFileOptions): Promise<UploadFileResponse> {
     const { blob, name } = toBlob(file, options?.filename);
+    if (options?.chunked) {
+      const chunkOptions = options.chunked === true ? {} : options.chunked;
+      return this.uploadFileChunked(blob, name, options, chunkOptions);
+    }
     this.logger.info?.("Uploading file", { filename: name, size: blob.size });
 
     const formData = new FormData();
@@ -298,11 +549,17 @@ export class DeepCitation {
     if (resolvedEndFileId) formData.append("endFileId", resolvedEndFileId);
     formData.append("convertedPdfDownloadPolicy", convertedPdfDownloadPolicy);
 
-    const response = await fetch(`${this.apiUrl}/prepareAttachments`, {
-      method: "POST",
-      headers: { Authorization: `Bearer ${this.apiKey}` },
-      body: formData,
-    });
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/prepareAttachments`,
+      {
+        method: "POST",
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: formData,
+      },
+      // A caller-supplied attachmentId makes the upload safe to repeat
+      Boolean(options?.attachmentId),
+      options,
+    );
 
     if (!response.ok) {
       this.logger.error?.("Upload failed", { filename: name, status: response.status });
@@ -310,10 +567,144 @@ export class DeepCitation {
     }
 
     const result = (await response.json()) as UploadFileResponse;
+    options?.onProgress?.({ uploadedBytes: blob.size, totalBytes: blob.size });
     this.logger.info?.("Upload complete", { filename: name, attachmentId: result.attachmentId });
     return result;
   }
 
+  /**
+   * Upload a file in chunks through an upload session (see `ChunkedUploadOptions`
+   * for the protocol). After a chunk fails with a network or server error, the
+   * session status is re-read and the upload resumes from the server's offset.
+   */
+  private async uploadFileChunked(
+    blob: Blob,
+    name: string,
+    options: UploadFileOptions,
+    chunkOptions: ChunkedUploadOptions,
+  ): Promise<UploadFileResponse> {
+    const chunkSize = Math.max(1, Math.floor(chunkOptions.chunkSizeBytes ?? DEFAULT_CHUNK_SIZE_BYTES));
+    const maxResumeAttempts = chunkOptions.maxResumeAttempts ?? DEFAULT_MAX_RESUME_ATTEMPTS;
+    const totalBytes = blob.size;
+
+    const session = chunkOptions.resumeUploadId
+      ? await this.getUploadSession(chunkOptions.resumeUploadId, options)
+      : await this.createUploadSession(blob, name, options);
+    const { uploadId } = session;
+    const sessionUrl = `${this.apiUrl}/uploads/${encodeURIComponent(uploadId)}`;
+    let offset = session.receivedBytes;
+    this.logger.info?.("Uploading file in chunks", { filename: name, size: totalBytes, uploadId, offset });
+    options.onProgress?.({ uploadId, uploadedBytes: offset, totalBytes });
+
+    let failures = 0;
+    while (offset < totalBytes) {
+      const end = Math.min(offset + chunkSize, totalBytes);
+      try {
+        const response = await this.fetchWithRetry(
+          sessionUrl,
+          {
+            method: "PUT",
+            headers: {
+              Authorization: `Bearer ${this.apiKey}`,
+              "Content-Type": "application/octet-stream",
+              "Content-Range": `bytes ${offset}-${end - 1}/${totalBytes}`,
+            },
+            body: blob.slice(offset, end),
+          },
+          // The byte range makes a repeated chunk a no-op
+          true,
+          options,
+        );
+        if (!response.ok) throw await createApiError(response, "Upload chunk");
+        const status = (await response.json()) as UploadSessionStatus;
+        if (status.receivedBytes <= offset) {
+          throw new ServerError(`Upload chunk was not accepted (server has ${status.receivedBytes} bytes)`);
+        }
+        offset = status.receivedBytes;
+        failures = 0;
+      } catch (err) {
+        const canResume = err instanceof NetworkError || err instanceof ServerError;
+        if (!canResume || ++failures > maxResumeAttempts) {
+          this.logger.error?.("Chunked upload failed", { filename: name, uploadId, offset });
+          throw err;
+        }
+        this.logger.warn?.("Upload chunk failed, resuming", {
+          uploadId,
+          offset,
+          attempt: failures,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        offset = (await this.getUploadSession(uploadId, options)).receivedBytes;
+      }
+      options.onProgress?.({ uploadId, uploadedBytes: offset, totalBytes });
+    }
+
+    const response = await this.fetchWithRetry(
+      `${sessionUrl}/complete`,
+      { method: "POST", headers: { Authorization: `Bearer ${this.apiKey}` } },
+      // Completion is keyed by uploadId, so repeating it returns the same attachment
+      true,
+      options,
+    );
+    if (!response.ok) {
+      this.logger.error?.("Upload failed", { filename: name, uploadId, status: response.status });
+      throw await createApiError(response, "Upload");
+    }
+
+    const result = (await response.json()) as UploadFileResponse;
+    this.logger.info?.("Upload complete", { filename: name, uploadId, attachmentId: result.attachmentId });
+    return result;
+  }
+
+  /** Start a chunked upload session. */
+  private async createUploadSession(
+    blob: Blob,
+    name: string,
+    options: UploadFileOptions,
+  ): Promise<UploadSessionStatus> {
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/uploads`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          filename: name,
+          size: blob.size,
+          contentType: blob.type || undefined,
+          attachmentId: options.attachmentId,
+          endUserId: this.resolveEndUserId(options.endUserId),
+          endFileId: this.resolveEndFileId(options.endFileId),
+          convertedPdfDownloadPolicy: this.resolveConvertedPdfDownloadPolicy(options.convertedPdfDownloadPolicy),
+        }),
+      },
+      Boolean(options.attachmentId),
+      options,
+    );
+    if (!response.ok) {
+      this.logger.error?.("Upload session failed", { filename: name, status: response.status });
+      throw await createApiError(response, "Upload session");
+    }
+    return (await response.json()) as UploadSessionStatus;
+  }
+
+  /** Read how many bytes the server has received for a chunked upload session. */
+  private async getUploadSession(uploadId: string, options: RequestOptions): Promise<UploadSessionStatus> {
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/uploads/${encodeURIComponent(uploadId)}`,
+      { method: "GET", headers: { Authorization: `Bearer ${this.apiKey}` } },
+      true,
+      options,
+    );
+    if (!response.ok) {
+      this.logger.error?.("Upload session lookup failed", { uploadId, status: response.status });
+      throw await createApiError(response, "Upload session lookup");
+    }
+    return (await response.json()) as UploadSessionStatus;
+  }
+
   /**
    * Convert a URL or Office file to PDF for citation verification.
    * The converted file can then be processed with prepareConvertedFile().
@@ -361,21 +752,26 @@ export class DeepCitation {
     let response: Response;
 
     if (url) {
-      response = await fetch(`${this.apiUrl}/convertFile`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
+      response = await this.fetchWithRetry(
+        `${this.apiUrl}/convertFile`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            url,
+            filename,
+            attachmentId,
+            endUserId: resolvedEndUserId,
+            endFileId: resolvedEndFileId,
+            convertedPdfDownloadPolicy,
+          }),
         },
-        body: JSON.stringify({
-          url,
-          filename,
-          attachmentId,
-          endUserId: resolvedEndUserId,
-          endFileId: resolvedEndFileId,
-          convertedPdfDownloadPolicy,
-        }),
-      });
+        Boolean(attachmentId),
+        inputObj,
+      );
     } else if (file) {
       const { blob, name } = toBlob(file, filename);
       const formData = new FormData();
@@ -386,11 +782,16 @@ export class DeepCitation {
       if (resolvedEndFileId) formData.append("endFileId", resolvedEndFileId);
       formData.append("convertedPdfDownloadPolicy", convertedPdfDownloadPolicy);
 
-      response = await fetch(`${this.apiUrl}/convertFile`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${this.apiKey}` },
-        body: formData,
-      });
+      response = await this.fetchWithRetry(
+        `${this.apiUrl}/convertFile`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+          body: formData,
+        },
+        Boolean(attachmentId),
+        inputObj,
+      );
     } else {
       throw new ValidationError("Either url or file must be provided");
     }
@@ -431,19 +832,24 @@ export class DeepCitation {
     const resolvedEndFileId = this.resolveEndFileId(options.endFileId);
     const convertedPdfDownloadPolicy = this.resolveConvertedPdfDownloadPolicy(options.convertedPdfDownloadPolicy);
 
-    const response = await fetch(`${this.apiUrl}/prepareAttachments`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/prepareAttachments`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          attachmentId: options.attachmentId,
+          endUserId: resolvedEndUserId,
+          endFileId: resolvedEndFileId,
+          convertedPdfDownloadPolicy,
+        }),
       },
-      body: JSON.stringify({
-        attachmentId: options.attachmentId,
-        endUserId: resolvedEndUserId,
-        endFileId: resolvedEndFileId,
-        convertedPdfDownloadPolicy,
-      }),
-    });
+      true,
+      options,
+    );
 
     if (!response.ok) {
       this.logger.error?.("Prepare converted file failed", {
@@ -498,23 +904,28 @@ export class DeepCitation {
     const resolvedEndUserId = this.resolveEndUserId(options.endUserId);
     const resolvedEndFileId = this.resolveEndFileId(options.endFileId);
     const convertedPdfDownloadPolicy = this.resolveConvertedPdfDownloadPolicy(options.convertedPdfDownloadPolicy);
-    const response = await fetch(`${this.apiUrl}/prepareAttachments`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/prepareAttachments`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          url: options.url,
+          attachmentId: options.attachmentId,
+          filename: options.filename,
+          unsafeFastUrlOutput: options.unsafeFastUrlOutput,
+          skipCache: options.skipCache,
+          endUserId: resolvedEndUserId,
+          endFileId: resolvedEndFileId,
+          convertedPdfDownloadPolicy,
+        }),
       },
-      body: JSON.stringify({
-        url: options.url,
-        attachmentId: options.attachmentId,
-        filename: options.filename,
-        unsafeFastUrlOutput: options.unsafeFastUrlOutput,
-        skipCache: options.skipCache,
-        endUserId: resolvedEndUserId,
-        endFileId: resolvedEndFileId,
-        convertedPdfDownloadPolicy,
-      }),
-    });
+      Boolean(options.attachmentId),
+      options,
+    );
 
     if (!response.ok) {
       this.logger.error?.("Prepare URL failed", { url: options.url, status: response.status });
@@ -535,6 +946,7 @@ export class DeepCitation {
    * This is the recommended way to prepare attachments for LLM prompts.
    *
    * @param files - Array of files to upload with optional filenames and attachmentIds
+   * @param options - Optional cancellation and timeout controls, applied to each upload
    * @returns Object containing fileDataParts for verification and combined deepTextPromptPortion for LLM
    *
    * @example
@@ -555,7 +967,7 @@ export class DeepCitation {
    * const result = await deepcitation.verify({ llmOutput, fileDataParts });
    * ```
    */
-  async prepareAttachments(files: FileInput[]): Promise<PrepareAttachmentsResult> {
+  async prepareAttachments(files: FileInput[], options?: RequestOptions): Promise<PrepareAttachmentsResult> {
     if (files.length === 0) {
       return { fileDataParts: [], deepTextPromptPortion: "", attachments: [] };
     }
@@ -567,12 +979,18 @@ export class DeepCitation {
     const uploadPromises = files.map(
       ({ file, filename, attachmentId, endUserId, endFileId, convertedPdfDownloadPolicy }) =>
         this.uploadLimiter(() =>
-          this.uploadFile(file, { filename, attachmentId, endUserId, endFileId, convertedPdfDownloadPolicy }).then(
-            result => ({
-              result,
-              filename,
-            }),
-          ),
+          this.uploadFile(file, {
+            filename,
+            attachmentId,
+            endUserId,
+            endFileId,
+            convertedPdfDownloadPolicy,
+            signal: options?.signal,
+            timeoutMs: options?.timeoutMs,
+          }).then(result => ({
+            result,
+            filename,
+          })),
         ),
     );
 
@@ -621,7 +1039,8 @@ export class DeepCitation {
    *
    * @param attachmentId - The attachment ID returned from uploadFile
    * @param citations - Citations to verify (from getAllCitationsFromLlmOutput)
-   * @param options - Optional verification options
+   * @param options - Optional verification options. Identical concurrent requests share one
+   *   network call, so aborting it via `signal` rejects every caller waiting on that call.
    * @returns Verification results with status and verification artifacts
    *
    * @example
@@ -685,20 +1104,18 @@ export class DeepCitation {
     const rawKey = `${attachmentId}:${citationKeys}:${options?.outputImageFormat || "avif"}`;
     const cacheKey = sha1Hash(rawKey).slice(0, 32); // Use first 32 chars of hash
 
-    // Clean expired cache entries periodically
-    this.cleanExpiredCache();
+    if (options?.signal?.aborted) {
+      throw new AbortError();
+    }
 
-    // Check if we have a cached request
-    const cached = this.verifyCache.get(cacheKey);
-    if (cached) {
-      // Update timestamp on access for true LRU behavior
-      cached.timestamp = Date.now();
-      this.logger.debug?.("Verification cache hit", { attachmentId, citationCount });
-      return cached.promise;
+    // Join an identical request that is already in flight
+    const inFlight = this.inFlightVerifications.get(cacheKey);
+    if (inFlight) {
+      this.logger.debug?.("Verification request deduplicated", { attachmentId, citationCount });
+      return this.waitForVerification(cacheKey, inFlight, options);
     }
 
     const resolvedEndUserId = this.resolveEndUserId(options?.endUserId);
-    this.logger.info?.("Verifying citations", { attachmentId, citationCount });
     const requestUrl = `${this.apiUrl}/verifyCitations`;
     const requestBody = {
       data: {
@@ -709,48 +1126,119 @@ export class DeepCitation {
       },
     };
 
-    // Create the fetch promise and cache it
+    // The shared request has no caller signal or timeout of its own: each caller
+    // waits with theirs, and the request is aborted once every caller has given up
+    const controller = new AbortController();
     const fetchPromise = (async (): Promise<VerifyCitationsResponse> => {
-      const response = await fetch(requestUrl, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
+      const cached = await this.readVerificationCache(cacheKey);
+      if (cached) {
+        this.logger.debug?.("Verification cache hit", { attachmentId, citationCount });
+        return cached;
+      }
+
+      this.logger.info?.("Verifying citations", { attachmentId, citationCount });
+      const response = await this.fetchWithBackoff(
+        requestUrl,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
         },
-        body: JSON.stringify(requestBody),
-      });
+        true,
+        controller.signal,
+      );
 
       if (!response.ok) {
-        // Remove from cache on error so retry is possible
-        this.verifyCache.delete(cacheKey);
         this.logger.error?.("Verification failed", { attachmentId, status: response.status });
         throw await createApiError(response, "Verification");
       }
 
       const result = (await response.json()) as VerifyCitationsResponse;
+      // Only successful results are cached, so failed, aborted, and timed-out requests are retried
+      await this.writeVerificationCache(cacheKey, result);
 
       return result;
     })();
 
-    // Force cleanup if cache is at or approaching the limit to prevent memory leaks
-    // This ensures we never exceed MAX_CACHE_SIZE even under heavy concurrent load
-    if (this.verifyCache.size >= this.MAX_CACHE_SIZE) {
-      // Sort by timestamp and remove oldest entries to make room
-      const entries = Array.from(this.verifyCache.entries()).sort((a, b) => a[1].timestamp - b[1].timestamp);
-      // Remove at least 10% of entries to avoid thrashing
-      const toRemove = Math.max(1, Math.floor(this.MAX_CACHE_SIZE * 0.1));
-      for (let i = 0; i < toRemove && i < entries.length; i++) {
-        this.verifyCache.delete(entries[i][0]);
-      }
+    // Register synchronously so concurrent identical calls share this request
+    const entry: InFlightVerification = { promise: fetchPromise, controller, waiters: 0 };
+    this.inFlightVerifications.set(cacheKey, entry);
+    fetchPromise.then(
+      () => this.evictVerification(cacheKey, entry),
+      () => this.evictVerification(cacheKey, entry),
+    );
+
+    return this.waitForVerification(cacheKey, entry, options);
+  }
+
+  private evictVerification(cacheKey: string, entry: InFlightVerification): void {
+    if (this.inFlightVerifications.get(cacheKey) === entry) {
+      this.inFlightVerifications.delete(cacheKey);
     }
+  }
 
-    // Cache the promise
-    this.verifyCache.set(cacheKey, {
-      promise: fetchPromise,
-      timestamp: Date.now(),
-    });
+  /**
+   * Wait for a shared verification request with the caller's own signal and
+   * timeout. A caller that gives up leaves the request running for the others;
+   * the last one to give up aborts it.
+   */
+  private waitForVerification(
+    cacheKey: string,
+    entry: InFlightVerification,
+    control?: RequestOptions,
+  ): Promise<VerifyCitationsResponse> {
+    const signal = control?.signal;
+    const timeoutMs = control?.timeoutMs ?? this.timeoutMs;
+    entry.waiters++;
 
-    return fetchPromise;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const leave = (error: Error) => {
+        if (settled) return;
+        settle();
+        entry.waiters--;
+        if (entry.waiters === 0) {
+          this.evictVerification(cacheKey, entry);
+          entry.controller.abort();
+        }
+        reject(error);
+      };
+      const onAbort = () => {
+        this.logger.debug?.("Request aborted", { url: `${this.apiUrl}/verifyCitations` });
+        leave(new AbortError());
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.logger.warn?.("Request timed out", { url: `${this.apiUrl}/verifyCitations`, timeoutMs });
+          leave(new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs));
+        }, timeoutMs);
+      }
+
+      entry.promise.then(
+        result => {
+          if (settled) return;
+          settle();
+          resolve(result);
+        },
+        (err: unknown) => {
+          if (settled) return;
+          settle();
+          reject(err);
+        },
+      );
+    });
   }
 
   /**
@@ -758,13 +1246,18 @@ export class DeepCitation {
    *
    * This is the recommended method for citation verification. It automatically:
    * 1. Parses citations from LLM output (no raw content sent to our servers)
-   * 2. Groups citations by attachment ID
-   * 3. Verifies each attachment in parallel
+   * 2. Groups citations by attachment ID (URL citations by URL)
+   * 3. Verifies each attachment in parallel, preparing cited URLs with `prepareUrl()`
+   *    when they pass the client's `urlVerification` domain policy
    *
    * For privacy-conscious users: we only receive the parsed citation metadata,
    * not your raw LLM output. This method is a convenience wrapper that parses
    * locally and makes per-attachment verification calls.
    *
+   * By default, one failed attachment rejects the whole call. Pass
+   * `onAttachmentError: "mark"` to keep the other attachments' results and mark
+   * the failed attachment's citations with status `"error"` instead.
+   *
    * @param input - Object containing llmOutput and optional outputImageFormat
    * @param citations - Optional pre-parsed citations (skips parsing if provided)
    * @returns Verification results with status and verification artifacts
@@ -781,7 +1274,137 @@ export class DeepCitation {
    * ```
    */
   async verify(input: VerifyInput, citations?: { [key: string]: Citation }): Promise<VerifyCitationsResponse> {
-    const { llmOutput, outputImageFormat = "avif", endUserId } = input;
+    const { batches, skippedCitations } = this.startVerifications(input, citations);
+    const allVerifications: VerifyCitationsResponse["verifications"] = {};
+
+    if (input.onAttachmentError === "mark") {
+      const settled = await Promise.allSettled(batches.map(batch => batch.promise));
+      settled.forEach((outcome, index) => {
+        const { attachmentId, url, citations: batchCitations } = batches[index];
+        if (outcome.status === "fulfilled") {
+          Object.assign(allVerifications, outcome.value.verifications);
+          return;
+        }
+        const error = toDeepCitationError(outcome.reason);
+        this.logger.error?.("Attachment verification failed", { attachmentId, url, error: error.message });
+        for (const key of Object.keys(batchCitations)) {
+          allVerifications[key] = {
+            status: "error",
+            ...(attachmentId && { attachmentId }),
+            ...(url && { url: { verifiedUrl: url, urlVerificationError: error.message } }),
+            verificationError: {
+              code: error.code,
+              message: error.message,
+              isRetryable: error.isRetryable,
+              ...(error.statusCode !== undefined && { statusCode: error.statusCode }),
+            },
+          };
+        }
+      });
+    } else {
+      const results = await Promise.all(batches.map(batch => batch.promise));
+      for (const result of results) {
+        Object.assign(allVerifications, result.verifications);
+      }
+    }
+
+    for (const key of Object.keys(skippedCitations)) {
+      allVerifications[key] = { status: "skipped" };
+    }
+
+    return { verifications: allVerifications };
+  }
+
+  /**
+   * Parse and verify all citations from LLM output, yielding results per attachment
+   * as soon as each attachment's verification completes.
+   *
+   * Unlike `verify()`, a failed attachment does not reject the whole call: its batch
+   * is yielded with an `error` and the remaining attachments continue. Citations
+   * without an attachmentId are yielded first as a batch of `"skipped"` verifications.
+   *
+   * @param input - Object containing llmOutput and optional verification options
+   * @param citations - Optional pre-parsed citations (skips parsing if provided)
+   * @returns Async iterator of per-attachment results, in completion order
+   *
+   * @example
+   * ```typescript
+   * for await (const batch of deepcitation.verifyStream({ llmOutput })) {
+   *   if (batch.error) {
+   *     console.warn(`Could not verify ${batch.attachmentId}:`, batch.error.message);
+   *     continue;
+   *   }
+   *   setVerifications(prev => ({ ...prev, ...batch.verifications }));
+   * }
+   * ```
+   */
+  async *verifyStream(
+    input: VerifyInput,
+    citations?: { [key: string]: Citation },
+  ): AsyncGenerator<VerifyStreamResult, void, undefined> {
+    const { batches, skippedCitations } = this.startVerifications(input, citations);
+
+    const skippedKeys = Object.keys(skippedCitations);
+    if (skippedKeys.length > 0) {
+      const verifications: VerifyCitationsResponse["verifications"] = {};
+      for (const key of skippedKeys) {
+        verifications[key] = { status: "skipped" };
+      }
+      yield { citations: skippedCitations, verifications };
+    }
+
+    // Settle each batch into a result so one failure never rejects the race
+    const pending = new Map<number, Promise<{ index: number; result: VerifyStreamResult }>>();
+    batches.forEach(({ attachmentId, url, citations: batchCitations, promise }, index) => {
+      pending.set(
+        index,
+        promise.then(
+          response => ({
+            index,
+            result: { attachmentId, url, citations: batchCitations, verifications: response.verifications },
+          }),
+          err => {
+            this.logger.error?.("Attachment verification failed", {
+              attachmentId,
+              url,
+              error: err instanceof Error ? err.message : String(err),
+            });
+            return {
+              index,
+              result: {
+                attachmentId,
+                url,
+                citations: batchCitations,
+                verifications: {},
+                error: toDeepCitationError(err),
+              },
+            };
+          },
+        ),
+      );
+    });
+
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values());
+      pending.delete(index);
+      yield result;
+    }
+  }
+
+  /**
+   * Parse citations, group them by attachment or cited URL, and start one
+   * verification request per group. URL citations outside the URL policy get an
+   * already-settled batch of `"skipped"` results with `urlAccessStatus: "blocked"`.
+   * Other citations without an attachmentId are returned as skipped.
+   */
+  private startVerifications(
+    input: VerifyInput,
+    citations?: { [key: string]: Citation },
+  ): { batches: AttachmentVerificationBatch[]; skippedCitations: Record<string, Citation> } {
+    const { llmOutput, outputImageFormat = "avif", endUserId, signal, timeoutMs } = input;
+    const urlPolicy = input.urlVerification ?? this.urlVerification;
+    const batches: AttachmentVerificationBatch[] = [];
+    const skippedCitations: Record<string, Citation> = {};
 
     // Parse citations from LLM output
     if (!citations) citations = getAllCitationsFromLlmOutput(llmOutput);
@@ -790,14 +1413,21 @@ export class DeepCitation {
     // If no citations found, return empty result
     if (totalCount === 0) {
       this.logger.debug?.("No citations found in LLM output");
-      return { verifications: {} };
+      return { batches, skippedCitations };
     }
 
     this.logger.info?.("Verifying LLM output", { citationCount: totalCount });
 
-    // Group citations by attachmentId
+    // Group citations by attachmentId, and URL citations by their URL
     const citationsByAttachment = new Map<string, Record<string, Citation>>();
+    const citationsByUrl = new Map<string, Record<string, Citation>>();
     for (const [key, citation] of Object.entries(citations)) {
+      if (citation.type === "url" && citation.url && urlPolicy !== false) {
+        const urlCitations = citationsByUrl.get(citation.url) ?? {};
+        urlCitations[key] = citation;
+        citationsByUrl.set(citation.url, urlCitations);
+        continue;
+      }
       const attachmentId = (citation.type !== "url" ? citation.attachmentId : undefined) || "";
       if (!citationsByAttachment.has(attachmentId)) {
         citationsByAttachment.set(attachmentId, {});
@@ -808,17 +1438,18 @@ export class DeepCitation {
       }
     }
 
-    const verificationPromises: Promise<VerifyCitationsResponse>[] = [];
-    const skippedCitations: Record<string, Citation> = {};
-
     for (const [attachmentId, fileCitations] of citationsByAttachment) {
       if (attachmentId) {
-        verificationPromises.push(
-          this.verifyAttachment(attachmentId, fileCitations, {
+        batches.push({
+          attachmentId,
+          citations: fileCitations,
+          promise: this.verifyAttachment(attachmentId, fileCitations, {
             outputImageFormat,
             endUserId,
+            signal,
+            timeoutMs,
           }),
-        );
+        });
       } else {
         Object.assign(skippedCitations, fileCitations);
         const skippedCount = Object.keys(fileCitations).length;
@@ -826,17 +1457,51 @@ export class DeepCitation {
       }
     }
 
-    const results = await Promise.all(verificationPromises);
-    const allVerifications: VerifyCitationsResponse["verifications"] = {};
-    for (const result of results) {
-      Object.assign(allVerifications, result.verifications);
+    for (const [url, urlCitations] of citationsByUrl) {
+      const violation = urlPolicy === false ? undefined : getUrlPolicyViolation(url, urlPolicy);
+      if (violation) {
+        this.logger.warn?.("URL citation(s) skipped: URL not allowed", { url, reason: violation });
+        const verifications: VerifyCitationsResponse["verifications"] = {};
+        for (const key of Object.keys(urlCitations)) {
+          verifications[key] = {
+            status: "skipped",
+            url: { verifiedUrl: url, urlAccessStatus: "blocked", urlVerificationError: violation },
+          };
+        }
+        batches.push({ url, citations: urlCitations, promise: Promise.resolve({ verifications }) });
+        continue;
+      }
+      batches.push({
+        url,
+        citations: urlCitations,
+        promise: this.verifyUrl(url, urlCitations, { outputImageFormat, endUserId, signal, timeoutMs }),
+      });
     }
 
-    for (const key of Object.keys(skippedCitations)) {
-      allVerifications[key] = { status: "skipped" };
-    }
+    return { batches, skippedCitations };
+  }
 
-    return { verifications: allVerifications };
+  /**
+   * Prepare a cited URL and verify its citations against the captured page.
+   * Every returned verification carries the cited URL in `verification.url`.
+   */
+  private async verifyUrl(
+    url: string,
+    citations: Record<string, Citation>,
+    options: VerifyCitationsOptions,
+  ): Promise<VerifyCitationsResponse> {
+    const { attachmentId } = await this.prepareUrl({
+      url,
+      endUserId: options.endUserId,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+    const result = await this.verifyAttachment(attachmentId, citations, options);
+    const verifications: VerifyCitationsResponse["verifications"] = {};
+    for (const [key, verification] of Object.entries(result.verifications)) {
+      verifications[key] = { ...verification, url: { verifiedUrl: url, ...verification.url } };
+    }
+    return { ...result, verifications };
   }
 
   /**
@@ -867,16 +1532,22 @@ export class DeepCitation {
   async extendExpiration(options: ExtendExpirationOptions): Promise<ExtendExpirationResponse> {
     this.logger.info?.("Extending expiration", { attachmentId: options.attachmentId, duration: options.duration });
 
-    const response = await fetch(`${this.apiUrl}/attachments/${options.attachmentId}/extend`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/attachments/${options.attachmentId}/extend`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          duration: options.duration,
+        }),
       },
-      body: JSON.stringify({
-        duration: options.duration,
-      }),
-    });
+      // Repeating an extension would extend twice
+      false,
+      options,
+    );
 
     if (!response.ok) {
       this.logger.error?.("Extend expiration failed", { attachmentId: options.attachmentId, status: response.status });
@@ -895,6 +1566,7 @@ export class DeepCitation {
    * is irreversible - the attachment and all associated data will be deleted.
    *
    * @param attachmentId - The attachment ID to delete
+   * @param options - Optional cancellation and timeout controls
    * @returns Response confirming the deletion
    *
    * @example
@@ -905,15 +1577,20 @@ export class DeepCitation {
    * }
    * ```
    */
-  async deleteAttachment(attachmentId: string): Promise<DeleteAttachmentResponse> {
+  async deleteAttachment(attachmentId: string, options?: DeleteAttachmentOptions): Promise<DeleteAttachmentResponse> {
     this.logger.info?.("Deleting attachment", { attachmentId });
 
-    const response = await fetch(`${this.apiUrl}/attachments/${attachmentId}`, {
-      method: "DELETE",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/attachments/${attachmentId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+        },
       },
-    });
+      true,
+      options,
+    );
 
     if (!response.ok) {
       this.logger.error?.("Delete attachment failed", { attachmentId, status: response.status });
@@ -961,14 +1638,19 @@ export class DeepCitation {
     const resolvedEndUserId = this.resolveEndUserId(options?.endUserId);
     this.logger.info?.("Getting attachment", { attachmentId });
 
-    const response = await fetch(`${this.apiUrl}/getAttachment`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/getAttachment`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ attachmentId, endUserId: resolvedEndUserId }),
       },
-      body: JSON.stringify({ attachmentId, endUserId: resolvedEndUserId }),
-    });
+      true,
+      options,
+    );
 
     if (!response.ok) {
       this.logger.error?.("Get attachment failed", { attachmentId, status: response.status });
@@ -979,4 +1661,208 @@ export class DeepCitation {
     this.logger.info?.("Get attachment complete", { attachmentId: result.id, status: result.status });
     return result;
   }
+
+  /**
+   * Poll an attachment until processing and page image generation are complete.
+   *
+   * Polls `getAttachment()` with exponential backoff, starting at `intervalMs`
+   * and capped at `maxIntervalMs`. An attachment without a `pageImagesStatus`
+   * is ready as soon as its `status` is `"ready"`.
+   *
+   * @param attachmentId - The attachment ID to wait for
+   * @param options - Overall timeout, poll intervals, and cancellation signal
+   * @returns The ready attachment, including its full page images
+   * @throws {TimeoutError} When the attachment is not ready within `timeoutMs`
+   * @throws {AbortError} When `signal` aborts
+   * @throws {DeepCitationError} With code `"DC_ATTACHMENT_FAILED"` when processing or page image generation fails
+   *
+   * @example
+   * ```typescript
+   * const { attachmentId } = await deepcitation.uploadFile(file);
+   * const attachment = await deepcitation.waitForAttachmentReady(attachmentId, { timeoutMs: 60_000 });
+   * renderPages(attachment.pageImages);
+   * ```
+   */
+  async waitForAttachmentReady(
+    attachmentId: string,
+    options: WaitForAttachmentReadyOptions = {},
+  ): Promise<AttachmentResponse> {
+    const {
+      timeoutMs = DEFAULT_READY_TIMEOUT_MS,
+      intervalMs = DEFAULT_READY_INTERVAL_MS,
+      maxIntervalMs = DEFAULT_READY_MAX_INTERVAL_MS,
+      signal,
+      endUserId,
+      onPoll,
+    } = options;
+    const deadline = Date.now() + timeoutMs;
+    let delay = intervalMs;
+
+    for (;;) {
+      // Bound each poll by the overall deadline so a hung request cannot outlive it
+      const attachment = await this.getAttachment(attachmentId, {
+        endUserId,
+        signal,
+        timeoutMs: Math.max(1, deadline - Date.now()),
+      });
+
+      if (attachment.status === "error") {
+        throw new DeepCitationError(`Attachment ${attachmentId} failed to process`, "DC_ATTACHMENT_FAILED", false);
+      }
+      if (attachment.pageImagesStatus === "failed") {
+        throw new DeepCitationError(
+          `Page image generation failed for attachment ${attachmentId}`,
+          "DC_ATTACHMENT_FAILED",
+          false,
+        );
+      }
+      if (
+        attachment.status === "ready" &&
+        (attachment.pageImagesStatus === undefined || attachment.pageImagesStatus === "completed")
+      ) {
+        return attachment;
+      }
+
+      onPoll?.(attachment);
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new TimeoutError(`Attachment ${attachmentId} was not ready within ${timeoutMs}ms`, timeoutMs);
+      }
+      this.logger.debug?.("Attachment not ready, polling again", {
+        attachmentId,
+        status: attachment.status,
+        pageImagesStatus: attachment.pageImagesStatus,
+        delayMs: Math.min(delay, remaining),
+      });
+      try {
+        await sleep(Math.min(delay, remaining), signal);
+      } catch {
+        throw new AbortError();
+      }
+      delay = Math.min(delay * 2, maxIntervalMs);
+    }
+  }
+
+  /**
+   * List uploaded attachments, newest first, one page at a time.
+   *
+   * @param options - Filters and pagination cursor
+   * @returns A page of attachment summaries and the cursor for the next page
+   *
+   * @example
+   * ```typescript
+   * // Find everything expiring in the next week
+   * const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await deepcitation.listAttachments({ expiresBefore: nextWeek, cursor });
+   *   for (const attachment of page.attachments) console.log(attachment.id, attachment.expiresAt);
+   *   cursor = page.nextCursor;
+   * } while (cursor);
+   * ```
+   */
+  async listAttachments(options: ListAttachmentsOptions = {}): Promise<ListAttachmentsResponse> {
+    const { endUserId, endFileId, status, expiresBefore, limit, cursor } = options;
+    this.logger.info?.("Listing attachments", { endUserId, endFileId, status, cursor });
+
+    const response = await this.fetchWithRetry(
+      `${this.apiUrl}/listAttachments`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          endUserId,
+          endFileId,
+          status: status === undefined || Array.isArray(status) ? status : [status],
+          expiresBefore: expiresBefore instanceof Date ? expiresBefore.toISOString() : expiresBefore,
+          limit,
+          cursor,
+        }),
+      },
+      true,
+      options,
+    );
+
+    if (!response.ok) {
+      this.logger.error?.("List attachments failed", { status: response.status });
+      throw await createApiError(response, "List attachments");
+    }
+
+    const result = (await response.json()) as ListAttachmentsResponse;
+    this.logger.info?.("List attachments complete", {
+      count: result.attachments.length,
+      hasMore: Boolean(result.nextCursor),
+    });
+    return result;
+  }
+
+  /**
+   * Delete many attachments with limited concurrency.
+   * Failures are collected rather than thrown, so one bad ID never stops the rest.
+   *
+   * @param attachmentIds - Attachment IDs to delete
+   * @param options - Concurrency limit plus per-request cancellation and timeout
+   * @returns Successful deletions and per-attachment failures
+   *
+   * @example
+   * ```typescript
+   * const { attachments } = await deepcitation.listAttachments({ endUserId: "user-42" });
+   * const { failed } = await deepcitation.bulkDelete(attachments.map(a => a.id));
+   * ```
+   */
+  async bulkDelete(
+    attachmentIds: string[],
+    options?: BulkOperationOptions,
+  ): Promise<BulkOperationResult<DeleteAttachmentResponse>> {
+    return this.runBulkOperation("Bulk delete", attachmentIds, options, attachmentId =>
+      this.deleteAttachment(attachmentId, options),
+    );
+  }
+
+  /**
+   * Extend the expiration of many attachments with limited concurrency.
+   * Failures are collected rather than thrown, so one bad ID never stops the rest.
+   *
+   * @param attachmentIds - Attachment IDs to extend
+   * @param duration - Duration to extend each attachment by
+   * @param options - Concurrency limit plus per-request cancellation and timeout
+   * @returns Successful extensions and per-attachment failures
+   */
+  async bulkExtendExpiration(
+    attachmentIds: string[],
+    duration: ExtendExpirationDuration,
+    options?: BulkOperationOptions,
+  ): Promise<BulkOperationResult<ExtendExpirationResponse>> {
+    return this.runBulkOperation("Bulk extend expiration", attachmentIds, options, attachmentId =>
+      this.extendExpiration({ attachmentId, duration, signal: options?.signal, timeoutMs: options?.timeoutMs }),
+    );
+  }
+
+  /** Run one request per unique attachment ID through a concurrency limiter, collecting failures. */
+  private async runBulkOperation<T>(
+    operation: string,
+    attachmentIds: string[],
+    options: BulkOperationOptions | undefined,
+    action: (attachmentId: string) => Promise<T>,
+  ): Promise<BulkOperationResult<T>> {
+    const uniqueIds = [...new Set(attachmentIds)];
+    const limiter = createConcurrencyLimiter(Math.max(1, options?.concurrency ?? DEFAULT_BULK_CONCURRENCY));
+    this.logger.info?.(operation, { count: uniqueIds.length });
+
+    const settled = await Promise.allSettled(uniqueIds.map(attachmentId => limiter(() => action(attachmentId))));
+
+    const result: BulkOperationResult<T> = { succeeded: [], failed: [] };
+    settled.forEach((outcome, index) => {
+      if (outcome.status === "fulfilled") {
+        result.succeeded.push(outcome.value);
+      } else {
+        result.failed.push({ attachmentId: uniqueIds[index], error: toDeepCitationError(outcome.reason) });
+      }
+    });
+    this.logger.info?.(`${operation} complete`, { succeeded: result.succeeded.length, failed: result.failed.length });
+    return result;
+  }
 }
@@ -58,9 +58,13 @@ export class NetworkError extends DeepCitationError {
  * Safe to retry after the indicated delay.
  */
 export class RateLimitError extends DeepCitationError {
-  constructor(message: string) {
+  /** Server-suggested delay before retrying, parsed from the `Retry-After` header */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
     super(message, "DC_RATE_LIMITED", true, 429);
     this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -85,3 +89,29 @@ export class ServerError extends DeepCitationError {
     this.name = "ServerError";
   }
 }
+
+/**
+ * Thrown when a request exceeds its `timeoutMs` budget.
+ * Safe to retry, possibly with a longer timeout.
+ */
+export class TimeoutError extends DeepCitationError {
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message, "DC_TIMEOUT", true);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its `AbortSignal`.
+ * Not retryable -- the caller asked for the request to stop.
+ */
+export class AbortError extends DeepCitationError {
+  constructor(message = "Request was aborted") {
+    super(message, "DC_ABORTED", false);
+    this.name = "AbortError";
+  }
+}
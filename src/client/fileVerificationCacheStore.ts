@@ -0,0 +1,148 @@
+/**
+ * File-system verification cache store for Node.js.
+ *
+ * Persists verification results as one JSON file per cache key so they
+ * survive restarts and serverless cold starts, and can be shared between
+ * workers on the same machine or a mounted volume.
+ *
+ * Exposed via the `deepcitation/file-cache` entry point so browser bundles
+ * never pull in `node:fs`.
+ *
+ * @packageDocumentation
+ */
+
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { sha1Hash } from "../utils/sha.js";
+import type { VerificationCacheStore, VerifyCitationsResponse } from "./types.js";
+
+/** Keys matching this pattern are used verbatim as file names. */
+const SAFE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const FILE_EXTENSION = ".json";
+
+/**
+ * Options for the file-system verification cache store.
+ */
+export interface FileVerificationCacheStoreOptions {
+  /** Directory to store cache files in. Created on first write if missing. */
+  directory: string;
+}
+
+/** A file-system cache store with an extra housekeeping method. */
+export interface FileVerificationCacheStore extends VerificationCacheStore {
+  /**
+   * Delete every expired or unreadable entry in the cache directory.
+   * @returns Number of files removed
+   */
+  prune(): Promise<number>;
+}
+
+interface CacheFile {
+  expiresAt: number;
+  value: VerifyCitationsResponse;
+}
+
+/** Map a cache key to a file name, hashing anything that is not filesystem-safe. */
+function keyToFileName(key: string): string {
+  return `${SAFE_KEY_PATTERN.test(key) ? key : sha1Hash(key)}${FILE_EXTENSION}`;
+}
+
+async function removeFile(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+}
+
+/** Read and validate a cache file. Returns undefined if missing, corrupt, or expired. */
+async function readCacheFile(path: string, now: number): Promise<CacheFile | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<CacheFile>;
+    if (typeof parsed?.expiresAt !== "number" || typeof parsed.value !== "object" || parsed.value === null) {
+      return undefined;
+    }
+    return parsed.expiresAt > now ? (parsed as CacheFile) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a verification cache store backed by JSON files in a directory.
+ *
+ * Writes go to a temporary file and are renamed into place, so concurrent
+ * workers never observe a partially written entry.
+ *
+ * @example
+ * ```typescript
+ * import { DeepCitation } from 'deepcitation';
+ * import { createFileVerificationCacheStore } from 'deepcitation/file-cache';
+ *
+ * const dc = new DeepCitation({
+ *   apiKey: process.env.DEEPCITATION_API_KEY!,
+ *   verificationCache: createFileVerificationCacheStore({ directory: '.cache/deepcitation' }),
+ *   verificationCacheTtlMs: 24 * 60 * 60 * 1000, // 1 day
+ * });
+ * ```
+ */
+export function createFileVerificationCacheStore(
+  options: FileVerificationCacheStoreOptions,
+): FileVerificationCacheStore {
+  const { directory } = options;
+  let tmpCounter = 0;
+
+  return {
+    async get(key) {
+      const path = join(directory, keyToFileName(key));
+      const entry = await readCacheFile(path, Date.now());
+      if (!entry) {
+        await removeFile(path);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      await mkdir(directory, { recursive: true });
+      const path = join(directory, keyToFileName(key));
+      const tmpPath = `${path}.${process.pid}.${tmpCounter++}.tmp`;
+      const entry: CacheFile = { expiresAt: Date.now() + ttlMs, value };
+      await writeFile(tmpPath, JSON.stringify(entry), "utf8");
+      await rename(tmpPath, path);
+    },
+
+    async delete(key) {
+      await removeFile(join(directory, keyToFileName(key)));
+    },
+
+    async prune() {
+      let names: string[];
+      try {
+        names = await readdir(directory);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return 0;
+        throw err;
+      }
+      const now = Date.now();
+      let removed = 0;
+      for (const name of names) {
+        if (!name.endsWith(FILE_EXTENSION)) continue;
+        const path = join(directory, name);
+        if (!(await readCacheFile(path, now))) {
+          await removeFile(path);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
@@ -1,35 +1,59 @@
 export { DeepCitation } from "./DeepCitation.js";
 export {
+  AbortError,
   AuthenticationError,
   DeepCitationError,
   NetworkError,
   RateLimitError,
   ServerError,
+  TimeoutError,
   ValidationError,
 } from "./errors.js";
 export type {
   AttachmentResponse,
+  AttachmentSummary,
+  BulkOperationOptions,
+  BulkOperationResult,
+  ChunkedUploadOptions,
   CitationInput,
   ConvertedPdfDownloadPolicy,
   ConvertFileInput,
   ConvertFileResponse,
   DeepCitationConfig,
   DeepCitationLogger,
+  DeepCitationRequest,
+  DeepCitationResponseInfo,
+  DeleteAttachmentOptions,
   DeleteAttachmentResponse,
   ExtendExpirationDuration,
   ExtendExpirationOptions,
   ExtendExpirationResponse,
   FileInput,
   GetAttachmentOptions,
+  ListAttachmentsOptions,
+  ListAttachmentsResponse,
   PrepareAttachmentsResult,
   PrepareConvertedFileOptions,
   PreparedAttachment,
   PrepareUrlOptions,
+  RequestOptions,
+  RetryPolicy,
   UploadFileOptions,
   UploadFileResponse,
+  UploadProgress,
+  UploadSessionStatus,
   UrlCacheInfo,
   UrlSource,
+  UrlVerificationPolicy,
+  VerificationCacheStore,
   VerifyCitationsOptions,
   VerifyCitationsResponse,
   VerifyInput,
+  VerifyStreamResult,
+  WaitForAttachmentReadyOptions,
 } from "./types.js";
+export type { MemoryVerificationCacheStoreOptions } from "./verificationCache.js";
+export {
+  createMemoryVerificationCacheStore,
+  DEFAULT_VERIFICATION_CACHE_TTL_MS,
+} from "./verificationCache.js";
@@ -0,0 +1,108 @@
+/**
+ * Retry helpers for DeepCitation client requests.
+ *
+ * Retries use exponential backoff with "full jitter" and honor the server's
+ * `Retry-After` header on 429/503 responses.
+ *
+ * @packageDocumentation
+ */
+
+import type { RetryPolicy } from "./types.js";
+
+/** Fully-resolved retry policy with defaults applied. */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Default retry policy. Retries are disabled (`maxRetries: 0`) unless
+ * configured on the client, preserving fail-fast behavior.
+ */
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxRetries: 0,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryNonIdempotent: false,
+};
+
+/** HTTP status codes that indicate a transient failure worth retrying. */
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Merge a partial retry policy with defaults.
+ * Negative or non-finite values fall back to the default.
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy): ResolvedRetryPolicy {
+  const pick = (value: number | undefined, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+  return {
+    maxRetries: Math.floor(pick(policy?.maxRetries, DEFAULT_RETRY_POLICY.maxRetries)),
+    initialDelayMs: pick(policy?.initialDelayMs, DEFAULT_RETRY_POLICY.initialDelayMs),
+    maxDelayMs: pick(policy?.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs),
+    retryNonIdempotent: policy?.retryNonIdempotent ?? DEFAULT_RETRY_POLICY.retryNonIdempotent,
+  };
+}
+
+/** Whether an HTTP status code is a transient failure. */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS_CODES.has(status);
+}
+
+/**
+ * Parse a `Retry-After` header value into milliseconds.
+ * Accepts either delta-seconds ("120") or an HTTP-date.
+ *
+ * @returns Delay in milliseconds, or undefined if the header is absent or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the delay before the next retry attempt.
+ *
+ * Uses exponential backoff with full jitter: a random delay between 0 and
+ * `initialDelayMs * 2^attempt`, capped at `maxDelayMs`. When the server
+ * supplied a `Retry-After` hint, that value is used instead.
+ *
+ * @param attempt - Zero-based retry attempt number
+ * @param policy - Resolved retry policy
+ * @param retryAfterMs - Server-provided delay hint, if any
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: ResolvedRetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Promise-based delay. Rejects with the signal's reason as soon as the
+ * signal aborts so pending retries stop immediately.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -8,6 +8,7 @@ import type {
   Verification,
   VerifyCitationResponse,
 } from "../types/index.js";
+import type { DeepCitationError } from "./errors.js";
 
 /**
  * Policy for exposing a download URL to the converted verification PDF.
@@ -33,6 +34,19 @@ export interface DeepCitationLogger {
 // Shared option bases
 // ==========================================================================
 
+/**
+ * Per-request cancellation and timeout controls.
+ */
+export interface RequestOptions {
+  /** Abort the request. Rejects with AbortError and stops any pending retries. */
+  signal?: AbortSignal;
+  /**
+   * Maximum time in milliseconds to wait for a response, including retries and backoff.
+   * Rejects with TimeoutError when exceeded. Overrides the instance-level timeoutMs if set.
+   */
+  timeoutMs?: number;
+}
+
 /**
  * Per-request billing and policy overrides.
  * These override the corresponding instance-level defaults on DeepCitationConfig.
@@ -50,6 +64,92 @@ export interface FileRequestOptions {
 // Client configuration
 // ==========================================================================
 
+/**
+ * Storage backend for verification results.
+ *
+ * Keys are opaque, filesystem-safe hashes of the attachment ID, citation
+ * content, and output image format. Implementations may be synchronous or
+ * async, and should treat entries older than `ttlMs` as missing.
+ * Errors thrown by a store are logged and otherwise ignored -- a failing
+ * cache never fails a verification.
+ */
+export interface VerificationCacheStore {
+  /** Return the cached response, or undefined on a miss or expired entry. */
+  get(key: string): VerifyCitationsResponse | undefined | Promise<VerifyCitationsResponse | undefined>;
+  /** Store a response for `ttlMs` milliseconds. */
+  set(key: string, value: VerifyCitationsResponse, ttlMs: number): void | Promise<void>;
+  /** Remove a cached response. */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * An outgoing HTTP request, as seen by the `onRequest` interceptor.
+ */
+export interface DeepCitationRequest {
+  /** Fully-qualified request URL */
+  url: string;
+  /** Fetch options, including method, headers, body, and abort signal */
+  init: RequestInit;
+  /** Zero-based attempt number; increments on each retry */
+  attempt: number;
+}
+
+/**
+ * A completed HTTP exchange, as seen by the `onResponse` interceptor.
+ */
+export interface DeepCitationResponseInfo {
+  /** The request as sent (after `onRequest`) */
+  request: DeepCitationRequest;
+  /** The raw response. Do not consume the body -- the client reads it after the interceptor returns. */
+  response: Response;
+  /** Time from sending the request to receiving response headers, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Automatic retry policy for transient failures (network errors, 408, 429, 5xx).
+ *
+ * Retries use exponential backoff with full jitter. When the server sends a
+ * `Retry-After` header, that delay is used instead; if it exceeds `maxDelayMs`
+ * the error is thrown immediately so the caller can reschedule.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of retries after the initial attempt. `0` disables retries.
+   * @default 0
+   */
+  maxRetries?: number;
+  /**
+   * Base delay for exponential backoff in milliseconds.
+   * @default 500
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for any single retry delay in milliseconds.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Also retry non-idempotent requests (uploads without a caller-supplied
+   * `attachmentId`, conversions, expiration extensions) on network errors and 5xx.
+   * These are otherwise only retried on 429, where the server did not process
+   * the request, so a retry cannot create a duplicate attachment.
+   * @default false
+   */
+  retryNonIdempotent?: boolean;
+}
+
+/**
+ * Which URLs `verify()` may fetch when verifying URL citations.
+ * A domain also covers its subdomains (e.g., "example.com" covers "docs.example.com").
+ */
+export interface UrlVerificationPolicy {
+  /** Only fetch URLs on these domains. When unset, every domain not in `blockedDomains` is allowed. */
+  approvedDomains?: string[];
+  /** Never fetch URLs on these domains. Takes precedence over `approvedDomains`. */
+  blockedDomains?: string[];
+}
+
 /**
  * Configuration options for the DeepCitation client
  */
@@ -64,6 +164,78 @@ export interface DeepCitationConfig {
    * @default 5
    */
   maxUploadConcurrency?: number;
+  /**
+   * Automatic retry policy for transient failures.
+   * Retries are disabled by default.
+   *
+   * @example
+   * ```typescript
+   * const dc = new DeepCitation({
+   *   apiKey: '...',
+   *   retry: { maxRetries: 3, initialDelayMs: 500 },
+   * });
+   * ```
+   */
+  retry?: RetryPolicy;
+  /**
+   * Where successful verification results are cached. Defaults to an in-memory
+   * store (100 entries). Pass a persistent store such as
+   * `createFileVerificationCacheStore()` from `deepcitation/file-cache` to keep
+   * results across restarts or share them between workers, or `false` to disable.
+   * Identical in-flight requests are always deduplicated regardless of this setting.
+   */
+  verificationCache?: VerificationCacheStore | false;
+  /**
+   * How long cached verification results stay valid, in milliseconds.
+   * @default 300000 (5 minutes)
+   */
+  verificationCacheTtlMs?: number;
+  /**
+   * How `verify()` handles URL citations that have no attachmentId. By default
+   * each cited URL is prepared with `prepareUrl()` and verified, subject to this
+   * policy's domain lists. Pass `false` to skip URL citations instead.
+   *
+   * @example
+   * ```typescript
+   * const dc = new DeepCitation({
+   *   apiKey: '...',
+   *   urlVerification: { blockedDomains: ['internal.example.com'] },
+   * });
+   * ```
+   */
+  urlVerification?: UrlVerificationPolicy | false;
+  /**
+   * Default per-request timeout in milliseconds, including retries and backoff.
+   * Can be overridden per-request. No timeout by default.
+   */
+  timeoutMs?: number;
+  /**
+   * Custom fetch implementation, e.g. to route through a proxy or inject a test double.
+   * Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+  /**
+   * Called before every HTTP attempt (including retries). Mutate `request.init`
+   * or return a replacement request to add headers such as tracing context.
+   *
+   * @example
+   * ```typescript
+   * const dc = new DeepCitation({
+   *   apiKey: '...',
+   *   onRequest: request => {
+   *     request.init.headers = { ...request.init.headers, traceparent: getTraceParent() };
+   *   },
+   * });
+   * ```
+   */
+  onRequest?: (
+    request: DeepCitationRequest,
+  ) => DeepCitationRequest | undefined | Promise<DeepCitationRequest | undefined>;
+  /**
+   * Called after every HTTP attempt that receives a response (including error
+   * statuses that will be retried). Useful for recording latency and status codes.
+   */
+  onResponse?: (info: DeepCitationResponseInfo) => void | Promise<void>;
   /**
    * Optional logger for observability. Receives structured log messages
    * about uploads, verifications, cache operations, and errors.
@@ -157,18 +329,78 @@ export interface UploadFileResponse {
 /**
  * Options for file upload
  */
-export interface UploadFileOptions extends FileRequestOptions {
+export interface UploadFileOptions extends FileRequestOptions, RequestOptions {
   /** Optional custom attachment ID to use instead of auto-generated one */
   attachmentId?: string;
   /** Optional custom filename (uses File.name if not provided) */
   filename?: string;
+  /**
+   * Upload in resumable chunks instead of a single multipart request.
+   * Pass `true` for defaults. Recommended for large files and flaky connections;
+   * `timeoutMs` then applies to each chunk request rather than the whole upload.
+   */
+  chunked?: boolean | ChunkedUploadOptions;
+  /** Called as bytes are accepted by the server (after each chunk in chunked mode, once otherwise). */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Options for chunked, resumable uploads.
+ *
+ * Protocol (all requests authenticated with the API key):
+ * 1. `POST /uploads` with JSON `{ filename, size, contentType, attachmentId?, endUserId?, endFileId?,
+ *    convertedPdfDownloadPolicy }` creates a session and returns an `UploadSessionStatus`.
+ * 2. `PUT /uploads/{uploadId}` with the raw chunk bytes and a
+ *    `Content-Range: bytes {start}-{end}/{size}` header returns the updated `UploadSessionStatus`.
+ * 3. `GET /uploads/{uploadId}` returns the `UploadSessionStatus`, used to resume after a dropped connection.
+ * 4. `POST /uploads/{uploadId}/complete` processes the assembled file and returns an `UploadFileResponse`.
+ */
+export interface ChunkedUploadOptions {
+  /**
+   * Size of each chunk in bytes.
+   * @default 8388608 (8 MB)
+   */
+  chunkSizeBytes?: number;
+  /**
+   * Resume an earlier upload session, e.g. the `uploadId` from a previous
+   * `onProgress` call. Only bytes the server has not received are sent.
+   */
+  resumeUploadId?: string;
+  /**
+   * How many times to re-sync with the server and resume after a chunk fails
+   * with a network or server error, before giving up.
+   * @default 3
+   */
+  maxResumeAttempts?: number;
+}
+
+/**
+ * Upload progress reported to `UploadFileOptions.onProgress`.
+ */
+export interface UploadProgress {
+  /** Bytes the server has accepted so far */
+  uploadedBytes: number;
+  /** Total file size in bytes */
+  totalBytes: number;
+  /** Upload session ID in chunked mode. Persist it to resume with `resumeUploadId`. */
+  uploadId?: string;
+}
+
+/**
+ * Server-side state of a chunked upload session.
+ */
+export interface UploadSessionStatus {
+  /** Upload session ID */
+  uploadId: string;
+  /** Number of contiguous bytes received from the start of the file */
+  receivedBytes: number;
 }
 
 /**
  * Options for preparing a URL for citation verification.
  * URLs and Office files take ~30s to process vs. <1s for images/PDFs.
  */
-export interface PrepareUrlOptions extends FileRequestOptions {
+export interface PrepareUrlOptions extends FileRequestOptions, RequestOptions {
   /** The URL to convert and prepare for citation verification */
   url: string;
   /** Optional custom attachment ID to use instead of auto-generated one */
@@ -229,7 +461,7 @@ export type VerifyCitationsResponse = VerifyCitationResponse;
 /**
  * Options for citation verification.
  */
-export interface VerifyCitationsOptions {
+export interface VerifyCitationsOptions extends RequestOptions {
   /** Output image format for verification screenshots */
   outputImageFormat?: ImageFormat;
   /** Developer's end-user identifier for usage attribution. Overrides the instance-level endUserId if set. */
@@ -286,7 +518,7 @@ export interface PrepareAttachmentsResult {
 /**
  * Input for verify method.
  */
-export interface VerifyInput {
+export interface VerifyInput extends RequestOptions {
   /** The LLM response containing citations */
   llmOutput: string;
   /** Optional file references (required for Zero Data Retention or after storage expires) */
@@ -295,6 +527,32 @@ export interface VerifyInput {
   outputImageFormat?: ImageFormat;
   /** Developer's end-user identifier for usage attribution. Overrides the instance-level endUserId if set. */
   endUserId?: string;
+  /**
+   * What to do when one attachment's verification request fails.
+   * - `"throw"`: reject the whole call with the first error (default)
+   * - `"mark"`: keep results from the other attachments and mark the failed
+   *   attachment's citations with status `"error"` and a `verificationError`
+   * @default "throw"
+   */
+  onAttachmentError?: "throw" | "mark";
+  /** Overrides the client's `urlVerification` policy for this call. */
+  urlVerification?: UrlVerificationPolicy | false;
+}
+
+/**
+ * One batch of results yielded by `verifyStream()`.
+ */
+export interface VerifyStreamResult {
+  /** Attachment these citations belong to. Undefined for URL batches and skipped citations. */
+  attachmentId?: string;
+  /** Source URL, for batches of URL citations verified via `prepareUrl()` */
+  url?: string;
+  /** The citations in this batch, keyed by citation key */
+  citations: Record<string, Citation>;
+  /** Verification results keyed by citation key. Empty when `error` is set. */
+  verifications: Record<string, Verification>;
+  /** Present when this attachment's verification request failed */
+  error?: DeepCitationError;
 }
 
 /**
@@ -304,7 +562,7 @@ export interface VerifyInput {
 export type ConvertFileInput = ConvertFileUrlInput | ConvertFileUploadInput;
 
 /** Convert a URL to PDF */
-interface ConvertFileUrlInput extends FileRequestOptions {
+interface ConvertFileUrlInput extends FileRequestOptions, RequestOptions {
   /** URL to convert to PDF (for web pages or direct PDF links) */
   url: string;
   /** Not applicable for URL conversion */
@@ -316,7 +574,7 @@ interface ConvertFileUrlInput extends FileRequestOptions {
 }
 
 /** Convert an uploaded Office file to PDF */
-interface ConvertFileUploadInput extends FileRequestOptions {
+interface ConvertFileUploadInput extends FileRequestOptions, RequestOptions {
   /** Not applicable for file upload conversion */
   url?: never;
   /** Office file to convert (doc, docx, xls, xlsx, ppt, pptx, odt, ods, odp) */
@@ -353,7 +611,7 @@ export interface ConvertFileResponse {
 /**
  * Options for processing a converted file
  */
-export interface PrepareConvertedFileOptions extends FileRequestOptions {
+export interface PrepareConvertedFileOptions extends FileRequestOptions, RequestOptions {
   /** The attachment ID from a previous convertFile call */
   attachmentId: string;
 }
@@ -366,7 +624,7 @@ export type ExtendExpirationDuration = "month" | "year";
 /**
  * Options for extending an attachment's expiration
  */
-export interface ExtendExpirationOptions {
+export interface ExtendExpirationOptions extends RequestOptions {
   /** The attachment ID to extend */
   attachmentId: string;
   /** Duration to extend by: "month" (30 days) or "year" (365 days) */
@@ -385,6 +643,91 @@ export interface ExtendExpirationResponse {
   previousExpiresAt?: (string & {}) | "never";
 }
 
+/**
+ * Options for deleting an attachment
+ */
+export interface DeleteAttachmentOptions extends RequestOptions {}
+
+/**
+ * Options for listing attachments. All filters are optional and combined with AND.
+ */
+export interface ListAttachmentsOptions extends RequestOptions {
+  /** Only attachments attributed to this end user. The client-level endUserId is not applied as a filter. */
+  endUserId?: string;
+  /** Only attachments attributed to this end-file ID */
+  endFileId?: string;
+  /** Only attachments in this processing status (or any of these statuses) */
+  status?: AttachmentResponse["status"] | AttachmentResponse["status"][];
+  /** Only attachments that expire before this date. Attachments that never expire are excluded. */
+  expiresBefore?: Date | string;
+  /**
+   * Maximum attachments per page. The server may cap this.
+   * @default 50
+   */
+  limit?: number;
+  /** Cursor from a previous page's `nextCursor` */
+  cursor?: string;
+}
+
+/**
+ * Summary of an attachment as returned by `listAttachments()`.
+ * Use `getAttachment()` for page renders, verifications and text.
+ */
+export interface AttachmentSummary {
+  /** The attachment ID */
+  id: string;
+  /** Current processing status */
+  status: AttachmentResponse["status"];
+  /** Original filename of the uploaded file */
+  originalFilename: string;
+  /** MIME type of the uploaded file */
+  mimeType: string;
+  /** File size in bytes (may not be available for URL-based attachments) */
+  fileSize?: number;
+  /** Number of pages in the document */
+  pageCount?: number;
+  /** ISO 8601 timestamp when the attachment was uploaded */
+  uploadedAt?: string;
+  /** Expiration date */
+  expiresAt?: (string & {}) | "never";
+  /** End user the attachment is attributed to */
+  endUserId?: string;
+  /** End-file ID the attachment is attributed to */
+  endFileId?: string;
+}
+
+/**
+ * One page of results from `listAttachments()`.
+ */
+export interface ListAttachmentsResponse {
+  /** Attachments on this page */
+  attachments: AttachmentSummary[];
+  /** Pass as `cursor` to fetch the next page. Absent on the last page. */
+  nextCursor?: string;
+}
+
+/**
+ * Options for `bulkDelete()` and `bulkExtendExpiration()`.
+ * `signal` and `timeoutMs` apply to each individual request.
+ */
+export interface BulkOperationOptions extends RequestOptions {
+  /**
+   * Maximum number of requests in flight at once.
+   * @default 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * Outcome of a bulk attachment operation. One failed attachment never fails the others.
+ */
+export interface BulkOperationResult<T> {
+  /** Responses for attachments that succeeded, in input order */
+  succeeded: T[];
+  /** Attachments that failed, with the error for each, in input order */
+  failed: Array<{ attachmentId: string; error: DeepCitationError }>;
+}
+
 /**
  * Response from deleting an attachment
  */
@@ -398,11 +741,34 @@ export interface DeleteAttachmentResponse {
 /**
  * Options for retrieving an attachment by ID
  */
-export interface GetAttachmentOptions {
+export interface GetAttachmentOptions extends RequestOptions {
   /** Developer's end-user identifier for usage attribution. Overrides the instance-level endUserId if set. */
   endUserId?: string;
 }
 
+/**
+ * Options for `waitForAttachmentReady()`.
+ */
+export interface WaitForAttachmentReadyOptions extends GetAttachmentOptions {
+  /**
+   * Total time to wait across all polls, in milliseconds.
+   * @default 120000 (2 minutes)
+   */
+  timeoutMs?: number;
+  /**
+   * Delay before the second poll, in milliseconds. Doubles after each poll up to `maxIntervalMs`.
+   * @default 1000
+   */
+  intervalMs?: number;
+  /**
+   * Upper bound for the delay between polls, in milliseconds.
+   * @default 10000
+   */
+  maxIntervalMs?: number;
+  /** Called with each polled attachment that is not ready yet, e.g. to show its `pageImagesStatus`. */
+  onPoll?: (attachment: AttachmentResponse) => void;
+}
+
 /**
  * Response from querying an attachment by ID.
  * Returns full attachment metadata including page renders, verifications, and optional deep text items.
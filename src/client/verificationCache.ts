@@ -0,0 +1,72 @@
+/**
+ * In-memory verification cache store, used by the DeepCitation client by default.
+ *
+ * @packageDocumentation
+ */
+
+import type { VerificationCacheStore, VerifyCitationsResponse } from "./types.js";
+
+/** Default time-to-live for cached verification results. */
+export const DEFAULT_VERIFICATION_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Default maximum number of entries held by the in-memory store. */
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * Options for the in-memory verification cache store.
+ */
+export interface MemoryVerificationCacheStoreOptions {
+  /**
+   * Maximum cached entries. The least recently used entry is evicted first.
+   * @default 100
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Create an in-memory verification cache store with TTL expiry and LRU eviction.
+ *
+ * Relies on Map insertion order for LRU: reads re-insert the entry so the
+ * first key is always the least recently used.
+ *
+ * @example
+ * ```typescript
+ * const dc = new DeepCitation({
+ *   apiKey: '...',
+ *   verificationCache: createMemoryVerificationCacheStore({ maxEntries: 1000 }),
+ * });
+ * ```
+ */
+export function createMemoryVerificationCacheStore(
+  options: MemoryVerificationCacheStoreOptions = {},
+): VerificationCacheStore {
+  const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const entries = new Map<string, { value: VerifyCitationsResponse; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (Date.now() >= entry.expiresAt) {
+        entries.delete(key);
+        return undefined;
+      }
+      // Move to the end so it is evicted last
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -31,18 +31,24 @@ const { markdown, references } = renderCitationsAsMarkdown(llmResponse, { varian
 
 /** Recipe 3 — Render React <CitationComponent> inline */
 export const RECIPE_REACT_INLINE = `import { CitationComponent } from "deepcitation/react";
-import { parseCitationResponse, getCitationKey } from "deepcitation";
+import { parseCitationMarker, parseCitationResponse } from "deepcitation";
 
 const result = parseCitationResponse(llmOutput);
 const segments = result.visibleText.split(result.splitPattern);
 
 const rendered = segments.map((seg, i) => {
   if (result.format === "numeric") {
-    const match = seg.match(/^\\[(\\d+)\\]$/);
-    if (match) {
-      const key = result.markerMap[Number(match[1])];
-      if (!key) return <span key={i}>{seg}</span>;
-      return <CitationComponent key={i} citation={result.citations[key]} verification={verifications[key] ?? null} />;
+    // [N], or a grouped marker such as [1, 2] or [3-5]
+    const ids = parseCitationMarker(seg);
+    const keys = ids?.map(id => result.markerMap[id]).filter(Boolean) ?? [];
+    if (keys.length > 0) {
+      return (
+        <span key={i}>
+          {keys.map(key => (
+            <CitationComponent key={key} citation={result.citations[key]} verification={verifications[key] ?? null} />
+          ))}
+        </span>
+      );
     }
   }
   return <span key={i}>{seg}</span>;
@@ -119,7 +125,7 @@ async function analyzeDocument(filePath: string, question: string) {
 
 /** Quick Start — React client side */
 export const QUICKSTART_REACT_CLIENT = `import { useState } from "react";
-import { parseCitationResponse } from "deepcitation";
+import { parseCitationMarker, parseCitationResponse } from "deepcitation";
 import type { Citation, Verification } from "deepcitation";
 import {
   CitationComponent,
@@ -151,18 +157,21 @@ function MessageWithCitations({
   );
   const citationGroups = groupCitationsBySource(drawerItems);
 
-  // Split text on [N] markers and render CitationComponent for each
+  // Split text on [N] markers (including groups like [1, 2]) and render CitationComponent for each
   const segments = result.visibleText.split(result.splitPattern);
   const rendered = segments.map((seg, i) => {
-    const match = seg.match(/^\\[(\\d+)\\]$/);
-    if (match) {
-      const key = result.markerMap[Number(match[1])];
+    const keys = parseCitationMarker(seg)?.map(id => result.markerMap[id]).filter(Boolean) ?? [];
+    if (keys.length > 0) {
       return (
-        <CitationComponent
-          key={i}
-          citation={citations[key]}
-          verification={verifications[key] ?? null}
-        />
+        <span key={i}>
+          {keys.map(key => (
+            <CitationComponent
+              key={key}
+              citation={citations[key]}
+              verification={verifications[key] ?? null}
+            />
+          ))}
+        </span>
       );
     }
     return <span key={i}>{seg}</span>;
@@ -328,7 +337,7 @@ const verification = verifications[key] ?? null;`;
 
 /** Section 3.2 — Post-stream full response */
 export const DISPLAY_POST_STREAM = `import { CitationComponent } from "deepcitation/react";
-import { parseCitationResponse, getCitationKey } from "deepcitation";
+import { parseCitationMarker, parseCitationResponse } from "deepcitation";
 import type { CitationRecord, VerificationRecord } from "deepcitation";
 
 function MessageWithCitations({
@@ -350,19 +359,22 @@ function MessageWithCitations({
   return (
     <p>
       {segments.map((seg, i) => {
-        const match = seg.match(/^\\[(\\d+)\\]$/);
-        if (match) {
-          const key = result.markerMap[Number(match[1])];
-          if (!key) return <span key={i}>{seg}</span>;
-          return (
-            <CitationComponent
-              key={i}
-              citation={result.citations[key]}
-              verification={verifications[key] ?? null}
-            />
-          );
-        }
-        return <span key={i}>{seg}</span>;
+        // [N], or a grouped marker such as [1, 2] or [3-5]
+        const ids = parseCitationMarker(seg);
+        if (!ids) return <span key={i}>{seg}</span>;
+        const keys = ids.map(id => result.markerMap[id]).filter(Boolean);
+        if (keys.length === 0) return <span key={i}>{seg}</span>;
+        return (
+          <span key={i}>
+            {keys.map(key => (
+              <CitationComponent
+                key={key}
+                citation={result.citations[key]}
+                verification={verifications[key] ?? null}
+              />
+            ))}
+          </span>
+        );
       })}
     </p>
   );
@@ -15,33 +15,57 @@
 // Client & Errors
 export { DeepCitation } from "./client/DeepCitation.js";
 export {
+  AbortError,
   AuthenticationError,
   DeepCitationError,
   NetworkError,
   RateLimitError,
   ServerError,
+  TimeoutError,
   ValidationError,
 } from "./client/errors.js";
 export type {
   AttachmentResponse,
+  AttachmentSummary,
+  BulkOperationOptions,
+  BulkOperationResult,
+  ChunkedUploadOptions,
   CitationInput,
   ConvertedPdfDownloadPolicy,
   DeepCitationConfig,
   DeepCitationLogger,
+  DeepCitationRequest,
+  DeepCitationResponseInfo,
+  DeleteAttachmentOptions,
   DeleteAttachmentResponse,
   ExtendExpirationDuration,
   ExtendExpirationOptions,
   ExtendExpirationResponse,
   FileInput,
   GetAttachmentOptions,
+  ListAttachmentsOptions,
+  ListAttachmentsResponse,
+  MemoryVerificationCacheStoreOptions,
   PrepareAttachmentsResult,
   PreparedAttachment,
+  RequestOptions,
+  RetryPolicy,
   UploadFileOptions,
   UploadFileResponse,
+  UploadProgress,
+  UploadSessionStatus,
   UrlCacheInfo,
   UrlSource,
+  UrlVerificationPolicy,
+  VerificationCacheStore,
   VerifyCitationsOptions,
   VerifyCitationsResponse,
+  VerifyStreamResult,
+  WaitForAttachmentReadyOptions,
+} from "./client/index.js";
+export {
+  createMemoryVerificationCacheStore,
+  DEFAULT_VERIFICATION_CACHE_TTL_MS,
 } from "./client/index.js";
 
 // Markdown rendering (display helpers)
@@ -67,6 +91,7 @@ export {
 } from "./markdown/index.js";
 
 // Citation parsing — core API + display helpers
+export { formatCitationMarker, parseCitationMarker } from "./parsing/citationMarkers.js";
 export {
   citationDataToCitation,
   extractVisibleText,
@@ -76,7 +101,28 @@ export {
   replaceCitationMarkers,
   stripCitations,
 } from "./parsing/citationParser.js";
-
+export type {
+  CitationStreamParser,
+  CitationStreamParserOptions,
+  StreamedCitation,
+} from "./parsing/citationStreamParser.js";
+export { createCitationStreamParser } from "./parsing/citationStreamParser.js";
+export type { CitationToolCallSource, ParseCitationToolCallsOptions } from "./parsing/citationToolCalls.js";
+export { parseCitationToolCalls } from "./parsing/citationToolCalls.js";
+export type {
+  ConversationCitationRegistry,
+  ConversationCitationRegistrySnapshot,
+} from "./parsing/conversationCitationRegistry.js";
+export { createConversationCitationRegistry } from "./parsing/conversationCitationRegistry.js";
+export type {
+  CitationLintCode,
+  CitationLintDiagnostic,
+  CitationLintResult,
+  LintCitationResponseOptions,
+} from "./parsing/lintCitationResponse.js";
+export { lintCitationResponse } from "./parsing/lintCitationResponse.js";
+export type { VerifyCitationsLocallyOptions } from "./parsing/localVerifier.js";
+export { verifyCitationsLocally } from "./parsing/localVerifier.js";
 export {
   getAllCitationsFromLlmOutput,
   getCitationStatus,
@@ -86,22 +132,49 @@ export {
 } from "./parsing/parseCitation.js";
 export type { ParsedCitationResult } from "./parsing/parseCitationResponse.js";
 export { parseCitationResponse } from "./parsing/parseCitationResponse.js";
-
 export {
   cleanRepeatingLastSentence,
   isGeminiGarbage,
 } from "./parsing/parseWorkAround.js";
+export type {
+  AnthropicCitation,
+  AnthropicContentBlock,
+  GeminiCandidate,
+  GeminiGroundingChunk,
+  GeminiGroundingSupport,
+  OpenAIAnnotatedText,
+  OpenAIAnnotation,
+  OpenAIUrlCitation,
+  ParseAnthropicCitationsOptions,
+  ParseOpenAIAnnotationsOptions,
+} from "./parsing/providerCitations.js";
+export {
+  parseAnthropicCitations,
+  parseGeminiGrounding,
+  parseOpenAIAnnotations,
+} from "./parsing/providerCitations.js";
 
 // Prompts
 export type {
+  AnthropicCitationTool,
   CitationData,
+  CitationMode,
+  CitationToolParameters,
+  CitationToolProvider,
+  CreateCitationToolOptions,
+  DroppedPromptPage,
+  GeminiCitationTool,
+  OpenAICitationTool,
+  OpenAIResponsesCitationTool,
   ParsedCitationResponse,
+  PromptPage,
   WrapCitationPromptOptions,
   WrapCitationPromptResult,
   WrapSystemPromptOptions,
 } from "./prompts/citationPrompts.js";
 export {
   AV_CITATION_PROMPT,
+  AV_CITATION_TOOL_PROMPT,
   CITATION_AV_JSON_OUTPUT_FORMAT,
   CITATION_AV_REMINDER,
   CITATION_DATA_END_DELIMITER,
@@ -109,9 +182,35 @@ export {
   CITATION_JSON_OUTPUT_FORMAT,
   CITATION_PROMPT,
   CITATION_REMINDER,
+  CITATION_TOOL_NAME,
+  CITATION_TOOL_PROMPT,
+  CITATION_TOOL_REMINDER,
+  createCitationTool,
   wrapCitationPrompt,
   wrapSystemCitationPrompt,
 } from "./prompts/citationPrompts.js";
+export type {
+  CitationPromptLocale,
+  CitationPromptPreset,
+  CitationPromptSection,
+  CitationPromptStrings,
+  CitationPromptTemplate,
+  CitationPromptTemplateOptions,
+} from "./prompts/citationPromptTemplate.js";
+export {
+  buildCitationPrompt,
+  CITATION_PROMPT_STRINGS,
+  CITATION_PROMPT_VERSION,
+  getCitationPromptVersion,
+} from "./prompts/citationPromptTemplate.js";
+export type {
+  BuildCitationRepairPromptOptions,
+  CitationRepairCode,
+  CitationRepairIssue,
+  CitationRepairPrompt,
+  MergedCitationRepair,
+} from "./prompts/citationRepair.js";
+export { buildCitationRepairPrompt, mergeCitationRepair } from "./prompts/citationRepair.js";
 export {
   compressPromptIds,
   decompressPromptIds,
@@ -169,6 +268,7 @@ export type {
   UrlAccessStatus,
   UrlVerificationResult,
   Verification,
+  VerificationError,
 } from "./types/verification.js";
 
 // Utilities
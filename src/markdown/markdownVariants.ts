@@ -34,6 +34,7 @@ export function getIndicator(status: CitationStatus, style: IndicatorStyle = "ch
   if (status.isMiss) return indicators.notFound;
   if (status.isPartialMatch) return indicators.partial;
   if (status.isVerified) return indicators.verified;
+  if (status.isError) return indicators.error;
   if (status.isPending) return indicators.pending;
 
   return indicators.pending;
@@ -151,8 +152,14 @@ export function formatPageLocation(
 
 /**
  * Render a citation in the specified markdown variant.
+ * With `grouped`, the brackets variant omits its own brackets so the caller can
+ * wrap a compact group in one pair.
  */
-export function renderCitationVariant(citationWithStatus: CitationWithStatus, options: RenderMarkdownOptions): string {
+export function renderCitationVariant(
+  citationWithStatus: CitationWithStatus,
+  options: RenderMarkdownOptions,
+  grouped = false,
+): string {
   const { variant = "inline", indicatorStyle = "check", linkStyle = "anchor" } = options;
   const { citation, status, citationNumber } = citationWithStatus;
 
@@ -167,7 +174,8 @@ export function renderCitationVariant(citationWithStatus: CitationWithStatus, op
     }
 
     case "brackets": {
-      const anchor = linkStyle === "anchor" ? `[${num}${indicator}](#ref-${num})` : `[${num}${indicator}]`;
+      const text = grouped ? `${num}${indicator}` : `[${num}${indicator}]`;
+      const anchor = linkStyle === "anchor" ? `[${text}](#ref-${num})` : text;
       return anchor;
     }
 
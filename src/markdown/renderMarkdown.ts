@@ -1,6 +1,6 @@
 import { getCitationStatus } from "../parsing/parseCitation.js";
 import type { ParsedCitationResult } from "../parsing/parseCitationResponse.js";
-import { walkCitationSegments } from "../rendering/shared.js";
+import { getCompactGroupDelimiters, getGroupDelimiters, walkCitationSegments } from "../rendering/shared.js";
 import type { Verification } from "../types/verification.js";
 import {
   getCitationDisplayText,
@@ -46,7 +46,8 @@ export function renderCitationsAsMarkdown(
   input: string | ParsedCitationResult,
   options: RenderMarkdownOptions = {},
 ): MarkdownOutput {
-  const { verifications = {}, includeReferences = false } = options;
+  const { verifications = {}, includeReferences = false, compactGroups = false, variant = "inline" } = options;
+  const groupDelimiters = getCompactGroupDelimiters(variant, compactGroups);
 
   const { segments } = walkCitationSegments(input, verifications);
   const citationsWithStatus: CitationWithStatus[] = [];
@@ -64,13 +65,14 @@ export function renderCitationsAsMarkdown(
       citationKey: seg.citationKey,
       verification: seg.verification,
       status: seg.status,
-      displayText: getCitationDisplayText(seg.citation, options.variant || "inline"),
+      displayText: getCitationDisplayText(seg.citation, variant),
       citationNumber: seg.citationNumber,
     };
 
     citationsWithStatus.push(citationWithStatus);
 
-    markdownParts.push(renderCitationVariant(citationWithStatus, options));
+    const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
+    markdownParts.push(before, renderCitationVariant(citationWithStatus, options, grouped), after);
   }
 
   const markdown = markdownParts.join("");
@@ -22,12 +22,12 @@ export type MarkdownVariant =
  * - Copy/paste friendliness
  */
 export type IndicatorStyle =
-  | "check" // ✓ ⚠ ✗ ◌  (clean, universal unicode - DEFAULT)
-  | "semantic" // ✓ ~ ✗ …  (tilde for partial, ellipsis for pending)
-  | "circle" // ● ◐ ○ ◌  (filled/half/empty circles)
-  | "square" // ■ ▪ □ ▫  (squares for monospace alignment)
-  | "letter" // V P X ?  (single letters, ASCII-safe)
-  | "word" // ✓verified ⚠partial ✗missed ◌pending
+  | "check" // ✓ ⚠ ✗ ◌ !  (clean, universal unicode - DEFAULT)
+  | "semantic" // ✓ ~ ✗ … !  (tilde for partial, ellipsis for pending)
+  | "circle" // ● ◐ ○ ◌ ⊗  (filled/half/empty circles)
+  | "square" // ■ ▪ □ ▫ ⊠  (squares for monospace alignment)
+  | "letter" // V P X ? E  (single letters, ASCII-safe)
+  | "word" // ✓verified ⚠partial ✗missed ◌pending !error
   | "none"; // No indicator
 
 /**
@@ -67,6 +67,12 @@ export interface RenderMarkdownOptions {
   /** Custom source labels by attachmentId */
   sourceLabels?: Record<string, string>;
 
+  /**
+   * Render grouped and adjacent markers (`[1, 2]`, `[1-3]`, `[1][2]`) as one compact
+   * group, e.g. `[1✓, 2✓]`, in the brackets and superscript variants (default: false)
+   */
+  compactGroups?: boolean;
+
   /** Link style for citations (default: "anchor") */
   linkStyle?: "anchor" | "none";
   // Phase 2 will add: | "external"
@@ -123,24 +129,27 @@ export interface IndicatorSet {
   partial: string;
   notFound: string;
   pending: string;
+  /** The verification itself failed, so the citation was neither found nor missed */
+  error: string;
 }
 
 /**
  * All indicator sets by style.
  */
 export const INDICATOR_SETS: Record<IndicatorStyle, IndicatorSet> = {
-  check: { verified: "✓", partial: "⚠", notFound: "✗", pending: "◌" },
-  semantic: { verified: "✓", partial: "~", notFound: "✗", pending: "…" },
-  circle: { verified: "●", partial: "◐", notFound: "○", pending: "◌" },
-  square: { verified: "■", partial: "▪", notFound: "□", pending: "▫" },
-  letter: { verified: "V", partial: "P", notFound: "X", pending: "?" },
+  check: { verified: "✓", partial: "⚠", notFound: "✗", pending: "◌", error: "!" },
+  semantic: { verified: "✓", partial: "~", notFound: "✗", pending: "…", error: "!" },
+  circle: { verified: "●", partial: "◐", notFound: "○", pending: "◌", error: "⊗" },
+  square: { verified: "■", partial: "▪", notFound: "□", pending: "▫", error: "⊠" },
+  letter: { verified: "V", partial: "P", notFound: "X", pending: "?", error: "E" },
   word: {
     verified: "✓verified",
     partial: "⚠partial",
     notFound: "✗missed",
     pending: "◌pending",
+    error: "!error",
   },
-  none: { verified: "", partial: "", notFound: "", pending: "" },
+  none: { verified: "", partial: "", notFound: "", pending: "", error: "" },
 };
 
 /**
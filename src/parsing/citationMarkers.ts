@@ -0,0 +1,72 @@
+/**
+ * Citation Marker Syntax
+ *
+ * Models write a single `[N]` marker per citation, but often group several:
+ * `[1, 2]`, `[3-5]` or `[1, 3-5]`. These helpers recognize both forms and
+ * expand grouped markers into their citation numbers.
+ */
+
+import { expandRange } from "../utils/rangeExpansion.js";
+
+/** One marker number or range inside brackets, e.g. `3` or `3-5` (en dash allowed) */
+const MARKER_ITEM = String.raw`\d+(?:\s*[-–]\s*\d+)?`;
+const MARKER_SOURCE = String.raw`\[${MARKER_ITEM}(?:\s*,\s*${MARKER_ITEM})*\]`;
+const MARKER_ITEM_PATTERN = /(\d+)(?:\s*[-–]\s*(\d+))?/g;
+
+/** Matches single and grouped markers anywhere in text */
+export const CITATION_MARKER_PATTERN = new RegExp(MARKER_SOURCE, "g");
+
+/** Split pattern for single and grouped markers — capture group preserves markers in split output */
+export const NUMERIC_SPLIT_PATTERN = new RegExp(`(${MARKER_SOURCE})`, "g");
+
+const WHOLE_MARKER_PATTERN = new RegExp(`^${MARKER_SOURCE}$`);
+
+/**
+ * Parses a citation marker into its citation numbers.
+ *
+ * Ranges are expanded and duplicates dropped, in order of appearance. A reversed
+ * range such as `[5-3]` yields only its first number.
+ *
+ * @param marker - A segment from `visibleText.split(splitPattern)`
+ * @returns The citation numbers, or null when the segment is not a marker
+ *
+ * @example
+ * ```typescript
+ * parseCitationMarker("[2]"); // [2]
+ * parseCitationMarker("[1, 3-5]"); // [1, 3, 4, 5]
+ * parseCitationMarker("some text"); // null
+ * ```
+ */
+export function parseCitationMarker(marker: string): number[] | null {
+  if (!WHOLE_MARKER_PATTERN.test(marker)) return null;
+
+  const ids = new Set<number>();
+  for (const match of marker.matchAll(MARKER_ITEM_PATTERN)) {
+    const start = parseInt(match[1], 10);
+    const end = match[2] === undefined ? start : parseInt(match[2], 10);
+    for (const id of expandRange(start, end)) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Formats citation numbers as one marker, collapsing runs of three or more
+ * consecutive numbers into a range.
+ *
+ * @param ids - Citation numbers, in display order
+ * @returns The marker, e.g. `[2]`, `[1, 2]` or `[1, 3-5]`
+ */
+export function formatCitationMarker(ids: number[]): string {
+  const items: string[] = [];
+  for (let i = 0; i < ids.length; ) {
+    let j = i;
+    while (j + 1 < ids.length && ids[j + 1] === ids[j] + 1) j++;
+    if (j - i >= 2) {
+      items.push(`${ids[i]}-${ids[j]}`);
+    } else {
+      for (let k = i; k <= j; k++) items.push(String(ids[k]));
+    }
+    i = j + 1;
+  }
+  return `[${items.join(", ")}]`;
+}
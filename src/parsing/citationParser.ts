@@ -26,6 +26,7 @@ import { getCitationKey } from "../utils/citationKey.js";
 import { createSafeObject, isSafeKey } from "../utils/objectSafety.js";
 import { sha1Hash } from "../utils/sha.js";
 import { getVerificationTextIndicator } from "../utils/verificationIndicator.js";
+import { CITATION_MARKER_PATTERN, parseCitationMarker } from "./citationMarkers.js";
 
 /**
  * Map of compact keys to their full CitationData equivalents.
@@ -68,13 +69,14 @@ function isValidCitationData(obj: unknown): obj is CitationData {
 /**
  * Expands compact citation data to the full CitationData format.
  * Handles both compact keys (n, a, r, f, k, p, l, t) and full keys.
+ * Internal use only — exported for the streaming parser.
  *
  * @param data - Raw citation object (may have compact or full keys)
  * @param attachmentId - Optional attachment_id to inject (for grouped format)
  * @returns Normalized CitationData with full keys
  * @throws Error if the resulting data doesn't have a valid id field
  */
-function expandCompactKeys(
+export function expandCompactKeys(
   data: CompactCitationData | CitationData | Record<string, unknown>,
   attachmentId?: string,
 ): CitationData {
@@ -290,6 +292,7 @@ export function parseCitationData(llmResponse: string): ParsedCitationResponse {
 
   // Parse the JSON
   let citations: CitationData[] = [];
+  let appliedRepairs: string[] | undefined;
   const citationMap = new Map<number, CitationData>();
 
   if (jsonString) {
@@ -306,6 +309,7 @@ export function parseCitationData(llmResponse: string): ParsedCitationResponse {
 
         // Log warning when repair was necessary
         if (repairs.length > 0) {
+          appliedRepairs = repairs;
           console.warn(
             "[DeepCitation] JSON repair was triggered for citation data.",
             `Repairs applied: ${repairs.join(", ")}.`,
@@ -336,6 +340,7 @@ export function parseCitationData(llmResponse: string): ParsedCitationResponse {
     citations,
     citationMap,
     success: true,
+    ...(appliedRepairs && { repairs: appliedRepairs }),
   };
 }
 
@@ -551,6 +556,10 @@ function buildVerificationIndex(
 /**
  * Replaces [N] citation markers in text with optional content.
  *
+ * Grouped markers such as `[1, 2]` or `[3-5]` are replaced as a whole: the
+ * replacer runs once per ID and the results are concatenated, and verification
+ * status keeps the group in one bracket pair (`[1✅, 2✅]`).
+ *
  * @param text - The text containing [N] markers
  * @param options - Configuration for replacement
  * @returns The text with markers replaced
@@ -599,25 +608,26 @@ export function replaceCitationMarkers(
   const verificationIndex =
     showVerificationStatus && verifications ? buildVerificationIndex(citationMap, verifications) : undefined;
 
-  // Match [N] patterns where N is one or more digits
-  return text.replace(/\[(\d+)\]/g, (_match, idStr) => {
-    const id = parseInt(idStr, 10);
+  // Match [N] markers and grouped markers such as [1, 2] or [3-5]
+  return text.replace(CITATION_MARKER_PATTERN, marker => {
+    const ids = parseCitationMarker(marker) ?? [];
 
-    // Custom replacer takes precedence
+    // Custom replacer takes precedence, once per citation in the group
     if (replacer) {
-      return replacer(id, citationMap?.get(id));
+      return ids.map(id => replacer(id, citationMap?.get(id))).join("");
     }
 
     // Show verification status indicator
     if (verificationIndex) {
-      const indicator = getVerificationTextIndicator(verificationIndex.get(id));
-      return `[${id}${indicator}]`;
+      return `[${ids.map(id => `${id}${getVerificationTextIndicator(verificationIndex.get(id))}`).join(", ")}]`;
     }
 
     // Show anchor text if requested
     if (showAnchorText) {
-      const data = citationMap?.get(id);
-      if (data?.anchor_text) return data.anchor_text;
+      return ids
+        .map(id => citationMap?.get(id)?.anchor_text)
+        .filter(Boolean)
+        .join(", ");
     }
 
     // Default: remove marker
@@ -627,17 +637,16 @@ export function replaceCitationMarkers(
 
 /**
  * Gets all citation marker IDs found in a text.
+ * Grouped markers such as `[1, 2]` or `[3-5]` contribute each of their IDs.
  *
  * @param text - The text to scan for [N] markers
  * @returns Array of citation IDs in order of appearance
  */
 export function getCitationMarkerIds(text: string): number[] {
   const ids: number[] = [];
-  const regex = /\[(\d+)\]/g;
-  let match: RegExpExecArray | null;
 
-  while ((match = regex.exec(text)) !== null) {
-    ids.push(parseInt(match[1], 10));
+  for (const match of text.matchAll(CITATION_MARKER_PATTERN)) {
+    ids.push(...(parseCitationMarker(match[0]) ?? []));
   }
 
   return ids;
@@ -0,0 +1,233 @@
+/**
+ * Streaming Citation Parser
+ *
+ * Incremental counterpart to {@link parseCitationResponse} for token-by-token
+ * LLM output. Visible text is emitted as it arrives with the
+ * `<<<CITATION_DATA>>>` block suppressed, and each citation is emitted as soon
+ * as its JSON object closes — no re-parsing of the whole buffer per token.
+ *
+ * Algorithm:
+ * 1. Text mode: emit chunks as text deltas, holding back any suffix that could
+ *    be the start of a split `<<<CITATION_DATA>>>` delimiter
+ * 2. Data mode: scan the JSON block character by character, tracking strings,
+ *    escapes and nesting, and parse each citation object when it closes
+ * 3. Finish: run the regular parser on the full output so the final result is
+ *    identical to `parseCitationResponse()`
+ */
+
+import { CITATION_DATA_END_DELIMITER, CITATION_DATA_START_DELIMITER } from "../prompts/citationPrompts.js";
+import type { Citation } from "../types/citation.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import { citationDataToCitation, expandCompactKeys } from "./citationParser.js";
+import { type ParsedCitationResult, parseCitationResponse } from "./parseCitationResponse.js";
+
+/**
+ * A citation emitted by the streaming parser.
+ */
+export interface StreamedCitation {
+  /** The `[N]` marker number, when the citation has one */
+  id?: number;
+  /** Citation key, matching the keys in `ParsedCitationResult.citations` */
+  citationKey: string;
+  /** The parsed citation */
+  citation: Citation;
+}
+
+/**
+ * Callbacks for {@link createCitationStreamParser}.
+ */
+export interface CitationStreamParserOptions {
+  /**
+   * Called with each new piece of visible text. The data block is never included.
+   * Concatenated deltas match the final `visibleText` apart from surrounding whitespace.
+   */
+  onText?: (delta: string) => void;
+  /** Called once per citation, as soon as its JSON object is complete */
+  onCitation?: (citation: StreamedCitation) => void;
+}
+
+/**
+ * Stateful parser fed with chunks of LLM output.
+ */
+export interface CitationStreamParser {
+  /** Feed the next chunk of LLM output. */
+  push(chunk: string): void;
+  /**
+   * Signal the end of the stream. Flushes held-back text, emits any citations
+   * that could only be recovered from the complete output (e.g. after JSON
+   * repair), and returns the same result as `parseCitationResponse()`.
+   */
+  finish(): ParsedCitationResult;
+}
+
+/**
+ * Length of the longest suffix of `text` that is a proper prefix of `delimiter`.
+ * That suffix may be completed by the next chunk, so it must not be emitted yet.
+ */
+function partialDelimiterLength(text: string, delimiter: string): number {
+  for (let length = Math.min(text.length, delimiter.length - 1); length > 0; length--) {
+    if (delimiter.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Creates a streaming citation parser.
+ *
+ * Supports the same data block shapes as the regular parser: a flat array of
+ * citations, or citations grouped by attachment ID. A single bare citation
+ * object is emitted at `finish()`.
+ *
+ * @param options - Callbacks for text deltas and completed citations
+ * @returns A parser to push chunks into
+ *
+ * @example
+ * ```typescript
+ * const parser = createCitationStreamParser({
+ *   onText: delta => appendToMessage(delta),
+ *   onCitation: ({ id, citation }) => registerCitation(id, citation),
+ * });
+ *
+ * for await (const chunk of llmStream) {
+ *   parser.push(chunk);
+ * }
+ * const result = parser.finish(); // same shape as parseCitationResponse()
+ * ```
+ */
+export function createCitationStreamParser(options: CitationStreamParserOptions = {}): CitationStreamParser {
+  const { onText, onCitation } = options;
+
+  let raw = "";
+  let mode: "text" | "data" | "done" = "text";
+  let finished = false;
+  /** Text mode: received text not yet emitted (a possible partial delimiter) */
+  let pendingText = "";
+  /** Data mode: everything after the start delimiter */
+  let data = "";
+  let scanIndex = 0;
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  /** Last string closed directly inside a top-level object: the attachment ID key in grouped format */
+  let lastTopLevelKey: string | undefined;
+  let groupAttachmentId: string | undefined;
+  let citationStart = -1;
+  let citationDepth = -1;
+  const emittedKeys = new Set<string>();
+
+  const emitText = (text: string) => {
+    if (text) onText?.(text);
+  };
+
+  const emitCitation = (citationKey: string, citation: Citation, id?: number) => {
+    if (emittedKeys.has(citationKey)) return;
+    emittedKeys.add(citationKey);
+    onCitation?.({ id, citationKey, citation });
+  };
+
+  const emitCitationJson = (json: string, attachmentId?: string) => {
+    try {
+      const data = expandCompactKeys(JSON.parse(json), attachmentId);
+      const citation = citationDataToCitation(data);
+      if (!citation.fullPhrase) return;
+      emitCitation(getCitationKey(citation), citation, data.id);
+    } catch {
+      // Malformed objects are left for finish(), which applies JSON repair
+    }
+  };
+
+  /** A citation object sits in a top-level array, or in an array inside a top-level (grouped) object. */
+  const isCitationSlot = () =>
+    (stack.length === 1 && stack[0] === "[") || (stack.length === 2 && stack[0] === "{" && stack[1] === "[");
+
+  const scanData = () => {
+    const endIndex = data.indexOf(CITATION_DATA_END_DELIMITER);
+    const limit = endIndex === -1 ? data.length : endIndex;
+
+    for (; scanIndex < limit; scanIndex++) {
+      const char = data[scanIndex];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (stack.length === 1 && stack[0] === "{") {
+            try {
+              lastTopLevelKey = JSON.parse(data.slice(stringStart, scanIndex + 1));
+            } catch {
+              lastTopLevelKey = undefined;
+            }
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = scanIndex;
+      } else if (char === "{" || char === "[") {
+        if (char === "{" && citationStart === -1 && isCitationSlot()) {
+          citationStart = scanIndex;
+          citationDepth = stack.length;
+        }
+        if (char === "[" && stack.length === 1 && stack[0] === "{") {
+          groupAttachmentId = lastTopLevelKey;
+        }
+        stack.push(char);
+      } else if (char === "}" || char === "]") {
+        stack.pop();
+        if (char === "}" && citationStart !== -1 && stack.length === citationDepth) {
+          emitCitationJson(data.slice(citationStart, scanIndex + 1), stack[0] === "{" ? groupAttachmentId : undefined);
+          citationStart = -1;
+        }
+      }
+    }
+
+    if (endIndex !== -1) mode = "done";
+  };
+
+  return {
+    push(chunk) {
+      if (finished) throw new Error("Cannot push to a citation stream parser after finish()");
+      if (!chunk) return;
+      raw += chunk;
+
+      if (mode === "text") {
+        pendingText += chunk;
+        const startIndex = pendingText.indexOf(CITATION_DATA_START_DELIMITER);
+        if (startIndex === -1) {
+          const held = partialDelimiterLength(pendingText, CITATION_DATA_START_DELIMITER);
+          emitText(pendingText.slice(0, pendingText.length - held));
+          pendingText = pendingText.slice(pendingText.length - held);
+          return;
+        }
+        emitText(pendingText.slice(0, startIndex));
+        data = pendingText.slice(startIndex + CITATION_DATA_START_DELIMITER.length);
+        pendingText = "";
+        mode = "data";
+        scanData();
+      } else if (mode === "data") {
+        data += chunk;
+        scanData();
+      }
+    },
+
+    finish() {
+      if (!finished) {
+        finished = true;
+        // Held-back text was not the start of a delimiter after all
+        if (mode === "text") emitText(pendingText);
+        pendingText = "";
+      }
+
+      const result = parseCitationResponse(raw);
+      for (const [citationKey, citation] of Object.entries(result.citations)) {
+        emitCitation(citationKey, citation, citation.citationNumber);
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Tool-Call Citation Parser
+ *
+ * Parses responses produced in tool-call citation mode, where the LLM writes
+ * `[N]` markers in its text and records each citation with a `cite` tool call
+ * instead of a trailing `<<<CITATION_DATA>>>` block. A response cut off at
+ * max_tokens keeps every citation whose tool call completed.
+ */
+
+import { CITATION_TOOL_NAME } from "../prompts/citationPrompts.js";
+import type { Citation, CitationRecord } from "../types/citation.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import { createSafeObject } from "../utils/objectSafety.js";
+import { NUMERIC_SPLIT_PATTERN } from "./citationMarkers.js";
+import { citationDataToCitation, expandCompactKeys, getCitationMarkerIds } from "./citationParser.js";
+import type { ParsedCitationResult } from "./parseCitationResponse.js";
+
+/**
+ * A provider response containing text and citation tool calls. Any of:
+ * - Anthropic: a message or its `content` blocks (`text` / `tool_use`)
+ * - OpenAI Chat Completions: a completion or its message (`content` + `tool_calls`)
+ * - OpenAI Responses: a response or its `output` items (`message` / `function_call`)
+ * - Gemini: a response, candidate, content or its `parts` (`text` / `functionCall`)
+ * - A plain `{ text, toolCalls: [{ name, arguments }] }` object
+ */
+export type CitationToolCallSource = object | object[];
+
+/** Options for {@link parseCitationToolCalls}. */
+export interface ParseCitationToolCallsOptions {
+  /**
+   * Tool names to treat as citation calls; other tool calls are ignored.
+   * @default ["cite", "add_citation"]
+   */
+  toolNames?: string[];
+}
+
+type Segment = { text: string } | { name: string; args: unknown };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Flatten any supported response shape into text and tool calls, in output order. */
+function collectSegments(source: unknown, segments: Segment[]): void {
+  if (Array.isArray(source)) {
+    for (const item of source) collectSegments(item, segments);
+    return;
+  }
+  if (!isRecord(source)) return;
+
+  // Response envelopes: first choice / candidate, or all output items
+  const envelope = Array.isArray(source.choices)
+    ? isRecord(source.choices[0]) && source.choices[0].message
+    : Array.isArray(source.candidates)
+      ? source.candidates[0]
+      : Array.isArray(source.output) && source.output;
+  if (envelope) {
+    collectSegments(envelope, segments);
+    return;
+  }
+
+  // Tool calls
+  if (source.type === "tool_use") {
+    segments.push({ name: String(source.name), args: source.input });
+    return;
+  }
+  if (source.type === "function_call") {
+    segments.push({ name: String(source.name), args: source.arguments });
+    return;
+  }
+  if (source.type === "function" && isRecord(source.function)) {
+    segments.push({ name: String(source.function.name), args: source.function.arguments });
+    return;
+  }
+  if (isRecord(source.functionCall)) {
+    segments.push({ name: String(source.functionCall.name), args: source.functionCall.args });
+    return;
+  }
+
+  // Text and containers
+  if (typeof source.text === "string") segments.push({ text: source.text });
+  if (typeof source.content === "string") segments.push({ text: source.content });
+  if (Array.isArray(source.content) || isRecord(source.content)) collectSegments(source.content, segments);
+  if (Array.isArray(source.parts)) collectSegments(source.parts, segments);
+  if (Array.isArray(source.tool_calls)) collectSegments(source.tool_calls, segments);
+  if (Array.isArray(source.toolCalls)) {
+    for (const call of source.toolCalls) {
+      if (isRecord(call)) segments.push({ name: String(call.name), args: call.arguments ?? call.input ?? call.args });
+    }
+  }
+}
+
+/** Tool arguments arrive as a JSON string (OpenAI) or an object (Anthropic, Gemini). */
+function parseToolArguments(args: unknown): Record<string, unknown> | undefined {
+  if (isRecord(args)) return args;
+  if (typeof args !== "string") return undefined;
+  try {
+    const parsed: unknown = JSON.parse(args);
+    return isRecord(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a tool-call citation mode response into a `ParsedCitationResult`.
+ *
+ * Each citation tool call becomes a citation keyed to its `id` marker. When the
+ * text has no `[id]` marker for a call — or the call has no id — a marker is
+ * inserted where the call appeared in the output (for interleaved formats) or
+ * at the end. Calls with unparseable arguments, e.g. cut off mid-stream, are skipped.
+ *
+ * @param response - The provider response (see {@link CitationToolCallSource})
+ * @param options - Tool names to accept
+ * @returns Same shape as `parseCitationResponse()`
+ *
+ * @example
+ * ```typescript
+ * const completion = await openai.chat.completions.create({
+ *   messages: [{ role: "system", content: wrapSystemCitationPrompt({ systemPrompt, citationMode: "tool_call" }) }, ...],
+ *   tools: [createCitationTool("openai")],
+ * });
+ * const { visibleText, citations, markerMap } = parseCitationToolCalls(completion);
+ * ```
+ */
+export function parseCitationToolCalls(
+  response: CitationToolCallSource,
+  options: ParseCitationToolCallsOptions = {},
+): ParsedCitationResult {
+  const toolNames = new Set(options.toolNames ?? [CITATION_TOOL_NAME, "add_citation"]);
+  const segments: Segment[] = [];
+  collectSegments(response, segments);
+
+  let text = "";
+  const calls: Array<{ args: Record<string, unknown>; id?: number; offset: number }> = [];
+  for (const segment of segments) {
+    if ("text" in segment) {
+      text += segment.text;
+      continue;
+    }
+    if (!toolNames.has(segment.name)) continue;
+    const args = parseToolArguments(segment.args);
+    // Some models send the id as a string
+    const id = Number(args?.id ?? args?.n);
+    if (args) calls.push({ args, id: Number.isInteger(id) && id > 0 ? id : undefined, offset: text.length });
+  }
+
+  // Calls without an id take the next free marker number
+  const markerIds = new Set(getCitationMarkerIds(text));
+  const usedIds = new Set([...markerIds, ...calls.flatMap(call => (call.id === undefined ? [] : [call.id]))]);
+  let nextId = Math.max(0, ...usedIds) + 1;
+
+  const citations: CitationRecord = createSafeObject<Citation>();
+  const markerMap: Record<number, string> = {};
+  const insertions: Array<{ offset: number; id: number }> = [];
+
+  for (const call of calls) {
+    const id = call.id ?? nextId++;
+    const citation = citationDataToCitation(expandCompactKeys({ ...call.args, id }));
+    if (!citation.fullPhrase) continue;
+    const key = getCitationKey(citation);
+    citations[key] = citation;
+    markerMap[id] = key;
+    if (!markerIds.has(id) && !insertions.some(insertion => insertion.id === id)) {
+      insertions.push({ offset: call.offset, id });
+    }
+  }
+
+  let visibleText = "";
+  let cursor = 0;
+  for (const { offset, id } of insertions) {
+    visibleText += text.slice(cursor, offset);
+    if (visibleText && !/\s$/.test(visibleText)) visibleText += " ";
+    visibleText += `[${id}]`;
+    cursor = offset;
+  }
+  visibleText += text.slice(cursor);
+
+  return {
+    visibleText: visibleText.trim(),
+    citations,
+    markerMap,
+    format: Object.keys(markerMap).length > 0 ? "numeric" : "none",
+    splitPattern: NUMERIC_SPLIT_PATTERN,
+  };
+}
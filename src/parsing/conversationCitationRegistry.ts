@@ -0,0 +1,167 @@
+/**
+ * Conversation Citation Registry
+ *
+ * Every assistant turn numbers its citations from `[1]`, so in a chat thread the
+ * same number means different sources in different messages. The registry
+ * ingests each turn's `ParsedCitationResult` in order, deduplicates citations by
+ * `getCitationKey()`, and rewrites the turn's markers to conversation-wide
+ * numbers: a quote cited in message 3 and again in message 5 gets the same number.
+ * Markers without citation data are removed, since their local numbers could
+ * otherwise resolve to another turn's citation.
+ */
+
+import type { Citation, CitationRecord } from "../types/citation.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import { createSafeObject } from "../utils/objectSafety.js";
+import { CITATION_MARKER_PATTERN, formatCitationMarker, parseCitationMarker } from "./citationMarkers.js";
+import type { ParsedCitationResult } from "./parseCitationResponse.js";
+
+/** Current {@link ConversationCitationRegistrySnapshot} format version. */
+const SNAPSHOT_VERSION = 1;
+
+/** A marker with the spaces before it, so removed markers don't leave a gap */
+const SPACED_MARKER_PATTERN = new RegExp(`[ \\t]*(${CITATION_MARKER_PATTERN.source})`, "g");
+
+/** Serializable registry state, for storing alongside the chat history. */
+export interface ConversationCitationRegistrySnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  /** Registered citations in number order */
+  entries: Array<{ number: number; citationKey: string; citation: Citation }>;
+}
+
+/**
+ * Assigns conversation-wide citation numbers across assistant turns.
+ */
+export interface ConversationCitationRegistry {
+  /**
+   * Register one turn's citations and return the turn with conversation-wide numbers:
+   * `[N]` markers in `visibleText`, `markerMap` and each `citationNumber` are rewritten.
+   * Markers, or members of grouped markers, without citation data are removed.
+   * Ingest turns in conversation order.
+   */
+  ingest(parsed: ParsedCitationResult): ParsedCitationResult;
+  /** Conversation-wide number of a citation, if registered */
+  getNumber(citationKey: string): number | undefined;
+  /** Citation registered under a conversation-wide number */
+  getCitation(number: number): Citation | undefined;
+  /** All registered citations keyed by citationKey */
+  readonly citations: CitationRecord;
+  /** Conversation-wide number → citationKey */
+  readonly markerMap: Record<number, string>;
+  /** Number of registered citations */
+  readonly size: number;
+  /** Serializable state; pass to {@link createConversationCitationRegistry} to restore. */
+  toJSON(): ConversationCitationRegistrySnapshot;
+}
+
+/**
+ * Creates a conversation citation registry, optionally restored from a snapshot.
+ *
+ * @param snapshot - State from a previous `registry.toJSON()`
+ * @returns A registry to ingest each assistant turn into
+ * @throws Error if the snapshot has an unsupported version
+ *
+ * @example
+ * ```typescript
+ * const registry = createConversationCitationRegistry(savedThread.citationRegistry);
+ *
+ * const turn = registry.ingest(parseCitationResponse(llmOutput));
+ * // turn.visibleText / turn.markerMap now use thread-wide numbers
+ *
+ * savedThread.citationRegistry = registry.toJSON();
+ * ```
+ */
+export function createConversationCitationRegistry(
+  snapshot?: ConversationCitationRegistrySnapshot,
+): ConversationCitationRegistry {
+  if (snapshot && snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported conversation citation registry snapshot version: ${String(snapshot.version)}`);
+  }
+
+  const citations: CitationRecord = createSafeObject<Citation>();
+  const markerMap: Record<number, string> = {};
+  const numberByKey = new Map<string, number>();
+  let nextNumber = 1;
+
+  const register = (citationKey: string, citation: Citation, number = nextNumber): number => {
+    citations[citationKey] = { ...citation, citationNumber: number };
+    markerMap[number] = citationKey;
+    numberByKey.set(citationKey, number);
+    nextNumber = Math.max(nextNumber, number + 1);
+    return number;
+  };
+
+  for (const entry of snapshot?.entries ?? []) {
+    register(entry.citationKey, entry.citation, entry.number);
+  }
+
+  return {
+    ingest(parsed) {
+      const turnCitations: CitationRecord = createSafeObject<Citation>();
+      const turnMarkerMap: Record<number, string> = {};
+      const globalByLocal = new Map<number, number>();
+
+      // Markers first, in their local order, so new numbers follow reading order
+      const localNumbers = Object.keys(parsed.markerMap)
+        .map(Number)
+        .sort((a, b) => a - b);
+      const keys = [
+        ...localNumbers.map(local => parsed.markerMap[local]),
+        ...Object.keys(parsed.citations).filter(key => !Object.values(parsed.markerMap).includes(key)),
+      ];
+
+      for (const localKey of keys) {
+        const citation = parsed.citations[localKey];
+        if (!citation) continue;
+        // Re-key in case the caller's keys are not content hashes
+        const citationKey = getCitationKey(citation);
+        const number = numberByKey.get(citationKey) ?? register(citationKey, citation);
+        turnCitations[citationKey] = citations[citationKey];
+        turnMarkerMap[number] = citationKey;
+        for (const local of localNumbers) {
+          if (parsed.markerMap[local] === localKey) globalByLocal.set(local, number);
+        }
+      }
+
+      // A local number without data could match a conversation-wide one, so unknown
+      // members are dropped from groups and markers with no known member are removed
+      const visibleText = parsed.visibleText.replace(SPACED_MARKER_PATTERN, (match, marker: string) => {
+        const globals = (parseCitationMarker(marker) ?? []).flatMap(local => globalByLocal.get(local) ?? []);
+        if (globals.length === 0) return "";
+        return `${match.slice(0, match.length - marker.length)}${formatCitationMarker(globals)}`;
+      });
+
+      return { ...parsed, visibleText, citations: turnCitations, markerMap: turnMarkerMap };
+    },
+
+    getNumber(citationKey) {
+      return numberByKey.get(citationKey);
+    },
+
+    getCitation(number) {
+      const citationKey = markerMap[number];
+      return citationKey === undefined ? undefined : citations[citationKey];
+    },
+
+    get citations() {
+      return citations;
+    },
+
+    get markerMap() {
+      return markerMap;
+    },
+
+    get size() {
+      return numberByKey.size;
+    },
+
+    toJSON() {
+      return {
+        version: SNAPSHOT_VERSION,
+        entries: [...numberByKey]
+          .sort(([, a], [, b]) => a - b)
+          .map(([citationKey, number]) => ({ number, citationKey, citation: citations[citationKey] })),
+      };
+    },
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Attachment Text Parser
+ *
+ * Splits the page- and line-annotated attachment text returned as
+ * `deepTextPromptPortion` into attachments, pages and lines. Both markup
+ * styles are supported:
+ *
+ * - Tagged: `<page_number_N_index_I>` … `<line id="N">text</line>`
+ * - Bracketed: `[Page N]` … `[L N] text`
+ *
+ * Internal use only — shared by the response linter, the local verifier and
+ * prompt packing.
+ */
+
+/** One annotated line of attachment text. */
+export interface DeepTextLine {
+  lineId: number;
+  /** Line text with markup removed */
+  text: string;
+}
+
+/** One page of attachment text. */
+export interface DeepTextPage {
+  /** 1-based page number. Undefined for text that precedes the first page marker. */
+  pageNumber?: number;
+  lines: DeepTextLine[];
+  /** All page text with markup removed, including text outside line markers */
+  text: string;
+}
+
+/** The text of one attachment. */
+export interface DeepTextAttachment {
+  /** Attachment ID from the `<attachment_text attachment_id=...>` wrapper, if any */
+  attachmentId?: string;
+  pages: DeepTextPage[];
+}
+
+const ATTACHMENT_TAG_PATTERN = /<attachment_text\s+attachment_id=(["'])(.*?)\1\s*>/g;
+const ATTACHMENT_CLOSE_TAG = "</attachment_text>";
+/** Page open/close tags and line open/close markers, in one pass */
+const MARKUP_PATTERN =
+  /<page_number_(\d+)_index_\d+>|\[Page (\d+)\]|<\/page_number_\d+_index_\d+>|<line id="(\d+)">|\[L ?(\d+)\]|<\/line>/g;
+
+/** Parse the text of one attachment (without its wrapper tag) into pages and lines. */
+function parseAttachmentText(text: string): DeepTextPage[] {
+  const pages: DeepTextPage[] = [];
+  let page: DeepTextPage = { lines: [], text: "" };
+  let line: DeepTextLine | undefined;
+  let cursor = 0;
+
+  const appendText = (segment: string) => {
+    if (!segment) return;
+    if (line) line.text += segment;
+    page.text += segment;
+  };
+  const closeLine = () => {
+    if (line) line.text = line.text.trim();
+    line = undefined;
+  };
+  const closePage = () => {
+    closeLine();
+    page.text = page.text.trim();
+    if (page.pageNumber !== undefined || page.text || page.lines.length > 0) pages.push(page);
+  };
+
+  for (const match of text.matchAll(MARKUP_PATTERN)) {
+    const offset = match.index ?? 0;
+    appendText(text.slice(cursor, offset));
+    cursor = offset + match[0].length;
+
+    const pageNumber = match[1] ?? match[2];
+    const lineId = match[3] ?? match[4];
+    if (pageNumber !== undefined) {
+      closePage();
+      page = { pageNumber: Number(pageNumber), lines: [], text: "" };
+    } else if (lineId !== undefined) {
+      closeLine();
+      line = { lineId: Number(lineId), text: "" };
+      page.lines.push(line);
+      // Keep page text readable: each line starts on its own line
+      if (page.text && !page.text.endsWith("\n")) page.text += "\n";
+    } else {
+      closeLine();
+    }
+  }
+  appendText(text.slice(cursor));
+  closePage();
+
+  return pages;
+}
+
+/**
+ * Parse `deepTextPromptPortion` into attachments, pages and lines.
+ *
+ * Text without `<attachment_text attachment_id=...>` wrappers becomes a single
+ * attachment with no `attachmentId`.
+ *
+ * @param deepTextPromptPortion - Attachment text from `uploadFile()` / `prepareAttachments()`
+ * @returns One entry per attachment, in input order
+ */
+export function parseDeepText(deepTextPromptPortion: string | string[]): DeepTextAttachment[] {
+  const portions = Array.isArray(deepTextPromptPortion) ? deepTextPromptPortion : [deepTextPromptPortion];
+  const attachments: DeepTextAttachment[] = [];
+
+  for (const portion of portions) {
+    const tags = [...portion.matchAll(ATTACHMENT_TAG_PATTERN)];
+    if (tags.length === 0) {
+      attachments.push({ pages: parseAttachmentText(portion) });
+      continue;
+    }
+    tags.forEach((tag, i) => {
+      const start = (tag.index ?? 0) + tag[0].length;
+      const next = i + 1 < tags.length ? (tags[i + 1].index ?? portion.length) : portion.length;
+      const close = portion.indexOf(ATTACHMENT_CLOSE_TAG, start);
+      const end = close !== -1 && close < next ? close : next;
+      attachments.push({ attachmentId: tag[2], pages: parseAttachmentText(portion.slice(start, end)) });
+    });
+  }
+
+  return attachments;
+}
+
+/** One page of attachment text with its markup intact. */
+export interface RawDeepTextPage {
+  /** 1-based page number. Undefined when the attachment text has no page markers. */
+  pageNumber?: number;
+  /** Page text from its page marker up to the next one, markup included */
+  text: string;
+}
+
+/** One attachment's text split at page boundaries, markup intact. */
+export interface RawDeepTextAttachment {
+  attachmentId?: string;
+  /** Text before the first page, including the `<attachment_text>` wrapper tag */
+  prefix: string;
+  pages: RawDeepTextPage[];
+  /** Text after the last page, including the closing wrapper tag */
+  suffix: string;
+}
+
+const PAGE_START_PATTERN = /<page_number_(\d+)_index_\d+>|\[Page (\d+)\]/g;
+
+/**
+ * Split one `deepTextPromptPortion` at attachment and page boundaries without
+ * removing any markup. Concatenating every attachment's `prefix`, page texts and
+ * `suffix` in order reproduces the input exactly.
+ *
+ * @param portion - Attachment text from `uploadFile()` / `prepareAttachments()`
+ * @returns One entry per attachment, in input order
+ */
+export function splitDeepTextPages(portion: string): RawDeepTextAttachment[] {
+  const tags = [...portion.matchAll(ATTACHMENT_TAG_PATTERN)];
+  const regions =
+    tags.length === 0
+      ? [{ attachmentId: undefined, start: 0, tagEnd: 0, end: portion.length }]
+      : tags.map((tag, i) => ({
+          attachmentId: tag[2],
+          // Text before the first wrapper belongs to the first attachment
+          start: i === 0 ? 0 : (tag.index ?? 0),
+          tagEnd: (tag.index ?? 0) + tag[0].length,
+          end: i + 1 < tags.length ? (tags[i + 1].index ?? portion.length) : portion.length,
+        }));
+
+  return regions.map(({ attachmentId, start, tagEnd, end }) => {
+    const region = portion.slice(start, end);
+    const close = region.lastIndexOf(ATTACHMENT_CLOSE_TAG);
+    const bodyEnd = attachmentId !== undefined && close !== -1 ? close : region.length;
+    const starts = [...region.slice(0, bodyEnd).matchAll(PAGE_START_PATTERN)];
+
+    if (starts.length === 0) {
+      return {
+        attachmentId,
+        prefix: region.slice(0, tagEnd - start),
+        pages: [{ text: region.slice(tagEnd - start, bodyEnd) }],
+        suffix: region.slice(bodyEnd),
+      };
+    }
+
+    return {
+      attachmentId,
+      prefix: region.slice(0, starts[0].index),
+      pages: starts.map((match, i) => ({
+        pageNumber: Number(match[1] ?? match[2]),
+        text: region.slice(match.index, i + 1 < starts.length ? starts[i + 1].index : bodyEnd),
+      })),
+      suffix: region.slice(bodyEnd),
+    };
+  });
+}
@@ -0,0 +1,294 @@
+/**
+ * Citation Response Linter
+ *
+ * Checks an LLM response in the `[N]` + `<<<CITATION_DATA>>>` format for
+ * structural problems and returns machine-readable diagnostics, so malformed
+ * answers can be rejected or re-prompted before spending verification calls.
+ */
+
+import type { CitationData, ParsedCitationResponse } from "../prompts/citationPrompts.js";
+import { citationDataToCitation, getCitationMarkerIds, hasCitationData, parseCitationData } from "./citationParser.js";
+import { parseDeepText } from "./deepText.js";
+
+/** Identifies the kind of problem a diagnostic reports. */
+export type CitationLintCode =
+  /** The data block could not be parsed, even after repair */
+  | "invalid_json"
+  /** The data block was only parseable after JSON repair */
+  | "json_repaired"
+  /** Markers appear in the text but there is no data block */
+  | "missing_data_block"
+  /** A `[N]` marker has no data entry */
+  | "marker_without_data"
+  /** A data entry is never referenced by a `[N]` marker */
+  | "unreferenced_data"
+  /** Two data entries share the same id */
+  | "duplicate_id"
+  /** A data entry has no `full_phrase` and will be dropped */
+  | "missing_full_phrase"
+  /** `anchor_text` does not occur in `full_phrase` */
+  | "anchor_not_in_phrase"
+  /** `attachment_id` is not one of the supplied attachments */
+  | "unknown_attachment"
+  /** `page_id` does not exist in the supplied attachment text */
+  | "unknown_page"
+  /** A `line_ids` entry does not exist in the supplied attachment text */
+  | "unknown_line";
+
+/** A single problem found by {@link lintCitationResponse}. */
+export interface CitationLintDiagnostic {
+  /** Machine-readable problem kind */
+  code: CitationLintCode;
+  /** `"error"` problems make verification fail or be meaningless; `"warning"` problems are suspicious */
+  severity: "error" | "warning";
+  /** Human-readable description, suitable for a repair prompt */
+  message: string;
+  /** Citation id (`[N]` number) the problem relates to */
+  citationId?: number;
+  /** Attachment the problem relates to */
+  attachmentId?: string;
+}
+
+/** Options for {@link lintCitationResponse}. */
+export interface LintCitationResponseOptions {
+  /**
+   * Attachment text given to the LLM (from `uploadFile` / `prepareAttachments`).
+   * Enables the page, line and attachment id checks.
+   */
+  deepTextPromptPortion?: string | string[];
+  /** IDs of the attachments the LLM was given. Enables the attachment id check without attachment text. */
+  attachmentIds?: string[];
+  /** `parseCitationData(llmOutput)`, if already computed */
+  parseResult?: ParsedCitationResponse;
+}
+
+/** Result of {@link lintCitationResponse}. */
+export interface CitationLintResult {
+  /** True when there are no `"error"` diagnostics */
+  valid: boolean;
+  /** All problems found, in a stable order (structure first, then per citation) */
+  diagnostics: CitationLintDiagnostic[];
+  /** JSON repairs that were needed to parse the data block */
+  repairs: string[];
+}
+
+/** Pages and line IDs found in one attachment's text. */
+interface AttachmentTextIndex {
+  /** Line IDs per page number. Empty when the text has no page markers. */
+  pages: Map<number, Set<number>>;
+  /** Every line ID in the attachment */
+  lines: Set<number>;
+}
+
+/**
+ * Index the pages and lines of each attachment, keyed by attachment ID.
+ * Text without `<attachment_text attachment_id=...>` wrappers is indexed under `""`.
+ */
+function indexDeepText(deepTextPromptPortion: string | string[]): Map<string, AttachmentTextIndex> {
+  const indexes = new Map<string, AttachmentTextIndex>();
+  for (const attachment of parseDeepText(deepTextPromptPortion)) {
+    const pages = new Map<number, Set<number>>();
+    const lines = new Set<number>();
+    for (const page of attachment.pages) {
+      const lineIds = page.lines.map(line => line.lineId);
+      for (const lineId of lineIds) lines.add(lineId);
+      if (page.pageNumber !== undefined)
+        pages.set(page.pageNumber, new Set([...(pages.get(page.pageNumber) ?? []), ...lineIds]));
+    }
+    indexes.set(attachment.attachmentId ?? "", { pages, lines });
+  }
+  return indexes;
+}
+
+/** Lowercase and collapse whitespace so formatting differences are not reported. */
+function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Check one data entry against the attachment text. */
+function lintAgainstAttachments(
+  data: CitationData,
+  indexes: Map<string, AttachmentTextIndex>,
+  knownAttachmentIds: Set<string>,
+  diagnostics: CitationLintDiagnostic[],
+): void {
+  const citationId = data.id;
+  const attachmentId = data.attachment_id;
+
+  if (knownAttachmentIds.size > 0 && attachmentId && !knownAttachmentIds.has(attachmentId)) {
+    diagnostics.push({
+      code: "unknown_attachment",
+      severity: "error",
+      message: `Citation [${citationId}] references unknown attachment "${attachmentId}"`,
+      citationId,
+      attachmentId,
+    });
+    return;
+  }
+
+  // Audio/video citations are located by timestamps, not pages and lines
+  if (data.timestamps) return;
+
+  const index =
+    (attachmentId && indexes.get(attachmentId)) || (indexes.size === 1 ? [...indexes.values()][0] : undefined);
+  if (!index) return;
+
+  const { pageNumber } = citationDataToCitation(data);
+  let lineScope = index.lines;
+  if (data.page_id && index.pages.size > 0) {
+    const pageLines = pageNumber !== undefined ? index.pages.get(pageNumber) : undefined;
+    if (!pageLines) {
+      diagnostics.push({
+        code: "unknown_page",
+        severity: "error",
+        message: `Citation [${citationId}] references page "${data.page_id}", which is not in the attachment text`,
+        citationId,
+        attachmentId,
+      });
+      return;
+    }
+    lineScope = pageLines;
+  }
+
+  if (lineScope.size === 0) return;
+  const missing = (data.line_ids ?? []).filter(lineId => !lineScope.has(lineId));
+  if (missing.length > 0) {
+    diagnostics.push({
+      code: "unknown_line",
+      severity: "error",
+      message: `Citation [${citationId}] references line id(s) ${missing.join(", ")}, which are not on ${
+        data.page_id ? `page "${data.page_id}"` : "the attachment"
+      }`,
+      citationId,
+      attachmentId,
+    });
+  }
+}
+
+/**
+ * Lint an LLM response that uses `[N]` markers and a `<<<CITATION_DATA>>>` block.
+ *
+ * Structural checks always run. Page, line and attachment id checks run when
+ * `deepTextPromptPortion` (or `attachmentIds`) is supplied.
+ *
+ * @param llmOutput - Raw LLM response
+ * @param options - Attachment text and IDs the LLM was given
+ * @returns Diagnostics, the JSON repairs applied, and whether the response is free of errors
+ *
+ * @example
+ * ```typescript
+ * const lint = lintCitationResponse(llmOutput, { deepTextPromptPortion });
+ * if (!lint.valid) {
+ *   const problems = lint.diagnostics.filter(d => d.severity === "error").map(d => d.message);
+ *   // Re-prompt the model with `problems` instead of verifying
+ * }
+ * ```
+ */
+export function lintCitationResponse(llmOutput: string, options: LintCitationResponseOptions = {}): CitationLintResult {
+  const diagnostics: CitationLintDiagnostic[] = [];
+  const parsed = options.parseResult ?? parseCitationData(llmOutput);
+  const repairs = parsed.repairs ?? [];
+  const markerIds = [...new Set(getCitationMarkerIds(parsed.visibleText))];
+
+  if (!parsed.success) {
+    diagnostics.push({
+      code: "invalid_json",
+      severity: "error",
+      message: parsed.error ?? "Citation data could not be parsed",
+    });
+    return { valid: false, diagnostics, repairs };
+  }
+
+  if (repairs.length > 0) {
+    diagnostics.push({
+      code: "json_repaired",
+      severity: "warning",
+      message: `Citation data needed JSON repair: ${repairs.join(", ")}`,
+    });
+  }
+
+  if (!hasCitationData(llmOutput) && markerIds.length > 0) {
+    diagnostics.push({
+      code: "missing_data_block",
+      severity: "error",
+      message: `Found ${markerIds.length} citation marker(s) but no <<<CITATION_DATA>>> block`,
+    });
+    return { valid: false, diagnostics, repairs };
+  }
+
+  const seenIds = new Set<number>();
+  for (const data of parsed.citations) {
+    if (seenIds.has(data.id)) {
+      diagnostics.push({
+        code: "duplicate_id",
+        severity: "error",
+        message: `Citation id ${data.id} is used by more than one data entry`,
+        citationId: data.id,
+        attachmentId: data.attachment_id,
+      });
+    }
+    seenIds.add(data.id);
+  }
+
+  for (const id of markerIds) {
+    if (!seenIds.has(id)) {
+      diagnostics.push({
+        code: "marker_without_data",
+        severity: "error",
+        message: `Marker [${id}] has no entry in the citation data`,
+        citationId: id,
+      });
+    }
+  }
+
+  const referencedIds = new Set(markerIds);
+  const indexes = indexDeepText(options.deepTextPromptPortion ?? []);
+  const knownAttachmentIds = new Set([...(options.attachmentIds ?? []), ...[...indexes.keys()].filter(Boolean)]);
+
+  for (const data of parsed.citations) {
+    const citationId = data.id;
+    const attachmentId = data.attachment_id;
+
+    if (!referencedIds.has(citationId)) {
+      diagnostics.push({
+        code: "unreferenced_data",
+        severity: "warning",
+        message: `Citation data entry ${citationId} is never referenced by a [${citationId}] marker`,
+        citationId,
+        attachmentId,
+      });
+    }
+
+    if (!data.full_phrase) {
+      diagnostics.push({
+        code: "missing_full_phrase",
+        severity: "error",
+        message: `Citation [${citationId}] has no full_phrase and cannot be verified`,
+        citationId,
+        attachmentId,
+      });
+      continue;
+    }
+
+    if (
+      data.anchor_text &&
+      !normalizeForComparison(String(data.full_phrase)).includes(normalizeForComparison(String(data.anchor_text)))
+    ) {
+      diagnostics.push({
+        code: "anchor_not_in_phrase",
+        severity: "error",
+        message: `Citation [${citationId}] anchor_text "${data.anchor_text}" does not occur in its full_phrase`,
+        citationId,
+        attachmentId,
+      });
+    }
+
+    lintAgainstAttachments(data, indexes, knownAttachmentIds, diagnostics);
+  }
+
+  return {
+    valid: !diagnostics.some(diagnostic => diagnostic.severity === "error"),
+    diagnostics,
+    repairs,
+  };
+}
@@ -0,0 +1,331 @@
+/**
+ * Local Citation Verifier
+ *
+ * First-pass verification of citations against the `deepTextPromptPortion`
+ * text the LLM was given, without calling the API. Produces the same
+ * `Verification` shape as `verify()` — status plus `searchAttempts` — but has
+ * no evidence images and only text matching: no OCR boxes, regex or partial
+ * phrase fallbacks.
+ *
+ * Search order per citation:
+ * 1. `exact_line_match` — the cited lines on the cited page
+ * 2. `line_with_buffer` — the cited lines ±1
+ * 3. `current_page` — the whole cited page
+ * 4. `adjacent_pages` — pages next to the cited page
+ * 5. `expanded_window` — the rest of the attachment
+ * 6. `anchor_text_fallback` — the anchor text alone, cited page first
+ *
+ * Each step tries an exact match (whitespace collapsed) before a normalized
+ * one (case, Unicode form, quotes and dashes).
+ */
+
+import type { Citation, CitationRecord, VerificationRecord } from "../types/citation.js";
+import type { MatchedVariation, SearchAttempt, SearchMethod, SearchStatus } from "../types/search.js";
+import type { Verification } from "../types/verification.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import { getCitationPageNumber } from "../utils/textCleanup.js";
+import { type DeepTextAttachment, type DeepTextPage, parseDeepText } from "./deepText.js";
+
+/** Options for {@link verifyCitationsLocally}. */
+export interface VerifyCitationsLocallyOptions {
+  /**
+   * How many pages on either side of the cited page the `adjacent_pages` step searches.
+   * @default 1
+   */
+  adjacentPageRange?: number;
+}
+
+type MatchVariant = "exact" | "normalized";
+
+/** A searchable run of text: one line, or a whole page when it has no line markers. */
+interface TextSegment {
+  lineId?: number;
+  text: string;
+}
+
+interface MatchResult {
+  pageNumber?: number;
+  lineIds: number[];
+  /** Source text of the matched segments */
+  snippet: string;
+  variant: MatchVariant;
+  occurrences: number;
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+function normalizeText(text: string, variant: MatchVariant): string {
+  if (variant === "exact") return collapseWhitespace(text);
+  return collapseWhitespace(
+    text
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(/[‘’‛′]/g, "'")
+      .replace(/[“”‟″]/g, '"')
+      .replace(/[‐-―−]/g, "-"),
+  );
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + 1)) count++;
+  return count;
+}
+
+function pageSegments(page: DeepTextPage): TextSegment[] {
+  return page.lines.length > 0 ? page.lines : [{ text: page.text }];
+}
+
+/**
+ * Search consecutive segments as one text, so phrases that wrap across lines
+ * match, and report which lines the match covers.
+ */
+function findInSegments(
+  segments: TextSegment[],
+  phrase: string,
+  variant: MatchVariant,
+  pageNumber: number | undefined,
+): MatchResult | undefined {
+  const needle = normalizeText(phrase, variant);
+  if (!needle) return undefined;
+
+  let haystack = "";
+  const ranges: Array<{ segment: TextSegment; start: number; end: number }> = [];
+  for (const segment of segments) {
+    const text = normalizeText(segment.text, variant);
+    if (!text) continue;
+    if (haystack) haystack += " ";
+    ranges.push({ segment, start: haystack.length, end: haystack.length + text.length });
+    haystack += text;
+  }
+
+  const start = haystack.indexOf(needle);
+  if (start === -1) return undefined;
+  const end = start + needle.length;
+  const matched = ranges.filter(range => range.start < end && range.end > start).map(range => range.segment);
+
+  return {
+    pageNumber,
+    lineIds: matched.flatMap(segment => (segment.lineId === undefined ? [] : [segment.lineId])),
+    snippet: collapseWhitespace(matched.map(segment => segment.text).join(" ")),
+    variant,
+    occurrences: countOccurrences(haystack, needle),
+  };
+}
+
+/** Try each page in order, exact before normalized, and return the first match. */
+function findOnPages(
+  pages: Array<{ pageNumber?: number; segments: TextSegment[] }>,
+  phrase: string,
+): MatchResult | undefined {
+  for (const variant of ["exact", "normalized"] as const) {
+    for (const page of pages) {
+      const match = findInSegments(page.segments, phrase, variant, page.pageNumber);
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
+
+function findAttachment(citation: Citation, attachments: DeepTextAttachment[]): DeepTextAttachment | undefined {
+  if (citation.attachmentId) {
+    const match = attachments.find(attachment => attachment.attachmentId === citation.attachmentId);
+    if (match) return match;
+  }
+  // Unwrapped text, or a single attachment the citation does not contradict
+  if (attachments.length === 1 && (!citation.attachmentId || !attachments[0].attachmentId)) return attachments[0];
+  return undefined;
+}
+
+/** Verify one citation against its attachment's pages. */
+function verifyCitation(citation: Citation, attachment: DeepTextAttachment, adjacentPageRange: number): Verification {
+  const fullPhrase = citation.fullPhrase ?? "";
+  const anchorText = citation.anchorText?.toString();
+  const expectedPageNumber = citation.pageNumber ?? getCitationPageNumber(citation.startPageId) ?? undefined;
+  const expectedLineIds = citation.lineIds ?? [];
+  const expectedPage =
+    expectedPageNumber === undefined
+      ? undefined
+      : attachment.pages.find(page => page.pageNumber === expectedPageNumber);
+  const expectedLocation =
+    expectedPageNumber === undefined ? undefined : { page: expectedPageNumber, line: expectedLineIds[0] };
+
+  const searchAttempts: SearchAttempt[] = [];
+  const attempt = (
+    method: SearchMethod,
+    phrase: string,
+    phraseType: "full_phrase" | "anchor_text",
+    searchScope: "line" | "page" | "document",
+    pages: Array<{ pageNumber?: number; segments: TextSegment[] }>,
+    lineSearched?: number[],
+  ): MatchResult | undefined => {
+    const match = findOnPages(pages, phrase);
+    const matchedVariation: MatchedVariation | undefined = match ? `${match.variant}_${phraseType}` : undefined;
+    searchAttempts.push({
+      method,
+      success: !!match,
+      searchPhrase: phrase,
+      searchPhraseType: phraseType,
+      ...(pages.length === 1 && pages[0].pageNumber !== undefined && { pageSearched: pages[0].pageNumber }),
+      ...(lineSearched && { lineSearched }),
+      searchScope,
+      ...(expectedLocation && { expectedLocation }),
+      ...(match && {
+        ...(match.pageNumber !== undefined && { foundLocation: { page: match.pageNumber, line: match.lineIds[0] } }),
+        matchedVariation,
+        matchedText: match.snippet,
+        variationType: match.variant,
+        occurrencesFound: match.occurrences,
+      }),
+    });
+    return match;
+  };
+
+  const searched = new Set<DeepTextPage>();
+  const scope = (pages: DeepTextPage[]) => {
+    for (const page of pages) searched.add(page);
+    return pages.map(page => ({ pageNumber: page.pageNumber, segments: pageSegments(page) }));
+  };
+
+  let match: MatchResult | undefined;
+  let status: SearchStatus = "not_found";
+
+  if (expectedPage) {
+    const cited = expectedPage.lines.filter(line => expectedLineIds.includes(line.lineId));
+    if (cited.length > 0) {
+      const lines = [{ pageNumber: expectedPageNumber, segments: cited }];
+      match = attempt("exact_line_match", fullPhrase, "full_phrase", "line", lines, expectedLineIds);
+
+      if (!match) {
+        const positions = cited.map(line => expectedPage.lines.indexOf(line));
+        const buffered = expectedPage.lines.slice(Math.max(0, Math.min(...positions) - 1), Math.max(...positions) + 2);
+        const bufferedIds = buffered.map(line => line.lineId);
+        match = attempt(
+          "line_with_buffer",
+          fullPhrase,
+          "full_phrase",
+          "line",
+          [{ pageNumber: expectedPageNumber, segments: buffered }],
+          bufferedIds,
+        );
+      }
+      if (match) status = "found";
+    }
+
+    if (!match) {
+      match = attempt("current_page", fullPhrase, "full_phrase", "page", scope([expectedPage]));
+      if (match) status = cited.length > 0 ? "found_on_other_line" : "found";
+    }
+
+    if (!match && expectedPageNumber !== undefined) {
+      const adjacent = attachment.pages.filter(
+        page =>
+          page !== expectedPage &&
+          page.pageNumber !== undefined &&
+          Math.abs(page.pageNumber - expectedPageNumber) <= adjacentPageRange,
+      );
+      for (const page of adjacent) {
+        match = attempt("adjacent_pages", fullPhrase, "full_phrase", "page", scope([page]));
+        if (match) {
+          status = "found_on_other_page";
+          break;
+        }
+      }
+    }
+  }
+
+  if (!match) {
+    const remaining = attachment.pages.filter(page => !searched.has(page));
+    if (remaining.length > 0) {
+      match = attempt("expanded_window", fullPhrase, "full_phrase", "document", scope(remaining));
+      if (match) status = expectedPage ? "found_on_other_page" : "found";
+    }
+  }
+
+  let anchorMatch: MatchResult | undefined;
+  if (match) {
+    if (anchorText && !normalizeText(fullPhrase, "normalized").includes(normalizeText(anchorText, "normalized"))) {
+      status = "found_phrase_missed_anchor_text";
+    }
+  } else if (anchorText && anchorText !== fullPhrase) {
+    if (expectedPage) {
+      anchorMatch = attempt("anchor_text_fallback", anchorText, "anchor_text", "page", [
+        { pageNumber: expectedPage.pageNumber, segments: pageSegments(expectedPage) },
+      ]);
+    }
+    anchorMatch ??= attempt(
+      "anchor_text_fallback",
+      anchorText,
+      "anchor_text",
+      "document",
+      attachment.pages.map(page => ({ pageNumber: page.pageNumber, segments: pageSegments(page) })),
+    );
+    if (anchorMatch) status = "found_anchor_text_only";
+  }
+
+  const verified = match ?? anchorMatch;
+  return {
+    attachmentId: attachment.attachmentId ?? citation.attachmentId,
+    citation,
+    status,
+    searchAttempts,
+    ...(match && { verifiedFullPhrase: fullPhrase }),
+    ...(anchorText &&
+      status !== "not_found" &&
+      status !== "found_phrase_missed_anchor_text" && { verifiedAnchorText: anchorText }),
+    ...(verified && {
+      verifiedMatchSnippet: verified.snippet,
+      document: {
+        verifiedPageNumber: verified.pageNumber,
+        verifiedLineIds: verified.lineIds,
+        totalLinesOnPage: attachment.pages.find(page => page.pageNumber === verified.pageNumber)?.lines.length,
+      },
+    }),
+  };
+}
+
+/**
+ * Verify citations against the attachment text the LLM was given, without a network call.
+ *
+ * Useful as a fast first pass in tests, CI and privacy-sensitive deployments:
+ * statuses and `searchAttempts` use the same values as `verify()`, but there
+ * are no evidence images, and a `"not_found"` here may still be found by the
+ * API's fuzzier search. Citations that cannot be checked locally — no
+ * `fullPhrase`, audio/video timestamps, or no text for their attachment — are
+ * returned as `"skipped"`.
+ *
+ * @param citations - Citations keyed by citationKey (as from `parseCitationResponse()`), or an array
+ * @param deepTextPromptPortion - Attachment text from `uploadFile()` / `prepareAttachments()`
+ * @param options - Search options
+ * @returns Verifications keyed like the input (arrays are keyed by `getCitationKey()`)
+ *
+ * @example
+ * ```typescript
+ * const { citations } = parseCitationResponse(llmOutput);
+ * const verifications = verifyCitationsLocally(citations, deepTextPromptPortion);
+ *
+ * const unsupported = Object.values(verifications).filter(v => v.status === "not_found");
+ * ```
+ */
+export function verifyCitationsLocally(
+  citations: CitationRecord | Citation[],
+  deepTextPromptPortion: string | string[],
+  options: VerifyCitationsLocallyOptions = {},
+): VerificationRecord {
+  const { adjacentPageRange = 1 } = options;
+  const attachments = parseDeepText(deepTextPromptPortion);
+  const entries = Array.isArray(citations)
+    ? citations.map(citation => [getCitationKey(citation), citation] as const)
+    : Object.entries(citations);
+
+  const verifications: VerificationRecord = {};
+  for (const [citationKey, citation] of entries) {
+    const attachment = findAttachment(citation, attachments);
+    const isTimestamped = citation.type === "audio" || citation.type === "video";
+    verifications[citationKey] =
+      attachment && citation.fullPhrase && !isTimestamped
+        ? verifyCitation(citation, attachment, adjacentPageRange)
+        : { attachmentId: citation.attachmentId, citation, status: "skipped", searchAttempts: [] };
+  }
+  return verifications;
+}
@@ -53,7 +53,9 @@ export function getCitationStatus(verification: Verification | null | undefined)
 
   const isPending = PENDING_STATUSES.has(status);
 
-  return { isVerified, isMiss, isPartialMatch, isPending };
+  const isError = status === "error";
+
+  return { isVerified, isMiss, isPartialMatch, isPending, isError };
 }
 
 /**
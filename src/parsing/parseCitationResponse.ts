@@ -9,6 +9,7 @@
 import type { Citation, CitationRecord } from "../types/citation.js";
 import { getCitationKey } from "../utils/citationKey.js";
 import { createSafeObject } from "../utils/objectSafety.js";
+import { NUMERIC_SPLIT_PATTERN } from "./citationMarkers.js";
 import { citationDataToCitation, hasCitationData, parseCitationData } from "./citationParser.js";
 
 /**
@@ -29,17 +30,16 @@ export interface ParsedCitationResult {
   markerMap: Record<number, string>;
   /** Detected citation format */
   format: "numeric" | "none";
-  /** RegExp for `visibleText.split(splitPattern)` — produces alternating text/marker segments */
+  /** RegExp for `visibleText.split(splitPattern)` — produces alternating text/marker segments (`[N]` or grouped `[1, 2]`) */
   splitPattern: RegExp;
 }
 
-/** Split pattern for `[N]` markers — capture group preserves markers in split output */
-const NUMERIC_SPLIT_PATTERN = /(\[\d+\])/g;
-
 /**
  * Parses LLM output into a unified result.
  *
- * Numeric format: `[N]` markers in text + `<<<CITATION_DATA>>>` JSON block
+ * Numeric format: `[N]` markers in text + `<<<CITATION_DATA>>>` JSON block.
+ * Grouped markers (`[1, 2]`, `[3-5]`) are kept whole as single split segments;
+ * `parseCitationMarker()` expands them into citation numbers.
  *
  * @param llmOutput - Raw LLM response string
  * @returns ParsedCitationResult with citations, markerMap, and splitPattern
@@ -51,10 +51,12 @@ const NUMERIC_SPLIT_PATTERN = /(\[\d+\])/g;
  * // Render in React:
  * const segments = result.visibleText.split(result.splitPattern);
  * segments.map((seg, i) => {
- *   const match = seg.match(/^\[(\d+)\]$/);
- *   if (match) {
- *     const key = result.markerMap[Number(match[1])];
- *     return <CitationComponent citation={result.citations[key]} />;
+ *   const ids = parseCitationMarker(seg);
+ *   if (ids) {
+ *     return ids.map(id => {
+ *       const key = result.markerMap[id];
+ *       return <CitationComponent key={`${i}-${id}`} citation={result.citations[key]} />;
+ *     });
  *   }
  *   return seg;
  * });
@@ -0,0 +1,377 @@
+/**
+ * Provider-Native Citation Adapters
+ *
+ * Converts citations produced by LLM providers' own citation features into a
+ * `ParsedCitationResult`, so the verification and rendering stack works the
+ * same as for `[N]` + `<<<CITATION_DATA>>>` output:
+ *
+ * - Anthropic: `citations` on text content blocks
+ * - OpenAI: `url_citation` / `file_citation` annotations
+ * - Gemini: `groundingMetadata` supports and chunks
+ *
+ * Each adapter inserts `[N]` markers into the visible text where the provider
+ * placed its citations. Only the fields the adapters read are typed here, so
+ * provider SDK response objects can be passed as-is.
+ */
+
+import type { Citation, CitationRecord } from "../types/citation.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import { createSafeObject } from "../utils/objectSafety.js";
+import { extractDomain } from "../utils/urlSafety.js";
+import { NUMERIC_SPLIT_PATTERN } from "./citationMarkers.js";
+import type { ParsedCitationResult } from "./parseCitationResponse.js";
+
+// ─── Anthropic ─────────────────────────────────────────────────
+
+/** An entry of an Anthropic text block's `citations` array. */
+export interface AnthropicCitation {
+  type: "char_location" | "page_location" | "content_block_location" | "web_search_result_location" | (string & {});
+  cited_text: string;
+  /** Index of the cited document in the request (document citations) */
+  document_index?: number;
+  document_title?: string | null;
+  /** First cited page, 1-based (`page_location`) */
+  start_page_number?: number;
+  /** URL of the cited page (`web_search_result_location`) */
+  url?: string;
+  title?: string | null;
+  /** Source of a custom search result (`search_result_location`) */
+  source?: string;
+}
+
+/** An Anthropic response content block. Only text blocks are read. */
+export interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  citations?: AnthropicCitation[] | null;
+}
+
+/** Options for {@link parseAnthropicCitations}. */
+export interface ParseAnthropicCitationsOptions {
+  /**
+   * DeepCitation attachment IDs of the documents sent to Claude, in request
+   * order, so `document_index` can be mapped to an attachment.
+   */
+  attachmentIds?: string[];
+}
+
+// ─── OpenAI ────────────────────────────────────────────────────
+
+/** Location fields of an OpenAI `url_citation` annotation. */
+export interface OpenAIUrlCitation {
+  url: string;
+  title?: string;
+  start_index?: number;
+  end_index?: number;
+}
+
+/**
+ * An OpenAI annotation. The Responses API puts the fields on the annotation
+ * itself; Chat Completions nests them under `url_citation`.
+ */
+export interface OpenAIAnnotation extends Partial<OpenAIUrlCitation> {
+  type: "url_citation" | "file_citation" | (string & {});
+  url_citation?: OpenAIUrlCitation;
+  /** Position in the text the file citation applies to */
+  index?: number;
+  file_id?: string;
+  filename?: string;
+}
+
+/**
+ * Annotated OpenAI output: a Responses API `output_text` part (`text`) or a
+ * Chat Completions message (`content`).
+ */
+export interface OpenAIAnnotatedText {
+  text?: string;
+  content?: string | null;
+  annotations?: OpenAIAnnotation[] | null;
+}
+
+/** Options for {@link parseOpenAIAnnotations}. */
+export interface ParseOpenAIAnnotationsOptions {
+  /** DeepCitation attachment IDs keyed by OpenAI `file_id` */
+  attachmentIds?: Record<string, string>;
+}
+
+// ─── Gemini ────────────────────────────────────────────────────
+
+/** A source in Gemini's `groundingMetadata.groundingChunks`. */
+export interface GeminiGroundingChunk {
+  web?: { uri?: string; title?: string };
+  retrievedContext?: { uri?: string; title?: string; text?: string };
+}
+
+/** A claim in Gemini's `groundingMetadata.groundingSupports`. */
+export interface GeminiGroundingSupport {
+  segment?: {
+    /** UTF-8 byte offsets into the response text */
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+}
+
+/** A Gemini response candidate. */
+export interface GeminiCandidate {
+  content?: { parts?: Array<{ text?: string }> };
+  groundingMetadata?: {
+    groundingChunks?: GeminiGroundingChunk[];
+    groundingSupports?: GeminiGroundingSupport[];
+  };
+}
+
+// ─── Shared ────────────────────────────────────────────────────
+
+/** Citations to mark at a text position, replacing `text.slice(start, end)` when `end > start`. */
+interface CitationPlacement {
+  start: number;
+  end: number;
+  citations: Citation[];
+}
+
+/**
+ * Insert `[N]` markers for each placement, numbering citations by first
+ * appearance. The same citation cited twice reuses its number.
+ */
+function buildParsedResult(text: string, placements: CitationPlacement[]): ParsedCitationResult {
+  const citations: CitationRecord = createSafeObject<Citation>();
+  const markerMap: Record<number, string> = {};
+  const numberByKey = new Map<string, number>();
+
+  const sorted = placements
+    .filter(placement => placement.citations.length > 0)
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  let visibleText = "";
+  let cursor = 0;
+
+  for (const placement of sorted) {
+    const markers = new Set<number>();
+    for (const citation of placement.citations) {
+      const key = getCitationKey(citation);
+      let number = numberByKey.get(key);
+      if (number === undefined) {
+        number = numberByKey.size + 1;
+        numberByKey.set(key, number);
+        citations[key] = { ...citation, citationNumber: number };
+        markerMap[number] = key;
+      }
+      markers.add(number);
+    }
+    const marker = [...markers].map(number => `[${number}]`).join("");
+
+    // Overlapping placements degrade to an insertion after the previous one
+    const start = Math.max(cursor, placement.start);
+    const end = Math.max(start, placement.end);
+    visibleText += text.slice(cursor, start);
+    if (end === start && visibleText && !/\s$/.test(visibleText)) visibleText += " ";
+    visibleText += marker;
+    cursor = end;
+  }
+  visibleText += text.slice(cursor);
+
+  return {
+    visibleText,
+    citations,
+    markerMap,
+    format: numberByKey.size > 0 ? "numeric" : "none",
+    splitPattern: NUMERIC_SPLIT_PATTERN,
+  };
+}
+
+function urlCitation(url: string, fullPhrase: string, title?: string | null): Citation {
+  return {
+    type: "url",
+    url,
+    domain: extractDomain(url) || undefined,
+    ...(title && { title }),
+    fullPhrase,
+  };
+}
+
+/** The sentence that ends at `index`, used as the phrase when a provider gives no quote. */
+function sentenceBefore(text: string, index: number): string {
+  const prefix = text.slice(0, index).trimEnd();
+  const boundaries = [...prefix.slice(0, -1).matchAll(/[.!?]\s+|\n/g)];
+  const last = boundaries.at(-1);
+  return prefix.slice(last ? (last.index ?? 0) + last[0].length : 0).trim();
+}
+
+// ─── Adapters ──────────────────────────────────────────────────
+
+/**
+ * Convert an Anthropic Messages API response with citations into a `ParsedCitationResult`.
+ *
+ * Each cited text block gets markers at its end. `cited_text` becomes the
+ * `fullPhrase`; `page_location` citations keep their page number and
+ * `web_search_result_location` citations become URL citations.
+ *
+ * @param content - `message.content`, or the message itself
+ * @param options - Attachment IDs of the documents in the request
+ * @returns Result with `[N]` markers in `visibleText`
+ *
+ * @example
+ * ```typescript
+ * const message = await anthropic.messages.create({ ... });
+ * const parsed = parseAnthropicCitations(message, { attachmentIds: [attachmentId] });
+ * const { verifications } = await deepcitation.verify({ llmOutput: parsed.visibleText }, parsed.citations);
+ * ```
+ */
+export function parseAnthropicCitations(
+  content: AnthropicContentBlock[] | { content: AnthropicContentBlock[] },
+  options: ParseAnthropicCitationsOptions = {},
+): ParsedCitationResult {
+  const blocks = Array.isArray(content) ? content : content.content;
+  const placements: CitationPlacement[] = [];
+  let text = "";
+
+  for (const block of blocks ?? []) {
+    if (block.type !== "text" || typeof block.text !== "string") continue;
+    text += block.text;
+    const citations = (block.citations ?? []).flatMap((source): Citation[] => {
+      if (!source.cited_text) return [];
+      const url = source.url ?? (source.source && /^https?:\/\//i.test(source.source) ? source.source : undefined);
+      if (url) return [urlCitation(url, source.cited_text, source.title)];
+      const attachmentId =
+        source.document_index === undefined ? undefined : options.attachmentIds?.[source.document_index];
+      return [
+        {
+          type: "document",
+          ...(attachmentId && { attachmentId }),
+          ...(source.type === "page_location" && { pageNumber: source.start_page_number }),
+          fullPhrase: source.cited_text,
+        },
+      ];
+    });
+    // Markers go after the cited text, before any trailing whitespace
+    const end = text.trimEnd().length;
+    placements.push({ start: end, end, citations });
+  }
+
+  return buildParsedResult(text, placements);
+}
+
+/**
+ * Convert OpenAI output with `url_citation` / `file_citation` annotations into a `ParsedCitationResult`.
+ *
+ * A `url_citation` whose span is the rendered source link (as web search
+ * produces) is replaced by the marker; otherwise the marker follows the span.
+ * OpenAI does not return the quoted source text, so the `fullPhrase` is the
+ * annotated span or the sentence before the citation — verification then
+ * checks that claim against the source.
+ *
+ * @param output - An `output_text` content part, a chat message, or an array of parts
+ * @param options - Attachment IDs keyed by OpenAI `file_id`
+ * @returns Result with `[N]` markers in `visibleText`
+ *
+ * @example
+ * ```typescript
+ * const response = await openai.responses.create({ ... });
+ * const parts = response.output.flatMap(item => (item.type === "message" ? item.content : []));
+ * const parsed = parseOpenAIAnnotations(parts);
+ * ```
+ */
+export function parseOpenAIAnnotations(
+  output: OpenAIAnnotatedText | OpenAIAnnotatedText[],
+  options: ParseOpenAIAnnotationsOptions = {},
+): ParsedCitationResult {
+  const parts = Array.isArray(output) ? output : [output];
+  const placements: CitationPlacement[] = [];
+  let text = "";
+
+  for (const part of parts) {
+    const partText = part.text ?? part.content ?? "";
+    const offset = text.length;
+    text += partText;
+
+    for (const annotation of part.annotations ?? []) {
+      if (annotation.type === "url_citation") {
+        const location = annotation.url_citation ?? annotation;
+        if (!location.url) continue;
+        const start = Math.min(location.start_index ?? partText.length, partText.length);
+        const end = Math.min(Math.max(location.end_index ?? start, start), partText.length);
+        const span = partText.slice(start, end);
+        const isLink = span.includes(location.url) || span.includes(extractDomain(location.url) || location.url);
+        const fullPhrase = isLink || !span.trim() ? sentenceBefore(partText, start) : span.trim();
+        if (!fullPhrase) continue;
+        placements.push({
+          start: offset + (isLink ? start : end),
+          end: offset + end,
+          citations: [urlCitation(location.url, fullPhrase, location.title)],
+        });
+      } else if (annotation.type === "file_citation") {
+        const index = Math.min(annotation.index ?? partText.length, partText.length);
+        const fullPhrase = sentenceBefore(partText, index);
+        if (!fullPhrase) continue;
+        const attachmentId = annotation.file_id ? options.attachmentIds?.[annotation.file_id] : undefined;
+        placements.push({
+          start: offset + index,
+          end: offset + index,
+          citations: [{ type: "document", ...(attachmentId && { attachmentId }), fullPhrase }],
+        });
+      }
+    }
+  }
+
+  return buildParsedResult(text, placements);
+}
+
+/** Convert a UTF-8 byte offset (as Gemini reports) into a string index. */
+function byteOffsetToIndex(text: string, byteOffset: number): number {
+  let bytes = 0;
+  let index = 0;
+  while (index < text.length && bytes < byteOffset) {
+    const codePoint = text.codePointAt(index) ?? 0;
+    bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    index += codePoint > 0xffff ? 2 : 1;
+  }
+  return index;
+}
+
+/**
+ * Convert a Gemini response with `groundingMetadata` into a `ParsedCitationResult`.
+ *
+ * Each grounding support gets markers after its segment, one per grounding
+ * chunk. The segment text becomes the `fullPhrase`; web chunks become URL
+ * citations and retrieved-context chunks keep their URI.
+ *
+ * @param response - A `generateContent` response (first candidate is used) or a candidate
+ * @returns Result with `[N]` markers in `visibleText`
+ *
+ * @example
+ * ```typescript
+ * const response = await ai.models.generateContent({ ..., config: { tools: [{ googleSearch: {} }] } });
+ * const parsed = parseGeminiGrounding(response);
+ * ```
+ */
+export function parseGeminiGrounding(
+  response: GeminiCandidate | { candidates?: GeminiCandidate[] },
+): ParsedCitationResult {
+  const candidate = "candidates" in response ? response.candidates?.[0] : (response as GeminiCandidate);
+  const text = (candidate?.content?.parts ?? []).map(part => part.text ?? "").join("");
+  const chunks = candidate?.groundingMetadata?.groundingChunks ?? [];
+  const placements: CitationPlacement[] = [];
+
+  for (const support of candidate?.groundingMetadata?.groundingSupports ?? []) {
+    const segment = support.segment;
+    const segmentText = segment?.text?.trim();
+    if (!segmentText) continue;
+    let end: number;
+    if (segment?.endIndex !== undefined) {
+      end = byteOffsetToIndex(text, segment.endIndex);
+    } else {
+      const found = text.indexOf(segmentText);
+      end = found === -1 ? text.length : found + segmentText.length;
+    }
+
+    const citations = (support.groundingChunkIndices ?? []).flatMap((chunkIndex): Citation[] => {
+      const chunk = chunks[chunkIndex];
+      const source = chunk?.web ?? chunk?.retrievedContext;
+      return source?.uri ? [urlCitation(source.uri, segmentText, source.title)] : [];
+    });
+    placements.push({ start: end, end, citations });
+  }
+
+  return buildParsedResult(text, placements);
+}
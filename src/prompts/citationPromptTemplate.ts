@@ -0,0 +1,617 @@
+/**
+ * Citation Prompt Templates
+ *
+ * Builds the citation instructions from named sections so teams can override
+ * single sections, pick a model-family preset or a language, and still receive
+ * upstream prompt improvements. Every prompt carries a version identifier in its
+ * `<citation-instructions>` tag, so responses can be correlated with the prompt
+ * that produced them.
+ */
+
+import type { CitationMode } from "./citationPrompts.js";
+
+/** Name of the citation tool in tool-call citation mode. `add_citation` is also accepted when parsing. */
+export const CITATION_TOOL_NAME = "cite";
+
+/**
+ * Version of the built-in citation instructions. Bumped whenever their wording
+ * changes. Presets, locales, customizations (`custom`) and `versionLabel` are
+ * appended as semver build metadata, e.g. `1.0.0+small.de`.
+ */
+export const CITATION_PROMPT_VERSION = "1.0.0";
+
+/**
+ * A section of the citation instructions, in prompt order.
+ * - `markers`: how to place `[N]` markers
+ * - `format`: the data block format, or the citation tool in tool-call mode
+ * - `shorthand`: compact JSON keys (data block mode only)
+ * - `rules`: per-field rules for the JSON entries or tool arguments
+ * - `placement`: marker placement and numbering rules
+ * - `example`: an example response (data block mode only)
+ */
+export type CitationPromptSection = "markers" | "format" | "shorthand" | "rules" | "placement" | "example";
+
+/**
+ * Model-family tuning.
+ * - `"default"`: the standard instructions
+ * - `"openai"`: tells the model not to wrap the data block in a code fence
+ * - `"gemini"`: tells the model not to repeat sentences or the data block
+ * - `"small"`: for small models — no shorthand keys, a one-citation example and a stricter JSON rule
+ */
+export type CitationPromptPreset = "default" | "openai" | "gemini" | "small";
+
+/** Built-in prompt languages. */
+export type CitationPromptLocale = "en" | "es" | "de";
+
+/**
+ * All translatable text of the citation instructions. JSON keys, delimiters and
+ * example data are not translated. `{tool}` is replaced with the citation tool name.
+ */
+export interface CitationPromptStrings {
+  title: { document: string; audioVideo: string };
+  markers: { heading: string; document: string; audioVideo: string };
+  dataBlock: { heading: string; text: string; formatHeading: string };
+  tool: { heading: string; text: string };
+  shorthand: { heading: { document: string; audioVideo: string }; document: string; audioVideo: string };
+  fieldRules: { heading: string; document: string[]; audioVideo: string[] };
+  toolArguments: { heading: string; document: string[]; audioVideo: string[] };
+  placement: {
+    heading: string;
+    rules: string[];
+    numbering: { document: string; audioVideo: string };
+    dataBlockLast: string;
+    toolCall: string;
+  };
+  /** Extra placement rule per preset, for data block and tool-call mode (`{tool}` is the tool name) */
+  presetRules: Record<Exclude<CitationPromptPreset, "default">, { dataBlock: string; toolCall: string }>;
+  example: { heading: string; document: string[]; audioVideo: string[] };
+  reminder: { document: string; audioVideo: string; toolCall: string };
+}
+
+/** Options for {@link buildCitationPrompt}. */
+export interface CitationPromptTemplateOptions {
+  /** Build the audio/video (timestamp) instructions instead of page/line ones */
+  isAudioVideo?: boolean;
+  /**
+   * How the LLM returns citation details.
+   * @default "data_block"
+   */
+  citationMode?: CitationMode;
+  /**
+   * Model-family tuning.
+   * @default "default"
+   */
+  preset?: CitationPromptPreset;
+  /**
+   * Prompt language: a built-in locale, or custom strings (e.g. a translated copy of
+   * `CITATION_PROMPT_STRINGS.en`).
+   * @default "en"
+   */
+  locale?: CitationPromptLocale | CitationPromptStrings;
+  /**
+   * Per-section overrides: a string replaces the whole section (heading included),
+   * `false` leaves it out.
+   */
+  sections?: Partial<Record<CitationPromptSection, string | false>>;
+  /**
+   * Label for your customizations, appended to the version (`1.0.0+acme-3`).
+   * Letters, digits and hyphens, optionally separated by dots; anything else throws.
+   * Section overrides and custom string locales are labelled `custom` in any case.
+   */
+  versionLabel?: string;
+}
+
+/** Result of {@link buildCitationPrompt}. */
+export interface CitationPromptTemplate {
+  /** The citation instructions, wrapped in a versioned `<citation-instructions>` tag */
+  prompt: string;
+  /** The matching short reminder for the end of the system and user prompts */
+  reminder: string;
+  /** Version identifier embedded in `prompt` */
+  version: string;
+}
+
+const DOCUMENT_FORMAT = `<<<CITATION_DATA>>>
+{
+  "attachment_id_here": [
+    {"id": 1, "reasoning": "why", "full_phrase": "quote", "anchor_text": "key", "page_id": "page_number_2_index_1", "line_ids": [12]}
+  ]
+}
+<<<END_CITATION_DATA>>>`;
+
+const AV_FORMAT = `<<<CITATION_DATA>>>
+{
+  "attachment_id_here": [
+    {"id": 1, "reasoning": "why", "full_phrase": "quote", "anchor_text": "key", "timestamps": {"start_time": "HH:MM:SS.SSS", "end_time": "HH:MM:SS.SSS"}}
+  ]
+}
+<<<END_CITATION_DATA>>>`;
+
+/** Example citation entries, one per example sentence */
+const DOCUMENT_EXAMPLE_ENTRIES = [
+  {
+    attachmentId: "abc123",
+    json: '{"id": 1, "reasoning": "directly states growth metrics", "full_phrase": "The company achieved 45% year-over-year growth", "anchor_text": "45% year-over-year growth", "page_id": "page_number_2_index_1", "line_ids": [12, 13]}',
+  },
+  {
+    attachmentId: "abc123",
+    json: '{"id": 2, "reasoning": "states Q4 revenue figure", "full_phrase": "Q4 revenue reached $2.3 billion, up from $1.8 billion", "anchor_text": "$2.3 billion", "page_id": "page_number_3_index_2", "line_ids": [5, 6, 7]}',
+  },
+  {
+    attachmentId: "def456",
+    json: '{"id": 3, "reasoning": "competitor data", "full_phrase": "Competitor X reported 20% growth", "anchor_text": "20% growth", "page_id": "page_number_1_index_0", "line_ids": [8]}',
+  },
+];
+
+const AV_EXAMPLE_ENTRIES = [
+  {
+    attachmentId: "video123",
+    json: '{"id": 1, "reasoning": "speaker directly states health benefits", "full_phrase": "Regular exercise improves cardiovascular health by 30%", "anchor_text": "cardiovascular health", "timestamps": {"start_time": "00:05:23.000", "end_time": "00:05:45.500"}}',
+  },
+  {
+    attachmentId: "video123",
+    json: '{"id": 2, "reasoning": "demonstrates proper form", "full_phrase": "Keep your back straight and engage your core", "anchor_text": "engage your core", "timestamps": {"start_time": "00:12:10.200", "end_time": "00:12:25.800"}}',
+  },
+];
+
+const EN_STRINGS: CitationPromptStrings = {
+  title: { document: "REQUIRED: Citation Format", audioVideo: "REQUIRED: Audio/Video Citation Format" },
+  markers: {
+    heading: "In-Text Markers",
+    document:
+      "For every claim, value, or fact from attachments, place a sequential integer marker like [1], [2], [3] at the end of the claim. Each distinct piece of information needs its own unique marker number.",
+    audioVideo:
+      "For every claim, value, or fact from media content, place a sequential integer marker like [1], [2], [3] at the end of the claim.",
+  },
+  dataBlock: {
+    heading: "Citation Data Block",
+    text: "At the END of your response, append a citation block. Group citations by attachment_id to avoid repetition.",
+    formatHeading: "Format",
+  },
+  tool: {
+    heading: "Citation Tool",
+    text: "For EVERY marker, call the `{tool}` tool once with the citation details. Do NOT write a <<<CITATION_DATA>>> block — the tool calls replace it.",
+  },
+  shorthand: {
+    heading: { document: "Shorthand Keys (Optional)", audioVideo: "Shorthand (Optional)" },
+    document: "To save tokens: n=id, r=reasoning, f=full_phrase, k=anchor_text, p=page_id, l=line_ids",
+    audioVideo:
+      "To save tokens: n=id, r=reasoning, f=full_phrase, k=anchor_text, t=timestamps (with s=start_time, e=end_time)",
+  },
+  fieldRules: {
+    heading: "JSON Field Rules",
+    document: [
+      "**Group key**: The attachment_id (exact ID from source document)",
+      "**id** (or n): Each citation MUST have a unique ID matching its [N] marker. Do NOT reuse the same ID for different citations.",
+      "**reasoning** (or r): Brief explanation connecting the citation to your claim (think first!)",
+      "**full_phrase** (or f): Copy text VERBATIM from source. Use proper JSON escaping for quotes.",
+      "**anchor_text** (or k): The 1-3 most important words from full_phrase",
+      '**page_id** (or p): Format "page_number_N_index_I" where N=page number, I=index (copy exactly from `<page_number_N_index_I>` tags in the source)',
+      "**line_ids** (or l): Array of line IDs from the source (copy from line ID markers in the text). Include IDs for all relevant lines.",
+    ],
+    audioVideo: [
+      "**Group key**: The attachment_id (exact ID from source media)",
+      "**id** (or n): Must match the [N] marker in your text (integer)",
+      "**reasoning** (or r): Brief explanation connecting the citation to your claim (think first!)",
+      "**full_phrase** (or f): Copy transcript text VERBATIM. Use proper JSON escaping.",
+      "**anchor_text** (or k): The 1-3 most important words from full_phrase",
+      "**timestamps** (or t): Object with start_time/s and end_time/e in HH:MM:SS.SSS format",
+    ],
+  },
+  toolArguments: {
+    heading: "Tool Arguments",
+    document: [
+      "**id**: The marker number [N] this citation supports. Do NOT reuse the same ID for different citations.",
+      "**attachment_id**: The exact attachment ID from the source document",
+      "**reasoning**: Brief explanation connecting the citation to your claim (think first!)",
+      "**full_phrase**: Copy text VERBATIM from source",
+      "**anchor_text**: The 1-3 most important words from full_phrase",
+      '**page_id**: Format "page_number_N_index_I" where N=page number, I=index (copy exactly from `<page_number_N_index_I>` tags in the source)',
+      "**line_ids**: Array of line IDs from the source (copy from line ID markers in the text). Include IDs for all relevant lines.",
+    ],
+    audioVideo: [
+      "**id**: The marker number [N] this citation supports (integer)",
+      "**attachment_id**: The exact attachment ID from the source media",
+      "**reasoning**: Brief explanation connecting the citation to your claim (think first!)",
+      "**full_phrase**: Copy transcript text VERBATIM",
+      "**anchor_text**: The 1-3 most important words from full_phrase",
+      "**timestamps**: Object with start_time and end_time in HH:MM:SS.SSS format",
+    ],
+  },
+  placement: {
+    heading: "Placement Rules",
+    rules: [
+      "Place [N] markers inline, typically at the end of a claim",
+      "One marker per distinct idea, concept, or value",
+    ],
+    numbering: {
+      document: "Use sequential numbering starting from [1] - each citation gets a unique number",
+      audioVideo: "Use sequential numbering starting from [1]",
+    },
+    dataBlockLast: "The JSON block MUST appear at the very end of your response",
+    toolCall: "Call the tool for a marker as soon as you have written it",
+  },
+  presetRules: {
+    openai: {
+      dataBlock: "Write the citation block as plain text — do NOT wrap it in a ``` code block",
+      toolCall: "Cite only through the `{tool}` tool — do NOT write citation data or code blocks in your answer",
+    },
+    gemini: {
+      dataBlock: "Write each sentence and the citation block only once — do NOT repeat them",
+      toolCall: "Write each sentence only once and call `{tool}` once per citation — do NOT repeat them",
+    },
+    small: {
+      dataBlock: "The citation block must be valid JSON: double quotes, no trailing commas, no comments",
+      toolCall: "The `{tool}` arguments must be valid JSON: double quotes, no trailing commas, no comments",
+    },
+  },
+  example: {
+    heading: "Example Response",
+    document: [
+      "The company reported strong growth [1].",
+      "Revenue increased significantly in Q4 [2].",
+      "The competitor also grew [3].",
+    ],
+    audioVideo: ["The speaker discussed exercise benefits [1].", "They recommended specific techniques [2]."],
+  },
+  reminder: {
+    document:
+      "STOP and CHECK: Did you use [N] markers for every claim and include the <<<CITATION_DATA>>> JSON block at the end?",
+    audioVideo:
+      "STOP and CHECK: Did you use [N] markers for every claim and include the <<<CITATION_DATA>>> JSON block with timestamps at the end?",
+    toolCall: "STOP and CHECK: Did you use [N] markers for every claim and call the {tool} tool once for each marker?",
+  },
+};
+
+const ES_STRINGS: CitationPromptStrings = {
+  title: { document: "OBLIGATORIO: Formato de citas", audioVideo: "OBLIGATORIO: Formato de citas de audio/vídeo" },
+  markers: {
+    heading: "Marcadores en el texto",
+    document:
+      "Para cada afirmación, valor o dato tomado de los adjuntos, coloca un marcador entero secuencial como [1], [2], [3] al final de la afirmación. Cada dato distinto necesita su propio número de marcador.",
+    audioVideo:
+      "Para cada afirmación, valor o dato tomado del contenido multimedia, coloca un marcador entero secuencial como [1], [2], [3] al final de la afirmación.",
+  },
+  dataBlock: {
+    heading: "Bloque de datos de citas",
+    text: "Al FINAL de tu respuesta, añade un bloque de citas. Agrupa las citas por attachment_id para no repetirlo.",
+    formatHeading: "Formato",
+  },
+  tool: {
+    heading: "Herramienta de citas",
+    text: "Para CADA marcador, llama una vez a la herramienta `{tool}` con los detalles de la cita. NO escribas un bloque <<<CITATION_DATA>>>: las llamadas a la herramienta lo sustituyen.",
+  },
+  shorthand: {
+    heading: { document: "Claves abreviadas (opcional)", audioVideo: "Abreviaturas (opcional)" },
+    document: "Para ahorrar tokens: n=id, r=reasoning, f=full_phrase, k=anchor_text, p=page_id, l=line_ids",
+    audioVideo:
+      "Para ahorrar tokens: n=id, r=reasoning, f=full_phrase, k=anchor_text, t=timestamps (con s=start_time, e=end_time)",
+  },
+  fieldRules: {
+    heading: "Reglas de los campos JSON",
+    document: [
+      "**Clave de grupo**: el attachment_id (ID exacto del documento de origen)",
+      "**id** (o n): cada cita DEBE tener un ID único que coincida con su marcador [N]. NO reutilices el mismo ID para citas distintas.",
+      "**reasoning** (o r): breve explicación que relaciona la cita con tu afirmación (¡piensa primero!)",
+      "**full_phrase** (o f): copia el texto LITERALMENTE de la fuente. Escapa las comillas correctamente en JSON.",
+      "**anchor_text** (o k): las 1-3 palabras más importantes de full_phrase",
+      '**page_id** (o p): formato "page_number_N_index_I", donde N=número de página e I=índice (cópialo exactamente de las etiquetas `<page_number_N_index_I>` de la fuente)',
+      "**line_ids** (o l): lista de IDs de línea de la fuente (cópialos de los marcadores de línea del texto). Incluye los IDs de todas las líneas relevantes.",
+    ],
+    audioVideo: [
+      "**Clave de grupo**: el attachment_id (ID exacto del contenido multimedia de origen)",
+      "**id** (o n): debe coincidir con el marcador [N] de tu texto (entero)",
+      "**reasoning** (o r): breve explicación que relaciona la cita con tu afirmación (¡piensa primero!)",
+      "**full_phrase** (o f): copia el texto de la transcripción LITERALMENTE. Escápalo correctamente en JSON.",
+      "**anchor_text** (o k): las 1-3 palabras más importantes de full_phrase",
+      "**timestamps** (o t): objeto con start_time/s y end_time/e en formato HH:MM:SS.SSS",
+    ],
+  },
+  toolArguments: {
+    heading: "Argumentos de la herramienta",
+    document: [
+      "**id**: el número del marcador [N] que respalda esta cita. NO reutilices el mismo ID para citas distintas.",
+      "**attachment_id**: el ID exacto del documento de origen",
+      "**reasoning**: breve explicación que relaciona la cita con tu afirmación (¡piensa primero!)",
+      "**full_phrase**: copia el texto LITERALMENTE de la fuente",
+      "**anchor_text**: las 1-3 palabras más importantes de full_phrase",
+      '**page_id**: formato "page_number_N_index_I", donde N=número de página e I=índice (cópialo exactamente de las etiquetas `<page_number_N_index_I>` de la fuente)',
+      "**line_ids**: lista de IDs de línea de la fuente (cópialos de los marcadores de línea del texto). Incluye los IDs de todas las líneas relevantes.",
+    ],
+    audioVideo: [
+      "**id**: el número del marcador [N] que respalda esta cita (entero)",
+      "**attachment_id**: el ID exacto del contenido multimedia de origen",
+      "**reasoning**: breve explicación que relaciona la cita con tu afirmación (¡piensa primero!)",
+      "**full_phrase**: copia el texto de la transcripción LITERALMENTE",
+      "**anchor_text**: las 1-3 palabras más importantes de full_phrase",
+      "**timestamps**: objeto con start_time y end_time en formato HH:MM:SS.SSS",
+    ],
+  },
+  placement: {
+    heading: "Reglas de colocación",
+    rules: [
+      "Coloca los marcadores [N] en línea, normalmente al final de una afirmación",
+      "Un marcador por cada idea, concepto o valor distinto",
+    ],
+    numbering: {
+      document: "Usa numeración secuencial empezando por [1]: cada cita recibe un número único",
+      audioVideo: "Usa numeración secuencial empezando por [1]",
+    },
+    dataBlockLast: "El bloque JSON DEBE aparecer al final de tu respuesta",
+    toolCall: "Llama a la herramienta para un marcador en cuanto lo hayas escrito",
+  },
+  presetRules: {
+    openai: {
+      dataBlock: "Escribe el bloque de citas como texto plano: NO lo envuelvas en un bloque de código ```",
+      toolCall:
+        "Cita solo mediante la herramienta `{tool}`: NO escribas datos de citas ni bloques de código en tu respuesta",
+    },
+    gemini: {
+      dataBlock: "Escribe cada frase y el bloque de citas una sola vez: NO los repitas",
+      toolCall: "Escribe cada frase una sola vez y llama a `{tool}` una vez por cita: NO las repitas",
+    },
+    small: {
+      dataBlock: "El bloque de citas debe ser JSON válido: comillas dobles, sin comas finales y sin comentarios",
+      toolCall:
+        "Los argumentos de `{tool}` deben ser JSON válido: comillas dobles, sin comas finales y sin comentarios",
+    },
+  },
+  example: {
+    heading: "Ejemplo de respuesta",
+    document: [
+      "La empresa registró un fuerte crecimiento [1].",
+      "Los ingresos aumentaron notablemente en el cuarto trimestre [2].",
+      "El competidor también creció [3].",
+    ],
+    audioVideo: ["El ponente habló de los beneficios del ejercicio [1].", "Recomendó técnicas concretas [2]."],
+  },
+  reminder: {
+    document:
+      "PARA y COMPRUEBA: ¿Has usado marcadores [N] en cada afirmación e incluido el bloque JSON <<<CITATION_DATA>>> al final?",
+    audioVideo:
+      "PARA y COMPRUEBA: ¿Has usado marcadores [N] en cada afirmación e incluido al final el bloque JSON <<<CITATION_DATA>>> con marcas de tiempo?",
+    toolCall:
+      "PARA y COMPRUEBA: ¿Has usado marcadores [N] en cada afirmación y llamado a la herramienta {tool} una vez por marcador?",
+  },
+};
+
+const DE_STRINGS: CitationPromptStrings = {
+  title: { document: "PFLICHT: Zitierformat", audioVideo: "PFLICHT: Zitierformat für Audio/Video" },
+  markers: {
+    heading: "Markierungen im Text",
+    document:
+      "Setze für jede Aussage, jeden Wert und jede Tatsache aus den Anhängen eine fortlaufende ganzzahlige Markierung wie [1], [2], [3] an das Ende der Aussage. Jede eigenständige Information braucht ihre eigene Markierungsnummer.",
+    audioVideo:
+      "Setze für jede Aussage, jeden Wert und jede Tatsache aus den Medieninhalten eine fortlaufende ganzzahlige Markierung wie [1], [2], [3] an das Ende der Aussage.",
+  },
+  dataBlock: {
+    heading: "Zitatdatenblock",
+    text: "Hänge am ENDE deiner Antwort einen Zitatblock an. Gruppiere die Zitate nach attachment_id, um Wiederholungen zu vermeiden.",
+    formatHeading: "Format",
+  },
+  tool: {
+    heading: "Zitierwerkzeug",
+    text: "Rufe für JEDE Markierung das Werkzeug `{tool}` einmal mit den Zitatdetails auf. Schreibe KEINEN <<<CITATION_DATA>>>-Block — die Werkzeugaufrufe ersetzen ihn.",
+  },
+  shorthand: {
+    heading: { document: "Kurzschlüssel (optional)", audioVideo: "Kurzform (optional)" },
+    document: "Um Tokens zu sparen: n=id, r=reasoning, f=full_phrase, k=anchor_text, p=page_id, l=line_ids",
+    audioVideo:
+      "Um Tokens zu sparen: n=id, r=reasoning, f=full_phrase, k=anchor_text, t=timestamps (mit s=start_time, e=end_time)",
+  },
+  fieldRules: {
+    heading: "Regeln für die JSON-Felder",
+    document: [
+      "**Gruppenschlüssel**: die attachment_id (exakte ID des Quelldokuments)",
+      "**id** (oder n): Jedes Zitat MUSS eine eindeutige ID haben, die zu seiner Markierung [N] passt. Verwende dieselbe ID NICHT für verschiedene Zitate.",
+      "**reasoning** (oder r): Kurze Begründung, wie das Zitat deine Aussage stützt (erst nachdenken!)",
+      "**full_phrase** (oder f): Kopiere den Text WÖRTLICH aus der Quelle. Maskiere Anführungszeichen korrekt für JSON.",
+      "**anchor_text** (oder k): Die 1-3 wichtigsten Wörter aus full_phrase",
+      '**page_id** (oder p): Format "page_number_N_index_I" mit N=Seitenzahl, I=Index (exakt aus den `<page_number_N_index_I>`-Tags der Quelle kopieren)',
+      "**line_ids** (oder l): Liste der Zeilen-IDs aus der Quelle (aus den Zeilenmarkierungen im Text kopieren). Gib die IDs aller relevanten Zeilen an.",
+    ],
+    audioVideo: [
+      "**Gruppenschlüssel**: die attachment_id (exakte ID des Quellmediums)",
+      "**id** (oder n): Muss zur Markierung [N] in deinem Text passen (ganze Zahl)",
+      "**reasoning** (oder r): Kurze Begründung, wie das Zitat deine Aussage stützt (erst nachdenken!)",
+      "**full_phrase** (oder f): Kopiere den Transkripttext WÖRTLICH. Maskiere ihn korrekt für JSON.",
+      "**anchor_text** (oder k): Die 1-3 wichtigsten Wörter aus full_phrase",
+      "**timestamps** (oder t): Objekt mit start_time/s und end_time/e im Format HH:MM:SS.SSS",
+    ],
+  },
+  toolArguments: {
+    heading: "Werkzeugargumente",
+    document: [
+      "**id**: Die Nummer der Markierung [N], die dieses Zitat belegt. Verwende dieselbe ID NICHT für verschiedene Zitate.",
+      "**attachment_id**: Die exakte ID des Quelldokuments",
+      "**reasoning**: Kurze Begründung, wie das Zitat deine Aussage stützt (erst nachdenken!)",
+      "**full_phrase**: Kopiere den Text WÖRTLICH aus der Quelle",
+      "**anchor_text**: Die 1-3 wichtigsten Wörter aus full_phrase",
+      '**page_id**: Format "page_number_N_index_I" mit N=Seitenzahl, I=Index (exakt aus den `<page_number_N_index_I>`-Tags der Quelle kopieren)',
+      "**line_ids**: Liste der Zeilen-IDs aus der Quelle (aus den Zeilenmarkierungen im Text kopieren). Gib die IDs aller relevanten Zeilen an.",
+    ],
+    audioVideo: [
+      "**id**: Die Nummer der Markierung [N], die dieses Zitat belegt (ganze Zahl)",
+      "**attachment_id**: Die exakte ID des Quellmediums",
+      "**reasoning**: Kurze Begründung, wie das Zitat deine Aussage stützt (erst nachdenken!)",
+      "**full_phrase**: Kopiere den Transkripttext WÖRTLICH",
+      "**anchor_text**: Die 1-3 wichtigsten Wörter aus full_phrase",
+      "**timestamps**: Objekt mit start_time und end_time im Format HH:MM:SS.SSS",
+    ],
+  },
+  placement: {
+    heading: "Platzierungsregeln",
+    rules: [
+      "Setze Markierungen [N] im Fließtext, in der Regel am Ende einer Aussage",
+      "Eine Markierung pro eigenständiger Idee, Konzept oder Wert",
+    ],
+    numbering: {
+      document: "Nummeriere fortlaufend ab [1] — jedes Zitat erhält eine eigene Nummer",
+      audioVideo: "Nummeriere fortlaufend ab [1]",
+    },
+    dataBlockLast: "Der JSON-Block MUSS ganz am Ende deiner Antwort stehen",
+    toolCall: "Rufe das Werkzeug für eine Markierung auf, sobald du sie geschrieben hast",
+  },
+  presetRules: {
+    openai: {
+      dataBlock: "Schreibe den Zitatblock als reinen Text — setze ihn NICHT in einen ```-Codeblock",
+      toolCall: "Zitiere nur über das Tool `{tool}` — schreibe KEINE Zitatdaten oder Codeblöcke in deine Antwort",
+    },
+    gemini: {
+      dataBlock: "Schreibe jeden Satz und den Zitatblock nur einmal — wiederhole sie NICHT",
+      toolCall: "Schreibe jeden Satz nur einmal und rufe `{tool}` einmal pro Zitat auf — wiederhole sie NICHT",
+    },
+    small: {
+      dataBlock:
+        "Der Zitatblock muss gültiges JSON sein: doppelte Anführungszeichen, keine abschließenden Kommas, keine Kommentare",
+      toolCall:
+        "Die Argumente von `{tool}` müssen gültiges JSON sein: doppelte Anführungszeichen, keine abschließenden Kommas, keine Kommentare",
+    },
+  },
+  example: {
+    heading: "Beispielantwort",
+    document: [
+      "Das Unternehmen meldete ein starkes Wachstum [1].",
+      "Der Umsatz stieg im vierten Quartal deutlich [2].",
+      "Auch der Wettbewerber wuchs [3].",
+    ],
+    audioVideo: ["Der Sprecher erläuterte die Vorteile von Bewegung [1].", "Er empfahl bestimmte Techniken [2]."],
+  },
+  reminder: {
+    document:
+      "STOPP und PRÜFEN: Hast du für jede Aussage [N]-Markierungen gesetzt und am Ende den JSON-Block <<<CITATION_DATA>>> angefügt?",
+    audioVideo:
+      "STOPP und PRÜFEN: Hast du für jede Aussage [N]-Markierungen gesetzt und am Ende den JSON-Block <<<CITATION_DATA>>> mit Zeitstempeln angefügt?",
+    toolCall:
+      "STOPP und PRÜFEN: Hast du für jede Aussage [N]-Markierungen gesetzt und das Werkzeug {tool} für jede Markierung einmal aufgerufen?",
+  },
+};
+
+/** Built-in prompt strings by locale. Copy one as the starting point for a custom translation. */
+export const CITATION_PROMPT_STRINGS: Readonly<Record<CitationPromptLocale, CitationPromptStrings>> = {
+  en: EN_STRINGS,
+  es: ES_STRINGS,
+  de: DE_STRINGS,
+};
+
+/** Semver build metadata identifiers: `[0-9A-Za-z-]+` separated by dots. */
+const VERSION_LABEL_PATTERN = /^[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*$/;
+
+const VERSION_ATTRIBUTE_PATTERN = /<citation-instructions\b[^>]*\bversion="([^"]+)"/;
+
+function section(heading: string, body: string): string {
+  return `### ${heading}\n${body}`;
+}
+
+/** Render example entries grouped by attachment, as in the data block format. */
+function renderExampleBlock(entries: Array<{ attachmentId: string; json: string }>): string {
+  const groups = new Map<string, string[]>();
+  for (const entry of entries) groups.set(entry.attachmentId, [...(groups.get(entry.attachmentId) ?? []), entry.json]);
+  const body = [...groups]
+    .map(([attachmentId, items]) => `  "${attachmentId}": [\n${items.map(item => `    ${item}`).join(",\n")}\n  ]`)
+    .join(",\n");
+  return `<<<CITATION_DATA>>>\n{\n${body}\n}\n<<<END_CITATION_DATA>>>`;
+}
+
+/**
+ * Build the citation instructions and reminder from the section template.
+ *
+ * With no options this is exactly `CITATION_PROMPT` / `CITATION_REMINDER`. Pass
+ * the result's `prompt` as the instructions and keep `version` with the
+ * conversation; `getCitationPromptVersion()` reads it back from a prompt.
+ *
+ * @param options - Variant, preset, language and section overrides
+ * @returns The prompt, reminder and version identifier
+ *
+ * @example
+ * ```typescript
+ * const { prompt, reminder, version } = buildCitationPrompt({
+ *   preset: "small",
+ *   locale: "de",
+ *   sections: { example: false },
+ *   versionLabel: "acme-3",
+ * });
+ * // version === "1.0.0+small.de.custom.acme-3"
+ * ```
+ */
+export function buildCitationPrompt(options: CitationPromptTemplateOptions = {}): CitationPromptTemplate {
+  const {
+    isAudioVideo = false,
+    citationMode = "data_block",
+    preset = "default",
+    locale = "en",
+    sections = {},
+  } = options;
+  const strings = typeof locale === "string" ? CITATION_PROMPT_STRINGS[locale] : locale;
+  const variant = isAudioVideo ? "audioVideo" : "document";
+  const toolMode = citationMode === "tool_call";
+  const withTool = (text: string) => text.replaceAll("{tool}", CITATION_TOOL_NAME);
+  const numbered = (items: string[]) => items.map((item, i) => `${i + 1}. ${item}`).join("\n");
+
+  const placementRules = [
+    ...strings.placement.rules,
+    strings.placement.numbering[variant],
+    toolMode ? strings.placement.toolCall : strings.placement.dataBlockLast,
+    ...(preset !== "default" ? [withTool(strings.presetRules[preset][toolMode ? "toolCall" : "dataBlock"])] : []),
+  ];
+  const exampleCount = preset === "small" ? 1 : undefined;
+  const exampleSentences = strings.example[variant].slice(0, exampleCount);
+  const exampleEntries = (isAudioVideo ? AV_EXAMPLE_ENTRIES : DOCUMENT_EXAMPLE_ENTRIES).slice(0, exampleCount);
+
+  const defaults: Record<CitationPromptSection, string | false> = {
+    markers: section(strings.markers.heading, strings.markers[variant]),
+    format: toolMode
+      ? section(strings.tool.heading, withTool(strings.tool.text))
+      : `${section(strings.dataBlock.heading, strings.dataBlock.text)}\n\n${section(
+          strings.dataBlock.formatHeading,
+          `\`\`\`\n${isAudioVideo ? AV_FORMAT : DOCUMENT_FORMAT}\n\`\`\``,
+        )}`,
+    shorthand:
+      !toolMode && preset !== "small" && section(strings.shorthand.heading[variant], strings.shorthand[variant]),
+    rules: toolMode
+      ? section(strings.toolArguments.heading, `\n${numbered(strings.toolArguments[variant])}`)
+      : section(strings.fieldRules.heading, `\n${numbered(strings.fieldRules[variant])}`),
+    placement: section(strings.placement.heading, `\n${placementRules.map(rule => `- ${rule}`).join("\n")}`),
+    example:
+      !toolMode &&
+      section(strings.example.heading, `\n${exampleSentences.join(" ")}\n\n${renderExampleBlock(exampleEntries)}`),
+  };
+
+  const order: CitationPromptSection[] = ["markers", "format", "shorthand", "rules", "placement", "example"];
+  const body = order
+    .map(name => (sections[name] !== undefined ? sections[name] : defaults[name]))
+    .filter((text): text is string => typeof text === "string" && text.trim() !== "")
+    .map(text => text.trim())
+    .join("\n\n");
+
+  const { versionLabel } = options;
+  if (versionLabel !== undefined && !VERSION_LABEL_PATTERN.test(versionLabel)) {
+    throw new Error(
+      `Invalid citation prompt versionLabel "${versionLabel}": use letters, digits and hyphens, separated by dots`,
+    );
+  }
+  const customized = typeof locale !== "string" || Object.values(sections).some(text => text !== undefined);
+  const labels = [
+    preset !== "default" && preset,
+    typeof locale === "string" && locale !== "en" && locale,
+    customized && "custom",
+    versionLabel,
+  ].filter((label): label is string => typeof label === "string" && label !== "");
+  const version = labels.length > 0 ? `${CITATION_PROMPT_VERSION}+${labels.join(".")}` : CITATION_PROMPT_VERSION;
+
+  const title = strings.title[variant];
+  const prompt = `<citation-instructions priority="critical" version="${version}">\n## ${title}\n\n${body}\n</citation-instructions>`;
+  const reminder = `<citation-reminder>${withTool(toolMode ? strings.reminder.toolCall : strings.reminder[variant])}</citation-reminder>`;
+
+  return { prompt, reminder, version };
+}
+
+/**
+ * Read the citation prompt version from a prompt (or a system prompt containing it).
+ *
+ * @param prompt - Text containing a `<citation-instructions version="...">` tag
+ * @returns The version, or undefined when the text has no versioned instructions
+ */
+export function getCitationPromptVersion(prompt: string): string | undefined {
+  return prompt.match(VERSION_ATTRIBUTE_PATTERN)?.[1];
+}
@@ -11,6 +11,13 @@
  * - **Token Efficiency**: ~40% reduction in tokens per citation
  */
 
+import { splitDeepTextPages } from "../parsing/deepText.js";
+import {
+  buildCitationPrompt,
+  CITATION_TOOL_NAME,
+  type CitationPromptTemplateOptions,
+} from "./citationPromptTemplate.js";
+
 /** Start delimiter for the citation data block */
 export const CITATION_DATA_START_DELIMITER = "<<<CITATION_DATA>>>";
 
@@ -21,70 +28,13 @@ export const CITATION_DATA_END_DELIMITER = "<<<END_CITATION_DATA>>>";
  * Citation prompt for document-based citations.
  * Uses [N] markers in text with JSON metadata at the end.
  * Citations are grouped by attachment_id to avoid repetition.
+ * Built with {@link buildCitationPrompt}'s defaults.
  *
  * Shorthand key mapping (optional):
  * - n: id, r: reasoning, f: full_phrase
  * - k: anchor_text, p: page_id, l: line_ids
  */
-export const CITATION_PROMPT = `
-<citation-instructions priority="critical">
-## REQUIRED: Citation Format
-
-### In-Text Markers
-For every claim, value, or fact from attachments, place a sequential integer marker like [1], [2], [3] at the end of the claim. Each distinct piece of information needs its own unique marker number.
-
-### Citation Data Block
-At the END of your response, append a citation block. Group citations by attachment_id to avoid repetition.
-
-### Format
-\`\`\`
-<<<CITATION_DATA>>>
-{
-  "attachment_id_here": [
-    {"id": 1, "reasoning": "why", "full_phrase": "quote", "anchor_text": "key", "page_id": "page_number_2_index_1", "line_ids": [12]}
-  ]
-}
-<<<END_CITATION_DATA>>>
-\`\`\`
-
-### Shorthand Keys (Optional)
-To save tokens: n=id, r=reasoning, f=full_phrase, k=anchor_text, p=page_id, l=line_ids
-
-### JSON Field Rules
-
-1. **Group key**: The attachment_id (exact ID from source document)
-2. **id** (or n): Each citation MUST have a unique ID matching its [N] marker. Do NOT reuse the same ID for different citations.
-3. **reasoning** (or r): Brief explanation connecting the citation to your claim (think first!)
-4. **full_phrase** (or f): Copy text VERBATIM from source. Use proper JSON escaping for quotes.
-5. **anchor_text** (or k): The 1-3 most important words from full_phrase
-6. **page_id** (or p): Format "page_number_N_index_I" where N=page number, I=index (copy exactly from \`<page_number_N_index_I>\` tags in the source)
-7. **line_ids** (or l): Array of line IDs from the source (copy from line ID markers in the text). Include IDs for all relevant lines.
-
-### Placement Rules
-
-- Place [N] markers inline, typically at the end of a claim
-- One marker per distinct idea, concept, or value
-- Use sequential numbering starting from [1] - each citation gets a unique number
-- The JSON block MUST appear at the very end of your response
-
-### Example Response
-
-The company reported strong growth [1]. Revenue increased significantly in Q4 [2]. The competitor also grew [3].
-
-<<<CITATION_DATA>>>
-{
-  "abc123": [
-    {"id": 1, "reasoning": "directly states growth metrics", "full_phrase": "The company achieved 45% year-over-year growth", "anchor_text": "45% year-over-year growth", "page_id": "page_number_2_index_1", "line_ids": [12, 13]},
-    {"id": 2, "reasoning": "states Q4 revenue figure", "full_phrase": "Q4 revenue reached $2.3 billion, up from $1.8 billion", "anchor_text": "$2.3 billion", "page_id": "page_number_3_index_2", "line_ids": [5, 6, 7]}
-  ],
-  "def456": [
-    {"id": 3, "reasoning": "competitor data", "full_phrase": "Competitor X reported 20% growth", "anchor_text": "20% growth", "page_id": "page_number_1_index_0", "line_ids": [8]}
-  ]
-}
-<<<END_CITATION_DATA>>>
-</citation-instructions>
-
-`;
+export const CITATION_PROMPT = buildCitationPrompt().prompt;
 
 /**
  * Citation prompt for audio/video content.
@@ -95,78 +45,61 @@ The company reported strong growth [1]. Revenue increased significantly in Q4 [2
  * - n: id, r: reasoning, f: full_phrase
  * - k: anchor_text, t: timestamps (with s: start_time, e: end_time)
  */
-export const AV_CITATION_PROMPT = `
-<citation-instructions priority="critical">
-## REQUIRED: Audio/Video Citation Format
-
-### In-Text Markers
-For every claim, value, or fact from media content, place a sequential integer marker like [1], [2], [3] at the end of the claim.
-
-### Citation Data Block
-At the END of your response, append a citation block. Group citations by attachment_id to avoid repetition.
-
-### Format
-\`\`\`
-<<<CITATION_DATA>>>
-{
-  "attachment_id_here": [
-    {"id": 1, "reasoning": "why", "full_phrase": "quote", "anchor_text": "key", "timestamps": {"start_time": "HH:MM:SS.SSS", "end_time": "HH:MM:SS.SSS"}}
-  ]
-}
-<<<END_CITATION_DATA>>>
-\`\`\`
+export const AV_CITATION_PROMPT = buildCitationPrompt({ isAudioVideo: true }).prompt;
 
-### Shorthand (Optional)
-To save tokens: n=id, r=reasoning, f=full_phrase, k=anchor_text, t=timestamps (with s=start_time, e=end_time)
-
-### JSON Field Rules
-
-1. **Group key**: The attachment_id (exact ID from source media)
-2. **id** (or n): Must match the [N] marker in your text (integer)
-3. **reasoning** (or r): Brief explanation connecting the citation to your claim (think first!)
-4. **full_phrase** (or f): Copy transcript text VERBATIM. Use proper JSON escaping.
-5. **anchor_text** (or k): The 1-3 most important words from full_phrase
-6. **timestamps** (or t): Object with start_time/s and end_time/e in HH:MM:SS.SSS format
-
-### Placement Rules
-
-- Place [N] markers inline, typically at the end of a claim
-- One marker per distinct idea, concept, or value
-- Use sequential numbering starting from [1]
-- The JSON block MUST appear at the very end of your response
+/**
+ * A brief reminder to reinforce citation requirements in user messages.
+ * Use this when you want to add emphasis without repeating full instructions.
+ */
+export const CITATION_REMINDER = buildCitationPrompt().reminder;
 
-### Example Response
+/**
+ * Audio/video version of the citation reminder.
+ */
+export const CITATION_AV_REMINDER = buildCitationPrompt({ isAudioVideo: true }).reminder;
 
-The speaker discussed exercise benefits [1]. They recommended specific techniques [2].
+export { CITATION_TOOL_NAME };
 
-<<<CITATION_DATA>>>
-{
-  "video123": [
-    {"id": 1, "reasoning": "speaker directly states health benefits", "full_phrase": "Regular exercise improves cardiovascular health by 30%", "anchor_text": "cardiovascular health", "timestamps": {"start_time": "00:05:23.000", "end_time": "00:05:45.500"}},
-    {"id": 2, "reasoning": "demonstrates proper form", "full_phrase": "Keep your back straight and engage your core", "anchor_text": "engage your core", "timestamps": {"start_time": "00:12:10.200", "end_time": "00:12:25.800"}}
-  ]
-}
-<<<END_CITATION_DATA>>>
-</citation-instructions>
+/**
+ * Citation prompt for tool-call citation mode (document citations).
+ * Uses [N] markers in text, with one `cite` tool call per marker instead of a trailing data block,
+ * so citations already made survive a response cut off at max_tokens.
+ */
+export const CITATION_TOOL_PROMPT = buildCitationPrompt({ citationMode: "tool_call" }).prompt;
 
-`;
+/**
+ * Citation prompt for tool-call citation mode (audio/video citations).
+ */
+export const AV_CITATION_TOOL_PROMPT = buildCitationPrompt({ isAudioVideo: true, citationMode: "tool_call" }).prompt;
 
 /**
- * A brief reminder to reinforce citation requirements in user messages.
- * Use this when you want to add emphasis without repeating full instructions.
+ * Reminder for tool-call citation mode.
  */
-export const CITATION_REMINDER = `<citation-reminder>STOP and CHECK: Did you use [N] markers for every claim and include the <<<CITATION_DATA>>> JSON block at the end?</citation-reminder>`;
+export const CITATION_TOOL_REMINDER = buildCitationPrompt({ citationMode: "tool_call" }).reminder;
 
 /**
- * Audio/video version of the citation reminder.
+ * How the LLM returns citation details.
+ * - `"data_block"`: a `<<<CITATION_DATA>>>` JSON block at the end of the response (default)
+ * - `"tool_call"`: one `cite` tool call per marker; pass the tool from {@link createCitationTool}
+ *   and parse with `parseCitationToolCalls()`
  */
-export const CITATION_AV_REMINDER = `<citation-reminder>STOP and CHECK: Did you use [N] markers for every claim and include the <<<CITATION_DATA>>> JSON block with timestamps at the end?</citation-reminder>`;
+export type CitationMode = "data_block" | "tool_call";
 
 export interface WrapSystemPromptOptions {
   /** The original system prompt to wrap with citation instructions */
   systemPrompt: string;
   /** Whether to use audio/video citation format (with timestamps) instead of text-based (with line IDs) */
   isAudioVideo?: boolean;
+  /**
+   * How the LLM returns citation details.
+   * @default "data_block"
+   */
+  citationMode?: CitationMode;
+  /**
+   * Preset, language and section overrides for the citation instructions.
+   * See {@link buildCitationPrompt}; the media type and mode come from the options above.
+   */
+  template?: Omit<CitationPromptTemplateOptions, "isAudioVideo" | "citationMode">;
 }
 
 export interface WrapCitationPromptOptions {
@@ -176,8 +109,36 @@ export interface WrapCitationPromptOptions {
   userPrompt: string;
   /** The extracted file text with metadata (from uploadFile response). Can be a single string or array for multiple files. */
   deepTextPromptPortion?: string | string[];
+  /**
+   * Token budget for the enhanced system and user prompts together. When the
+   * attachment text does not fit, whole pages are left out — highest `pageRelevance`
+   * kept first — and the most relevant page that did not fit is cut at a line
+   * boundary to fill the rest of the budget. Page and line markup stays intact, so
+   * citations stay verifiable. Left out and cut pages are reported in `droppedPages`.
+   */
+  maxPromptTokens?: number;
+  /**
+   * Token counter used with `maxPromptTokens`, e.g. a tiktoken encoder's length.
+   * Defaults to an estimate of 4 characters per token.
+   */
+  estimateTokens?: (text: string) => number;
+  /**
+   * Scores a page for `maxPromptTokens` packing; higher scores are kept first.
+   * Defaults to document order (earlier pages first).
+   */
+  pageRelevance?: (page: PromptPage) => number;
   /** Whether to use audio/video citation format (with timestamps) instead of text-based (with line IDs) */
   isAudioVideo?: boolean;
+  /**
+   * How the LLM returns citation details.
+   * @default "data_block"
+   */
+  citationMode?: CitationMode;
+  /**
+   * Preset, language and section overrides for the citation instructions.
+   * See {@link buildCitationPrompt}; the media type and mode come from the options above.
+   */
+  template?: Omit<CitationPromptTemplateOptions, "isAudioVideo" | "citationMode">;
 }
 
 export interface WrapCitationPromptResult {
@@ -185,6 +146,35 @@ export interface WrapCitationPromptResult {
   enhancedSystemPrompt: string;
   /** Enhanced user prompt (currently passed through unchanged) */
   enhancedUserPrompt: string;
+  /** Version of the citation instructions used; store it to correlate responses with the prompt */
+  promptVersion: string;
+  /** Estimated tokens of both enhanced prompts. Present when `maxPromptTokens` is set. */
+  estimatedTokens?: number;
+  /** Pages left out to fit `maxPromptTokens`, in document order. Present when `maxPromptTokens` is set. */
+  droppedPages?: DroppedPromptPage[];
+}
+
+/** A page of attachment text, as scored by `pageRelevance`. */
+export interface PromptPage {
+  /** Attachment ID from the `<attachment_text>` wrapper, if any */
+  attachmentId?: string;
+  /** Page number. Undefined when the attachment text has no page markers. */
+  pageNumber?: number;
+  /** Page text including its page and line markup */
+  text: string;
+  /** Index of the `deepTextPromptPortion` entry the page came from */
+  portionIndex: number;
+}
+
+/** A page left out of the prompt, or cut short, by `maxPromptTokens` packing. */
+export interface DroppedPromptPage {
+  attachmentId?: string;
+  pageNumber?: number;
+  portionIndex: number;
+  /** Estimated tokens the whole page would have used */
+  estimatedTokens: number;
+  /** The page was cut at a line boundary: its first lines are in the prompt, the rest is not */
+  truncated?: boolean;
 }
 
 /**
@@ -231,13 +221,11 @@ export interface WrapCitationPromptResult {
  * ```
  */
 export function wrapSystemCitationPrompt(options: WrapSystemPromptOptions): string {
-  const { systemPrompt, isAudioVideo = false } = options;
-
-  const citationPrompt = isAudioVideo ? AV_CITATION_PROMPT : CITATION_PROMPT;
-  const reminder = isAudioVideo ? CITATION_AV_REMINDER : CITATION_REMINDER;
+  const { systemPrompt, isAudioVideo = false, citationMode = "data_block", template } = options;
+  const { prompt, reminder } = buildCitationPrompt({ ...template, isAudioVideo, citationMode });
 
   // Full instructions at start (high priority), brief reminder at end (recency effect)
-  return `${citationPrompt.trim()}\n\n${systemPrompt.trim()}\n\n${reminder}`;
+  return `${prompt}\n\n${systemPrompt.trim()}\n\n${reminder}`;
 }
 
 /**
@@ -272,35 +260,184 @@ export function wrapSystemCitationPrompt(options: WrapSystemPromptOptions): stri
  * ```
  */
 export function wrapCitationPrompt(options: WrapCitationPromptOptions): WrapCitationPromptResult {
-  const { systemPrompt, userPrompt, deepTextPromptPortion, isAudioVideo = false } = options;
+  const {
+    systemPrompt,
+    userPrompt,
+    deepTextPromptPortion,
+    isAudioVideo = false,
+    citationMode = "data_block",
+    maxPromptTokens,
+    estimateTokens = estimateTokensFromLength,
+    pageRelevance,
+    template,
+  } = options;
 
   const enhancedSystemPrompt = wrapSystemCitationPrompt({
     systemPrompt,
     isAudioVideo,
+    citationMode,
+    template,
   });
 
-  const reminder = isAudioVideo ? CITATION_AV_REMINDER : CITATION_REMINDER;
+  const { reminder, version: promptVersion } = buildCitationPrompt({ ...template, isAudioVideo, citationMode });
 
   // Build enhanced user prompt with file content if provided
   let enhancedUserPrompt = userPrompt;
 
-  if (deepTextPromptPortion) {
-    const fileTexts = Array.isArray(deepTextPromptPortion) ? deepTextPromptPortion : [deepTextPromptPortion];
-    const fileContent = fileTexts
-      .map(text => {
-        return `\n${text}`;
-      })
-      .join("\n\n");
+  let droppedPages: DroppedPromptPage[] = [];
 
-    enhancedUserPrompt = `${fileContent}\n\n${reminder}\n\n${userPrompt}`;
+  if (deepTextPromptPortion) {
+    let fileTexts = Array.isArray(deepTextPromptPortion) ? deepTextPromptPortion : [deepTextPromptPortion];
+    const buildUserPrompt = (texts: string[]) => {
+      const fileContent = texts
+        .map(text => {
+          return `\n${text}`;
+        })
+        .join("\n\n");
+      return `${fileContent}\n\n${reminder}\n\n${userPrompt}`;
+    };
+
+    if (maxPromptTokens !== undefined) {
+      // Everything except the attachment text: system prompt, reminder, user prompt and separators
+      const fixedTokens =
+        estimateTokens(enhancedSystemPrompt) + estimateTokens(buildUserPrompt(fileTexts.map(() => "")));
+      ({ fileTexts, droppedPages } = packPromptPages(
+        fileTexts,
+        maxPromptTokens - fixedTokens,
+        estimateTokens,
+        pageRelevance,
+      ));
+    }
+
+    enhancedUserPrompt = buildUserPrompt(fileTexts);
   }
 
   return {
     enhancedSystemPrompt,
     enhancedUserPrompt,
+    promptVersion,
+    ...(maxPromptTokens !== undefined && {
+      estimatedTokens: estimateTokens(enhancedSystemPrompt) + estimateTokens(enhancedUserPrompt),
+      droppedPages,
+    }),
   };
 }
 
+/** Default token estimate: roughly 4 characters per token for English text. */
+function estimateTokensFromLength(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const PAGE_CLOSE_PATTERN = /^\s*<\/page_number_\d+_index_\d+>\s*$/;
+
+/**
+ * Cut a page at a line boundary to fit `budget` tokens, keeping its page marker
+ * and closing tag and never splitting a `<line>` element. Returns undefined when
+ * not even one line fits.
+ */
+function trimPageToFit(page: PromptPage, budget: number, estimateTokens: (text: string) => number): string | undefined {
+  const lines = page.text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const start = page.pageNumber !== undefined ? 1 : 0;
+  let end = lines.length;
+  while (end > start && (lines[end - 1].trim() === "" || PAGE_CLOSE_PATTERN.test(lines[end - 1]))) end--;
+  const head = lines.slice(0, start).join("");
+  const tail = lines.slice(end).join("");
+
+  const cuts: number[] = [];
+  let openLines = 0;
+  for (let i = start; i < end; i++) {
+    openLines += (lines[i].match(/<line\b/g)?.length ?? 0) - (lines[i].match(/<\/line>/g)?.length ?? 0);
+    if (openLines <= 0) cuts.push(i + 1);
+  }
+
+  // Most lines that fit, by binary search over the cut points
+  let best: string | undefined;
+  let low = 0;
+  let high = cuts.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const text = `${head}${lines.slice(start, cuts[mid]).join("")}${tail}`;
+    if (estimateTokens(text) <= budget) {
+      best = text;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Select whole pages to fit `budget` tokens, most relevant first, and fill the
+ * rest with the first lines of the most relevant page that did not fit. Then
+ * rebuild each portion with the pages in their original order. Wrapper tags and
+ * text outside pages always count against the budget.
+ */
+function packPromptPages(
+  fileTexts: string[],
+  budget: number,
+  estimateTokens: (text: string) => number,
+  pageRelevance?: (page: PromptPage) => number,
+): { fileTexts: string[]; droppedPages: DroppedPromptPage[] } {
+  const portions = fileTexts.map(splitDeepTextPages);
+  const candidates: Array<{ page: PromptPage; tokens: number; order: number; score: number }> = [];
+  let remaining = budget;
+
+  portions.forEach((attachments, portionIndex) => {
+    for (const attachment of attachments) {
+      remaining -= estimateTokens(attachment.prefix) + estimateTokens(attachment.suffix);
+      for (const { pageNumber, text } of attachment.pages) {
+        const page: PromptPage = { attachmentId: attachment.attachmentId, pageNumber, text, portionIndex };
+        candidates.push({
+          page,
+          tokens: estimateTokens(text),
+          order: candidates.length,
+          score: pageRelevance?.(page) ?? 0,
+        });
+      }
+    }
+  });
+
+  // Greedy by relevance, stable for ties: a page that does not fit is skipped, smaller ones may still fit
+  const kept = new Set<PromptPage>();
+  const ranked = [...candidates].sort((a, b) => b.score - a.score || a.order - b.order);
+  for (const candidate of ranked) {
+    if (candidate.tokens > remaining) continue;
+    remaining -= candidate.tokens;
+    kept.add(candidate.page);
+  }
+
+  const trimmed = new Map<PromptPage, string>();
+  const firstSkipped = ranked.find(candidate => !kept.has(candidate.page));
+  const trimmedText = firstSkipped && trimPageToFit(firstSkipped.page, remaining, estimateTokens);
+  if (firstSkipped && trimmedText) trimmed.set(firstSkipped.page, trimmedText);
+
+  const droppedPages = candidates
+    .filter(candidate => !kept.has(candidate.page))
+    .map(({ page, tokens }) => ({
+      attachmentId: page.attachmentId,
+      pageNumber: page.pageNumber,
+      portionIndex: page.portionIndex,
+      estimatedTokens: tokens,
+      ...(trimmed.has(page) && { truncated: true }),
+    }));
+
+  let cursor = 0;
+  const packed = portions.map(attachments =>
+    attachments
+      .map(attachment => {
+        const pages = attachment.pages
+          .map(() => candidates[cursor++].page)
+          .filter(page => kept.has(page) || trimmed.has(page))
+          .map(page => trimmed.get(page) ?? page.text);
+        return `${attachment.prefix}${pages.join("")}${attachment.suffix}`;
+      })
+      .join(""),
+  );
+
+  return { fileTexts: packed, droppedPages };
+}
+
 /**
  * JSON schema for citation data (for structured output LLMs).
  * This can be used with OpenAI's response_format or similar features.
@@ -385,6 +522,90 @@ export const CITATION_AV_JSON_OUTPUT_FORMAT = {
   required: ["id", "attachment_id", "full_phrase", "anchor_text", "timestamps"],
 } as const;
 
+/** Provider formats supported by {@link createCitationTool}. */
+export type CitationToolProvider = "openai" | "openai_responses" | "anthropic" | "gemini";
+
+/** JSON schema for the citation tool's arguments. */
+export type CitationToolParameters = typeof CITATION_JSON_OUTPUT_FORMAT | typeof CITATION_AV_JSON_OUTPUT_FORMAT;
+
+/** OpenAI Chat Completions function tool. */
+export interface OpenAICitationTool {
+  type: "function";
+  function: { name: string; description: string; parameters: CitationToolParameters };
+}
+
+/** OpenAI Responses API function tool. */
+export interface OpenAIResponsesCitationTool {
+  type: "function";
+  name: string;
+  description: string;
+  parameters: CitationToolParameters;
+}
+
+/** Anthropic Messages API tool. */
+export interface AnthropicCitationTool {
+  name: string;
+  description: string;
+  input_schema: CitationToolParameters;
+}
+
+/** Gemini function declaration (pass inside `tools: [{ functionDeclarations: [...] }]`). */
+export interface GeminiCitationTool {
+  name: string;
+  description: string;
+  parameters: CitationToolParameters;
+}
+
+export interface CreateCitationToolOptions {
+  /** Use the audio/video schema (with timestamps) instead of pages and line IDs */
+  isAudioVideo?: boolean;
+}
+
+const CITATION_TOOL_DESCRIPTION =
+  "Record the source of one [N] citation marker in your answer. Call once for every marker, with a verbatim quote from the source.";
+
+/**
+ * Creates the citation tool definition for tool-call citation mode, in a provider's tool format.
+ * The argument schema is {@link CITATION_JSON_OUTPUT_FORMAT} (or the AV variant).
+ *
+ * @example
+ * ```typescript
+ * const system = wrapSystemCitationPrompt({ systemPrompt, citationMode: "tool_call" });
+ * const message = await anthropic.messages.create({
+ *   system,
+ *   tools: [createCitationTool("anthropic")],
+ *   // ...
+ * });
+ * const parsed = parseCitationToolCalls(message);
+ * ```
+ */
+export function createCitationTool(provider: "openai", options?: CreateCitationToolOptions): OpenAICitationTool;
+export function createCitationTool(
+  provider: "openai_responses",
+  options?: CreateCitationToolOptions,
+): OpenAIResponsesCitationTool;
+export function createCitationTool(provider: "anthropic", options?: CreateCitationToolOptions): AnthropicCitationTool;
+export function createCitationTool(provider: "gemini", options?: CreateCitationToolOptions): GeminiCitationTool;
+export function createCitationTool(
+  provider: CitationToolProvider,
+  options: CreateCitationToolOptions = {},
+): OpenAICitationTool | OpenAIResponsesCitationTool | AnthropicCitationTool | GeminiCitationTool {
+  const parameters = options.isAudioVideo ? CITATION_AV_JSON_OUTPUT_FORMAT : CITATION_JSON_OUTPUT_FORMAT;
+  const name = CITATION_TOOL_NAME;
+  const description = CITATION_TOOL_DESCRIPTION;
+
+  switch (provider) {
+    case "openai":
+      return { type: "function", function: { name, description, parameters } };
+    case "openai_responses":
+      return { type: "function", name, description, parameters };
+    case "anthropic":
+      return { name, description, input_schema: parameters };
+    case "gemini":
+      return { name, description, parameters };
+  }
+}
+
 /**
  * Compact citation data format from LLM output.
  * Uses single-character keys for token efficiency.
@@ -456,4 +677,6 @@ export interface ParsedCitationResponse {
   success: boolean;
   /** Error message if parsing failed */
   error?: string;
+  /** JSON repairs applied to the data block (e.g., "removed trailing commas"), if any */
+  repairs?: string[];
 }
@@ -0,0 +1,259 @@
+/**
+ * Citation Repair Prompts
+ *
+ * Builds a targeted follow-up message when an LLM response has malformed or
+ * unverifiable citations, and merges the model's corrected citation block back
+ * into the original response. Only the broken citations are re-requested, so the
+ * answer text is kept and the repair round-trip stays small.
+ */
+
+import { citationDataToCitation, getCitationMarkerIds, parseCitationData } from "../parsing/citationParser.js";
+import { type CitationLintCode, lintCitationResponse } from "../parsing/lintCitationResponse.js";
+import type { Verification } from "../types/verification.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import {
+  CITATION_DATA_END_DELIMITER,
+  CITATION_DATA_START_DELIMITER,
+  type CitationData,
+  type ParsedCitationResponse,
+} from "./citationPrompts.js";
+
+/** Identifies the kind of problem a repair issue reports. */
+export type CitationRepairCode =
+  /** A structural problem found by `lintCitationResponse()` */
+  | CitationLintCode
+  /** Verification did not find the quote */
+  | "quote_not_found"
+  /** Verification found only part of the quote */
+  | "partial_quote"
+  /** Verification found the quote but not its anchor text */
+  | "anchor_text_not_found"
+  /** Verification found the quote on a different page */
+  | "wrong_page"
+  /** Verification found the quote on different lines of the cited page */
+  | "wrong_line";
+
+/** A single problem the repair prompt asks the model to fix. */
+export interface CitationRepairIssue {
+  code: CitationRepairCode;
+  /** Instruction for the model, as written into the prompt */
+  message: string;
+  /** Citation id (`[N]` number) the issue relates to */
+  citationId?: number;
+}
+
+/** Options for {@link buildCitationRepairPrompt}. */
+export interface BuildCitationRepairPromptOptions {
+  /** The LLM response to repair */
+  llmOutput: string;
+  /** `parseCitationData(llmOutput)`, if already computed */
+  parseResult?: ParsedCitationResponse;
+  /** Verification results keyed by citationKey. Enables quote, page and line issues. */
+  verifications?: Record<string, Verification>;
+  /** Attachment text given to the LLM. Enables the page, line and attachment id checks. */
+  deepTextPromptPortion?: string | string[];
+  /** IDs of the attachments the LLM was given */
+  attachmentIds?: string[];
+}
+
+/** Result of {@link buildCitationRepairPrompt}. */
+export interface CitationRepairPrompt {
+  /** True when at least one citation needs repair */
+  needsRepair: boolean;
+  /** Follow-up user message to send to the model. Empty when nothing needs repair. */
+  prompt: string;
+  /** Problems found, in the order they appear in the prompt */
+  issues: CitationRepairIssue[];
+  /** Citation ids the model is asked to re-emit */
+  citationIds: number[];
+}
+
+/** Result of {@link mergeCitationRepair}. */
+export interface MergedCitationRepair {
+  /** False when the repair output had no parseable citation data; `llmOutput` is then unchanged */
+  success: boolean;
+  /** The original response with the corrected citation block */
+  llmOutput: string;
+  /** Citation ids replaced or added from the repair output */
+  updatedIds: number[];
+  /** Why the repair output could not be parsed */
+  error?: string;
+}
+
+/** Lint codes that mean the whole data block has to be re-sent. */
+const BLOCK_LEVEL_CODES = new Set<CitationRepairCode>(["invalid_json", "missing_data_block"]);
+
+/** Describe a verification problem for one citation, or undefined when it verified. */
+function describeVerification(
+  citationId: number,
+  data: CitationData,
+  verification: Verification,
+): CitationRepairIssue | undefined {
+  const { pageNumber, lineIds } = citationDataToCitation(data);
+  const onPage = pageNumber ? ` on page ${pageNumber}` : "";
+  const foundPage = verification.document?.verifiedPageNumber;
+  const foundLines = verification.document?.verifiedLineIds;
+
+  switch (verification.status) {
+    case "not_found":
+      return {
+        code: "quote_not_found",
+        citationId,
+        message: `The quote for [${citationId}] was not found${onPage}. Re-quote it verbatim from the attachment, with the page_id and line_ids where it appears.`,
+      };
+    case "partial_text_found":
+    case "first_word_found":
+    case "found_anchor_text_only":
+      return {
+        code: "partial_quote",
+        citationId,
+        message: `Only part of the quote for [${citationId}] was found${onPage}. Re-quote the full_phrase verbatim, without paraphrasing or joining separate passages.`,
+      };
+    case "found_phrase_missed_anchor_text":
+      return {
+        code: "anchor_text_not_found",
+        citationId,
+        message: `The anchor_text for [${citationId}] was not found in its quote. Pick 1-3 words copied exactly from the full_phrase.`,
+      };
+    case "found_on_other_page":
+      return {
+        code: "wrong_page",
+        citationId,
+        message: `The quote for [${citationId}] is on ${foundPage ? `page ${foundPage}` : "a different page"}, not page ${pageNumber ?? "given"}. Correct its page_id and line_ids.`,
+      };
+    case "found_on_other_line":
+      return {
+        code: "wrong_line",
+        citationId,
+        message: `The quote for [${citationId}] is on ${foundLines?.length ? `line(s) ${foundLines.join(", ")}` : "different lines"}${onPage}, not line(s) ${lineIds?.join(", ") || "given"}. Correct its line_ids.`,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build a follow-up message asking the model to fix its broken citations.
+ *
+ * Structural problems come from `lintCitationResponse()`; quote, page and line
+ * problems come from `verifications`. The prompt asks for a corrected
+ * `<<<CITATION_DATA>>>` block containing only the affected citations — or every
+ * citation when the original block was missing or unparseable — which
+ * {@link mergeCitationRepair} folds back into the response.
+ *
+ * @param options - The response, its parse result, verifications and attachment text
+ * @returns The prompt, the issues it lists and the citation ids it asks for
+ *
+ * @example
+ * ```typescript
+ * const repair = buildCitationRepairPrompt({ llmOutput, verifications, deepTextPromptPortion });
+ * if (repair.needsRepair) {
+ *   const followUp = await llm.chat([...messages, { role: "assistant", content: llmOutput }, { role: "user", content: repair.prompt }]);
+ *   llmOutput = mergeCitationRepair(llmOutput, followUp).llmOutput;
+ * }
+ * ```
+ */
+export function buildCitationRepairPrompt(options: BuildCitationRepairPromptOptions): CitationRepairPrompt {
+  const { llmOutput, verifications = {}, deepTextPromptPortion, attachmentIds } = options;
+  const parseResult = options.parseResult ?? parseCitationData(llmOutput);
+  const issues: CitationRepairIssue[] = [];
+
+  const lint = lintCitationResponse(llmOutput, { deepTextPromptPortion, attachmentIds, parseResult });
+  for (const diagnostic of lint.diagnostics) {
+    if (diagnostic.severity !== "error") continue;
+    issues.push({
+      code: diagnostic.code,
+      message: diagnostic.message,
+      ...(diagnostic.citationId !== undefined && { citationId: diagnostic.citationId }),
+    });
+  }
+
+  for (const data of parseResult.citations) {
+    const citation = citationDataToCitation(data);
+    if (!citation.fullPhrase) continue;
+    const verification = verifications[getCitationKey(citation)];
+    const issue = verification && describeVerification(data.id, data, verification);
+    if (issue) issues.push(issue);
+  }
+
+  if (issues.length === 0) {
+    return { needsRepair: false, prompt: "", issues, citationIds: [] };
+  }
+
+  const wholeBlock = issues.some(issue => BLOCK_LEVEL_CODES.has(issue.code));
+  const citationIds = wholeBlock
+    ? [...new Set(getCitationMarkerIds(parseResult.visibleText))].sort((a, b) => a - b)
+    : [...new Set(issues.flatMap(issue => (issue.citationId === undefined ? [] : [issue.citationId])))].sort(
+        (a, b) => a - b,
+      );
+
+  const scope = wholeBlock
+    ? "for every [N] marker in your answer"
+    : `only for citation${citationIds.length === 1 ? "" : "s"} ${citationIds.map(id => `[${id}]`).join(", ")}`;
+  const prompt = [
+    "Some citations in your previous answer need fixing:",
+    "",
+    ...issues.map(issue => `- ${issue.message}`),
+    "",
+    `Reply with only a corrected ${CITATION_DATA_START_DELIMITER} block, with entries ${scope}. Keep the same ids and JSON format as before, copy every full_phrase verbatim from the attachment, and end with ${CITATION_DATA_END_DELIMITER}. Do not repeat your answer text.`,
+  ].join("\n");
+
+  return { needsRepair: true, prompt, issues, citationIds };
+}
+
+/**
+ * Fill in what a targeted repair usually leaves out from the original entry with
+ * the same id: the attachment id, and the page and lines when the repair keeps
+ * the original page.
+ */
+function fillFromOriginal(data: CitationData, original: CitationData | undefined): CitationData {
+  if (!original) return data;
+  const samePage = data.page_id === undefined || data.page_id === original.page_id;
+  return {
+    ...(original.attachment_id !== undefined && { attachment_id: original.attachment_id }),
+    ...(samePage && original.page_id !== undefined && { page_id: original.page_id }),
+    ...(samePage && original.line_ids !== undefined && { line_ids: original.line_ids }),
+    ...(original.timestamps !== undefined && { timestamps: original.timestamps }),
+    ...data,
+  };
+}
+
+/**
+ * Merge a corrected citation block into the original response.
+ *
+ * Entries in the repair output replace original entries with the same id, keeping
+ * the original attachment id (and page and lines, if the repair doesn't move the
+ * citation to another page) when the repair leaves them out; new ids are added.
+ * The original answer text is kept. The repair output may be a
+ * full response, a `<<<CITATION_DATA>>>` block, or bare JSON.
+ *
+ * @param llmOutput - The original LLM response
+ * @param repairOutput - The model's reply to the repair prompt
+ * @returns The merged response and the ids that changed
+ */
+export function mergeCitationRepair(llmOutput: string, repairOutput: string): MergedCitationRepair {
+  const repairBlock = repairOutput.includes(CITATION_DATA_START_DELIMITER)
+    ? repairOutput
+    : `${CITATION_DATA_START_DELIMITER}\n${repairOutput}\n${CITATION_DATA_END_DELIMITER}`;
+  const repair = parseCitationData(repairBlock);
+  if (!repair.success || repair.citations.length === 0) {
+    return {
+      success: false,
+      llmOutput,
+      updatedIds: [],
+      error: repair.error ?? "Repair output contains no citation data",
+    };
+  }
+
+  const original = parseCitationData(llmOutput);
+  const merged = new Map<number, CitationData>();
+  for (const data of original.citations) merged.set(data.id, data);
+  for (const data of repair.citations) merged.set(data.id, fillFromOriginal(data, merged.get(data.id)));
+
+  const citations = [...merged.values()].sort((a, b) => a.id - b.id);
+  return {
+    success: true,
+    llmOutput: `${original.visibleText}\n\n${CITATION_DATA_START_DELIMITER}\n${JSON.stringify(citations)}\n${CITATION_DATA_END_DELIMITER}`,
+    updatedIds: repair.citations.map(data => data.id),
+  };
+}
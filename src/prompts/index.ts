@@ -1,3 +1,5 @@
 export * from "./citationPrompts.js";
+export * from "./citationPromptTemplate.js";
+export * from "./citationRepair.js";
 export * from "./promptCompression.js";
 export * from "./types.js";
@@ -831,7 +831,8 @@ export const CitationComponent = forwardRef<HTMLSpanElement, CitationComponentPr
       verification?.status === "partial_text_found" ||
       verification?.status === "found_on_other_page" ||
       verification?.status === "found_on_other_line" ||
-      verification?.status === "first_word_found";
+      verification?.status === "first_word_found" ||
+      verification?.status === "error";
 
     // 3-stage spinner: active (0–5s) → slow (5–15s) → stale (15s+)
     const spinnerStage = useSpinnerStage(isLoading, isPending, !!hasDefinitiveResult);
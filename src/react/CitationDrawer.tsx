@@ -378,8 +378,9 @@ export const CitationDrawerItemComponent = React.memo(function CitationDrawerIte
       isMiss: statusCategory === "notFound",
       isPartialMatch: statusCategory === "partial",
       isPending: statusCategory === "pending",
+      isError: item.verification?.status === "error",
     }),
-    [statusCategory],
+    [statusCategory, item.verification?.status],
   );
 
   // Derive effective keyhole state: when collapsed, always null (prevents stale
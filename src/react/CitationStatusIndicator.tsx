@@ -20,7 +20,7 @@ import {
   VERIFIED_COLOR_STYLE,
 } from "./constants.js";
 import { useTranslation } from "./i18n.js";
-import { CheckIcon, ChevronDownIcon, SpinnerIcon, XIcon } from "./icons.js";
+import { CheckIcon, ChevronDownIcon, SpinnerIcon, WarningIcon, XIcon } from "./icons.js";
 import { StatusIndicatorWrapper } from "./StatusIndicatorWrapper.js";
 import type { IndicatorVariant } from "./types.js";
 import { cn } from "./utils.js";
@@ -37,6 +37,7 @@ import { cn } from "./utils.js";
 // | Verified      | Checkmark (✓)      | Green  | "found", "found_anchor_text_only", etc.      |
 // | Partial Match | Checkmark (✓)      | Amber  | "found_on_other_page", "partial_text_found"  |
 // | Not Found     | X icon (✕)         | Red    | "not_found"                                  |
+// | Error         | Warning icon (⚠)   | Gray   | "error"                                      |
 //
 // Use `renderIndicator` prop to customize. Use `variant="indicator"` to show only the icon.
 // =============================================================================
@@ -76,6 +77,23 @@ const MissIndicator = () => (
   </StatusIndicatorWrapper>
 );
 
+/** Error indicator - gray warning for a verification that failed before it could search.
+ * Gray rather than red: nothing was checked, so this is not a miss. */
+const ErrorIndicator = () => {
+  const t = useTranslation();
+  return (
+    <span
+      className="inline-flex relative ml-0.5 top-[0.1em] [text-decoration:none] animate-in fade-in-0 duration-75"
+      style={{ ...INDICATOR_SIZE_STYLE, ...PENDING_COLOR_STYLE }}
+      data-dc-indicator="verification-error"
+      role="img"
+      aria-label={t("indicator.error")}
+    >
+      <WarningIcon />
+    </span>
+  );
+};
+
 // =============================================================================
 // DOT INDICATOR COMPONENT (subtle colored dot, like GitHub/shadcn status dots)
 // =============================================================================
@@ -85,10 +103,13 @@ const DotIndicator = ({
   color,
   pulse = false,
   label,
+  indicator,
 }: {
   color: keyof typeof DOT_COLORS;
   pulse?: boolean;
   label: string;
+  /** Overrides the `data-dc-indicator` value derived from `color` */
+  indicator?: string;
 }) => (
   <span
     className={cn(
@@ -98,7 +119,8 @@ const DotIndicator = ({
     )}
     style={DOT_INDICATOR_SIZE_STYLE}
     data-dc-indicator={
-      color === "red" ? "error" : color === "gray" ? "pending" : color === "amber" ? "partial" : "verified"
+      indicator ??
+      (color === "red" ? "error" : color === "gray" ? "pending" : color === "amber" ? "partial" : "verified")
     }
     role="img"
     aria-label={label}
@@ -121,6 +143,10 @@ const MissDot = () => {
   const t = useTranslation();
   return <DotIndicator color="red" label={t("indicator.notFound")} />;
 };
+const ErrorDot = () => {
+  const t = useTranslation();
+  return <DotIndicator color="gray" label={t("indicator.error")} indicator="verification-error" />;
+};
 
 // =============================================================================
 // SPINNER STAGE TYPE
@@ -155,6 +181,7 @@ export interface CitationStatusIndicatorProps {
  * 3. Verified checkmark (green)
  * 4. Partial match checkmark (amber)
  * 5. Miss X icon (red)
+ * 6. Error warning icon (gray)
  */
 export const CitationStatusIndicator = ({
   renderIndicator,
@@ -243,6 +270,7 @@ export const CitationStatusIndicator = ({
     if (isVerified && !isPartialMatch) return <VerifiedDot />;
     if (isPartialMatch) return <PartialDot />;
     if (isMiss) return <MissDot />;
+    if (status.isError) return <ErrorDot />;
     return null;
   }
 
@@ -285,5 +313,6 @@ export const CitationStatusIndicator = ({
   if (isVerified && !isPartialMatch) return <VerifiedIndicator />;
   if (isPartialMatch) return <PartialIndicator />;
   if (isMiss) return <MissIndicator />;
+  if (status.isError) return <ErrorIndicator />;
   return null;
 };
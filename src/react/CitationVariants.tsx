@@ -33,6 +33,7 @@ function getAriaStatusLabel(status: CitationStatus, t: TranslateFunction): strin
   if (status.isMiss) return t("aria.statusSuffix.notFound");
   if (status.isPartialMatch) return t("aria.statusSuffix.partialMatch");
   if (status.isVerified) return t("aria.statusSuffix.verified");
+  if (status.isError) return t("aria.statusSuffix.verificationError");
   if (status.isPending) return t("aria.statusSuffix.pendingVerification");
   return t("status.verifying");
 }
@@ -166,6 +166,9 @@ function mapSearchStatusToUrlFetchStatus(status: SearchStatus | null | undefined
     case "timestamp_wip":
     case "skipped":
       return "pending";
+    case "error":
+      // The verification request failed, so nothing is known about the content
+      return "unknown";
     default: {
       // Exhaustiveness check: TypeScript will error if a new SearchStatus value is added
       // but not handled above. The 'never' type ensures all cases are covered.
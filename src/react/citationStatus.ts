@@ -116,11 +116,13 @@ export function getStatusFromVerification(verification: Verification | null | un
       isMiss: false,
       isPartialMatch: false,
       isPending: false,
+      isError: false,
     };
   }
 
   const isMiss = status === "not_found";
   const isPending = status === "pending" || status === "loading";
+  const isError = status === "error";
 
   // Check if any successful search attempt has low trust
   const hasLowTrustMatch =
@@ -135,7 +137,7 @@ export function getStatusFromVerification(verification: Verification | null | un
     status === "found_phrase_missed_anchor_text" || // Full phrase found, just missed anchor text highlight
     isPartialMatch;
 
-  return { isVerified, isMiss, isPartialMatch, isPending };
+  return { isVerified, isMiss, isPartialMatch, isPending, isError };
 }
 
 // =============================================================================
@@ -150,6 +152,7 @@ export function getStatusLabel(status: CitationStatus, t: TranslateFunction = de
   if (status.isVerified && !status.isPartialMatch) return t("status.verified");
   if (status.isPartialMatch) return t("status.partialMatch");
   if (status.isMiss) return t("status.notFound");
+  if (status.isError) return t("status.verificationError");
   if (status.isPending) return t("status.verifying");
   return "";
 }
@@ -73,6 +73,7 @@ export const defaultMessages = {
   "status.partialMatch": "Partial Match",
   "status.notFound": "Not Found",
   "status.verifying": "Verifying\u2026",
+  "status.verificationError": "Verification Error",
 
   // ── Outcome labels ─────────────────────────────────────────────
   "outcome.exactMatch": "Exact match",
@@ -99,6 +100,7 @@ export const defaultMessages = {
   "indicator.partial": "Partial match",
   "indicator.notFound": "Not found",
   "indicator.verifying": "Verifying",
+  "indicator.error": "Verification error",
   "indicator.stillVerifying": "Still verifying\u2026",
 
   // ── Contextual status messages ─────────────────────────────────
@@ -180,6 +182,7 @@ export const defaultMessages = {
   "aria.statusSuffix.partialMatch": "partial match",
   "aria.statusSuffix.verified": "verified",
   "aria.statusSuffix.pendingVerification": "pending verification",
+  "aria.statusSuffix.verificationError": "verification error",
   "aria.linkToDomainStatus": "Link to {domain}: {status}",
   "aria.viewProofForSource": "View proof for {sourceName}",
   "aria.citationVerificationStatus": "Citation verification status",
@@ -253,6 +253,13 @@ export {
   sanitizeUrl,
   urlDisplayUtils,
 } from "./urlUtils.js";
+// Attachment page images hook
+export {
+  type AttachmentReadyWaiter,
+  type UseAttachmentPageImagesOptions,
+  type UseAttachmentPageImagesResult,
+  useAttachmentPageImages,
+} from "./useAttachmentPageImages.js";
 // Citation Context (for accessing citation data within Citation.Root)
 export {
   type CitationContextValue,
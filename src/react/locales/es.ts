@@ -15,6 +15,7 @@ export const esOverrides = {
   "status.partialMatch": "Coincidencia parcial",
   "status.notFound": "No encontrado",
   "status.verifying": "Verificando…",
+  "status.verificationError": "Error de verificación",
   "outcome.exactMatch": "Coincidencia exacta",
   "outcome.normalizedMatch": "Coincidencia normalizada",
   "outcome.anchorTextMatch": "Coincidencia de texto ancla",
@@ -35,6 +36,7 @@ export const esOverrides = {
   "indicator.partial": "Coincidencia parcial",
   "indicator.notFound": "No encontrado",
   "indicator.verifying": "Verificando",
+  "indicator.error": "Error de verificación",
   "indicator.stillVerifying": "Aún verificando…",
   "message.exactMatch": "Coincidencia exacta",
   "message.anchorTextFound": "Texto ancla encontrado",
@@ -98,6 +100,7 @@ export const esOverrides = {
   "aria.statusSuffix.partialMatch": "coincidencia parcial",
   "aria.statusSuffix.verified": "verificado",
   "aria.statusSuffix.pendingVerification": "verificación pendiente",
+  "aria.statusSuffix.verificationError": "error de verificación",
   "aria.linkToDomainStatus": "Enlace a {domain}: {status}",
   "aria.viewProofForSource": "Ver prueba para {sourceName}",
   "aria.citationVerificationStatus": "Estado de verificación de citas",
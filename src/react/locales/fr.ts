@@ -15,6 +15,7 @@ export const frOverrides = {
   "status.partialMatch": "Correspondance partielle",
   "status.notFound": "Introuvable",
   "status.verifying": "Vérification…",
+  "status.verificationError": "Erreur de vérification",
   "outcome.exactMatch": "Correspondance exacte",
   "outcome.normalizedMatch": "Correspondance normalisée",
   "outcome.anchorTextMatch": "Correspondance du texte d'ancrage",
@@ -35,6 +36,7 @@ export const frOverrides = {
   "indicator.partial": "Correspondance partielle",
   "indicator.notFound": "Introuvable",
   "indicator.verifying": "Vérification",
+  "indicator.error": "Erreur de vérification",
   "indicator.stillVerifying": "Vérification en cours…",
   "message.exactMatch": "Correspondance exacte",
   "message.anchorTextFound": "Texte d'ancrage trouvé",
@@ -98,6 +100,7 @@ export const frOverrides = {
   "aria.statusSuffix.partialMatch": "correspondance partielle",
   "aria.statusSuffix.verified": "vérifiée",
   "aria.statusSuffix.pendingVerification": "vérification en attente",
+  "aria.statusSuffix.verificationError": "erreur de vérification",
   "aria.linkToDomainStatus": "Lien vers {domain} : {status}",
   "aria.viewProofForSource": "Voir la preuve pour {sourceName}",
   "aria.citationVerificationStatus": "Statut de vérification des citations",
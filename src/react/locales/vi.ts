@@ -15,6 +15,7 @@ export const viOverrides = {
   "status.partialMatch": "Khớp một phần",
   "status.notFound": "Không tìm thấy",
   "status.verifying": "Đang xác minh…",
+  "status.verificationError": "Lỗi xác minh",
   "outcome.exactMatch": "Khớp chính xác",
   "outcome.normalizedMatch": "Khớp đã chuẩn hóa",
   "outcome.anchorTextMatch": "Khớp văn bản neo",
@@ -35,6 +36,7 @@ export const viOverrides = {
   "indicator.partial": "Khớp một phần",
   "indicator.notFound": "Không tìm thấy",
   "indicator.verifying": "Đang xác minh",
+  "indicator.error": "Lỗi xác minh",
   "indicator.stillVerifying": "Vẫn đang xác minh…",
   "message.exactMatch": "Khớp chính xác",
   "message.anchorTextFound": "Đã tìm thấy văn bản neo",
@@ -100,6 +102,7 @@ export const viOverrides = {
   "aria.statusSuffix.partialMatch": "khớp một phần",
   "aria.statusSuffix.verified": "đã xác minh",
   "aria.statusSuffix.pendingVerification": "đang chờ xác minh",
+  "aria.statusSuffix.verificationError": "lỗi xác minh",
   "aria.linkToDomainStatus": "Liên kết đến {domain}: {status}",
   "aria.viewProofForSource": "Xem bằng chứng cho {sourceName}",
   "aria.citationVerificationStatus": "Trạng thái xác minh trích dẫn",
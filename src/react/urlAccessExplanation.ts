@@ -116,6 +116,9 @@ export function mapSearchStatusToFetchStatus(status: SearchStatus | null | undef
     case "timestamp_wip":
     case "skipped":
       return "pending";
+    case "error":
+      // The verification request failed, so nothing is known about the content
+      return "unknown";
     default: {
       const _exhaustiveCheck: never = status;
       return _exhaustiveCheck;
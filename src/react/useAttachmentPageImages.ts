@@ -0,0 +1,99 @@
+/**
+ * Attachment Page Images Hook
+ *
+ * Waits for attachments' page images to finish generating so citation popovers
+ * can upgrade from the evidence crop to full page images without a reload.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { AttachmentResponse, WaitForAttachmentReadyOptions } from "../client/types.js";
+import type { PageImage } from "../types/verification.js";
+
+/**
+ * Anything that can wait for an attachment to be ready: usually a `DeepCitation`
+ * client, or a thin wrapper that calls your server when the API key must stay server-side.
+ */
+export interface AttachmentReadyWaiter {
+  waitForAttachmentReady(attachmentId: string, options?: WaitForAttachmentReadyOptions): Promise<AttachmentResponse>;
+}
+
+/** Options for {@link useAttachmentPageImages}. */
+export interface UseAttachmentPageImagesOptions extends Omit<WaitForAttachmentReadyOptions, "signal" | "onPoll"> {
+  /**
+   * Set to false to hold off polling, e.g. until verification has finished.
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/** Result of {@link useAttachmentPageImages}. */
+export interface UseAttachmentPageImagesResult {
+  /** Full page images for each ready attachment, in the shape `CitationComponent` accepts */
+  pageImagesByAttachmentId: Record<string, PageImage[]>;
+  /** True while any attachment is still being waited on */
+  isLoading: boolean;
+  /** Attachments that failed or did not become ready in time */
+  errors: Record<string, Error>;
+}
+
+/**
+ * Wait for attachments to finish page image generation and collect their page images.
+ *
+ * Each attachment is polled once until it settles; adding IDs later only polls the
+ * new ones. Pass a stable `client` (not one created during render) to avoid restarting.
+ *
+ * @example
+ * ```tsx
+ * const { pageImagesByAttachmentId } = useAttachmentPageImages(client, attachmentIds);
+ *
+ * return (
+ *   <CitationComponent
+ *     citation={citation}
+ *     verification={verification}
+ *     pageImagesByAttachmentId={pageImagesByAttachmentId}
+ *   />
+ * );
+ * ```
+ */
+export function useAttachmentPageImages(
+  client: AttachmentReadyWaiter | null | undefined,
+  attachmentIds: string[],
+  options: UseAttachmentPageImagesOptions = {},
+): UseAttachmentPageImagesResult {
+  const { enabled = true, timeoutMs, intervalMs, maxIntervalMs, endUserId } = options;
+  const idsKey = [...new Set(attachmentIds)].sort().join("\n");
+
+  const [pageImagesByAttachmentId, setPageImagesByAttachmentId] = useState<Record<string, PageImage[]>>({});
+  const [errors, setErrors] = useState<Record<string, Error>>({});
+  const [pendingCount, setPendingCount] = useState(0);
+  // Attachments that already settled, so a new ID list never polls them again
+  const settledRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled || !client || !idsKey) return;
+    const ids = idsKey.split("\n").filter(id => !settledRef.current.has(id));
+    if (ids.length === 0) return;
+
+    const controller = new AbortController();
+    setPendingCount(count => count + ids.length);
+    for (const id of ids) {
+      client
+        .waitForAttachmentReady(id, { timeoutMs, intervalMs, maxIntervalMs, endUserId, signal: controller.signal })
+        .then(
+          attachment => {
+            settledRef.current.add(id);
+            setPageImagesByAttachmentId(prev => ({ ...prev, [id]: attachment.pageImages }));
+          },
+          err => {
+            if (controller.signal.aborted) return;
+            settledRef.current.add(id);
+            setErrors(prev => ({ ...prev, [id]: err instanceof Error ? err : new Error(String(err)) }));
+          },
+        )
+        .finally(() => setPendingCount(count => count - 1));
+    }
+    return () => controller.abort();
+  }, [client, idsKey, enabled, timeoutMs, intervalMs, maxIntervalMs, endUserId]);
+
+  return { pageImagesByAttachmentId, isLoading: pendingCount > 0, errors };
+}
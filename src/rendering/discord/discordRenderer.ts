@@ -0,0 +1,178 @@
+import { formatPageLocation, getIndicator } from "../../markdown/markdownVariants.js";
+import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
+import { buildProofUrl } from "../proofUrl.js";
+import {
+  getCompactGroupDelimiters,
+  getGroupDelimiters,
+  getStatusLabel,
+  renderLinkedCitationMarker,
+  resolveSourceLabel,
+  splitTextAtBoundaries,
+  walkCitationSegments,
+} from "../shared.js";
+import { DISCORD_LIMITS, renderDiscordSourceField } from "./discordVariants.js";
+import type { DiscordEmbed, DiscordMessage, DiscordOutput, DiscordRenderOptions } from "./types.js";
+
+/** Masked links, `[text](url)`, which must not be split across embeds */
+const MASKED_LINK_PATTERN = /\[[^\]]*\]\([^)]*\)/g;
+
+/** Characters an embed counts toward Discord's per-message total. */
+function getEmbedLength(embed: DiscordEmbed): number {
+  const fields = embed.fields ?? [];
+  return (
+    (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0)
+  );
+}
+
+/** Pack embeds into messages within Discord's embed count and total length limits. */
+function packDiscordMessages(embeds: DiscordEmbed[]): DiscordMessage[] {
+  const messages: DiscordMessage[] = [];
+  let current: DiscordEmbed[] = [];
+  let length = 0;
+
+  for (const embed of embeds) {
+    const embedLength = getEmbedLength(embed);
+    if (
+      current.length > 0 &&
+      (current.length >= DISCORD_LIMITS.embeds || length + embedLength > DISCORD_LIMITS.total)
+    ) {
+      messages.push({ embeds: current });
+      current = [];
+      length = 0;
+    }
+    current.push(embed);
+    length += embedLength;
+  }
+  if (current.length > 0) messages.push({ embeds: current });
+
+  return messages;
+}
+
+/**
+ * Render LLM output with `[N]` citation markers as Discord embeds.
+ *
+ * The answer becomes embed descriptions, split at Discord's 4096-character limit
+ * without breaking links; with `includeSources`, each source becomes an embed
+ * field with its verification status, page and proof link. Embeds are packed into
+ * as many messages as Discord's 10-embed and 6000-character limits require.
+ *
+ * Accepts either a raw LLM response string (auto-parsed) or a pre-parsed
+ * `ParsedCitationResult` for efficiency when reusing parsed data.
+ *
+ * @example
+ * ```typescript
+ * import { renderCitationsForDiscord } from "deepcitation/discord";
+ *
+ * const { messages } = renderCitationsForDiscord(llmOutput, {
+ *   verifications,
+ *   proofBaseUrl: "https://proof.deepcitation.com",
+ *   includeSources: true,
+ * });
+ * for (const message of messages) await channel.send(message);
+ * ```
+ */
+export function renderCitationsForDiscord(
+  input: string | ParsedCitationResult,
+  options: DiscordRenderOptions = {},
+): DiscordOutput {
+  const {
+    verifications = {},
+    indicatorStyle = "check",
+    proofBaseUrl,
+    includeSources = false,
+    sourceLabels = {},
+    variant = "brackets",
+    color,
+    compactGroups = false,
+  } = options;
+  const groupDelimiters = getCompactGroupDelimiters(variant, compactGroups);
+
+  const { segments, citationsWithStatus } = walkCitationSegments(input, verifications);
+  const proofUrls: Record<string, string> = {};
+
+  const markdownParts: string[] = [];
+
+  for (const seg of segments) {
+    if (seg.type === "text") {
+      markdownParts.push(seg.value);
+      continue;
+    }
+
+    let proofUrl: string | undefined;
+    if (proofBaseUrl) {
+      proofUrl = buildProofUrl(seg.citationKey, { baseUrl: proofBaseUrl });
+      proofUrls[seg.citationKey] = proofUrl;
+    }
+
+    const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
+    markdownParts.push(
+      before,
+      renderLinkedCitationMarker(
+        seg.citationNumber,
+        seg.citation.anchorText ?? undefined,
+        seg.status,
+        indicatorStyle,
+        proofUrl,
+        variant,
+        grouped,
+      ),
+      after,
+    );
+  }
+
+  const markdown = markdownParts.join("");
+  const withColor = color !== undefined ? { color } : {};
+
+  const embeds: DiscordEmbed[] = splitTextAtBoundaries(markdown, DISCORD_LIMITS.description, MASKED_LINK_PATTERN).map(
+    description => ({ description, ...withColor }),
+  );
+
+  // Build sources section
+  let sources: string | undefined;
+  if (includeSources && citationsWithStatus.length > 0) {
+    const fields = citationsWithStatus.map(cws =>
+      renderDiscordSourceField(
+        cws.citationNumber,
+        getIndicator(cws.status, indicatorStyle),
+        getStatusLabel(cws.status),
+        resolveSourceLabel(cws, sourceLabels),
+        formatPageLocation(cws.citation, cws.verification, { showPageNumber: true, showLinePosition: false }),
+        proofUrls[cws.citationKey],
+      ),
+    );
+
+    // Start a new embed at 25 fields, or before the embed alone would exceed the per-message total
+    let embed: DiscordEmbed = { title: "Sources", fields: [], ...withColor };
+    for (const field of fields) {
+      const fieldLength = field.name.length + field.value.length;
+      const embedFields = embed.fields ?? [];
+      if (
+        embedFields.length > 0 &&
+        (embedFields.length >= DISCORD_LIMITS.fields || getEmbedLength(embed) + fieldLength > DISCORD_LIMITS.total)
+      ) {
+        embeds.push(embed);
+        embed = { fields: [], ...withColor };
+      }
+      embed.fields?.push(field);
+    }
+    embeds.push(embed);
+
+    sources = ["**Sources:**", ...fields.map(field => `- **${field.name}** ${field.value.replace("\n", " ")}`)].join(
+      "\n",
+    );
+  }
+
+  const full = sources ? `${markdown}\n\n${sources}` : markdown;
+
+  return {
+    content: markdown,
+    markdown,
+    sources,
+    full,
+    messages: packDiscordMessages(embeds),
+    citations: citationsWithStatus,
+    proofUrls: Object.keys(proofUrls).length > 0 ? proofUrls : undefined,
+  };
+}
@@ -0,0 +1,42 @@
+import type { DiscordEmbedField } from "./types.js";
+
+/** Discord's embed limits (characters unless noted) */
+export const DISCORD_LIMITS = {
+  title: 256,
+  description: 4096,
+  /** Fields per embed */
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  /** Embeds per message */
+  embeds: 10,
+  /** Characters across all embeds of a message */
+  total: 6000,
+} as const;
+
+/** Cut text to `limit` characters, ending with an ellipsis when shortened. */
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+/**
+ * Format a source as an embed field: the marker and status as the name, the
+ * source label, page and proof link as the value.
+ */
+export function renderDiscordSourceField(
+  citationNumber: number,
+  indicator: string,
+  statusLabel: string,
+  sourceLabel: string,
+  pageLocation: string,
+  proofUrl: string | undefined,
+): DiscordEmbedField {
+  const status = indicator ? `${indicator} ${statusLabel}` : statusLabel;
+  const location = pageLocation ? ` — ${pageLocation}` : "";
+  // The proof link goes last so a long label is cut rather than the link
+  const proofLink = proofUrl ? `\n[View proof](${proofUrl})` : "";
+  return {
+    name: truncate(`[${citationNumber}] ${status}`, DISCORD_LIMITS.fieldName),
+    value: `${truncate(`${sourceLabel}${location}`, DISCORD_LIMITS.fieldValue - proofLink.length)}${proofLink}`,
+  };
+}
@@ -0,0 +1,54 @@
+import type { RenderedOutput, RenderOptions } from "../types.js";
+
+/**
+ * Discord citation variant.
+ */
+export type DiscordVariant =
+  | "brackets" // [[1✓](url)] — default, linked number in brackets
+  | "superscript" // [¹✓](url) — footnote style
+  | "inline"; // [Revenue grew 23%✓](url) — descriptive
+
+/**
+ * Discord-specific render options.
+ */
+export interface DiscordRenderOptions extends RenderOptions {
+  /** Discord citation variant (default: "brackets") */
+  variant?: DiscordVariant;
+
+  /** Embed accent color as an integer, e.g. `0x5865f2` */
+  color?: number;
+}
+
+/** Discord embed field. */
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+/** Discord embed, as accepted in a message's `embeds` array. */
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  color?: number;
+  fields?: DiscordEmbedField[];
+}
+
+/** A Discord message payload. Send follow-up messages as replies in order. */
+export interface DiscordMessage {
+  embeds: DiscordEmbed[];
+}
+
+/**
+ * Discord-specific rendered output.
+ */
+export interface DiscordOutput extends RenderedOutput {
+  /** The answer in Discord markdown (same as content) */
+  markdown: string;
+
+  /**
+   * Messages to send, in order, each within Discord's embed limits: the answer as
+   * embed descriptions, then the sources as embed fields.
+   */
+  messages: DiscordMessage[];
+}
@@ -1,9 +1,14 @@
 import { formatPageLocation, getIndicator } from "../../markdown/markdownVariants.js";
 import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
 import { buildProofUrl, buildSnippetImageUrl } from "../proofUrl.js";
-import { resolveSourceLabel, walkCitationSegments } from "../shared.js";
 import {
+  getCompactGroupDelimiters,
+  getGroupDelimiters,
   getStatusLabel,
+  resolveSourceLabel,
+  walkCitationSegments,
+} from "../shared.js";
+import {
   renderGitHubCitation,
   renderGitHubSourcesDetailed,
   renderGitHubSourcesList,
@@ -43,7 +48,9 @@ export function renderCitationsForGitHub(
     variant = "brackets",
     sourcesFormat = "table",
     includeImages = false,
+    compactGroups = false,
   } = options;
+  const groupDelimiters = getCompactGroupDelimiters(variant, compactGroups);
 
   const { segments, citationsWithStatus } = walkCitationSegments(input, verifications);
   const proofUrls: Record<string, string> = {};
@@ -62,7 +69,9 @@ export function renderCitationsForGitHub(
       proofUrls[seg.citationKey] = proofUrl;
     }
 
+    const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
     markdownParts.push(
+      before,
       renderGitHubCitation(
         seg.citationNumber,
         seg.citation.anchorText ?? undefined,
@@ -70,7 +79,9 @@ export function renderCitationsForGitHub(
         indicatorStyle,
         proofUrl,
         variant,
+        grouped,
       ),
+      after,
     );
   }
 
@@ -5,6 +5,7 @@ import type { GitHubVariant } from "./types.js";
 
 /**
  * Render a citation marker in GitHub Markdown format.
+ * With `grouped`, the brackets variant omits its own brackets (compact groups).
  */
 export function renderGitHubCitation(
   citationNumber: number,
@@ -13,6 +14,7 @@ export function renderGitHubCitation(
   indicatorStyle: IndicatorStyle,
   proofUrl: string | undefined,
   variant: GitHubVariant,
+  grouped = false,
 ): string {
   const indicator = getIndicator(status, indicatorStyle);
 
@@ -32,23 +34,12 @@ export function renderGitHubCitation(
     }
 
     default: {
-      const text = `[${citationNumber}${indicator}]`;
+      const text = grouped ? `${citationNumber}${indicator}` : `[${citationNumber}${indicator}]`;
       return proofUrl ? `[${text}](${proofUrl})` : text;
     }
   }
 }
 
-/**
- * Get a status label for table/list display.
- */
-export function getStatusLabel(status: CitationStatus): string {
-  if (status.isMiss) return "Not Found";
-  if (status.isPartialMatch) return "Partial";
-  if (status.isVerified) return "Verified";
-  if (status.isPending) return "Pending";
-  return "Unknown";
-}
-
 /**
  * Render sources as a Markdown table inside <details>.
  */
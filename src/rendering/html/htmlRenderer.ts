@@ -1,8 +1,16 @@
 import { formatPageLocation } from "../../markdown/markdownVariants.js";
-import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
+import { type ParsedCitationResult, parseCitationResponse } from "../../parsing/parseCitationResponse.js";
 import { buildProofUrl, buildSnippetImageUrl } from "../proofUrl.js";
-import { resolveSourceLabel, walkCitationSegments } from "../shared.js";
+import {
+  getGroupDelimiters,
+  resolveSourceLabel,
+  SUPERSCRIPT_GROUP_DELIMITERS,
+  type WalkResult,
+  walkCitationSegments,
+} from "../shared.js";
+import type { RenderCitationWithStatus } from "../types.js";
 import { renderHtmlCitation } from "./htmlVariants.js";
+import { renderMarkdownHtml } from "./markdownHtml.js";
 import { generateStyleBlock } from "./styles.js";
 import type { HtmlOutput, HtmlRenderOptions } from "./types.js";
 
@@ -41,63 +49,104 @@ export function renderCitationsAsHtml(
     includeTooltips = true,
     theme = "light",
     classPrefix = "dc-",
+    compactGroups = false,
+    markdown = false,
+    markdownImages = false,
   } = options;
+  const groupDelimiters = !compactGroups
+    ? undefined
+    : variant === "brackets"
+      ? { open: `<span class="${classPrefix}citation-group">[`, separator: ", ", close: "]</span>" }
+      : variant === "superscript"
+        ? SUPERSCRIPT_GROUP_DELIMITERS
+        : undefined;
 
-  const { segments, citationsWithStatus } = walkCitationSegments(input, verifications);
   const proofUrls: Record<string, string> = {};
 
-  const htmlParts: string[] = [];
+  /** `afterLink` receives the citation triggers when the text is a link label, so links don't nest. */
+  const renderSegments = (segments: WalkResult["segments"], afterLink?: (html: string) => void): string => {
+    const htmlParts: string[] = [];
 
-  for (const seg of segments) {
-    if (seg.type === "text") {
-      htmlParts.push(escapeHtml(seg.value));
-      continue;
-    }
+    for (const seg of segments) {
+      if (seg.type === "text") {
+        htmlParts.push(escapeHtml(seg.value));
+        continue;
+      }
 
-    let proofUrl: string | undefined;
-    if (proofBaseUrl) {
-      proofUrl = buildProofUrl(seg.citationKey, { baseUrl: proofBaseUrl });
-      proofUrls[seg.citationKey] = proofUrl;
-    }
+      let proofUrl: string | undefined;
+      if (proofBaseUrl) {
+        proofUrl = buildProofUrl(seg.citationKey, { baseUrl: proofBaseUrl });
+        proofUrls[seg.citationKey] = proofUrl;
+      }
 
-    const label =
-      seg.citation.type === "url"
-        ? sourceLabels[""] || seg.verification?.label || seg.citation.title
-        : sourceLabels[seg.citation.attachmentId || ""] || seg.verification?.label;
-    const location = formatPageLocation(seg.citation, seg.verification, {
-      showPageNumber: true,
-      showLinePosition: false,
-    });
+      const label =
+        seg.citation.type === "url"
+          ? sourceLabels[""] || seg.verification?.label || seg.citation.title
+          : sourceLabels[seg.citation.attachmentId || ""] || seg.verification?.label;
+      const location = formatPageLocation(seg.citation, seg.verification, {
+        showPageNumber: true,
+        showLinePosition: false,
+      });
 
-    let imageUrl: string | undefined;
-    if (proofBaseUrl) {
-      imageUrl = buildSnippetImageUrl(seg.citationKey, { baseUrl: proofBaseUrl });
+      let imageUrl: string | undefined;
+      if (proofBaseUrl) {
+        imageUrl = buildSnippetImageUrl(seg.citationKey, { baseUrl: proofBaseUrl });
+      }
+
+      const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
+      const trigger = [
+        before,
+        renderHtmlCitation({
+          citationNumber: seg.citationNumber,
+          anchorText: seg.citation.anchorText ?? undefined,
+          status: seg.status,
+          indicatorStyle,
+          proofUrl,
+          variant,
+          prefix: classPrefix,
+          inlineStyles,
+          includeTooltips,
+          theme,
+          citationKey: seg.citationKey,
+          sourceLabel: label ?? undefined,
+          location,
+          quote: seg.citation.fullPhrase ?? undefined,
+          imageUrl,
+          attachmentId: seg.citation.type !== "url" ? (seg.citation.attachmentId ?? undefined) : undefined,
+          pageNumber: seg.citation.type !== "url" ? (seg.citation.pageNumber ?? undefined) : undefined,
+          grouped,
+        }),
+        after,
+      ].join("");
+      if (afterLink) afterLink(trigger);
+      else htmlParts.push(trigger);
     }
 
-    htmlParts.push(
-      renderHtmlCitation({
-        citationNumber: seg.citationNumber,
-        anchorText: seg.citation.anchorText ?? undefined,
-        status: seg.status,
-        indicatorStyle,
-        proofUrl,
-        variant,
-        prefix: classPrefix,
-        inlineStyles,
-        includeTooltips,
-        theme,
-        citationKey: seg.citationKey,
-        sourceLabel: label ?? undefined,
-        location,
-        quote: seg.citation.fullPhrase ?? undefined,
-        imageUrl,
-        attachmentId: seg.citation.type !== "url" ? (seg.citation.attachmentId ?? undefined) : undefined,
-        pageNumber: seg.citation.type !== "url" ? (seg.citation.pageNumber ?? undefined) : undefined,
-      }),
-    );
-  }
+    return htmlParts.join("");
+  };
 
-  const html = htmlParts.join("");
+  let html: string;
+  let citationsWithStatus: RenderCitationWithStatus[];
+  if (markdown) {
+    // Walk each text run separately so code never gets citation triggers; numbering continues across runs
+    const parsed = typeof input === "string" ? parseCitationResponse(input) : input;
+    let lastCitationNumber = 0;
+    citationsWithStatus = [];
+    const rendered = renderMarkdownHtml(parsed.visibleText, {
+      renderText: (text, { afterLink }) => {
+        const walk = walkCitationSegments({ ...parsed, visibleText: text }, verifications, lastCitationNumber);
+        lastCitationNumber = walk.lastCitationNumber;
+        citationsWithStatus.push(...walk.citationsWithStatus);
+        return renderSegments(walk.segments, afterLink);
+      },
+      allowImages: markdownImages,
+    });
+    html = `<div class="${classPrefix}markdown">\n${rendered}\n</div>`;
+  } else {
+    const walk = walkCitationSegments(input, verifications);
+    citationsWithStatus = walk.citationsWithStatus;
+    html = renderSegments(walk.segments);
+  }
 
   // Build sources section
   let sources: string | undefined;
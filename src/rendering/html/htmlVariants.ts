@@ -35,6 +35,7 @@ function getStatusLabel(status: CitationStatus): string {
   if (status.isMiss) return "Not Found";
   if (status.isPartialMatch) return "Partial Match";
   if (status.isVerified) return "Verified";
+  if (status.isError) return "Verification Error";
   return "Pending";
 }
 
@@ -58,6 +59,8 @@ interface HtmlCitationOptions {
   attachmentId?: string;
   /** Page number emitted as data-dc-page-number for external consumers */
   pageNumber?: number;
+  /** Member of a compact group: the brackets variant omits its own brackets */
+  grouped?: boolean;
 }
 
 /**
@@ -82,6 +85,7 @@ export function renderHtmlCitation(opts: HtmlCitationOptions): string {
     imageUrl,
     attachmentId,
     pageNumber,
+    grouped = false,
   } = opts;
 
   const indicator = getIndicator(status, indicatorStyle);
@@ -106,7 +110,7 @@ export function renderHtmlCitation(opts: HtmlCitationOptions): string {
       displayText = toSuperscript(citationNumber);
       break;
     default:
-      displayText = `[${citationNumber}`;
+      displayText = grouped ? String(citationNumber) : `[${citationNumber}`;
       break;
   }
 
@@ -116,7 +120,7 @@ export function renderHtmlCitation(opts: HtmlCitationOptions): string {
 
   // Build the inner content
   let inner: string;
-  if (variant === "brackets") {
+  if (variant === "brackets" && !grouped) {
     inner = `<span class="${prefix}citation-text">${displayText}</span><span class="${prefix}indicator"${indicatorSpanStyle}>${indicator}</span><span class="${prefix}citation-text">]</span>`;
   } else if (variant === "linter") {
     inner = `<span class="${prefix}citation-text">${displayText}</span>`;
@@ -0,0 +1,616 @@
+/**
+ * Markdown to HTML
+ *
+ * Renders the CommonMark/GFM constructs LLM answers use — headings, paragraphs,
+ * emphasis, links, lists, blockquotes, code, tables and rules — without
+ * dependencies. Raw HTML is not supported: every character of input text is
+ * escaped and link URLs are limited to safe schemes. Images render as links
+ * unless `allowImages` is set, so by default the output loads nothing remote and
+ * has the same guarantees as plain escaping.
+ *
+ * Text runs are rendered through `renderText` in document order, which lets the
+ * HTML renderer place citation triggers inside paragraphs, list items and table
+ * cells. Code spans and code blocks never go through `renderText`. Inside link
+ * labels `renderText` gets an `afterLink` callback for anything that must not be
+ * nested in an `<a>`.
+ *
+ * Inline parsing is linear in the input, and nesting beyond
+ * {@link MAX_NESTING_DEPTH} levels is rendered as plain text.
+ */
+
+/** Passed to {@link MarkdownHtmlOptions.renderText} with each text run. */
+export interface MarkdownTextContext {
+  /**
+   * Set for text inside a link label. HTML passed here is placed right after the
+   * link instead of inside it, for content like citation triggers that may be links.
+   */
+  afterLink?: (html: string) => void;
+}
+
+/** Options for {@link renderMarkdownHtml}. */
+export interface MarkdownHtmlOptions {
+  /** Render a run of plain text, already unescaped (default: HTML-escape it) */
+  renderText?: (text: string, context: MarkdownTextContext) => string;
+  /**
+   * Render images as `<img>` (default: false). Images load when the HTML is
+   * viewed, so an image URL in model output can track readers or leak data in
+   * its query string; by default images render as links labelled with their alt text.
+   */
+  allowImages?: boolean;
+}
+
+type TextRenderer = (text: string, context: MarkdownTextContext) => string;
+
+interface InlineOptions {
+  renderText: TextRenderer;
+  allowImages: boolean;
+}
+
+/** Deepest nesting of blocks or inlines that is parsed; deeper content renders as text. */
+const MAX_NESTING_DEPTH = 100;
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const ASCII_PUNCTUATION_PATTERN = /[!-/:-@[-`{-~]/;
+const AUTOLINK_PATTERN = /^<((?:https?|mailto):[^\s<>]*)>/i;
+const EMAIL_AUTOLINK_PATTERN = /^<([\w.+-]+@[\w-]+(?:\.[\w-]+)+)>/;
+const SAFE_URL_SCHEMES = new Set(["http", "https", "mailto"]);
+
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Returns the URL if it is safe to emit in `href`/`src`: http, https, mailto or a
+ * relative URL, with no whitespace or control characters (which browsers strip,
+ * so `\u0001javascript:` would otherwise pass as relative).
+ */
+function sanitizeUrl(url: string): string | undefined {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: rejecting control characters is the point
+  if (/[\s\u0000-\u001f\u007f]/.test(url)) return undefined;
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme && !SAFE_URL_SCHEMES.has(scheme[1].toLowerCase())) return undefined;
+  return url;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === "";
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const match = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+  return !!match && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+/** Fences with backticks cannot have backticks in their info string. */
+function matchFence(line: string): RegExpMatchArray | null {
+  const match = line.match(FENCE_PATTERN);
+  return match && !(match[1][0] === "`" && match[2].includes("`")) ? match : null;
+}
+
+/** Lines that start a block other than a paragraph. */
+function startsBlock(line: string): boolean {
+  return (
+    !!matchFence(line) ||
+    HEADING_PATTERN.test(line) ||
+    THEMATIC_BREAK_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line)
+  );
+}
+
+/** Like {@link startsBlock}, but only lists starting at 1 with content may interrupt a paragraph. */
+function interruptsParagraph(line: string): boolean {
+  const item = line.match(LIST_ITEM_PATTERN);
+  if (item) return !!item[4]?.trim() && (!/\d/.test(item[2]) || parseInt(item[2], 10) === 1);
+  return startsBlock(line);
+}
+
+/** Split a table row into cells on unescaped pipes. */
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function getCellAlignment(delimiter: string): string {
+  const left = delimiter.startsWith(":");
+  const right = delimiter.endsWith(":");
+  if (left && right) return ' style="text-align:center"';
+  if (right) return ' style="text-align:right"';
+  if (left) return ' style="text-align:left"';
+  return "";
+}
+
+// =============================================================================
+// INLINES
+// =============================================================================
+
+/**
+ * Per-text scan results that keep inline parsing linear: without them every
+ * unmatched opener would scan to the end of the text.
+ */
+interface InlineScan {
+  /** Backtick run length → earliest start with no closing run after it */
+  codeSpanFailures: Map<number, number>;
+  /** Emphasis delimiter → earliest opener with no closer after it */
+  emphasisFailures: Map<string, number>;
+  /** `[` position → matching `]` position, computed lazily */
+  brackets?: Map<number, number>;
+}
+
+function createInlineScan(): InlineScan {
+  return { codeSpanFailures: new Map(), emphasisFailures: new Map() };
+}
+
+/** Match a code span at `start` (a backtick run closed by a run of the same length). */
+function matchCodeSpan(text: string, start: number, scan: InlineScan): { content: string; end: number } | undefined {
+  let open = start;
+  while (text[open] === "`") open++;
+  const length = open - start;
+  // No closing run after an earlier run of this length means none after this one either
+  if ((scan.codeSpanFailures.get(length) ?? Infinity) <= start) return undefined;
+
+  for (let i = open; i < text.length; ) {
+    if (text[i] !== "`") {
+      i++;
+      continue;
+    }
+    let close = i;
+    while (text[close] === "`") close++;
+    if (close - i === length) {
+      let content = text.slice(open, i).replace(/\n/g, " ");
+      if (content.length > 2 && content.startsWith(" ") && content.endsWith(" ") && content.trim()) {
+        content = content.slice(1, -1);
+      }
+      return { content, end: close };
+    }
+    i = close;
+  }
+  scan.codeSpanFailures.set(length, start);
+  return undefined;
+}
+
+/** Pair every `[` with its matching `]` in one pass, skipping escapes and code spans. */
+function matchBrackets(text: string, scan: InlineScan): Map<number, number> {
+  const brackets = new Map<number, number>();
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "`") {
+      const span = matchCodeSpan(text, i, scan);
+      if (span) i = span.end - 1;
+      else while (text[i + 1] === "`") i++;
+    } else if (ch === "[") {
+      open.push(i);
+    } else if (ch === "]" && open.length > 0) {
+      brackets.set(open.pop() as number, i);
+    }
+  }
+  return brackets;
+}
+
+/** Match `[label](destination "title")` with `text[start] === "["`. */
+function matchLink(
+  text: string,
+  start: number,
+  scan: InlineScan,
+): { label: string; url: string; end: number } | undefined {
+  scan.brackets ??= matchBrackets(text, scan);
+  const i = scan.brackets.get(start);
+  if (i === undefined || text[i + 1] !== "(") return undefined;
+  const label = text.slice(start + 1, i);
+
+  const rest = text.slice(i + 2);
+  const destination = rest.match(/^[ \t\n]*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))/);
+  if (!destination) return undefined;
+  let offset = destination[0].length;
+  const title = rest
+    .slice(offset)
+    .match(/^(?:[ \t\n]+(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?[ \t\n]*\)/);
+  if (!title) return undefined;
+  offset += title[0].length;
+
+  const url = (destination[1] ?? destination[2]).replace(/\\([!-/:-@[-`{-~])/g, "$1");
+  return { label, url, end: i + 2 + offset };
+}
+
+/**
+ * Match emphasis (`*em*`, `_em_`, `**strong**`, `__strong__`) or strikethrough
+ * (`~~del~~`) opening at `start`.
+ */
+function matchEmphasis(
+  text: string,
+  start: number,
+  scan: InlineScan,
+): { tag: string; content: string; end: number } | undefined {
+  const ch = text[start];
+  let run = 0;
+  while (text[start + run] === ch) run++;
+
+  if (ch === "~" && run !== 2) return undefined;
+  const delimiter = ch.repeat(ch === "~" || run >= 2 ? 2 : 1);
+  const tag = ch === "~" ? "del" : delimiter.length === 2 ? "strong" : "em";
+
+  // Opening must be followed by non-whitespace; underscores do not open inside words
+  const after = text[start + delimiter.length];
+  if (!after || /\s/.test(after)) return undefined;
+  if (ch === "_" && start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) return undefined;
+  // No closer after an earlier opener of this kind means none after this one either
+  if ((scan.emphasisFailures.get(delimiter) ?? Infinity) <= start) return undefined;
+
+  for (let i = start + delimiter.length; i < text.length; ) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] === "`") {
+      const span = matchCodeSpan(text, i, scan);
+      i = span ? span.end : i + 1;
+      continue;
+    }
+    if (text[i] !== ch) {
+      i++;
+      continue;
+    }
+
+    let closeRun = 0;
+    while (text[i + closeRun] === ch) closeRun++;
+    const rightFlanking = !/\s/.test(text[i - 1]);
+    const underscoreOk = ch !== "_" || !/[\p{L}\p{N}]/u.test(text[i + closeRun] ?? "");
+    const lengthOk = delimiter.length === 1 ? closeRun === 1 || closeRun >= 3 : closeRun >= 2;
+    if (rightFlanking && underscoreOk && lengthOk) {
+      // Close with the end of the run, so `***x***` nests as <strong><em>
+      const close = i + closeRun - delimiter.length;
+      const content = text.slice(start + delimiter.length, close);
+      if (content) return { tag, content, end: close + delimiter.length };
+    }
+    i += closeRun;
+  }
+  scan.emphasisFailures.set(delimiter, start);
+  return undefined;
+}
+
+/**
+ * Render inline content. `context.afterLink` is set inside link labels, where
+ * links and images are left as text because `<a>` can't nest.
+ */
+function renderInline(text: string, options: InlineOptions, context: MarkdownTextContext = {}, depth = 0): string {
+  const { renderText } = options;
+  if (depth > MAX_NESTING_DEPTH) return renderText(text, context);
+
+  const scan = createInlineScan();
+  const inLink = !!context.afterLink;
+  let html = "";
+  let plain = "";
+  const flush = () => {
+    if (plain) html += renderText(plain, context);
+    plain = "";
+  };
+  /** Render a link label with anything the text renderer defers placed after the link. */
+  const renderLink = (url: string, label: string, inline: boolean) => {
+    const after: string[] = [];
+    const labelContext: MarkdownTextContext = { afterLink: content => after.push(content) };
+    const labelHtml = inline ? renderInline(label, options, labelContext, depth + 1) : renderText(label, labelContext);
+    return `<a href="${escapeHtml(url)}" rel="noopener">${labelHtml}</a>${after.join("")}`;
+  };
+
+  for (let i = 0; i < text.length; ) {
+    const ch = text[i];
+
+    if (ch === "\\" && i + 1 < text.length) {
+      const next = text[i + 1];
+      if (next === "\n") {
+        flush();
+        html += "<br>\n";
+        i += 2;
+        continue;
+      }
+      if (ASCII_PUNCTUATION_PATTERN.test(next)) {
+        plain += next;
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === "`") {
+      const span = matchCodeSpan(text, i, scan);
+      if (span) {
+        flush();
+        html += `<code>${escapeHtml(span.content)}</code>`;
+        i = span.end;
+        continue;
+      }
+      // An unmatched backtick run is literal text
+      let end = i;
+      while (text[end] === "`") end++;
+      plain += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === "\n") {
+      let spaces = 0;
+      while (plain[plain.length - 1 - spaces] === " ") spaces++;
+      if (spaces > 0) plain = plain.slice(0, -spaces);
+      if (spaces >= 2) {
+        flush();
+        html += "<br>\n";
+      } else {
+        plain += "\n";
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === "<" && !inLink) {
+      const autolink = text.slice(i).match(AUTOLINK_PATTERN) ?? text.slice(i).match(EMAIL_AUTOLINK_PATTERN);
+      const url = autolink && sanitizeUrl(autolink[1].includes(":") ? autolink[1] : `mailto:${autolink[1]}`);
+      if (autolink && url) {
+        flush();
+        html += renderLink(url, autolink[1], false);
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === "!" && text[i + 1] === "[") || ch === "[") {
+      const image = ch === "!";
+      const link = matchLink(text, image ? i + 1 : i, scan);
+      const url = link && sanitizeUrl(link.url);
+      if (link && url !== undefined && image && options.allowImages) {
+        flush();
+        html += `<img src="${escapeHtml(url)}" alt="${escapeHtml(link.label)}">`;
+        i = link.end;
+        continue;
+      }
+      if (link && url !== undefined && !inLink) {
+        // Images not allowed: link to them instead, labelled with the alt text
+        flush();
+        html += image ? renderLink(url, link.label || url, false) : renderLink(url, link.label, true);
+        i = link.end;
+        continue;
+      }
+      if (link) {
+        // Unsafe URL, or a link inside a link: keep the label as text
+        plain += link.label;
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === "*" || ch === "_" || ch === "~") {
+      const emphasis = matchEmphasis(text, i, scan);
+      if (emphasis) {
+        flush();
+        html += `<${emphasis.tag}>${renderInline(emphasis.content, options, context, depth + 1)}</${emphasis.tag}>`;
+        i = emphasis.end;
+        continue;
+      }
+      let end = i;
+      while (text[end] === ch) end++;
+      plain += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    plain += ch;
+    i++;
+  }
+
+  flush();
+  return html;
+}
+
+// =============================================================================
+// BLOCKS
+// =============================================================================
+
+/** Parse a list starting at `start`; returns its HTML and the index after it. */
+function renderList(
+  lines: string[],
+  start: number,
+  options: InlineOptions,
+  depth: number,
+): { html: string; next: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN) as RegExpMatchArray;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: string[][] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const item = lines[i].match(LIST_ITEM_PATTERN);
+    if (!item || /\d/.test(item[2]) !== ordered || item[2].slice(-1) !== delimiter) break;
+
+    const spacing = item[3]?.length ?? 1;
+    const contentIndent = item[1].length + item[2].length + (spacing > 4 ? 1 : spacing);
+    const body = [item[4] ?? ""];
+    let blank = false;
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        blank = true;
+        body.push("");
+      } else if (indentOf(line) >= contentIndent) {
+        if (blank) loose = true;
+        body.push(line.slice(contentIndent));
+        blank = false;
+      } else if (!blank && !startsBlock(line)) {
+        // Lazy continuation of the item's paragraph
+        body.push(line.trimStart());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    while (body.length > 0 && isBlank(body[body.length - 1])) body.pop();
+    items.push(body);
+    if (blank && i < lines.length && LIST_ITEM_PATTERN.test(lines[i])) loose = true;
+  }
+
+  const tag = ordered ? "ol" : "ul";
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const startAttr = startNumber !== 1 ? ` start="${startNumber}"` : "";
+  const html = `<${tag}${startAttr}>\n${items
+    .map(body => `<li>${renderBlocks(body, options, !loose, depth + 1)}</li>`)
+    .join("\n")}\n</${tag}>`;
+  return { html, next: i };
+}
+
+function renderBlocks(lines: string[], options: InlineOptions, tight = false, depth = 0): string {
+  if (depth > MAX_NESTING_DEPTH) return options.renderText(lines.join("\n"), {});
+
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = matchFence(line);
+    if (fence) {
+      const indent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !isClosingFence(lines[i], fence[1])) {
+        code.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      const language = fence[2].trim().split(/\s+/)[0];
+      const languageClass = /^[\w+#.-]+$/.test(language) ? ` class="language-${escapeHtml(language)}"` : "";
+      const content = code.length > 0 ? `${code.join("\n")}\n` : "";
+      blocks.push(`<pre><code${languageClass}>${escapeHtml(content)}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2] ?? "", options)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK_PATTERN.test(line)) {
+      blocks.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const quote = lines[i].match(BLOCKQUOTE_PATTERN);
+        if (quote) {
+          quoted.push(quote[1]);
+        } else if (!startsBlock(lines[i])) {
+          quoted.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push(`<blockquote>\n${renderBlocks(quoted, options, false, depth + 1)}\n</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = renderList(lines, i, options, depth);
+      blocks.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const alignments = splitTableRow(lines[i + 1]).map(getCellAlignment);
+      if (header.length === alignments.length) {
+        const rows: string[][] = [];
+        i += 2;
+        while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+          rows.push(splitTableRow(lines[i]));
+          i++;
+        }
+        const renderRow = (cells: string[], tag: "th" | "td") =>
+          `<tr>${alignments
+            .map((align, column) => `<${tag}${align}>${renderInline(cells[column] ?? "", options)}</${tag}>`)
+            .join("")}</tr>`;
+        const body = rows.length > 0 ? `\n<tbody>\n${rows.map(row => renderRow(row, "td")).join("\n")}\n</tbody>` : "";
+        blocks.push(`<table>\n<thead>\n${renderRow(header, "th")}\n</thead>${body}\n</table>`);
+        continue;
+      }
+    }
+
+    // Paragraph, or a setext heading when underlined with === or ---
+    const paragraph = [line.trimStart()];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = lines[i].match(SETEXT_UNDERLINE_PATTERN);
+      if (underline) {
+        setextLevel = underline[1][0] === "=" ? 1 : 2;
+        i++;
+        break;
+      }
+      if (interruptsParagraph(lines[i])) break;
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+
+    const content = renderInline(paragraph.join("\n").trimEnd(), options);
+    if (setextLevel) {
+      blocks.push(`<h${setextLevel}>${content}</h${setextLevel}>`);
+    } else {
+      blocks.push(tight ? content : `<p>${content}</p>`);
+    }
+  }
+
+  return blocks.join("\n");
+}
+
+/**
+ * Render Markdown (CommonMark with GFM tables and strikethrough) to HTML.
+ *
+ * Raw HTML in the input is escaped, not passed through, links or images with
+ * unsafe URLs (e.g. `javascript:`) are rendered as plain text, and images are
+ * rendered as links unless `allowImages` is set.
+ *
+ * @param markdown - Markdown source
+ * @param options - Text run rendering hook and image handling
+ * @returns An HTML fragment
+ *
+ * @example
+ * ```typescript
+ * renderMarkdownHtml("## Summary\n\n- **Revenue** grew");
+ * // "<h2>Summary</h2>\n<ul>\n<li><strong>Revenue</strong> grew</li>\n</ul>"
+ * ```
+ */
+export function renderMarkdownHtml(markdown: string, options: MarkdownHtmlOptions = {}): string {
+  const { renderText = escapeHtml, allowImages = false } = options;
+  const lines = markdown
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map(line => line.replace(/^\t+/, tabs => "    ".repeat(tabs.length)));
+  return renderBlocks(lines, { renderText, allowImages });
+}
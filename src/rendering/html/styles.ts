@@ -61,6 +61,10 @@ ${selector} .${prefix}citation-link:hover {
   opacity: 0.8;
 }
 
+${selector} .${prefix}citation-group {
+  white-space: nowrap;
+}
+
 ${selector} .${prefix}verified .${prefix}indicator {
   color: ${colors.verified.text};
 }
@@ -198,6 +202,35 @@ ${selector} .${prefix}chip.${prefix}not-found {
 ${selector} .${prefix}chip.${prefix}pending {
   background: ${colors.pending.bg};
   border: 1px solid ${colors.pending.border};
+}
+
+/* Markdown content */
+${selector} .${prefix}markdown table {
+  border-collapse: collapse;
+}
+
+${selector} .${prefix}markdown th,
+${selector} .${prefix}markdown td {
+  border: 1px solid ${colors.pending.border};
+  padding: 4px 8px;
+}
+
+${selector} .${prefix}markdown pre {
+  background: ${colors.pending.bg};
+  padding: 8px 12px;
+  border-radius: 6px;
+  overflow-x: auto;
+}
+
+${selector} .${prefix}markdown code {
+  font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+  font-size: 0.9em;
+}
+
+${selector} .${prefix}markdown blockquote {
+  margin: 0;
+  padding-left: 12px;
+  border-left: 3px solid ${colors.pending.border};
 }`;
 
   if (theme === "auto") {
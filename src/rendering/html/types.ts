@@ -35,6 +35,18 @@ export interface HtmlRenderOptions extends RenderOptions {
 
   /** CSS class prefix (default: "dc-") */
   classPrefix?: string;
+
+  /**
+   * Render the answer as Markdown (CommonMark/GFM) instead of plain text (default: false).
+   * Raw HTML is escaped, unsafe link URLs are dropped, and markers inside code stay literal.
+   */
+  markdown?: boolean;
+
+  /**
+   * With `markdown`, render Markdown images as `<img>` (default: false, they render as links).
+   * Only enable for trusted output: images load on view, so their URLs can track readers.
+   */
+  markdownImages?: boolean;
 }
 
 /**
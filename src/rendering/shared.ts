@@ -2,9 +2,12 @@
  * Shared utilities for citation rendering targets.
  *
  * Extracts the common segment-walk loop and source label resolution
- * used identically across GitHub, HTML, Slack, Terminal, and Markdown renderers.
+ * used identically across GitHub, HTML, Slack, Terminal, Teams, Discord and Markdown renderers.
  */
 
+import { getIndicator, toSuperscript } from "../markdown/markdownVariants.js";
+import type { IndicatorStyle } from "../markdown/types.js";
+import { parseCitationMarker } from "../parsing/citationMarkers.js";
 import { getCitationStatus } from "../parsing/parseCitation.js";
 import { type ParsedCitationResult, parseCitationResponse } from "../parsing/parseCitationResponse.js";
 import type { Citation, CitationStatus } from "../types/citation.js";
@@ -17,6 +20,14 @@ export interface TextSegment {
   value: string;
 }
 
+/** Position of a citation within a group of adjacent markers. */
+export interface CitationGroupPosition {
+  /** 0-based position within the group */
+  index: number;
+  /** Number of citations in the group */
+  size: number;
+}
+
 /** A citation marker segment with resolved citation data. */
 export interface CitationSegment {
   type: "citation";
@@ -25,12 +36,29 @@ export interface CitationSegment {
   verification: Verification | null;
   status: CitationStatus;
   citationNumber: number;
+  /** Set when the citation is one of several in `[1, 2]`, `[1-3]` or `[1][2]` */
+  group?: CitationGroupPosition;
+}
+
+/** Brackets around and separators between the members of a compact citation group. */
+export interface GroupDelimiters {
+  open: string;
+  separator: string;
+  close: string;
 }
 
+/** `[1✓, 2✓]` */
+export const BRACKET_GROUP_DELIMITERS: GroupDelimiters = { open: "[", separator: ", ", close: "]" };
+
+/** `¹✓,²✓` — a separator keeps adjacent superscripts from reading as one number */
+export const SUPERSCRIPT_GROUP_DELIMITERS: GroupDelimiters = { open: "", separator: ",", close: "" };
+
 /** Result of walking citation segments. */
 export interface WalkResult {
   segments: (TextSegment | CitationSegment)[];
   citationsWithStatus: RenderCitationWithStatus[];
+  /** Number given to the last marker citation walked; pass as `startNumber` to continue numbering */
+  lastCitationNumber: number;
 }
 
 /**
@@ -38,59 +66,155 @@ export interface WalkResult {
  *
  * Replaces the ~25-line boilerplate loop duplicated across all renderers:
  * parse → split → match `[N]` → look up markerMap → getCitationStatus → push.
+ * Grouped markers (`[1, 2]`, `[3-5]`) yield one segment per citation, and runs of
+ * adjacent citations get a `group` position so renderers can show them compactly.
  *
  * @param input - Raw LLM string or pre-parsed result
  * @param verifications - Verification results keyed by citationKey
+ * @param startNumber - Citation numbers continue after this one, for walking a text in pieces (default: 0)
  * @returns Typed segments and citationsWithStatus array
  */
 export function walkCitationSegments(
   input: string | ParsedCitationResult,
   verifications: Record<string, Verification> = {},
+  startNumber = 0,
 ): WalkResult {
   const parsed = typeof input === "string" ? parseCitationResponse(input) : input;
   const rawSegments = parsed.visibleText.split(parsed.splitPattern);
   const segments: (TextSegment | CitationSegment)[] = [];
   const citationsWithStatus: RenderCitationWithStatus[] = [];
-  let citationIndex = 0;
+  let citationIndex = startNumber;
+
+  let group: CitationSegment[] = [];
+
+  const closeGroup = () => {
+    if (group.length > 1) {
+      group.forEach((member, index) => {
+        member.group = { index, size: group.length };
+      });
+    }
+    group = [];
+  };
 
   for (const segment of rawSegments) {
-    const match = segment.match(/^\[(\d+)\]$/);
-    if (!match) {
+    const ids = parseCitationMarker(segment);
+    if (!ids) {
+      // Adjacent markers (`[1][2]`) are split by an empty segment and stay one group
+      if (segment) closeGroup();
       segments.push({ type: "text", value: segment });
       continue;
     }
 
-    citationIndex++;
-    const citationKey = parsed.markerMap[Number(match[1])];
-    const citation = citationKey ? parsed.citations[citationKey] : undefined;
-    if (!citation) {
+    // Members of a grouped marker that have no citation are dropped; the marker
+    // stays as text only when none resolve
+    const members = ids.flatMap(id => {
+      citationIndex++;
+      const citationKey = parsed.markerMap[id];
+      const citation = citationKey ? parsed.citations[citationKey] : undefined;
+      return citation ? [{ citationKey, citation, citationNumber: citationIndex }] : [];
+    });
+    if (members.length === 0) {
+      closeGroup();
       segments.push({ type: "text", value: segment });
       continue;
     }
 
-    const verification = verifications[citationKey] || null;
-    const status = getCitationStatus(verification);
-
-    const cws: RenderCitationWithStatus = {
-      citation,
-      citationKey,
-      verification,
-      status,
-      citationNumber: citationIndex,
-    };
-
-    citationsWithStatus.push(cws);
-    segments.push({
-      type: "citation",
-      citationKey,
-      citation,
-      verification,
-      status,
-      citationNumber: citationIndex,
-    });
+    for (const { citationKey, citation, citationNumber } of members) {
+      const verification = verifications[citationKey] || null;
+      const status = getCitationStatus(verification);
+
+      const cws: RenderCitationWithStatus = {
+        citation,
+        citationKey,
+        verification,
+        status,
+        citationNumber,
+      };
+
+      citationsWithStatus.push(cws);
+      const citationSegment: CitationSegment = {
+        type: "citation",
+        citationKey,
+        citation,
+        verification,
+        status,
+        citationNumber,
+      };
+      segments.push(citationSegment);
+      group.push(citationSegment);
+    }
   }
+  closeGroup();
 
-  return { segments, citationsWithStatus };
+  return { segments, citationsWithStatus, lastCitationNumber: citationIndex };
+}
+
+/**
+ * Group delimiters for `compactGroups`: bracket groups for the `brackets` variant and
+ * comma-separated superscripts for `superscript`. Other variants have no compact form.
+ */
+export function getCompactGroupDelimiters(variant: string, compactGroups: boolean): GroupDelimiters | undefined {
+  if (!compactGroups) return undefined;
+  if (variant === "brackets") return BRACKET_GROUP_DELIMITERS;
+  if (variant === "superscript") return SUPERSCRIPT_GROUP_DELIMITERS;
+  return undefined;
+}
+
+/**
+ * Text to emit before and after a citation when rendering its group compactly,
+ * e.g. `[1✓, 2✓]` instead of `[1✓][2✓]`. `grouped` is false — and both strings
+ * empty — for ungrouped citations, or when the variant has no group delimiters.
+ *
+ * @param segment - A citation segment from {@link walkCitationSegments}
+ * @param delimiters - Group brackets and separator for the render variant, if it supports compact groups
+ */
+export function getGroupDelimiters(
+  segment: CitationSegment,
+  delimiters: GroupDelimiters | undefined,
+): { grouped: boolean; before: string; after: string } {
+  if (!delimiters || !segment.group) return { grouped: false, before: "", after: "" };
+  const { index, size } = segment.group;
+  return {
+    grouped: true,
+    before: index === 0 ? delimiters.open : delimiters.separator,
+    after: index === size - 1 ? delimiters.close : "",
+  };
+}
+
+/**
+ * Render a citation marker as a markdown link for targets that don't render
+ * brackets inside link text (Teams, Discord): linked brackets sit outside the
+ * link — `[[1✓](url)]`. With `grouped`, the brackets variant omits its own
+ * brackets (compact groups).
+ */
+export function renderLinkedCitationMarker(
+  citationNumber: number,
+  anchorText: string | undefined,
+  status: CitationStatus,
+  indicatorStyle: IndicatorStyle,
+  proofUrl: string | undefined,
+  variant: "brackets" | "superscript" | "inline",
+  grouped = false,
+): string {
+  const indicator = getIndicator(status, indicatorStyle);
+
+  switch (variant) {
+    case "superscript": {
+      const text = `${toSuperscript(citationNumber)}${indicator}`;
+      return proofUrl ? `[${text}](${proofUrl})` : text;
+    }
+
+    case "inline": {
+      const text = `${anchorText || `Citation ${citationNumber}`}${indicator}`;
+      return proofUrl ? `[${text}](${proofUrl})` : text;
+    }
+
+    default: {
+      const text = `${citationNumber}${indicator}`;
+      const linked = proofUrl ? `[${text}](${proofUrl})` : text;
+      return grouped ? linked : `[${linked}]`;
+    }
+  }
 }
 
 /**
@@ -108,3 +232,59 @@ export function resolveSourceLabel(cws: RenderCitationWithStatus, sourceLabels:
   }
   return sourceLabels[cws.citation.attachmentId || ""] || cws.verification?.label || `Source ${cws.citationNumber}`;
 }
+
+/**
+ * Get a status label for source tables, lists and facts.
+ */
+export function getStatusLabel(status: CitationStatus): string {
+  if (status.isMiss) return "Not Found";
+  if (status.isPartialMatch) return "Partial";
+  if (status.isVerified) return "Verified";
+  if (status.isError) return "Verification Error";
+  if (status.isPending) return "Pending";
+  return "Unknown";
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Split text into chunks of at most `limit` characters for targets with length
+ * limits. Breaks at paragraph, line or word boundaries, and never inside a match
+ * of `atomicPattern` (a global regex, e.g. for links) or a surrogate pair. A match
+ * longer than `limit` can't fit in any chunk, so it is cut at the limit like text
+ * without boundaries.
+ */
+export function splitTextAtBoundaries(text: string, limit: number, atomicPattern?: RegExp): string[] {
+  const chunks: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > limit) {
+    const atoms = atomicPattern ? [...rest.matchAll(atomicPattern)].map(m => [m.index, m.index + m[0].length]) : [];
+    const atomAt = (index: number) => atoms.find(([start, end]) => index > start && index < end);
+
+    let cut = -1;
+    for (const separator of ["\n\n", "\n", " "]) {
+      let index = rest.lastIndexOf(separator, limit);
+      while (index > 0 && atomAt(index)) index = rest.lastIndexOf(separator, index - 1);
+      if (index > 0) {
+        cut = index;
+        break;
+      }
+    }
+    if (cut <= 0) {
+      // No boundary: hard cut, moved back to the start of an atom it would split
+      const atom = atomAt(limit);
+      cut = atom && atom[0] > 0 ? atom[0] : limit;
+      // Keep surrogate pairs (e.g. emoji) whole
+      if (cut > 1 && isHighSurrogate(rest.charCodeAt(cut - 1))) cut--;
+    }
+
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+
+  if (rest) chunks.push(rest);
+  return chunks;
+}
@@ -0,0 +1,73 @@
+import type { CitationStatus } from "../../types/citation.js";
+import { splitTextAtBoundaries } from "../shared.js";
+import type { SlackBlock, SlackBlockMessage } from "./types.js";
+
+/** Slack's maximum length of a section block's text */
+export const SLACK_SECTION_TEXT_LIMIT = 3000;
+
+/**
+ * Slack emoji for a verification status, used in Block Kit source entries.
+ */
+export function getSlackStatusEmoji(status: CitationStatus): string {
+  if (status.isMiss) return ":x:";
+  if (status.isPartialMatch) return ":warning:";
+  if (status.isVerified) return ":white_check_mark:";
+  if (status.isError) return ":exclamation:";
+  return ":hourglass_flowing_sand:";
+}
+
+/** Slack links, `<url|text>`, which must not be split across sections */
+const SLACK_LINK_PATTERN = /<[^<>]*>/g;
+
+/**
+ * Split mrkdwn into chunks of at most `limit` characters, breaking at paragraph,
+ * line or word boundaries and never inside a `<url|text>` link (unless the link
+ * alone is longer than `limit`).
+ */
+export function splitSlackText(text: string, limit: number = SLACK_SECTION_TEXT_LIMIT): string[] {
+  return splitTextAtBoundaries(text, limit, SLACK_LINK_PATTERN);
+}
+
+/** Text a block contributes to the message, for length budgets and fallback text. */
+function getBlockText(block: SlackBlock): string {
+  switch (block.type) {
+    case "section":
+      return block.text.text;
+    case "context":
+      return block.elements.map(element => (element.type === "mrkdwn" ? element.text : "")).join(" ");
+    default:
+      return "";
+  }
+}
+
+/**
+ * Pack blocks into messages of at most `maxBlocks` blocks and `maxLength`
+ * characters of text. A block larger than `maxLength` gets a message of its own.
+ */
+export function packSlackMessages(blocks: SlackBlock[], maxBlocks: number, maxLength: number): SlackBlockMessage[] {
+  const messages: SlackBlock[][] = [];
+  let current: SlackBlock[] = [];
+  let length = 0;
+
+  for (const block of blocks) {
+    const blockLength = getBlockText(block).length;
+    if (current.length > 0 && (current.length >= maxBlocks || length + blockLength > maxLength)) {
+      messages.push(current);
+      current = [];
+      length = 0;
+    }
+    // A divider at the start of a thread reply separates nothing
+    if (current.length === 0 && block.type === "divider" && messages.length > 0) continue;
+    current.push(block);
+    length += blockLength;
+  }
+  if (current.length > 0) messages.push(current);
+
+  return messages.map(messageBlocks => ({
+    text: messageBlocks
+      .map(getBlockText)
+      .filter(text => text !== "")
+      .join("\n"),
+    blocks: messageBlocks,
+  }));
+}
@@ -1,9 +1,16 @@
 import { formatPageLocation } from "../../markdown/markdownVariants.js";
 import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
-import { buildProofUrl } from "../proofUrl.js";
-import { resolveSourceLabel, walkCitationSegments } from "../shared.js";
-import { renderSlackCitation, renderSlackSourceEntry } from "./slackVariants.js";
-import type { SlackOutput, SlackRenderOptions } from "./types.js";
+import { buildProofUrl, buildSnippetImageUrl } from "../proofUrl.js";
+import {
+  BRACKET_GROUP_DELIMITERS,
+  getGroupDelimiters,
+  resolveSourceLabel,
+  SUPERSCRIPT_GROUP_DELIMITERS,
+  walkCitationSegments,
+} from "../shared.js";
+import { getSlackStatusEmoji, packSlackMessages, splitSlackText } from "./slackBlocks.js";
+import { renderSlackCitation, renderSlackSourceBlockText, renderSlackSourceEntry } from "./slackVariants.js";
+import type { SlackBlock, SlackOutput, SlackRenderOptions } from "./types.js";
 
 /**
  * Render LLM output with `[N]` citation markers as Slack mrkdwn with linked proof URLs.
@@ -21,6 +28,11 @@ import type { SlackOutput, SlackRenderOptions } from "./types.js";
  *   proofBaseUrl: "https://proof.deepcitation.com",
  *   includeSources: true,
  * });
+ *
+ * // Block Kit: post messages[0], then the rest as replies in its thread
+ * const { messages } = renderCitationsForSlack(llmOutput, { verifications, format: "blocks", includeSources: true });
+ * const { ts } = await slack.chat.postMessage({ channel, ...messages[0] });
+ * for (const reply of messages.slice(1)) await slack.chat.postMessage({ channel, thread_ts: ts, ...reply });
  * ```
  */
 export function renderCitationsForSlack(
@@ -34,8 +46,19 @@ export function renderCitationsForSlack(
     includeSources = false,
     sourceLabels = {},
     variant = "brackets",
+    format = "mrkdwn",
     maxMessageLength = 4000,
+    maxBlocksPerMessage = 50,
+    includeSnippetImages = false,
+    compactGroups = false,
   } = options;
+  const groupDelimiters = !compactGroups
+    ? undefined
+    : variant === "brackets"
+      ? BRACKET_GROUP_DELIMITERS
+      : variant === "number"
+        ? SUPERSCRIPT_GROUP_DELIMITERS
+        : undefined;
 
   const { segments, citationsWithStatus } = walkCitationSegments(input, verifications);
   const proofUrls: Record<string, string> = {};
@@ -54,7 +77,9 @@ export function renderCitationsForSlack(
       proofUrls[seg.citationKey] = proofUrl;
     }
 
+    const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
     messageParts.push(
+      before,
       renderSlackCitation(
         seg.citationNumber,
         seg.citation.anchorText ?? undefined,
@@ -62,7 +87,9 @@ export function renderCitationsForSlack(
         indicatorStyle,
         proofUrl,
         variant,
+        grouped,
       ),
+      after,
     );
   }
 
@@ -88,8 +115,51 @@ export function renderCitationsForSlack(
 
   let full = sources ? `${message}\n\n${sources}` : message;
 
-  // Truncate if over max length
-  if (full.length > maxMessageLength) {
+  // Blocks mode overflows into thread replies, so only the mrkdwn string is truncated
+  let messages: SlackOutput["messages"];
+  if (format === "blocks") {
+    const blocks: SlackBlock[] = splitSlackText(message).map(text => ({
+      type: "section",
+      text: { type: "mrkdwn", text },
+    }));
+
+    if (includeSources && citationsWithStatus.length > 0) {
+      blocks.push({ type: "divider" }, { type: "section", text: { type: "mrkdwn", text: "*Sources:*" } });
+      for (const cws of citationsWithStatus) {
+        const location = formatPageLocation(cws.citation, cws.verification, {
+          showPageNumber: true,
+          showLinePosition: false,
+        });
+        const text = {
+          type: "mrkdwn" as const,
+          text: renderSlackSourceBlockText(
+            cws.citationNumber,
+            getSlackStatusEmoji(cws.status),
+            resolveSourceLabel(cws, sourceLabels),
+            location,
+            proofUrls[cws.citationKey],
+          ),
+        };
+        // Only section blocks take an accessory; sources without an image stay compact context blocks
+        blocks.push(
+          includeSnippetImages && proofBaseUrl
+            ? {
+                type: "section",
+                text,
+                accessory: {
+                  type: "image",
+                  image_url: buildSnippetImageUrl(cws.citationKey, { baseUrl: proofBaseUrl }),
+                  alt_text: `Proof snippet for citation ${cws.citationNumber}`,
+                },
+              }
+            : { type: "context", elements: [text] },
+        );
+      }
+    }
+
+    messages = packSlackMessages(blocks, maxBlocksPerMessage, maxMessageLength);
+  } else if (full.length > maxMessageLength) {
+    // Truncate if over max length
     full = `${full.slice(0, maxMessageLength - 3)}...`;
   }
 
@@ -100,5 +170,6 @@ export function renderCitationsForSlack(
     full,
     citations: citationsWithStatus,
     proofUrls: Object.keys(proofUrls).length > 0 ? proofUrls : undefined,
+    ...(messages && { messages }),
   };
 }
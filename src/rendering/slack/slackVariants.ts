@@ -6,6 +6,7 @@ import type { SlackVariant } from "./types.js";
 /**
  * Render a citation marker in Slack mrkdwn format.
  * Wraps the marker in a Slack link if proofUrl is provided.
+ * With `grouped`, the brackets variant omits its own brackets (compact groups).
  */
 export function renderSlackCitation(
   citationNumber: number,
@@ -14,6 +15,7 @@ export function renderSlackCitation(
   indicatorStyle: IndicatorStyle,
   proofUrl: string | undefined,
   variant: SlackVariant,
+  grouped = false,
 ): string {
   const indicator = getIndicator(status, indicatorStyle);
   let text: string;
@@ -26,7 +28,7 @@ export function renderSlackCitation(
       text = `${toSuperscript(citationNumber)}${indicator}`;
       break;
     default:
-      text = `[${citationNumber}${indicator}]`;
+      text = grouped ? `${citationNumber}${indicator}` : `[${citationNumber}${indicator}]`;
       break;
   }
 
@@ -53,3 +55,18 @@ export function renderSlackSourceEntry(
   const location = pageLocation ? ` — ${pageLocation}` : "";
   return `• ${marker} ${sourceLabel}${location}`;
 }
+
+/**
+ * Format a source entry for a Block Kit source block, led by a status emoji.
+ */
+export function renderSlackSourceBlockText(
+  citationNumber: number,
+  statusEmoji: string,
+  sourceLabel: string,
+  pageLocation: string,
+  proofUrl: string | undefined,
+): string {
+  const marker = proofUrl ? `<${proofUrl}|[${citationNumber}]>` : `[${citationNumber}]`;
+  const location = pageLocation ? ` — ${pageLocation}` : "";
+  return `${statusEmoji} ${marker} ${sourceLabel}${location}`;
+}
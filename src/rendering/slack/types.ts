@@ -15,8 +15,77 @@ export interface SlackRenderOptions extends RenderOptions {
   /** Slack citation variant (default: "brackets") */
   variant?: SlackVariant;
 
-  /** Maximum message length before truncation (default: 4000) */
+  /**
+   * Output format (default: "mrkdwn").
+   * - `"mrkdwn"`: one mrkdwn string, truncated at `maxMessageLength`
+   * - `"blocks"`: Block Kit messages in `messages`; content that does not fit in the
+   *   first message overflows into follow-up thread replies instead of being truncated
+   */
+  format?: SlackFormat;
+
+  /**
+   * Maximum message length before truncation (default: 4000). In blocks mode, the
+   * text budget per message before overflowing into a thread reply.
+   */
   maxMessageLength?: number;
+
+  /** Blocks mode: maximum blocks per message (default: 50, Slack's limit) */
+  maxBlocksPerMessage?: number;
+
+  /**
+   * Blocks mode: show each source's proof snippet as an image accessory
+   * (default: false). Requires `proofBaseUrl`.
+   */
+  includeSnippetImages?: boolean;
+}
+
+/**
+ * Slack output format.
+ */
+export type SlackFormat = "mrkdwn" | "blocks";
+
+/** Block Kit mrkdwn text object. */
+export interface SlackTextObject {
+  type: "mrkdwn";
+  text: string;
+}
+
+/** Block Kit image element. */
+export interface SlackImageElement {
+  type: "image";
+  image_url: string;
+  alt_text: string;
+}
+
+/** Block Kit section block (text limited to 3000 characters). */
+export interface SlackSectionBlock {
+  type: "section";
+  text: SlackTextObject;
+  accessory?: SlackImageElement;
+}
+
+/** Block Kit context block (up to 10 elements). */
+export interface SlackContextBlock {
+  type: "context";
+  elements: Array<SlackTextObject | SlackImageElement>;
+}
+
+/** Block Kit divider block. */
+export interface SlackDividerBlock {
+  type: "divider";
+}
+
+/** Block Kit blocks produced by the Slack renderer. */
+export type SlackBlock = SlackSectionBlock | SlackContextBlock | SlackDividerBlock;
+
+/**
+ * A Slack message payload for `chat.postMessage`. Pass `thread_ts` yourself for
+ * follow-up messages.
+ */
+export interface SlackBlockMessage {
+  /** Notification / fallback text */
+  text: string;
+  blocks: SlackBlock[];
 }
 
 /**
@@ -25,4 +94,10 @@ export interface SlackRenderOptions extends RenderOptions {
 export interface SlackOutput extends RenderedOutput {
   /** The Slack mrkdwn message (same as content) */
   message: string;
+
+  /**
+   * Blocks mode: the messages to post, in order. The first is the top-level
+   * message; the rest are thread replies.
+   */
+  messages?: SlackBlockMessage[];
 }
@@ -0,0 +1,149 @@
+import { formatPageLocation, getIndicator } from "../../markdown/markdownVariants.js";
+import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
+import { buildProofUrl } from "../proofUrl.js";
+import {
+  getCompactGroupDelimiters,
+  getGroupDelimiters,
+  getStatusLabel,
+  renderLinkedCitationMarker,
+  resolveSourceLabel,
+  walkCitationSegments,
+} from "../shared.js";
+import { renderTeamsSourceFact } from "./teamsVariants.js";
+import type { AdaptiveCard, AdaptiveCardElement, TeamsOutput, TeamsRenderOptions } from "./types.js";
+
+const ADAPTIVE_CARD_SCHEMA = "http://adaptivecards.io/schemas/adaptive-card.json";
+
+/** Highest Adaptive Card schema version Teams renders */
+const ADAPTIVE_CARD_VERSION = "1.5";
+
+/**
+ * Render LLM output with `[N]` citation markers as a Microsoft Teams Adaptive Card.
+ *
+ * The answer becomes one TextBlock per paragraph with linked citation markers,
+ * followed (with `includeSources`) by a FactSet of sources with their verification
+ * status and an `Action.OpenUrl` proof button per citation.
+ *
+ * Accepts either a raw LLM response string (auto-parsed) or a pre-parsed
+ * `ParsedCitationResult` for efficiency when reusing parsed data.
+ *
+ * @example
+ * ```typescript
+ * import { renderCitationsForTeams } from "deepcitation/teams";
+ *
+ * const { card } = renderCitationsForTeams(llmOutput, {
+ *   verifications,
+ *   proofBaseUrl: "https://proof.deepcitation.com",
+ *   includeSources: true,
+ * });
+ * await context.sendActivity({
+ *   attachments: [{ contentType: "application/vnd.microsoft.card.adaptive", content: card }],
+ * });
+ * ```
+ */
+export function renderCitationsForTeams(
+  input: string | ParsedCitationResult,
+  options: TeamsRenderOptions = {},
+): TeamsOutput {
+  const {
+    verifications = {},
+    indicatorStyle = "check",
+    proofBaseUrl,
+    includeSources = false,
+    sourceLabels = {},
+    variant = "brackets",
+    maxProofActions = 6,
+    compactGroups = false,
+  } = options;
+  const groupDelimiters = getCompactGroupDelimiters(variant, compactGroups);
+
+  const { segments, citationsWithStatus } = walkCitationSegments(input, verifications);
+  const proofUrls: Record<string, string> = {};
+
+  const markdownParts: string[] = [];
+
+  for (const seg of segments) {
+    if (seg.type === "text") {
+      markdownParts.push(seg.value);
+      continue;
+    }
+
+    let proofUrl: string | undefined;
+    if (proofBaseUrl) {
+      proofUrl = buildProofUrl(seg.citationKey, { baseUrl: proofBaseUrl });
+      proofUrls[seg.citationKey] = proofUrl;
+    }
+
+    const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
+    markdownParts.push(
+      before,
+      renderLinkedCitationMarker(
+        seg.citationNumber,
+        seg.citation.anchorText ?? undefined,
+        seg.status,
+        indicatorStyle,
+        proofUrl,
+        variant,
+        grouped,
+      ),
+      after,
+    );
+  }
+
+  const markdown = markdownParts.join("");
+
+  const body: AdaptiveCardElement[] = markdown
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph !== "")
+    .map(text => ({ type: "TextBlock", text, wrap: true }));
+  const card: AdaptiveCard = {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+  };
+
+  // Build sources section
+  let sources: string | undefined;
+  if (includeSources && citationsWithStatus.length > 0) {
+    const facts = citationsWithStatus.map(cws =>
+      renderTeamsSourceFact(
+        cws.citationNumber,
+        getIndicator(cws.status, indicatorStyle),
+        getStatusLabel(cws.status),
+        resolveSourceLabel(cws, sourceLabels),
+        formatPageLocation(cws.citation, cws.verification, { showPageNumber: true, showLinePosition: false }),
+      ),
+    );
+
+    body.push(
+      { type: "TextBlock", text: "Sources", weight: "Bolder", spacing: "Medium", wrap: true },
+      { type: "FactSet", facts },
+    );
+
+    const actions = citationsWithStatus
+      .filter(cws => proofUrls[cws.citationKey])
+      .slice(0, maxProofActions)
+      .map(cws => ({
+        type: "Action.OpenUrl" as const,
+        title: `Proof [${cws.citationNumber}]`,
+        url: proofUrls[cws.citationKey],
+      }));
+    if (actions.length > 0) card.actions = actions;
+
+    sources = ["**Sources:**", ...facts.map(fact => `- ${fact.title}: ${fact.value}`)].join("\n");
+  }
+
+  const full = sources ? `${markdown}\n\n${sources}` : markdown;
+
+  return {
+    content: markdown,
+    markdown,
+    sources,
+    full,
+    card,
+    citations: citationsWithStatus,
+    proofUrls: Object.keys(proofUrls).length > 0 ? proofUrls : undefined,
+  };
+}
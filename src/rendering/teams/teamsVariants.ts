@@ -0,0 +1,15 @@
+/**
+ * Format a source as an Adaptive Card fact: the marker and status as the title,
+ * the source label and page as the value.
+ */
+export function renderTeamsSourceFact(
+  citationNumber: number,
+  indicator: string,
+  statusLabel: string,
+  sourceLabel: string,
+  pageLocation: string,
+): { title: string; value: string } {
+  const location = pageLocation ? ` — ${pageLocation}` : "";
+  const status = indicator ? `${indicator} ${statusLabel}` : statusLabel;
+  return { title: `[${citationNumber}] ${status}`, value: `${sourceLabel}${location}` };
+}
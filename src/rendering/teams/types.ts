@@ -0,0 +1,69 @@
+import type { RenderedOutput, RenderOptions } from "../types.js";
+
+/**
+ * Teams citation variant.
+ */
+export type TeamsVariant =
+  | "brackets" // [[1✓](url)] — default, linked number in brackets
+  | "superscript" // [¹✓](url) — footnote style
+  | "inline"; // [Revenue grew 23%✓](url) — descriptive
+
+/**
+ * Teams-specific render options.
+ */
+export interface TeamsRenderOptions extends RenderOptions {
+  /** Teams citation variant (default: "brackets") */
+  variant?: TeamsVariant;
+
+  /** Maximum proof link buttons on the card (default: 6, the most Teams shows) */
+  maxProofActions?: number;
+}
+
+/** Adaptive Card text block (supports the Teams markdown subset). */
+export interface AdaptiveCardTextBlock {
+  type: "TextBlock";
+  text: string;
+  wrap: boolean;
+  weight?: "Default" | "Bolder";
+  size?: "Default" | "Medium";
+  spacing?: "Default" | "Medium";
+}
+
+/** Adaptive Card fact set. */
+export interface AdaptiveCardFactSet {
+  type: "FactSet";
+  facts: Array<{ title: string; value: string }>;
+}
+
+/** Adaptive Card link button. */
+export interface AdaptiveCardOpenUrlAction {
+  type: "Action.OpenUrl";
+  title: string;
+  url: string;
+}
+
+/** Adaptive Card body elements produced by the Teams renderer. */
+export type AdaptiveCardElement = AdaptiveCardTextBlock | AdaptiveCardFactSet;
+
+/**
+ * Adaptive Card JSON. Send it as an attachment with content type
+ * `application/vnd.microsoft.card.adaptive`.
+ */
+export interface AdaptiveCard {
+  type: "AdaptiveCard";
+  $schema: string;
+  version: string;
+  body: AdaptiveCardElement[];
+  actions?: AdaptiveCardOpenUrlAction[];
+}
+
+/**
+ * Teams-specific rendered output.
+ */
+export interface TeamsOutput extends RenderedOutput {
+  /** The answer in Teams markdown (same as content) */
+  markdown: string;
+
+  /** The Adaptive Card: answer text blocks, then the sources fact set and proof link buttons */
+  card: AdaptiveCard;
+}
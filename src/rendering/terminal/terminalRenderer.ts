@@ -1,7 +1,7 @@
 import { formatPageLocation, getIndicator } from "../../markdown/markdownVariants.js";
 import type { ParsedCitationResult } from "../../parsing/parseCitationResponse.js";
 import type { CitationStatus } from "../../types/citation.js";
-import { resolveSourceLabel, walkCitationSegments } from "../shared.js";
+import { BRACKET_GROUP_DELIMITERS, getGroupDelimiters, resolveSourceLabel, walkCitationSegments } from "../shared.js";
 import { bold, colorize, dim, horizontalRule, shouldUseColor } from "./ansiColors.js";
 import type { TerminalOutput, TerminalRenderOptions, TerminalVariant } from "./types.js";
 
@@ -17,6 +17,7 @@ function getStatusKey(status: CitationStatus): "verified" | "partial" | "notFoun
 
 /**
  * Render a single citation for terminal output.
+ * With `grouped`, the brackets variant omits its own brackets (compact groups).
  */
 function renderTerminalCitation(
   citationNumber: number,
@@ -25,6 +26,7 @@ function renderTerminalCitation(
   indicatorStyle: string,
   variant: TerminalVariant,
   useColor: boolean,
+  grouped = false,
 ): { colored: string; plain: string } {
   const indicator = getIndicator(status, indicatorStyle as import("../../markdown/types.js").IndicatorStyle);
   const statusKey = getStatusKey(status);
@@ -38,7 +40,7 @@ function renderTerminalCitation(
       plainText = indicator;
       break;
     default:
-      plainText = `[${citationNumber}${indicator}]`;
+      plainText = grouped ? `${citationNumber}${indicator}` : `[${citationNumber}${indicator}]`;
       break;
   }
 
@@ -78,7 +80,9 @@ export function renderCitationsForTerminal(
     variant = "brackets",
     color,
     maxWidth = 80,
+    compactGroups = false,
   } = options;
+  const groupDelimiters = compactGroups && variant === "brackets" ? BRACKET_GROUP_DELIMITERS : undefined;
 
   const useColor = shouldUseColor(color);
   const { segments, citationsWithStatus } = walkCitationSegments(input, verifications);
@@ -93,6 +97,7 @@ export function renderCitationsForTerminal(
       continue;
     }
 
+    const { grouped, before, after } = getGroupDelimiters(seg, groupDelimiters);
     const rendered = renderTerminalCitation(
       seg.citationNumber,
       seg.citation.anchorText ?? undefined,
@@ -100,10 +105,11 @@ export function renderCitationsForTerminal(
       indicatorStyle,
       variant,
       useColor,
+      grouped,
     );
 
-    coloredParts.push(rendered.colored);
-    plainParts.push(rendered.plain);
+    coloredParts.push(before, rendered.colored, after);
+    plainParts.push(before, rendered.plain, after);
   }
 
   const coloredText = coloredParts.join("");
@@ -21,6 +21,12 @@ export interface RenderOptions {
 
   /** Custom source labels by attachmentId */
   sourceLabels?: Record<string, string>;
+
+  /**
+   * Render grouped and adjacent markers (`[1, 2]`, `[1-3]`, `[1][2]`) as one compact
+   * group, e.g. `[1✓, 2✓]`, in the bracket and superscript variants (default: false)
+   */
+  compactGroups?: boolean;
 }
 
 /**
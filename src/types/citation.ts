@@ -286,4 +286,6 @@ export interface CitationStatus {
   isMiss: boolean;
   isPartialMatch: boolean;
   isPending: boolean;
+  /** The verification request failed (status "error"), so the citation was neither found nor missed */
+  isError: boolean;
 }
@@ -36,4 +36,5 @@ export type {
   UrlAccessStatus,
   UrlVerificationResult,
   Verification,
+  VerificationError,
 } from "./verification.js";
@@ -12,7 +12,9 @@ export type SearchStatus =
   | "found_on_other_line"
   | "first_word_found"
   | "timestamp_wip"
-  | "skipped";
+  | "skipped"
+  /** The verification request failed; see `Verification.verificationError` */
+  | "error";
 
 export type SearchMethod =
   | "exact_line_match"
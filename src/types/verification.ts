@@ -181,6 +181,21 @@ export interface PageImage {
   textItems?: DeepTextItem[];
 }
 
+/**
+ * Why a citation could not be verified (status `"error"`).
+ * A serializable snapshot of the client's DeepCitationError.
+ */
+export interface VerificationError {
+  /** Machine-readable error code (e.g., "DC_VALIDATION_ERROR", "DC_NETWORK_ERROR") */
+  code: string;
+  /** Human-readable error message */
+  message: string;
+  /** Whether retrying the verification may succeed */
+  isRetryable: boolean;
+  /** HTTP status code if applicable */
+  statusCode?: number;
+}
+
 // ==========================================================================
 // Main Verification interface
 // ==========================================================================
@@ -203,6 +218,9 @@ export interface Verification {
   /** Ordered list of search attempts made during verification */
   searchAttempts?: SearchAttempt[];
 
+  /** Why verification failed. Present only when status is "error". */
+  verificationError?: VerificationError;
+
   /** Custom highlight color override */
   highlightColor?: string;
 
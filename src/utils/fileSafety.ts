@@ -55,7 +55,10 @@ const FILE_SIGNATURES: Record<string, FileTypeSignature[]> = {
 /** MIME types accepted by the DeepCitation upload pipeline. */
 export const ALLOWED_UPLOAD_MIME_TYPES = Object.keys(FILE_SIGNATURES);
 
-/** Maximum upload file size in bytes (50 MB). */
+/**
+ * Maximum single-request upload size in bytes (50 MB).
+ * Larger files can be sent with `uploadFile(file, { chunked: true })`.
+ */
 export const MAX_UPLOAD_FILE_SIZE = 50 * 1024 * 1024;
 
 /**
@@ -0,0 +1,316 @@
+import type { VerificationRecord } from "../types/citation.js";
+import type { Verification } from "../types/verification.js";
+import { renderCitationReport, wrapReportPage } from "./renderReport.js";
+import type { ArchivalImage, ArchivalImageSkip, ArchivalReport, ArchivalReportOptions } from "./types.js";
+
+const DEFAULT_MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_SOURCE_IMAGE_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_IMAGE_BYTES = 20 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_IMAGE_TIMEOUT_MS = 30_000;
+
+/** Raster formats browsers render from data URIs. SVG is excluded: it can carry scripts. */
+const INLINE_MIME_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "image/avif"]);
+
+const ARCHIVE_CSS = `
+.dc-archive-footer {
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 12px 24px 24px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  font-size: 12px;
+  color: var(--dc-pop-muted, #6b7280);
+  word-break: break-all;
+}`;
+
+/** Identify PNG, JPEG, GIF and WebP by their magic bytes, for servers that send no useful Content-Type. */
+function sniffImageType(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return "image/gif";
+  if (
+    String.fromCharCode(...bytes.subarray(0, 4)) === "RIFF" &&
+    String.fromCharCode(...bytes.subarray(8, 12)) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Remote image URLs in the verifications, evidence images first, without duplicates. */
+function collectImageUrls(verifications: VerificationRecord, includePageImages: boolean): string[] {
+  const evidence: string[] = [];
+  const pages: string[] = [];
+  for (const verification of Object.values(verifications)) {
+    if (verification.evidence?.src) evidence.push(verification.evidence.src);
+    if (includePageImages) {
+      for (const page of verification.pageImages ?? []) pages.push(page.imageUrl);
+    }
+  }
+  return [...new Set([...evidence, ...pages])].filter(url => url && !url.startsWith("data:"));
+}
+
+/**
+ * Read a response body, stopping as soon as it exceeds `limit` bytes, so a
+ * missing or wrong Content-Length can't make us download more.
+ */
+async function readBody(response: Response, limit: number): Promise<Uint8Array | undefined> {
+  if (!response.body) return new Uint8Array(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+type FetchResult = { image: ArchivalImage } | { skip: ArchivalImageSkip };
+
+/** Rejects once `signal` aborts, for racing work that may not observe the signal itself. */
+function whenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+  });
+}
+
+/** Download an image of at most `limit` bytes and identify its type. Throws on network errors. */
+async function downloadImage(
+  url: string,
+  fetchImpl: typeof fetch,
+  limit: number,
+  signal: AbortSignal,
+): Promise<FetchResult> {
+  const response = await fetchImpl(url, { signal });
+  if (!response.ok) return { skip: { url, reason: "fetch_failed" } };
+
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > limit) {
+    await response.body?.cancel();
+    return { skip: { url, reason: "too_large" } };
+  }
+
+  const bytes = await readBody(response, limit);
+  if (!bytes) return { skip: { url, reason: "too_large" } };
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  // Trust a declared image type; sniff only generic ones like application/octet-stream
+  const mimeType = contentType?.startsWith("image/")
+    ? INLINE_MIME_TYPES.has(contentType)
+      ? contentType
+      : undefined
+    : sniffImageType(bytes);
+  if (!mimeType) return { skip: { url, reason: "unsupported_type" } };
+  return { image: { url, mimeType, bytes } };
+}
+
+/**
+ * Fetch an image and bring it within `maxBytes`, downscaling if a hook is given.
+ * Never throws: failures, timeouts and cancellation are reported as skips.
+ */
+async function fetchImage(url: string, options: ArchivalReportOptions, maxBytes: number): Promise<FetchResult> {
+  const {
+    fetch: fetchImpl = fetch,
+    downscaleImage,
+    maxSourceImageBytes = DEFAULT_MAX_SOURCE_IMAGE_BYTES,
+    timeoutMs = DEFAULT_IMAGE_TIMEOUT_MS,
+    signal,
+  } = options;
+  // Don't download what can't be inlined, or is too large to hand to downscaleImage
+  const downloadLimit = downscaleImage ? Math.max(maxBytes, maxSourceImageBytes) : maxBytes;
+
+  // One signal for the caller's cancellation and this image's timeout. The download
+  // is also raced against it, so a fetch that ignores the signal can't hang the report.
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onCallerAbort, { once: true });
+  if (signal?.aborted) controller.abort(signal.reason);
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let downloaded: FetchResult;
+  try {
+    downloaded = await Promise.race([
+      downloadImage(url, fetchImpl, downloadLimit, controller.signal),
+      whenAborted(controller.signal),
+    ]);
+  } catch {
+    return { skip: { url, reason: "fetch_failed" } };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onCallerAbort);
+  }
+  if ("skip" in downloaded) return downloaded;
+  const { image } = downloaded;
+
+  if (image.bytes.length <= maxBytes) return { image };
+  if (!downscaleImage) return { skip: { url, reason: "too_large" } };
+
+  let downscaled: ArchivalImage | null;
+  try {
+    downscaled = await downscaleImage(image, maxBytes);
+  } catch {
+    downscaled = null;
+  }
+  if (!downscaled || downscaled.bytes.length > maxBytes || !INLINE_MIME_TYPES.has(downscaled.mimeType)) {
+    return { skip: { url, reason: "too_large" } };
+  }
+  return { image: { ...downscaled, url } };
+}
+
+/** Copy of the verifications with image URLs replaced by their data URIs. */
+function inlineImages(
+  verifications: VerificationRecord,
+  dataUris: Map<string, string>,
+  includePageImages: boolean,
+): VerificationRecord {
+  const result: VerificationRecord = {};
+  for (const [key, verification] of Object.entries(verifications)) {
+    const evidenceUri = verification.evidence?.src ? dataUris.get(verification.evidence.src) : undefined;
+    const inlined: Verification = {
+      ...verification,
+      ...(verification.evidence && evidenceUri && { evidence: { ...verification.evidence, src: evidenceUri } }),
+      ...(includePageImages &&
+        verification.pageImages && {
+          pageImages: verification.pageImages.map(page => ({
+            ...page,
+            imageUrl: dataUris.get(page.imageUrl) ?? page.imageUrl,
+          })),
+        }),
+    };
+    result[key] = inlined;
+  }
+  return result;
+}
+
+/**
+ * Render a citation report for archiving: a single HTML file that keeps working
+ * after the attachment's images expire.
+ *
+ * Evidence images (`evidence.src`) and page images (`pageImages[].imageUrl`) are
+ * fetched and inlined as data URIs, within `maxImageBytes` per image and
+ * `maxTotalImageBytes` overall. Images that fail, time out (`timeoutMs`) or don't
+ * fit keep their remote URL and are listed in `skippedImages`. Aborting `signal`
+ * stops pending downloads and rejects. Images in Markdown answers stay links and
+ * are never fetched. The document records its generation time and a SHA-256
+ * hash of that time and its content (see {@link ArchivalReport.contentHash}).
+ *
+ * @example
+ * ```typescript
+ * import { renderArchivalCitationReport } from 'deepcitation/vanilla';
+ *
+ * const report = await renderArchivalCitationReport(llmOutput, {
+ *   verifications,
+ *   title: 'Q4 Analysis',
+ *   downscaleImage: async (image, maxBytes) => shrink(image, maxBytes),
+ * });
+ *
+ * fs.writeFileSync(`report-${report.contentHash.slice(0, 12)}.html`, report.html);
+ * ```
+ */
+export async function renderArchivalCitationReport(
+  input: string,
+  options: ArchivalReportOptions = {},
+): Promise<ArchivalReport> {
+  const {
+    verifications = {},
+    theme = "auto",
+    title = "Citation Report",
+    includePageImages = true,
+    maxImageBytes = DEFAULT_MAX_IMAGE_BYTES,
+    maxTotalImageBytes = DEFAULT_MAX_TOTAL_IMAGE_BYTES,
+    concurrency = DEFAULT_CONCURRENCY,
+    generatedAt = new Date(),
+    signal,
+  } = options;
+
+  const urls = collectImageUrls(verifications, includePageImages);
+  const dataUris = new Map<string, string>();
+  const skippedImages: ArchivalImageSkip[] = [];
+  let totalBytes = 0;
+
+  // Fetch in batches, then apply the total budget in URL order so results don't depend on timing
+  const batchSize = Math.max(1, concurrency);
+  for (let i = 0; i < urls.length; i += batchSize) {
+    signal?.throwIfAborted();
+    const batch = urls.slice(i, i + batchSize);
+    const results = await Promise.all(
+      batch.map(url =>
+        totalBytes >= maxTotalImageBytes
+          ? Promise.resolve<FetchResult>({ skip: { url, reason: "total_limit" } })
+          : fetchImage(url, options, maxImageBytes),
+      ),
+    );
+    for (const result of results) {
+      if ("skip" in result) {
+        skippedImages.push(result.skip);
+        continue;
+      }
+      const { image } = result;
+      if (totalBytes + image.bytes.length > maxTotalImageBytes) {
+        skippedImages.push({ url: image.url, reason: "total_limit" });
+        continue;
+      }
+      totalBytes += image.bytes.length;
+      dataUris.set(image.url, `data:${image.mimeType};base64,${toBase64(image.bytes)}`);
+    }
+  }
+  signal?.throwIfAborted();
+
+  const content = renderCitationReport(input, {
+    ...options,
+    verifications: inlineImages(verifications, dataUris, includePageImages),
+    theme,
+    title,
+    fullPage: false,
+    includeRuntime: true,
+    markdownImages: false,
+  });
+  const timestamp = generatedAt.toISOString();
+  // Hash the timestamp with the content so it can't be changed without breaking the hash
+  const contentHash = await sha256Hex(`${timestamp}\n${content}`);
+
+  const body = `<!-- dc-archive-content -->
+${content}
+<!-- /dc-archive-content -->
+<footer class="dc-archive-footer">Generated ${timestamp} · SHA-256 ${contentHash}</footer>`;
+  const head = `<meta name="dc-generated-at" content="${timestamp}">
+<meta name="dc-content-hash" content="sha256:${contentHash}">
+<style>${ARCHIVE_CSS}
+</style>`;
+
+  return {
+    html: wrapReportPage(body, { title, theme, head }),
+    generatedAt: timestamp,
+    contentHash,
+    embeddedImages: dataUris.size,
+    skippedImages,
+  };
+}
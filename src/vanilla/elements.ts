@@ -0,0 +1,626 @@
+/**
+ * Framework-agnostic custom elements built on the vanilla popover runtime.
+ *
+ * `<deep-citation-answer>` renders an LLM response with its citation markers and
+ * `<deep-citation-marker>` renders a single marker. Both open the same popovers
+ * as `renderCitationReport()` inside their shadow root, so they work in Vue,
+ * Svelte or plain HTML. Popover colors follow the `--dc-pop-*` CSS variables,
+ * which can be set on the element or any ancestor.
+ *
+ * Events (bubbling and composed):
+ * - `citation-open` — a popover opened ({@link CitationOpenEventDetail})
+ * - `citation-close` — a popover closed ({@link CitationCloseEventDetail})
+ * - `citations-rendered` — `<deep-citation-answer>` rendered ({@link CitationsRenderedEventDetail})
+ *
+ * @example
+ * ```typescript
+ * import { defineDeepCitationElements } from "deepcitation/elements";
+ *
+ * defineDeepCitationElements();
+ *
+ * const answer = document.createElement("deep-citation-answer");
+ * answer.llmOutput = llmOutput;
+ * answer.verifications = verifications;
+ * answer.addEventListener("citation-open", e => console.log(e.detail.citationKey));
+ * document.body.appendChild(answer);
+ * ```
+ */
+import type { IndicatorStyle } from "../markdown/types.js";
+import { getCitationStatus } from "../parsing/parseCitation.js";
+import { renderCitationsAsHtml } from "../rendering/html/htmlRenderer.js";
+import { renderHtmlCitation } from "../rendering/html/htmlVariants.js";
+import { generateStyleBlock } from "../rendering/html/styles.js";
+import type { HtmlTheme, HtmlVariant } from "../rendering/html/types.js";
+import type { RenderCitationWithStatus } from "../rendering/types.js";
+import type { Citation, VerificationRecord } from "../types/citation.js";
+import type { Verification } from "../types/verification.js";
+import { getCitationKey } from "../utils/citationKey.js";
+import { POPOVER_CSS } from "./popoverStyles.js";
+import { createPopoverState, hidePopover, showPopover } from "./runtime/popover.js";
+import type { VerificationData } from "./runtime/types.js";
+import type { CitationCloseEventDetail, CitationOpenEventDetail, CitationsRenderedEventDetail } from "./types.js";
+
+export type { CitationCloseEventDetail, CitationOpenEventDetail, CitationsRenderedEventDetail } from "./types.js";
+
+export const ANSWER_ELEMENT_NAME = "deep-citation-answer";
+export const MARKER_ELEMENT_NAME = "deep-citation-marker";
+
+const CLASS_PREFIX = "dc-";
+
+/** Lets this module be imported where HTMLElement doesn't exist (e.g. SSR); the elements only work in browsers. */
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement === "undefined" ? (class {} as unknown as typeof HTMLElement) : HTMLElement;
+
+const TRIGGER_CSS = `
+[data-citation-key] {
+  cursor: pointer;
+}
+
+[data-citation-key]:focus-visible {
+  outline: 2px solid var(--dc-pop-verified-text, #16a34a);
+  outline-offset: 2px;
+  border-radius: 2px;
+}`;
+
+const ANSWER_HOST_CSS = `
+:host {
+  display: block;
+}
+
+:host([hidden]) {
+  display: none;
+}
+
+.dc-answer[data-format="text"] {
+  white-space: pre-wrap;
+}
+${TRIGGER_CSS}`;
+
+const MARKER_HOST_CSS = `
+:host {
+  display: inline;
+}
+
+:host([hidden]) {
+  display: none;
+}
+${TRIGGER_CSS}`;
+
+/** Trigger styles for the theme, popover styles and the element's own styles. */
+function buildStyles(theme: HtmlTheme, hostCss: string): string {
+  const triggerCss = generateStyleBlock(CLASS_PREFIX, theme)
+    .replace(/^<style>\n?/, "")
+    .replace(/\n?<\/style>$/, "");
+  return `${triggerCss}\n${POPOVER_CSS}\n${hostCss}`;
+}
+
+/** Popover data for a citation; pending citations still show their quote. */
+function toPopoverData(
+  verification: Verification | null | undefined,
+  citation: Citation | null | undefined,
+  label?: string,
+): VerificationData {
+  return {
+    ...((verification ?? { status: "pending" }) as VerificationData),
+    ...(label && { label }),
+    ...(citation && {
+      citation: {
+        fullPhrase: citation.fullPhrase ?? undefined,
+        anchorText: citation.anchorText ?? undefined,
+        type: citation.type,
+      },
+    }),
+  };
+}
+
+/** Make citation triggers reachable and operable from the keyboard. */
+function makeTriggersFocusable(root: HTMLElement): void {
+  for (const trigger of root.querySelectorAll<HTMLElement>("[data-citation-key]")) {
+    trigger.tabIndex = 0;
+    trigger.setAttribute("role", "button");
+  }
+}
+
+function dispatch<T>(host: HTMLElement, type: string, detail: T): void {
+  host.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }));
+}
+
+/**
+ * Re-set properties that were assigned before the element was defined. Those
+ * are own properties of the instance and would shadow the class accessors.
+ */
+function upgradeProperties(element: HTMLElement, names: string[]): void {
+  const target = element as unknown as Record<string, unknown>;
+  for (const name of names) {
+    if (!Object.hasOwn(target, name)) continue;
+    const value = target[name];
+    delete target[name];
+    target[name] = value;
+  }
+}
+
+interface PopoverEntry {
+  data: VerificationData;
+  verification: Verification | null;
+}
+
+interface PopoverController {
+  /** Start listening for trigger activation and dismissal */
+  connect(): void;
+  /** Stop listening on the document */
+  disconnect(): void;
+  /** Close the open popover, if any */
+  close(): void;
+  /**
+   * After the triggers were re-rendered: move the open popover to the new trigger
+   * for its citation with fresh data, or close it if the citation is gone
+   */
+  refresh(): void;
+}
+
+/**
+ * Popover behavior shared by both elements: triggers inside `root` toggle the
+ * runtime popover (appended to `container`), clicks outside and Escape close it,
+ * and open/close are reported as events on `host`.
+ */
+function createPopoverController(
+  host: HTMLElement,
+  root: ShadowRoot,
+  container: HTMLElement,
+  lookup: (citationKey: string) => PopoverEntry | undefined,
+): PopoverController {
+  const state = createPopoverState(container);
+  /** Which of the triggers for the open citation is active, when a citation is cited more than once */
+  let activeOccurrence = 0;
+
+  const findTriggers = (citationKey: string) =>
+    Array.from(root.querySelectorAll<HTMLElement>("[data-citation-key]")).filter(
+      trigger => trigger.getAttribute("data-citation-key") === citationKey,
+    );
+
+  const dispatchClose = (trigger: HTMLElement) => {
+    const citationKey = trigger.getAttribute("data-citation-key") ?? "";
+    dispatch<CitationCloseEventDetail>(host, "citation-close", { citationKey });
+  };
+
+  const close = () => {
+    const trigger = state.activeTrigger;
+    if (!trigger) return;
+    hidePopover(state);
+    dispatchClose(trigger);
+  };
+
+  const toggle = (trigger: HTMLElement) => {
+    const citationKey = trigger.getAttribute("data-citation-key");
+    const entry = citationKey !== null ? lookup(citationKey) : undefined;
+    if (citationKey === null || !entry) return;
+
+    const previous = state.activeTrigger;
+    showPopover(state, trigger, entry.data);
+    if (previous) dispatchClose(previous);
+    if (state.activeTrigger === trigger) {
+      activeOccurrence = Math.max(0, findTriggers(citationKey).indexOf(trigger));
+      dispatch<CitationOpenEventDetail>(host, "citation-open", { citationKey, verification: entry.verification });
+    }
+  };
+
+  const refresh = () => {
+    const previous = state.activeTrigger;
+    if (!previous) return;
+    const citationKey = previous.getAttribute("data-citation-key") ?? "";
+    const entry = lookup(citationKey);
+    const triggers = findTriggers(citationKey);
+    const trigger = triggers[activeOccurrence] ?? triggers[0];
+    if (!entry || !trigger) {
+      close();
+      return;
+    }
+    if (trigger !== previous) showPopover(state, trigger, entry.data);
+  };
+
+  const findTrigger = (event: Event): HTMLElement | null => {
+    const target = event.target;
+    return target instanceof Element ? target.closest<HTMLElement>("[data-citation-key]") : null;
+  };
+
+  const onClick = (event: Event) => {
+    const trigger = findTrigger(event);
+    if (!trigger) return;
+    event.preventDefault();
+    toggle(trigger);
+  };
+
+  const onKeyDown = (event: Event) => {
+    const { key } = event as KeyboardEvent;
+    if (key !== "Enter" && key !== " ") return;
+    const trigger = findTrigger(event);
+    if (!trigger) return;
+    event.preventDefault();
+    toggle(trigger);
+  };
+
+  const onDocumentMouseDown = (event: MouseEvent) => {
+    if (!state.activeTrigger) return;
+    const path = event.composedPath();
+    if (state.el && path.includes(state.el)) return;
+    // Clicks on our own triggers are handled by toggle()
+    if (path.some(node => node instanceof Element && node.hasAttribute("data-citation-key") && root.contains(node))) {
+      return;
+    }
+    close();
+  };
+
+  const onDocumentKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Escape") close();
+  };
+
+  root.addEventListener("click", onClick);
+  root.addEventListener("keydown", onKeyDown);
+
+  return {
+    connect: () => {
+      document.addEventListener("mousedown", onDocumentMouseDown, true);
+      document.addEventListener("keydown", onDocumentKeyDown);
+    },
+    disconnect: () => {
+      document.removeEventListener("mousedown", onDocumentMouseDown, true);
+      document.removeEventListener("keydown", onDocumentKeyDown);
+    },
+    close,
+    refresh,
+  };
+}
+
+/**
+ * `<deep-citation-answer>`: renders `llmOutput` with citation markers and popovers.
+ *
+ * Set `llmOutput`, `verifications` and `sourceLabels` as properties. `variant`,
+ * `theme`, `indicator-style`, `markdown` and `proof-base-url` are also attributes.
+ */
+export class DeepCitationAnswerElement extends BaseElement {
+  static observedAttributes = ["variant", "theme", "indicator-style", "markdown", "proof-base-url"];
+
+  private _llmOutput = "";
+  private _verifications: VerificationRecord = {};
+  private _sourceLabels: Record<string, string> = {};
+  private _citations: RenderCitationWithStatus[] = [];
+  private entries = new Map<string, PopoverEntry>();
+  private renderQueued = false;
+  private readonly styleEl: HTMLStyleElement;
+  private readonly wrapper: HTMLDivElement;
+  private readonly content: HTMLDivElement;
+  private readonly popoverController: PopoverController;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: "open" });
+    this.styleEl = document.createElement("style");
+    this.wrapper = document.createElement("div");
+    this.content = document.createElement("div");
+    this.content.className = "dc-answer";
+    this.wrapper.appendChild(this.content);
+    shadow.append(this.styleEl, this.wrapper);
+    this.popoverController = createPopoverController(this, shadow, this.wrapper, key => this.entries.get(key));
+  }
+
+  /** Raw LLM response with `[N]` markers and the citation data block */
+  get llmOutput(): string {
+    return this._llmOutput;
+  }
+
+  set llmOutput(value: string) {
+    this._llmOutput = value ?? "";
+    this.requestRender();
+  }
+
+  /** Verification results keyed by citationKey */
+  get verifications(): VerificationRecord {
+    return this._verifications;
+  }
+
+  set verifications(value: VerificationRecord) {
+    this._verifications = value ?? {};
+    this.requestRender();
+  }
+
+  /** Attachment ID → display name mapping */
+  get sourceLabels(): Record<string, string> {
+    return this._sourceLabels;
+  }
+
+  set sourceLabels(value: Record<string, string>) {
+    this._sourceLabels = value ?? {};
+    this.requestRender();
+  }
+
+  /** Citations from the last render, in marker order */
+  get citations(): RenderCitationWithStatus[] {
+    return this._citations;
+  }
+
+  /** Citation display variant (default: "brackets") */
+  get variant(): HtmlVariant {
+    return (this.getAttribute("variant") as HtmlVariant | null) ?? "brackets";
+  }
+
+  set variant(value: HtmlVariant) {
+    this.setAttribute("variant", value);
+  }
+
+  /** Color theme (default: "auto") */
+  get theme(): HtmlTheme {
+    return (this.getAttribute("theme") as HtmlTheme | null) ?? "auto";
+  }
+
+  set theme(value: HtmlTheme) {
+    this.setAttribute("theme", value);
+  }
+
+  /** Indicator symbol set (default: "check") */
+  get indicatorStyle(): IndicatorStyle {
+    return (this.getAttribute("indicator-style") as IndicatorStyle | null) ?? "check";
+  }
+
+  set indicatorStyle(value: IndicatorStyle) {
+    this.setAttribute("indicator-style", value);
+  }
+
+  /** Render the answer as Markdown (CommonMark/GFM) instead of plain text (default: false) */
+  get markdown(): boolean {
+    return this.hasAttribute("markdown");
+  }
+
+  set markdown(value: boolean) {
+    this.toggleAttribute("markdown", value);
+  }
+
+  /** Base URL for proof links */
+  get proofBaseUrl(): string | undefined {
+    return this.getAttribute("proof-base-url") ?? undefined;
+  }
+
+  set proofBaseUrl(value: string | undefined) {
+    if (value) this.setAttribute("proof-base-url", value);
+    else this.removeAttribute("proof-base-url");
+  }
+
+  connectedCallback(): void {
+    upgradeProperties(this, ["llmOutput", "verifications", "sourceLabels"]);
+    this.popoverController.connect();
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    this.popoverController.close();
+    this.popoverController.disconnect();
+  }
+
+  attributeChangedCallback(): void {
+    this.requestRender();
+  }
+
+  /** Re-render now instead of on the next microtask. */
+  render(): void {
+    this.renderQueued = false;
+
+    const { theme, markdown } = this;
+    const output = renderCitationsAsHtml(this._llmOutput, {
+      verifications: this._verifications,
+      variant: this.variant,
+      indicatorStyle: this.indicatorStyle,
+      proofBaseUrl: this.proofBaseUrl,
+      sourceLabels: this._sourceLabels,
+      includeStyles: false,
+      inlineStyles: false,
+      includeTooltips: false, // Popovers replace tooltips
+      theme,
+      classPrefix: CLASS_PREFIX,
+      markdown,
+    });
+
+    this.styleEl.textContent = buildStyles(theme, ANSWER_HOST_CSS);
+    this.wrapper.setAttribute("data-dc-theme", theme);
+    this.content.setAttribute("data-format", markdown ? "markdown" : "text");
+    this.content.innerHTML = output.html;
+    makeTriggersFocusable(this.content);
+
+    this.entries = new Map(
+      output.citations.map(cws => {
+        const attachmentId = cws.citation.type !== "url" ? cws.citation.attachmentId : undefined;
+        const label = attachmentId ? this._sourceLabels[attachmentId] : undefined;
+        return [
+          cws.citationKey,
+          { data: toPopoverData(cws.verification, cws.citation, label), verification: cws.verification },
+        ];
+      }),
+    );
+    this._citations = output.citations;
+    this.popoverController.refresh();
+    dispatch<CitationsRenderedEventDetail>(this, "citations-rendered", { citations: output.citations });
+  }
+
+  private requestRender(): void {
+    if (this.renderQueued) return;
+    this.renderQueued = true;
+    queueMicrotask(() => {
+      if (this.renderQueued && this.isConnected) this.render();
+    });
+  }
+}
+
+/**
+ * `<deep-citation-marker>`: a single citation marker with its popover, for
+ * answers you lay out yourself.
+ *
+ * Set `verification` and optionally `citation` as properties. `citation-number`,
+ * `citation-key`, `variant`, `theme` and `indicator-style` are also attributes;
+ * the key defaults to the citation's key.
+ */
+export class DeepCitationMarkerElement extends BaseElement {
+  static observedAttributes = ["citation-number", "citation-key", "variant", "theme", "indicator-style"];
+
+  private _verification: Verification | null = null;
+  private _citation: Citation | null = null;
+  private renderQueued = false;
+  private readonly styleEl: HTMLStyleElement;
+  private readonly wrapper: HTMLSpanElement;
+  private readonly content: HTMLSpanElement;
+  private readonly popoverController: PopoverController;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: "open" });
+    this.styleEl = document.createElement("style");
+    this.wrapper = document.createElement("span");
+    this.content = document.createElement("span");
+    this.wrapper.appendChild(this.content);
+    shadow.append(this.styleEl, this.wrapper);
+    this.popoverController = createPopoverController(this, shadow, this.wrapper, () => ({
+      data: toPopoverData(this._verification, this._citation),
+      verification: this._verification,
+    }));
+  }
+
+  /** Verification result for the citation, or null while it is pending */
+  get verification(): Verification | null {
+    return this._verification;
+  }
+
+  set verification(value: Verification | null) {
+    this._verification = value ?? null;
+    this.requestRender();
+  }
+
+  /** The citation, for its quote, anchor text and default key */
+  get citation(): Citation | null {
+    return this._citation;
+  }
+
+  set citation(value: Citation | null) {
+    this._citation = value ?? null;
+    this.requestRender();
+  }
+
+  /** Number shown in the marker (default: 1) */
+  get citationNumber(): number {
+    const value = Number(this.getAttribute("citation-number"));
+    return Number.isFinite(value) && value > 0 ? value : 1;
+  }
+
+  set citationNumber(value: number) {
+    this.setAttribute("citation-number", String(value));
+  }
+
+  /** Citation key reported in events (default: the citation's key) */
+  get citationKey(): string {
+    return this.getAttribute("citation-key") ?? (this._citation ? getCitationKey(this._citation) : "");
+  }
+
+  set citationKey(value: string) {
+    this.setAttribute("citation-key", value);
+  }
+
+  /** Citation display variant (default: "brackets") */
+  get variant(): HtmlVariant {
+    return (this.getAttribute("variant") as HtmlVariant | null) ?? "brackets";
+  }
+
+  set variant(value: HtmlVariant) {
+    this.setAttribute("variant", value);
+  }
+
+  /** Color theme (default: "auto") */
+  get theme(): HtmlTheme {
+    return (this.getAttribute("theme") as HtmlTheme | null) ?? "auto";
+  }
+
+  set theme(value: HtmlTheme) {
+    this.setAttribute("theme", value);
+  }
+
+  /** Indicator symbol set (default: "check") */
+  get indicatorStyle(): IndicatorStyle {
+    return (this.getAttribute("indicator-style") as IndicatorStyle | null) ?? "check";
+  }
+
+  set indicatorStyle(value: IndicatorStyle) {
+    this.setAttribute("indicator-style", value);
+  }
+
+  connectedCallback(): void {
+    upgradeProperties(this, ["verification", "citation"]);
+    this.popoverController.connect();
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    this.popoverController.close();
+    this.popoverController.disconnect();
+  }
+
+  attributeChangedCallback(): void {
+    this.requestRender();
+  }
+
+  /** Re-render now instead of on the next microtask. */
+  render(): void {
+    this.renderQueued = false;
+
+    const { theme } = this;
+    const citation = this._citation;
+    this.styleEl.textContent = buildStyles(theme, MARKER_HOST_CSS);
+    this.wrapper.setAttribute("data-dc-theme", theme);
+    this.content.innerHTML = renderHtmlCitation({
+      citationNumber: this.citationNumber,
+      anchorText: citation?.anchorText ?? undefined,
+      status: getCitationStatus(this._verification),
+      indicatorStyle: this.indicatorStyle,
+      proofUrl: undefined,
+      variant: this.variant,
+      prefix: CLASS_PREFIX,
+      inlineStyles: false,
+      includeTooltips: false,
+      theme,
+      citationKey: this.citationKey,
+      attachmentId: citation && citation.type !== "url" ? (citation.attachmentId ?? undefined) : undefined,
+      pageNumber: citation && citation.type !== "url" ? (citation.pageNumber ?? undefined) : undefined,
+    });
+    makeTriggersFocusable(this.content);
+    this.popoverController.refresh();
+  }
+
+  private requestRender(): void {
+    if (this.renderQueued) return;
+    this.renderQueued = true;
+    queueMicrotask(() => {
+      if (this.renderQueued && this.isConnected) this.render();
+    });
+  }
+}
+
+/**
+ * Register `<deep-citation-answer>` and `<deep-citation-marker>`. Safe to call
+ * more than once, and a no-op outside the browser.
+ */
+export function defineDeepCitationElements(): void {
+  if (typeof customElements === "undefined") return;
+  if (!customElements.get(ANSWER_ELEMENT_NAME)) {
+    customElements.define(ANSWER_ELEMENT_NAME, DeepCitationAnswerElement);
+  }
+  if (!customElements.get(MARKER_ELEMENT_NAME)) {
+    customElements.define(MARKER_ELEMENT_NAME, DeepCitationMarkerElement);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "deep-citation-answer": DeepCitationAnswerElement;
+    "deep-citation-marker": DeepCitationMarkerElement;
+  }
+
+  interface HTMLElementEventMap {
+    "citation-open": CustomEvent<CitationOpenEventDetail>;
+    "citation-close": CustomEvent<CitationCloseEventDetail>;
+    "citations-rendered": CustomEvent<CitationsRenderedEventDetail>;
+  }
+}
@@ -1,2 +1,10 @@
+export { renderArchivalCitationReport } from "./archivalReport.js";
 export { renderCitationReport } from "./renderReport.js";
-export type { VanillaReportOptions } from "./types.js";
+export type {
+  ArchivalImage,
+  ArchivalImageSkip,
+  ArchivalImageSkipReason,
+  ArchivalReport,
+  ArchivalReportOptions,
+  VanillaReportOptions,
+} from "./types.js";
@@ -1,5 +1,6 @@
 import { renderCitationsAsHtml } from "../rendering/html/htmlRenderer.js";
 import { generateStyleBlock } from "../rendering/html/styles.js";
+import type { HtmlTheme } from "../rendering/html/types.js";
 import { RUNTIME_JS } from "./_generated.js";
 import { POPOVER_CSS } from "./popoverStyles.js";
 import type { VanillaReportOptions } from "./types.js";
@@ -49,6 +50,8 @@ export function renderCitationReport(input: string, options: VanillaReportOption
     classPrefix = "dc-",
     proofBaseUrl,
     sourceLabels = {},
+    markdown = false,
+    markdownImages = false,
   } = options;
 
   // Render citations using existing HTML renderer
@@ -63,6 +66,8 @@ export function renderCitationReport(input: string, options: VanillaReportOption
     includeTooltips: false, // Popovers replace tooltips
     theme,
     classPrefix,
+    markdown,
+    markdownImages,
   });
 
   const parts: string[] = [];
@@ -95,12 +100,20 @@ export function renderCitationReport(input: string, options: VanillaReportOption
 
   if (!fullPage) return body;
 
+  return wrapReportPage(body, { title, theme });
+}
+
+/**
+ * Wrap a report body in a full HTML document. `head` is inserted into `<head>` as-is.
+ */
+export function wrapReportPage(body: string, options: { title: string; theme: HtmlTheme; head?: string }): string {
+  const { title, theme, head } = options;
   return `<!DOCTYPE html>
 <html lang="en" data-dc-theme="${escapeHtml(theme)}">
 <head>
 <meta charset="UTF-8">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>${escapeHtml(title)}</title>
+${head ? `${head}\n` : ""}<title>${escapeHtml(title)}</title>
 </head>
 <body>
 ${body}
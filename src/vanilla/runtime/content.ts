@@ -31,6 +31,7 @@ const STATUS_LABELS: Record<string, { label: string; icon: string }> = {
   loading: { label: "Loading…", icon: "⏳" },
   pending: { label: "Pending", icon: "⏳" },
   skipped: { label: "Skipped", icon: "—" },
+  error: { label: "Verification Error", icon: "!" },
 };
 
 const STATUS_CLASSES: Record<string, string> = {
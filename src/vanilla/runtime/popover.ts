@@ -7,8 +7,9 @@ import type { PopoverState, VerificationData } from "./types.js";
 
 const SIDE_OFFSET = 8;
 
-export function createPopoverState(): PopoverState {
+export function createPopoverState(container: HTMLElement = document.body): PopoverState {
   return {
+    container,
     el: null,
     expandedEl: null,
     activeTrigger: null,
@@ -24,7 +25,7 @@ function ensurePopoverEl(state: PopoverState): HTMLDivElement {
     el.style.position = "fixed";
     el.style.zIndex = "10000";
     el.style.display = "none";
-    document.body.appendChild(el);
+    state.container.appendChild(el);
     state.el = el;
   }
   return state.el;
@@ -83,7 +84,7 @@ export function hidePopover(state: PopoverState): void {
 function showExpanded(state: PopoverState, imageSrc: string): void {
   if (state.expandedEl) hideExpanded(state);
   const overlay = buildExpandedView(imageSrc);
-  document.body.appendChild(overlay);
+  state.container.appendChild(overlay);
   state.expandedEl = overlay;
   state.isExpanded = true;
   state.savedBodyOverflow = document.body.style.overflow;
@@ -4,6 +4,8 @@
  */
 
 export interface PopoverState {
+  /** Element the popover and expanded view are appended to (document.body, or a shadow root wrapper) */
+  container: HTMLElement;
   /** Currently visible popover element (singleton) */
   el: HTMLDivElement | null;
   /** Expanded image overlay element */
@@ -1,6 +1,8 @@
 import type { IndicatorStyle } from "../markdown/types.js";
 import type { HtmlTheme, HtmlVariant } from "../rendering/html/types.js";
+import type { RenderCitationWithStatus } from "../rendering/types.js";
 import type { VerificationRecord } from "../types/citation.js";
+import type { Verification } from "../types/verification.js";
 
 /**
  * Options for `renderCitationReport()`.
@@ -38,4 +40,125 @@ export interface VanillaReportOptions {
 
   /** Attachment ID → display name mapping */
   sourceLabels?: Record<string, string>;
+
+  /** Render the answer as Markdown (CommonMark/GFM) instead of plain text (default: false) */
+  markdown?: boolean;
+
+  /** With `markdown`, render Markdown images as `<img>` instead of links (default: false) */
+  markdownImages?: boolean;
+}
+
+/**
+ * An evidence or page image fetched for an archival report.
+ */
+export interface ArchivalImage {
+  /** URL the image was fetched from */
+  url: string;
+  /** Image MIME type, e.g. "image/png" */
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+/** Why an image was left as a remote URL in an archival report. */
+export type ArchivalImageSkipReason =
+  | "fetch_failed" // Network error or non-2xx response
+  | "unsupported_type" // Not a raster image (SVG is never inlined)
+  | "too_large" // Over maxImageBytes, even after downscaleImage
+  | "total_limit"; // Would exceed maxTotalImageBytes
+
+export interface ArchivalImageSkip {
+  url: string;
+  reason: ArchivalImageSkipReason;
+}
+
+/**
+ * Options for `renderArchivalCitationReport()`. The report always includes the
+ * popover runtime and is always a full page.
+ */
+export interface ArchivalReportOptions
+  extends Omit<VanillaReportOptions, "fullPage" | "includeRuntime" | "markdownImages"> {
+  /** Fetch implementation used for images, e.g. to add auth headers or inject a test double (default: global fetch) */
+  fetch?: typeof fetch;
+
+  /** Also inline `pageImages[].imageUrl`, not just `evidence.src` (default: true) */
+  includePageImages?: boolean;
+
+  /** Largest image to inline, in bytes (default: 2 MB) */
+  maxImageBytes?: number;
+
+  /** Budget for all inlined images, in bytes; evidence images are inlined first (default: 20 MB) */
+  maxTotalImageBytes?: number;
+
+  /** Concurrent image fetches (default: 4) */
+  concurrency?: number;
+
+  /**
+   * Called for images over `maxImageBytes`. Return a smaller image (e.g. resized
+   * with sharp or a canvas), or null to leave the remote URL.
+   */
+  downscaleImage?: (image: ArchivalImage, maxBytes: number) => Promise<ArchivalImage | null>;
+
+  /** With `downscaleImage`, the largest image downloaded to downscale, in bytes (default: 20 MB) */
+  maxSourceImageBytes?: number;
+
+  /**
+   * Time allowed for each image download, in milliseconds. Images that take
+   * longer keep their remote URL and are skipped as `fetch_failed` (default: 30000)
+   */
+  timeoutMs?: number;
+
+  /** Cancels pending image downloads; the returned promise then rejects with `signal.reason` */
+  signal?: AbortSignal;
+
+  /** Generation time recorded in the report (default: now) */
+  generatedAt?: Date;
+}
+
+/**
+ * Result of `renderArchivalCitationReport()`.
+ */
+export interface ArchivalReport {
+  /** The self-contained HTML document */
+  html: string;
+
+  /** ISO 8601 generation timestamp, also in `<meta name="dc-generated-at">` */
+  generatedAt: string;
+
+  /**
+   * Hex SHA-256 of the generation time and the report content, also in
+   * `<meta name="dc-content-hash">`. To re-check a report, hash the
+   * `dc-generated-at` value, a newline, and the lines between the
+   * `<!-- dc-archive-content -->` and `<!-- /dc-archive-content -->` comment lines.
+   */
+  contentHash: string;
+
+  /** Number of distinct images inlined as data URIs */
+  embeddedImages: number;
+
+  /** Images left as remote URLs, with the reason */
+  skippedImages: ArchivalImageSkip[];
+}
+
+/**
+ * Detail of the `citation-open` event, dispatched when a citation popover opens.
+ */
+export interface CitationOpenEventDetail {
+  citationKey: string;
+  /** Verification result for the citation, or null while it is pending */
+  verification: Verification | null;
+}
+
+/**
+ * Detail of the `citation-close` event, dispatched when a citation popover closes.
+ */
+export interface CitationCloseEventDetail {
+  citationKey: string;
+}
+
+/**
+ * Detail of the `citations-rendered` event, dispatched by `<deep-citation-answer>` after each render.
+ */
+export interface CitationsRenderedEventDetail {
+  /** Citations in the rendered answer, in marker order */
+  citations: RenderCitationWithStatus[];
 }
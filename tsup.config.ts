@@ -6,6 +6,7 @@ export default defineConfig({
   entry: {
     index: "src/index.ts",
     "client/index": "src/client/index.ts",
+    "client/fileVerificationCacheStore": "src/client/fileVerificationCacheStore.ts",
     "drawing/index": "src/drawing/index.ts",
     "prompts/index": "src/prompts/index.ts",
     "types/index": "src/types/index.ts",
@@ -14,7 +15,10 @@ export default defineConfig({
     "rendering/github/githubRenderer": "src/rendering/github/githubRenderer.ts",
     "rendering/html/htmlRenderer": "src/rendering/html/htmlRenderer.ts",
     "rendering/terminal/terminalRenderer": "src/rendering/terminal/terminalRenderer.ts",
+    "rendering/teams/teamsRenderer": "src/rendering/teams/teamsRenderer.ts",
+    "rendering/discord/discordRenderer": "src/rendering/discord/discordRenderer.ts",
     "vanilla/index": "src/vanilla/index.ts",
+    "vanilla/elements": "src/vanilla/elements.ts",
   },
   format: ["esm", "cjs"],
   dts: {